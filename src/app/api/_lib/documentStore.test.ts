@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import { promises as fs, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// The document store reads its directory when first loaded
+process.env.CLONEHAUS_DATA_DIR = process.env.CLONEHAUS_DATA_DIR ?? mkdtempSync(path.join(tmpdir(), 'clonehaus-'));
+const loadStore = () => import('./documentStore');
+
+describe('Document Store', () => {
+    it('appends after a torn final line without corrupting the log', async () => {
+        const { appendLogRecords, logPath, readLogRecords } = await loadStore();
+        await appendLogRecords('torn-log', [{ sequence: 0 }]);
+        await fs.appendFile(logPath('torn-log'), '{"sequence":1,"summ', 'utf8');
+        expect(await readLogRecords('torn-log')).toEqual([{ sequence: 0 }]);
+
+        await appendLogRecords('torn-log', [{ sequence: 1 }, { sequence: 2 }]);
+
+        expect(await readLogRecords('torn-log')).toEqual([{ sequence: 0 }, { sequence: 1 }, { sequence: 2 }]);
+        expect(await fs.readFile(logPath('torn-log'), 'utf8')).toBe('{"sequence":0}\n{"sequence":1}\n{"sequence":2}\n');
+    });
+
+    it('drops a torn line that is the whole log', async () => {
+        const { appendLogRecords, logPath, readLogRecords } = await loadStore();
+        await fs.mkdir(path.dirname(logPath('torn-only')), { recursive: true });
+        await fs.writeFile(logPath('torn-only'), '{"seq', 'utf8');
+
+        await appendLogRecords('torn-only', [{ sequence: 0 }]);
+
+        expect(await readLogRecords('torn-only')).toEqual([{ sequence: 0 }]);
+    });
+});
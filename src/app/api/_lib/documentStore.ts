@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import type { FileHandle } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import path from 'path';
+
+/**
+ * Local Document Files (Phase 9A)
+ *
+ * Documents are JSON files in CLONEHAUS_DATA_DIR (default: ./.clonehaus),
+ * one per persistence key. Shared by the document store route and the
+ * decision API (Phase 9N), which reads the same documents the UI saves.
+ *
+ * Append-only logs (Phase 9Q) are JSON Lines files beside the documents
+ * (<key>.jsonl). The document store route never reads or writes them.
+ */
+
+export const DATA_DIR = process.env.CLONEHAUS_DATA_DIR ?? path.join(process.cwd(), '.clonehaus');
+
+export function documentPath(key: string): string {
+    return path.join(DATA_DIR, `${key}.json`);
+}
+
+/**
+ * Parsed document, or null if it was never saved.
+ */
+export async function readDocument<T>(key: string): Promise<T | null> {
+    try {
+        return JSON.parse(await fs.readFile(documentPath(key), 'utf8')) as T;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+/**
+ * Replace a document. Writes go to a temp file first and are renamed into
+ * place, so a crash mid-write never leaves a truncated document behind.
+ * Each write has its own temp file, so concurrent writes of one key never share one.
+ */
+export async function writeDocument(key: string, value: unknown): Promise<void> {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    const target = documentPath(key);
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(value, null, 2), 'utf8');
+    await fs.rename(temp, target);
+}
+
+// ============================================================================
+// APPEND-ONLY LOGS (PHASE 9Q)
+// ============================================================================
+
+export function logPath(key: string): string {
+    return path.join(DATA_DIR, `${key}.jsonl`);
+}
+
+/**
+ * Append records to a log, one JSON line each, in a single write.
+ * A torn final line left by an earlier crash is cut off first, so the new
+ * records start on a line of their own.
+ */
+export async function appendLogRecords(key: string, records: unknown[]): Promise<void> {
+    if (records.length === 0) return;
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    await dropTornTail(logPath(key));
+    await fs.appendFile(logPath(key), records.map(r => `${JSON.stringify(r)}\n`).join(''), 'utf8');
+}
+
+const NEWLINE = 0x0a;
+const TAIL_CHUNK_BYTES = 4096;
+
+/**
+ * Truncate a log after its last complete line when it does not end in a newline.
+ * Reads backwards from the end, so an intact log costs one byte.
+ */
+async function dropTornTail(file: string): Promise<void> {
+    let handle: FileHandle;
+    try {
+        handle = await fs.open(file, 'r+');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+        throw error;
+    }
+
+    try {
+        const { size } = await handle.stat();
+        const chunk = Buffer.alloc(TAIL_CHUNK_BYTES);
+        if (size === 0) return;
+        await handle.read(chunk, 0, 1, size - 1);
+        if (chunk[0] === NEWLINE) return;
+
+        let end = size;
+        while (end > 0) {
+            const start = Math.max(0, end - TAIL_CHUNK_BYTES);
+            const { bytesRead } = await handle.read(chunk, 0, end - start, start);
+            const index = chunk.subarray(0, bytesRead).lastIndexOf(NEWLINE);
+            if (index !== -1) {
+                await handle.truncate(start + index + 1);
+                return;
+            }
+            end = start;
+        }
+        await handle.truncate(0);
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Every record in a log, oldest first, or [] if nothing was ever appended.
+ * A torn final line (a crash mid-append) is skipped; any other unreadable line throws.
+ */
+export async function readLogRecords<T>(key: string): Promise<T[]> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(logPath(key), 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+
+    const lines = raw.split('\n').filter(line => line.trim() !== '');
+    return lines.flatMap((line, index) => {
+        try {
+            return [JSON.parse(line) as T];
+        } catch (error) {
+            if (index === lines.length - 1 && !raw.endsWith('\n')) return [];
+            throw error;
+        }
+    });
+}
@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import { NextResponse } from 'next/server';
+import { isValidPersistenceKey } from '@/state/persistence';
+import { documentPath, writeDocument } from '@/app/api/_lib/documentStore';
+
+/**
+ * Local Document Store Route (Phase 9A)
+ *
+ * GET  /api/store/[key] → stored JSON document, or 404 if never saved
+ * PUT  /api/store/[key] → replace the stored document (a JSON object or array)
+ *
+ * Documents are written as JSON files in CLONEHAUS_DATA_DIR (default: ./.clonehaus).
+ * Writes go to a temp file first and are renamed into place, so a crash
+ * mid-write never leaves a truncated document behind.
+ */
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { key: string } };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+    if (!isValidPersistenceKey(params.key)) {
+        return NextResponse.json({ error: 'Invalid document key' }, { status: 400 });
+    }
+
+    try {
+        const raw = await fs.readFile(documentPath(params.key), 'utf8');
+        return new NextResponse(raw, {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+        }
+        console.error(`Failed to read document "${params.key}":`, error);
+        return NextResponse.json({ error: 'Failed to read document' }, { status: 500 });
+    }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+    if (!isValidPersistenceKey(params.key)) {
+        return NextResponse.json({ error: 'Invalid document key' }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+    // Every document is an object or a list; anything else is a client bug, not a document
+    if (typeof body !== 'object' || body === null) {
+        return NextResponse.json({ error: 'Document must be a JSON object or array' }, { status: 400 });
+    }
+
+    try {
+        await writeDocument(params.key, body);
+        return new NextResponse(null, { status: 204 });
+    } catch (error) {
+        console.error(`Failed to write document "${params.key}":`, error);
+        return NextResponse.json({ error: 'Failed to write document' }, { status: 500 });
+    }
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from '@jest/globals';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { recordGovernanceEvent, verifyAuditLedger } from '@/logic/audit/auditLedger';
+
+// The document store reads its directory when first loaded
+process.env.CLONEHAUS_DATA_DIR = process.env.CLONEHAUS_DATA_DIR ?? mkdtempSync(path.join(tmpdir(), 'clonehaus-'));
+const loadStore = () => import('./auditLedgerStore');
+
+describe('Audit Ledger Store', () => {
+    it('chains concurrent changes one after another', async () => {
+        const { readAuditLedger, withAuditLedger } = await loadStore();
+        const approve = (subjectId: string) => withAuditLedger('org-concurrent-ledger', () => recordGovernanceEvent({
+            type: 'STAGED_ACTION_APPROVED',
+            actor: 'reviewer',
+            subjectId,
+            summary: `Approved ${subjectId}`,
+            changes: [{ field: 'state', before: 'STAGED', after: 'APPROVED' }],
+        }));
+
+        await Promise.all([approve('staged-1'), approve('staged-2'), approve('staged-3')]);
+
+        const ledger = await readAuditLedger('org-concurrent-ledger');
+        expect(ledger.map(e => e.subjectId)).toEqual(['staged-1', 'staged-2', 'staged-3']);
+        expect(verifyAuditLedger(ledger).intact).toBe(true);
+    });
+});
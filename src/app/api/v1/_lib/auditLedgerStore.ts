@@ -0,0 +1,35 @@
+import { PERSISTENCE_KEYS, scopePersistenceKey } from '@/state/persistence';
+import { AuditEntry, getAuditLedger, replaceAuditLedger } from '@/logic/audit/auditLedger';
+import { appendLogRecords, readLogRecords } from '@/app/api/_lib/documentStore';
+import { withOrganizationLock } from './organizationLock';
+
+/**
+ * Audit Ledger Store (Phase 9R)
+ *
+ * One hash-chained JSON Lines log per organization, for governance decisions
+ * made through the decision API.
+ */
+
+export async function readAuditLedger(organizationId: string): Promise<AuditEntry[]> {
+    return readLogRecords<AuditEntry>(scopePersistenceKey(PERSISTENCE_KEYS.AUDIT_LEDGER, organizationId));
+}
+
+/**
+ * Run a governance change against the organization's ledger and append the
+ * entries it recorded. Call before saving the changed state, so nothing is
+ * saved without its audit record.
+ *
+ * Reading the ledger, running the change and appending its entries all happen
+ * under the organization lock, so concurrent changes each chain onto the
+ * entry the other appended instead of forking the chain.
+ */
+export async function withAuditLedger<T>(organizationId: string, change: () => T): Promise<T> {
+    return withOrganizationLock(organizationId, async () => {
+        const ledger = await readAuditLedger(organizationId);
+        replaceAuditLedger(ledger);
+        const result = change();
+        const recorded = getAuditLedger().slice(ledger.length);
+        await appendLogRecords(scopePersistenceKey(PERSISTENCE_KEYS.AUDIT_LEDGER, organizationId), recorded);
+        return result;
+    });
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DecisionConfiguration, decide, stageAction } from '@/logic/runtime/decisionService';
+import { DEFAULT_ACTION_CATALOG } from '@/logic/actions/actionCatalog';
+import {
+    clearLearnedPolicies,
+    confirmPolicyProposal,
+    createApprovalIntent,
+    derivePolicyChangeProposal,
+    getAllLearnedPolicies,
+} from '@/logic/staging/stagedActions';
+import { PolicySet } from '@/logic/policy/policyApplication';
+import { PERSISTENCE_KEYS, scopePersistenceKey } from '@/state/persistence';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+
+// The document store reads its directory when first loaded
+process.env.CLONEHAUS_DATA_DIR = process.env.CLONEHAUS_DATA_DIR ?? mkdtempSync(path.join(tmpdir(), 'clonehaus-'));
+const loadDecisionApi = () => import('./decisionApi');
+const loadDocumentStore = () => import('@/app/api/_lib/documentStore');
+
+describe('Decision API configuration', () => {
+    const request = { agentId: 'agt-fin-recon', actionId: 'finance_match_transactions' };
+
+    it('applies the policies the UI saved for the organization', async () => {
+        const { loadDecisionConfiguration } = await loadDecisionApi();
+        const { writeDocument } = await loadDocumentStore();
+
+        const unconfigured: DecisionConfiguration = { structure: PHASE0_DATA, catalog: DEFAULT_ACTION_CATALOG };
+        clearLearnedPolicies();
+        const intent = createApprovalIntent(stageAction(unconfigured, request), 'POLICY_CHANGE', 'Matching rules are being revised this quarter');
+        const proposal = derivePolicyChangeProposal(intent);
+        if (!proposal) throw new Error('No proposal derived');
+        confirmPolicyProposal(proposal);
+        const saved: PolicySet = { policies: getAllLearnedPolicies(), overrides: [] };
+        clearLearnedPolicies();
+
+        await writeDocument(scopePersistenceKey(PERSISTENCE_KEYS.POLICIES, PHASE0_DATA.organization.id), saved);
+        const configuration = await loadDecisionConfiguration();
+
+        expect(configuration.policies).toEqual(saved);
+        const [policy] = saved.policies;
+        expect(decide(configuration, request).reasoning.appliedConstraints.map(c => c.description))
+            .toContain(`Learned policy ${policy.policyId}: ${policy.constraint.description}.`);
+    });
+});
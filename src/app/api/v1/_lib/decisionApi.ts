@@ -0,0 +1,152 @@
+import { NextResponse } from 'next/server';
+import { Phase0Data } from '@/app/data/types';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+import { PERSISTENCE_KEYS, scopePersistenceKey } from '@/state/persistence';
+import { Workspace, WorkspaceOrganization, createEmptyOrganizationData } from '@/logic/workspace/workspace';
+import { ActionCatalog, DEFAULT_ACTION_CATALOG, validateActionCatalog } from '@/logic/actions/actionCatalog';
+import { PersonaAssignments } from '@/logic/persona/personaIdentityMapping';
+import { PolicySet } from '@/logic/policy/policyApplication';
+import { upgradeLegacyConstraints } from '@/logic/constraints/domainConstraints';
+import { summarizeValidation, validatePhase0Data } from '@/logic/validation/validatePhase0Data';
+import {
+    DECISION_ERROR_STATUS,
+    DecisionConfiguration,
+    DecisionError,
+    toDecisionErrorBody,
+} from '@/logic/runtime/decisionService';
+import { readDocument } from '@/app/api/_lib/documentStore';
+
+/**
+ * Decision API Helpers (Phase 9N)
+ *
+ * Loads an organization's configuration from the local document store,
+ * the same documents the UI saves through API persistence, and maps
+ * decision errors to HTTP responses.
+ *
+ * Organization resolution: the requested organization, else the workspace's
+ * active organization, else the seed organization. Missing documents fall
+ * back exactly as the UI does (seed structure or an empty organization, and
+ * the default action catalog). Persona identities (Phase 9T) and learned
+ * policies with their overrides (Phase 9U) come from the documents the UI
+ * saves alongside the structure.
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+interface ResolvedOrganization {
+    orgId: string;
+    entry: WorkspaceOrganization | undefined;     // Undefined for the seed organization before a workspace exists
+}
+
+async function resolveOrganization(organizationId?: string): Promise<ResolvedOrganization> {
+    const workspace = await readDocument<Workspace>(PERSISTENCE_KEYS.WORKSPACE);
+    const seedId = PHASE0_DATA.organization.id;
+    const orgId = organizationId ?? workspace?.activeOrganizationId ?? seedId;
+    const entry = workspace?.organizations.find(o => o.organizationId === orgId);
+
+    if (orgId !== seedId && !entry) {
+        throw new DecisionError(`Unknown organization "${orgId}"`, 'UNKNOWN_ORGANIZATION');
+    }
+    return { orgId, entry };
+}
+
+/**
+ * The organization a request addresses, without loading its configuration.
+ * Records (staged actions, the verdict log) stay readable when the stored
+ * configuration is invalid (Phase 9Q).
+ *
+ * @throws DecisionError (UNKNOWN_ORGANIZATION)
+ */
+export async function resolveOrganizationId(organizationId?: string): Promise<string> {
+    return (await resolveOrganization(organizationId)).orgId;
+}
+
+export async function loadDecisionConfiguration(organizationId?: string): Promise<DecisionConfiguration> {
+    const { orgId, entry } = await resolveOrganization(organizationId);
+    const seedId = PHASE0_DATA.organization.id;
+
+    const stored = await readDocument<Phase0Data>(scopePersistenceKey(PERSISTENCE_KEYS.STRUCTURE, orgId))
+        ?? (orgId === seedId ? await readDocument<Phase0Data>(PERSISTENCE_KEYS.STRUCTURE) : null);
+    const structure = upgradeLegacyConstraints(stored)
+        ?? (entry && orgId !== seedId ? createEmptyOrganizationData(entry) : PHASE0_DATA);
+
+    const validation = validatePhase0Data(structure, { organizationId: orgId });
+    if (!validation.valid) {
+        throw new DecisionError(`Stored structure is invalid: ${summarizeValidation(validation)}`, 'INVALID_CONFIGURATION');
+    }
+
+    const catalog = await readDocument<ActionCatalog>(scopePersistenceKey(PERSISTENCE_KEYS.ACTION_CATALOG, orgId))
+        ?? DEFAULT_ACTION_CATALOG;
+    const catalogIssues = validateActionCatalog(catalog);
+    if (catalogIssues.length > 0) {
+        throw new DecisionError(
+            `Stored action catalog is invalid: ${catalogIssues[0].path}: ${catalogIssues[0].message}`,
+            'INVALID_CONFIGURATION'
+        );
+    }
+
+    // Phase 9T/9U: Without saved documents, no agent has a persona and no policy applies
+    const personas = await readDocument<PersonaAssignments>(scopePersistenceKey(PERSISTENCE_KEYS.PERSONAS, orgId))
+        ?? undefined;
+    const policies = await readDocument<PolicySet>(scopePersistenceKey(PERSISTENCE_KEYS.POLICIES, orgId))
+        ?? undefined;
+
+    return { structure, catalog, personas, policies };
+}
+
+// ============================================================================
+// REQUESTS AND RESPONSES
+// ============================================================================
+
+/**
+ * Parsed JSON body.
+ * @throws DecisionError (INVALID_REQUEST) when the body is not JSON
+ */
+export async function readJsonBody(request: Request): Promise<unknown> {
+    try {
+        return await request.json();
+    } catch {
+        throw new DecisionError('Request body must be valid JSON', 'INVALID_REQUEST');
+    }
+}
+
+/**
+ * The optional organizationId field of a request body.
+ * @throws DecisionError (INVALID_REQUEST) when present but not a string
+ */
+export function readOrganizationId(body: unknown): string | undefined {
+    if (typeof body !== 'object' || body === null || !('organizationId' in body)) return undefined;
+    const value = (body as { organizationId: unknown }).organizationId;
+    if (typeof value !== 'string' || value.trim() === '') {
+        throw new DecisionError('The decision request is invalid', 'INVALID_REQUEST', [
+            { path: 'organizationId', message: 'Must be a non-empty string' },
+        ]);
+    }
+    return value;
+}
+
+/**
+ * The optional organizationId query parameter of a GET request.
+ */
+export function readOrganizationIdParam(request: Request): string | undefined {
+    return new URL(request.url).searchParams.get('organizationId') ?? undefined;
+}
+
+/**
+ * Remove organizationId, which addresses the configuration rather than the decision.
+ */
+export function withoutOrganizationId(body: unknown): unknown {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) return body;
+    const { organizationId: _organizationId, ...rest } = body as Record<string, unknown>;
+    return rest;
+}
+
+export function errorResponse(error: unknown): NextResponse {
+    if (!(error instanceof DecisionError)) {
+        console.error('Decision API failure:', error);
+    }
+    const body = toDecisionErrorBody(error);
+    return NextResponse.json(body, { status: DECISION_ERROR_STATUS[body.code] });
+}
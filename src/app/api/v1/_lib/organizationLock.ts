@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Organization Lock (Phase 9O)
+ *
+ * Serializes read-change-write sequences on an organization's documents and
+ * logs within this server process. Tasks for one organization run one at a
+ * time, in the order they asked; other organizations are not held up.
+ *
+ * Re-entrant: a task already holding an organization's lock can call code
+ * that takes it again (e.g. an approval that appends to the audit ledger).
+ *
+ * CRITICAL: Only guards requests served by this process. Several server
+ * processes sharing one data directory still need a lock between them.
+ */
+
+const tails = new Map<string, Promise<unknown>>();
+const held = new AsyncLocalStorage<ReadonlySet<string>>();
+
+export async function withOrganizationLock<T>(organizationId: string, task: () => Promise<T>): Promise<T> {
+    const holding = held.getStore();
+    if (holding?.has(organizationId)) return task();
+
+    const previous = tails.get(organizationId) ?? Promise.resolve();
+    const run = previous
+        .catch(() => undefined)
+        .then(() => held.run(new Set([...Array.from(holding ?? []), organizationId]), task));
+    tails.set(organizationId, run);
+
+    try {
+        return await run;
+    } finally {
+        // Forget the queue once the last task in it is done
+        if (tails.get(organizationId) === run) tails.delete(organizationId);
+    }
+}
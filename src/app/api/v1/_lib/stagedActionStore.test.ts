@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DecisionConfiguration, DecisionError, applyApprovalDecision, stageAction } from '@/logic/runtime/decisionService';
+import { DEFAULT_ACTION_CATALOG } from '@/logic/actions/actionCatalog';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+
+// The document store reads its directory when first loaded
+process.env.CLONEHAUS_DATA_DIR = process.env.CLONEHAUS_DATA_DIR ?? mkdtempSync(path.join(tmpdir(), 'clonehaus-'));
+const loadStore = () => import('./stagedActionStore');
+
+describe('Staged Action Store', () => {
+    const configuration: DecisionConfiguration = { structure: PHASE0_DATA, catalog: DEFAULT_ACTION_CATALOG };
+    const stage = () => stageAction(configuration, { agentId: 'agt-fin-recon', actionId: 'finance_match_transactions' });
+
+    it('keeps every action staged concurrently', async () => {
+        const { loadStagedActions, saveStagedAction } = await loadStore();
+        const staged = [stage(), stage(), stage()];
+
+        await Promise.all(staged.map(action => saveStagedAction('org-concurrent-staging', action)));
+
+        const stored = await loadStagedActions('org-concurrent-staging');
+        expect(stored.map(a => a.id).sort()).toEqual(staged.map(a => a.id).sort());
+    });
+
+    it('decides an action once when approval and rejection race', async () => {
+        const { getStagedAction, saveStagedAction, updateStagedAction } = await loadStore();
+        const action = stage();
+        await saveStagedAction('org-concurrent-decision', action);
+
+        const outcomes = await Promise.allSettled([
+            updateStagedAction('org-concurrent-decision', action.id, async a => applyApprovalDecision(a, { decision: 'APPROVE' })),
+            updateStagedAction('org-concurrent-decision', action.id, async a => applyApprovalDecision(a, { decision: 'REJECT', reason: 'Matching rules are changing' })),
+        ]);
+
+        expect(outcomes.map(o => o.status)).toEqual(['fulfilled', 'rejected']);
+        const failure = outcomes[1].status === 'rejected' ? outcomes[1].reason : null;
+        expect(failure instanceof DecisionError && failure.code).toBe('INVALID_TRANSITION');
+        expect((await getStagedAction('org-concurrent-decision', action.id)).state).toBe('APPROVED');
+    });
+});
@@ -0,0 +1,62 @@
+import { PERSISTENCE_KEYS, scopePersistenceKey } from '@/state/persistence';
+import { StagedAction } from '@/logic/staging/stagedActions';
+import { DecisionError } from '@/logic/runtime/decisionService';
+import { readDocument, writeDocument } from '@/app/api/_lib/documentStore';
+import { withOrganizationLock } from './organizationLock';
+
+/**
+ * Staged Action Store (Phase 9O)
+ *
+ * Actions staged through the decision API, one document per organization.
+ * Staged actions are never deleted; approval and rejection replace the entry.
+ *
+ * Every change reads, changes and writes the document under the organization
+ * lock, so concurrent stagings and decisions never overwrite each other.
+ */
+
+export async function loadStagedActions(organizationId: string): Promise<StagedAction[]> {
+    return await readDocument<StagedAction[]>(scopePersistenceKey(PERSISTENCE_KEYS.STAGED_ACTIONS, organizationId)) ?? [];
+}
+
+/**
+ * @throws DecisionError (UNKNOWN_STAGED_ACTION) when no such staged action exists
+ */
+export async function getStagedAction(organizationId: string, id: string): Promise<StagedAction> {
+    const action = (await loadStagedActions(organizationId)).find(a => a.id === id);
+    if (!action) {
+        throw new DecisionError(`Unknown staged action "${id}"`, 'UNKNOWN_STAGED_ACTION');
+    }
+    return action;
+}
+
+/**
+ * Insert or replace a staged action.
+ */
+export async function saveStagedAction(organizationId: string, action: StagedAction): Promise<void> {
+    await withOrganizationLock(organizationId, async () => {
+        const actions = await loadStagedActions(organizationId);
+        const next = actions.some(a => a.id === action.id)
+            ? actions.map(a => (a.id === action.id ? action : a))
+            : [...actions, action];
+        await writeDocument(scopePersistenceKey(PERSISTENCE_KEYS.STAGED_ACTIONS, organizationId), next);
+    });
+}
+
+/**
+ * Replace a staged action with update's result, given its current stored state.
+ * Nothing else changes the organization's staged actions until it is saved,
+ * so a check update makes on that state still holds when it is written.
+ *
+ * @throws DecisionError (UNKNOWN_STAGED_ACTION) when no such staged action exists
+ */
+export async function updateStagedAction(
+    organizationId: string,
+    id: string,
+    update: (action: StagedAction) => Promise<StagedAction>
+): Promise<StagedAction> {
+    return withOrganizationLock(organizationId, async () => {
+        const updated = await update(await getStagedAction(organizationId, id));
+        await saveStagedAction(organizationId, updated);
+        return updated;
+    });
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from '@jest/globals';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DecisionConfiguration, decide } from '@/logic/runtime/decisionService';
+import { createVerdictLogEntry } from '@/logic/runtime/verdictLog';
+import { DEFAULT_ACTION_CATALOG } from '@/logic/actions/actionCatalog';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+
+// The document store reads its directory when first loaded
+process.env.CLONEHAUS_DATA_DIR = process.env.CLONEHAUS_DATA_DIR ?? mkdtempSync(path.join(tmpdir(), 'clonehaus-'));
+const loadStore = () => import('./verdictLogStore');
+
+describe('Verdict Log Store', () => {
+    const configuration: DecisionConfiguration = { structure: PHASE0_DATA, catalog: DEFAULT_ACTION_CATALOG };
+
+    it('appends concurrent batches one after another', async () => {
+        const { readVerdictLog, recordVerdicts } = await loadStore();
+        // Each batch lands whole, in the order the requests arrived
+        const batches = DEFAULT_ACTION_CATALOG.entries.map(action => {
+            const verdict = decide(configuration, { agentId: 'agt-fin-recon', actionId: action.id });
+            return Array.from({ length: 50 }, () => createVerdictLogEntry('org-concurrent-verdicts', 'BATCH', undefined, verdict));
+        });
+
+        await Promise.all(batches.map(batch => recordVerdicts('org-concurrent-verdicts', batch)));
+
+        const log = await readVerdictLog('org-concurrent-verdicts');
+        expect(log.map(e => e.entryId)).toEqual(batches.flat().map(e => e.entryId));
+    });
+});
@@ -0,0 +1,25 @@
+import { PERSISTENCE_KEYS, scopePersistenceKey } from '@/state/persistence';
+import { VerdictLogEntry } from '@/logic/runtime/verdictLog';
+import { appendLogRecords, readLogRecords } from '@/app/api/_lib/documentStore';
+import { withOrganizationLock } from './organizationLock';
+
+/**
+ * Verdict Log Store (Phase 9Q)
+ *
+ * One append-only JSON Lines log per organization. Routes record every
+ * verdict before returning it; if recording fails the request fails, so no
+ * caller is ever told something the log does not show.
+ *
+ * Appends hold the organization lock: appending first trims a torn final
+ * line, which must not race another request's half-written one.
+ */
+
+export async function recordVerdicts(organizationId: string, entries: VerdictLogEntry[]): Promise<void> {
+    await withOrganizationLock(organizationId, () =>
+        appendLogRecords(scopePersistenceKey(PERSISTENCE_KEYS.VERDICT_LOG, organizationId), entries)
+    );
+}
+
+export async function readVerdictLog(organizationId: string): Promise<VerdictLogEntry[]> {
+    return readLogRecords<VerdictLogEntry>(scopePersistenceKey(PERSISTENCE_KEYS.VERDICT_LOG, organizationId));
+}
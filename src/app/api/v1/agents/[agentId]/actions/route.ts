@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { listActions } from '@/logic/runtime/decisionService';
+import { errorResponse, loadDecisionConfiguration, readOrganizationIdParam } from '@/app/api/v1/_lib/decisionApi';
+
+/**
+ * Agent Actions Route (Phase 9O)
+ *
+ * GET /api/v1/agents/[agentId]/actions?organizationId= → { actions: DoAction[] }
+ */
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { agentId: string } };
+
+export async function GET(request: Request, { params }: RouteContext) {
+    try {
+        const configuration = await loadDecisionConfiguration(readOrganizationIdParam(request));
+        return NextResponse.json({ actions: listActions(configuration, params.agentId) });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { recordGovernanceEvent, verifyAuditLedger } from '@/logic/audit/auditLedger';
+import { parseGovernanceEvents } from '@/logic/runtime/decisionService';
+import {
+    errorResponse,
+    readJsonBody,
+    readOrganizationId,
+    readOrganizationIdParam,
+    resolveOrganizationId,
+    withoutOrganizationId,
+} from '@/app/api/v1/_lib/decisionApi';
+import { readAuditLedger, withAuditLedger } from '@/app/api/v1/_lib/auditLedgerStore';
+
+/**
+ * Audit Ledger Route (Phase 9R)
+ *
+ * GET /api/v1/audit-ledger?organizationId= → { entries: AuditEntry[], verification: AuditVerification }
+ * POST /api/v1/audit-ledger → 201 { entries, verification } for { organizationId?, events: GovernanceEvent[] }
+ *
+ * Entries are oldest first, as chained. The verification is recomputed on
+ * every read; there is no route to change or remove entries.
+ *
+ * POST chains governance decisions made in the UI onto the same ledger as
+ * the API's own, so each organization has one persisted chain. The server
+ * assigns sequence, time and hashes; the response is the whole chain.
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+    try {
+        const entries = await readAuditLedger(await resolveOrganizationId(readOrganizationIdParam(request)));
+        return NextResponse.json({ entries, verification: verifyAuditLedger(entries) });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const body = await readJsonBody(request);
+        const organizationId = readOrganizationId(body);
+        const events = parseGovernanceEvents(withoutOrganizationId(body));
+        const orgId = await resolveOrganizationId(organizationId);
+        await withAuditLedger(orgId, () => events.forEach(event => recordGovernanceEvent(event)));
+        const entries = await readAuditLedger(orgId);
+        return NextResponse.json({ entries, verification: verifyAuditLedger(entries) }, { status: 201 });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
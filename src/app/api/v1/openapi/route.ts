@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { DECISION_API_SPEC } from '@/logic/runtime/decisionApiSpec';
+
+/**
+ * OpenAPI Route (Phase 9N)
+ *
+ * GET /api/v1/openapi → OpenAPI 3.0 document for the v1 decision API
+ */
+
+export async function GET() {
+    return NextResponse.json(DECISION_API_SPEC);
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { assessReadiness, parseDecisionRequest } from '@/logic/runtime/decisionService';
+import { createVerdictLogEntry } from '@/logic/runtime/verdictLog';
+import {
+    errorResponse,
+    loadDecisionConfiguration,
+    readJsonBody,
+    readOrganizationId,
+    withoutOrganizationId,
+} from '@/app/api/v1/_lib/decisionApi';
+import { recordVerdicts } from '@/app/api/v1/_lib/verdictLogStore';
+
+/**
+ * Execution Readiness Route (Phase 9N)
+ *
+ * POST /api/v1/readiness → { verdict, readiness } for { organizationId?, agentId, actionId, context? }
+ *
+ * Same request and errors as /api/v1/verdicts; the readiness is derived from the returned verdict.
+ * Phase 9Q: The verdict is recorded in the verdict log.
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+    try {
+        const body = await readJsonBody(request);
+        const organizationId = readOrganizationId(body);
+        const decisionRequest = parseDecisionRequest(withoutOrganizationId(body));
+        const configuration = await loadDecisionConfiguration(organizationId);
+        const decision = assessReadiness(configuration, decisionRequest);
+        const orgId = configuration.structure.organization.id;
+        await recordVerdicts(orgId, [createVerdictLogEntry(orgId, 'READINESS', decisionRequest.context, decision.verdict)]);
+        return NextResponse.json(decision);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
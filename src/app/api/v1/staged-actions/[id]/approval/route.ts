@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { applyApprovalDecision, parseApprovalDecision } from '@/logic/runtime/decisionService';
+import {
+    errorResponse,
+    loadDecisionConfiguration,
+    readJsonBody,
+    readOrganizationId,
+    withoutOrganizationId,
+} from '@/app/api/v1/_lib/decisionApi';
+import { updateStagedAction } from '@/app/api/v1/_lib/stagedActionStore';
+import { withAuditLedger } from '@/app/api/v1/_lib/auditLedgerStore';
+
+/**
+ * Staged Action Approval Route (Phase 9O)
+ *
+ * POST /api/v1/staged-actions/[id]/approval → StagedAction for { organizationId?, decision, reason? }
+ *
+ * decision is APPROVE or REJECT; rejecting requires a reason. Each staged
+ * action is decided once (409 INVALID_TRANSITION afterwards).
+ *
+ * Phase 9R: The decision is chained onto the organization's audit ledger before it is saved.
+ * The state check, ledger entry and save happen under the organization lock,
+ * so of two concurrent decisions only the first succeeds.
+ */
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { id: string } };
+
+export async function POST(request: Request, { params }: RouteContext) {
+    try {
+        const body = await readJsonBody(request);
+        const organizationId = readOrganizationId(body);
+        const approval = parseApprovalDecision(withoutOrganizationId(body));
+        const configuration = await loadDecisionConfiguration(organizationId);
+        const orgId = configuration.structure.organization.id;
+        const decided = await updateStagedAction(orgId, params.id, action =>
+            withAuditLedger(orgId, () => applyApprovalDecision(action, approval))
+        );
+        return NextResponse.json(decided);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
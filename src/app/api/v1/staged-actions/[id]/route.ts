@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, readOrganizationIdParam, resolveOrganizationId } from '@/app/api/v1/_lib/decisionApi';
+import { getStagedAction } from '@/app/api/v1/_lib/stagedActionStore';
+
+/**
+ * Staged Action Route (Phase 9O)
+ *
+ * GET /api/v1/staged-actions/[id]?organizationId= → StagedAction (state STAGED, APPROVED or REJECTED)
+ */
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { id: string } };
+
+export async function GET(request: Request, { params }: RouteContext) {
+    try {
+        const orgId = await resolveOrganizationId(readOrganizationIdParam(request));
+        return NextResponse.json(await getStagedAction(orgId, params.id));
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
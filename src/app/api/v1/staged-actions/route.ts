@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { parseDecisionRequest, stageAction } from '@/logic/runtime/decisionService';
+import { createVerdictLogEntry } from '@/logic/runtime/verdictLog';
+import {
+    errorResponse,
+    loadDecisionConfiguration,
+    readJsonBody,
+    readOrganizationId,
+    withoutOrganizationId,
+} from '@/app/api/v1/_lib/decisionApi';
+import { saveStagedAction } from '@/app/api/v1/_lib/stagedActionStore';
+import { recordVerdicts } from '@/app/api/v1/_lib/verdictLogStore';
+
+/**
+ * Staged Actions Route (Phase 9O)
+ *
+ * POST /api/v1/staged-actions → 201 StagedAction for { organizationId?, agentId, actionId, context? }
+ *
+ * Freezes the verdict and readiness for human review. Hard-blocked actions
+ * cannot be staged (409 NOT_STAGEABLE). Phase 9Q: The frozen verdict is
+ * recorded in the verdict log.
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+    try {
+        const body = await readJsonBody(request);
+        const organizationId = readOrganizationId(body);
+        const decisionRequest = parseDecisionRequest(withoutOrganizationId(body));
+        const configuration = await loadDecisionConfiguration(organizationId);
+        const staged = stageAction(configuration, decisionRequest);
+        const orgId = configuration.structure.organization.id;
+        await recordVerdicts(orgId, [createVerdictLogEntry(orgId, 'STAGING', decisionRequest.context, staged.runtimeVerdict)]);
+        await saveStagedAction(orgId, staged);
+        return NextResponse.json(staged, { status: 201 });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
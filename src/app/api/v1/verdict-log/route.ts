@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { DecisionError } from '@/logic/runtime/decisionService';
+import { parseVerdictLogQuery, queryVerdictLog } from '@/logic/runtime/verdictLog';
+import { errorResponse, readOrganizationIdParam, resolveOrganizationId } from '@/app/api/v1/_lib/decisionApi';
+import { readVerdictLog } from '@/app/api/v1/_lib/verdictLogStore';
+
+/**
+ * Verdict Log Route (Phase 9Q)
+ *
+ * GET /api/v1/verdict-log?organizationId=&agentId=&actionId=&status=&from=&to=&limit=
+ *   → { entries: VerdictLogEntry[] }, newest first
+ *
+ * from and to bound the verdicts' evaluatedAt (from inclusive, to exclusive).
+ * The log is append-only: there is no route to change or remove entries.
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+    try {
+        const params = Object.fromEntries(new URL(request.url).searchParams);
+        const { query, issues } = parseVerdictLogQuery(params);
+        if (issues.length > 0) {
+            throw new DecisionError('The verdict log query is invalid', 'INVALID_REQUEST', issues);
+        }
+        const entries = await readVerdictLog(await resolveOrganizationId(readOrganizationIdParam(request)));
+        return NextResponse.json({ entries: queryVerdictLog(entries, query) });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
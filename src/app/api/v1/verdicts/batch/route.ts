@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { RuntimeVerdict } from '@/logic/authority/deriveRuntimeVerdict';
+import {
+    DecisionError,
+    DecisionErrorBody,
+    MAX_DECISION_BATCH_SIZE,
+    decide,
+    parseDecisionRequest,
+    toDecisionErrorBody,
+} from '@/logic/runtime/decisionService';
+import { VerdictLogEntry, createVerdictLogEntry } from '@/logic/runtime/verdictLog';
+import {
+    errorResponse,
+    loadDecisionConfiguration,
+    readJsonBody,
+    readOrganizationId,
+} from '@/app/api/v1/_lib/decisionApi';
+import { recordVerdicts } from '@/app/api/v1/_lib/verdictLogStore';
+
+/**
+ * Batch Verdict Route (Phase 9N)
+ *
+ * POST /api/v1/verdicts/batch → { results } for { organizationId?, requests: [...] }
+ *
+ * Every request is decided against the same configuration snapshot. Results
+ * keep the order of the requests; a request that fails gets an error entry
+ * instead of failing the batch. Only a malformed envelope or an unusable
+ * configuration fails the whole call.
+ *
+ * Phase 9Q: Every returned verdict is recorded in the verdict log, in one append.
+ */
+
+export const dynamic = 'force-dynamic';
+
+type BatchResult =
+    | { verdict: RuntimeVerdict }
+    | { error: DecisionErrorBody };
+
+export async function POST(request: Request) {
+    try {
+        const body = await readJsonBody(request);
+        const organizationId = readOrganizationId(body);
+        const requests = (body as { requests?: unknown } | null)?.requests;
+
+        if (!Array.isArray(requests) || requests.length === 0) {
+            throw new DecisionError('The batch request is invalid', 'INVALID_REQUEST', [
+                { path: 'requests', message: 'Expected a non-empty array' },
+            ]);
+        }
+        if (requests.length > MAX_DECISION_BATCH_SIZE) {
+            throw new DecisionError('The batch request is invalid', 'INVALID_REQUEST', [
+                { path: 'requests', message: `At most ${MAX_DECISION_BATCH_SIZE} requests per batch` },
+            ]);
+        }
+
+        const configuration = await loadDecisionConfiguration(organizationId);
+        const orgId = configuration.structure.organization.id;
+        const entries: VerdictLogEntry[] = [];
+        const results: BatchResult[] = requests.map((raw, index) => {
+            try {
+                const decisionRequest = parseDecisionRequest(raw, `requests[${index}]`);
+                const verdict = decide(configuration, decisionRequest);
+                entries.push(createVerdictLogEntry(orgId, 'BATCH', decisionRequest.context, verdict));
+                return { verdict };
+            } catch (error) {
+                if (!(error instanceof DecisionError)) throw error;
+                return { error: toDecisionErrorBody(error) };
+            }
+        });
+
+        await recordVerdicts(orgId, entries);
+
+        return NextResponse.json({ results });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { decide, parseDecisionRequest } from '@/logic/runtime/decisionService';
+import { createVerdictLogEntry } from '@/logic/runtime/verdictLog';
+import {
+    errorResponse,
+    loadDecisionConfiguration,
+    readJsonBody,
+    readOrganizationId,
+    withoutOrganizationId,
+} from '@/app/api/v1/_lib/decisionApi';
+import { recordVerdicts } from '@/app/api/v1/_lib/verdictLogStore';
+
+/**
+ * Verdict Route (Phase 9N)
+ *
+ * POST /api/v1/verdicts → RuntimeVerdict for { organizationId?, agentId, actionId, context? }
+ *
+ * Errors are { error, code, issues? }: 400 for a malformed request, 404 for an
+ * unknown organization, agent or action, 409 when the stored configuration is invalid.
+ * The full contract is served at /api/v1/openapi.
+ *
+ * Phase 9Q: Every verdict is recorded in the verdict log before it is returned.
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+    try {
+        const body = await readJsonBody(request);
+        const organizationId = readOrganizationId(body);
+        const decisionRequest = parseDecisionRequest(withoutOrganizationId(body));
+        const configuration = await loadDecisionConfiguration(organizationId);
+        const verdict = decide(configuration, decisionRequest);
+        const orgId = configuration.structure.organization.id;
+        await recordVerdicts(orgId, [createVerdictLogEntry(orgId, 'VERDICT', decisionRequest.context, verdict)]);
+        return NextResponse.json(verdict);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
@@ -21,7 +21,9 @@ export const PHASE0_DATA: Phase0Data = {
             allowedActionCategories: ['Report Generation', 'Data Reconciliation', 'Fraud Detection'],
             scope: 'Financial reporting and compliance audit.',
             escalationPosture: 'HUMAN_SENSITIVE',
-            constraints: ['All discrepancy reports require approval']
+            constraints: [
+                { id: 'constraint-1', when: { categories: ['REPORTING'] }, effect: { kind: 'REQUIRE_APPROVAL' } }
+            ]
         },
         {
             id: 'dom-cust',
@@ -33,7 +35,9 @@ export const PHASE0_DATA: Phase0Data = {
             allowedActionCategories: ['Inquiry Response', 'Ticket Triage', 'Sentiment Analysis'],
             scope: 'Customer support and sentiment tracking.',
             escalationPosture: 'ALWAYS_AUTO',
-            constraints: ['No access to billing data']
+            constraints: [
+                { id: 'constraint-1', when: { targets: ['billing/*'] }, effect: { kind: 'BLOCK' } }
+            ]
         },
         {
             id: 'dom-tech',
@@ -45,7 +49,9 @@ export const PHASE0_DATA: Phase0Data = {
             allowedActionCategories: ['Log Analysis', 'Resource Scaling', 'Alert Management'],
             scope: 'System health monitoring and scaling.',
             escalationPosture: 'HUMAN_SENSITIVE',
-            constraints: ['Production scaling requires limits']
+            constraints: [
+                { id: 'constraint-1', when: { categories: ['OPERATIONS'], targets: ['production/*'] }, effect: { kind: 'CAP_AUTHORITY', level: 2 } }
+            ]
         }
     ],
     agents: [
@@ -1,3 +1,5 @@
+import type { DomainConstraint } from '@/logic/constraints/domainConstraints';
+
 export interface Organization {
     id: string;
     name: string;
@@ -20,7 +22,11 @@ export interface Domain {
     // Phase 8B: Studio Configuration
     scope: string;
     escalationPosture: 'ALWAYS_AUTO' | 'HUMAN_SENSITIVE' | 'ALWAYS_HUMAN';
-    constraints: string[];
+    // Phase 9L: Structured, machine-evaluable constraints
+    constraints: DomainConstraint[];
+    constraintNotes?: string[];     // Prose constraints from earlier versions; shown but not evaluated
+    // Phase 9F: Nested sub-domains (absent = top-level domain under the organization)
+    parentDomainId?: string;
 }
 
 export interface Agent {
@@ -4,10 +4,13 @@ import React, { useMemo } from 'react';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { useStructure } from '@/state/StructureContext';
-import { Lock, Unlock, Shield, AlertTriangle, Scale, Activity, Brain, Check, ChevronLeft, Plus, X } from 'lucide-react';
+import { Lock, Unlock, AlertTriangle, Scale, Activity, Brain, Check, ChevronLeft, Plus, X } from 'lucide-react';
 import { Domain, Organization } from '@/app/data/types';
 import { formatAuthorityBadge } from '@/logic/authority/compactFormatting';
 import { deriveDomainAuthority } from '@/logic/authority/deriveAuthority';
+import { getDomainAncestors } from '@/logic/structure/domainHierarchy';
+import { BUSINESS_CATEGORY_TAXONOMY, resolveDomainActionCategories } from '@/logic/actions/categoryTaxonomy';
+import { DomainConstraintEditor } from '@/components/DomainConstraintEditor';
 
 export default function DomainStudioPage() {
     const params = useParams();
@@ -23,12 +26,20 @@ export default function DomainStudioPage() {
 
     const isLocked = domain.status === 'READY'; // In 8B prompt, 'Lock' is irreversible. Using 'READY' as locked state? Prompt says "Lock Domain". Let's assume Status 'READY' = Locked for now, or just add a 'LOCKED' status if strictly needed. Type says DRAFT | READY. Let's treat READY as Locked.
 
+    // Phase 9F: Sub-domains are constrained by every enclosing domain
+    const ancestors = getDomainAncestors(data.domains, domainId);
+    const parentDomain = ancestors[ancestors.length - 1];
+
     // Constraint Logic
-    const maxAuthority = org.authorityCeiling;
-    const orgAllowedActions = org.globalActions;
+    const maxAuthority = Math.min(org.authorityCeiling, ...ancestors.map(a => a.authorityCeiling));
+
+    // Phase 9J: Category labels offered by the taxonomy, plus any legacy or unmapped label already set
+    const domainCategories = domain.allowedActionCategories || [];
+    const categoryResolution = resolveDomainActionCategories(domain);
+    const categoryOptions = BUSINESS_CATEGORY_TAXONOMY.filter(c => !c.legacy || domainCategories.includes(c.label));
 
     // Derived Authority for Badge
-    const derivedAuth = deriveDomainAuthority(org, domain);
+    const derivedAuth = deriveDomainAuthority(org, domain, ancestors);
     const badge = formatAuthorityBadge(derivedAuth, org.authorityCeiling);
 
     return (
@@ -38,6 +49,12 @@ export default function DomainStudioPage() {
                 <div style={styles.breadcrumb}>
                     <Link href="/" style={styles.breadcrumbLink}>{org.name}</Link>
                     <span style={styles.breadcrumbSep}>/</span>
+                    {ancestors.map(ancestor => (
+                        <React.Fragment key={ancestor.id}>
+                            <Link href={`/domain/${ancestor.id}`} style={styles.breadcrumbLink}>{ancestor.name}</Link>
+                            <span style={styles.breadcrumbSep}>/</span>
+                        </React.Fragment>
+                    ))}
                     <span style={styles.breadcrumbActive}>{domain.name}</span>
                 </div>
                 <div style={styles.studioLabel}>Domain Studio</div>
@@ -55,7 +72,9 @@ export default function DomainStudioPage() {
                         </div>
                     </div>
                     <div style={styles.subheading}>
-                        Parent Organization Ceiling: <strong>Level {org.authorityCeiling}</strong>
+                        {parentDomain
+                            ? <>Parent Domain ({parentDomain.name}) Effective Ceiling: <strong>Level {maxAuthority}</strong></>
+                            : <>Parent Organization Ceiling: <strong>Level {org.authorityCeiling}</strong></>}
                     </div>
                 </div>
 
@@ -96,7 +115,7 @@ export default function DomainStudioPage() {
                         <div style={styles.section}>
                             <div style={styles.sectionHeader}>
                                 <div style={styles.sectionTitle}>Authority Envelope</div>
-                                <div style={styles.sectionDesc}>Constrained by Organization Ceiling ({maxAuthority}).</div>
+                                <div style={styles.sectionDesc}>Constrained by {parentDomain ? 'Parent Domain' : 'Organization'} Ceiling ({maxAuthority}).</div>
                             </div>
                             <div style={styles.card}>
                                 <div style={styles.sliderContainer}>
@@ -130,34 +149,53 @@ export default function DomainStudioPage() {
                         <div style={styles.section}>
                             <div style={styles.sectionHeader}>
                                 <div style={styles.sectionTitle}>Allowed Action Categories</div>
-                                <div style={styles.sectionDesc}>Uncheck to restrict specific capabilities within this domain.</div>
+                                <div style={styles.sectionDesc}>Each category grants the Do action categories listed beside it.</div>
                             </div>
                             <div style={styles.card}>
                                 <div style={styles.checklist}>
-                                    {orgAllowedActions.map(action => {
-                                        const isAllowed = domain.allowedActionCategories?.includes(action);
+                                    {categoryOptions.map(option => {
+                                        const isAllowed = domainCategories.includes(option.label);
                                         return (
-                                            <label key={action} style={styles.checkRow}>
+                                            <label key={option.label} style={styles.checkRow}>
                                                 <input
                                                     type="checkbox"
                                                     checked={isAllowed}
                                                     disabled={isLocked}
                                                     onChange={() => {
-                                                        const current = domain.allowedActionCategories || [];
-                                                        const fresh = current.includes(action)
-                                                            ? current.filter(a => a !== action)
-                                                            : [...current, action];
+                                                        const fresh = isAllowed
+                                                            ? domainCategories.filter(a => a !== option.label)
+                                                            : [...domainCategories, option.label];
                                                         updateDomain(domainId, { allowedActionCategories: fresh });
                                                     }}
                                                     style={{ marginRight: 10 }}
                                                 />
-                                                <span style={{ color: isAllowed ? '#fff' : '#666' }}>{action}</span>
+                                                <span style={{ color: isAllowed ? '#fff' : '#666' }}>{option.label}</span>
+                                                <span style={styles.categoryMapping}>{option.categories.join(' · ')}</span>
                                             </label>
                                         );
                                     })}
-                                    {orgAllowedActions.length === 0 && <div style={{ color: '#666', fontStyle: 'italic' }}>No global actions allowed by Organization.</div>}
+                                    {categoryResolution.unmapped.map(label => (
+                                        <div key={label} style={{ ...styles.checkRow, color: '#d97070' }}>
+                                            <AlertTriangle size={14} style={{ marginRight: 10 }} />
+                                            <span>{label}</span>
+                                            <span style={styles.categoryMapping}>Configuration error: not mapped to any action category</span>
+                                            {!isLocked && (
+                                                <button
+                                                    style={styles.deleteBtn}
+                                                    title="Remove category"
+                                                    onClick={() => updateDomain(domainId, {
+                                                        allowedActionCategories: domainCategories.filter(a => a !== label),
+                                                    })}
+                                                >
+                                                    <X size={12} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                                <div style={styles.helperText}>
+                                    Agents in this domain may attempt: {categoryResolution.allowed.length > 0 ? categoryResolution.allowed.join(', ') : 'nothing'}.
                                 </div>
-                                <div style={styles.helperText}>Removed categories will no longer be available to agents in this domain.</div>
                             </div>
                         </div>
 
@@ -185,59 +223,16 @@ export default function DomainStudioPage() {
                         <div style={styles.section}>
                             <div style={styles.sectionHeader}>
                                 <div style={styles.sectionTitle}>Domain Constraints</div>
-                                <div style={styles.sectionDesc}>Specific prohibitions and required checks.</div>
+                                <div style={styles.sectionDesc}>Conditions on proposed actions that block them, require approval or cap their authority.</div>
                             </div>
                             <div style={styles.card}>
-                                <div style={styles.constraintList}>
-                                    {(domain.constraints || []).map((c, i) => (
-                                        <div key={i} style={styles.constraintItem}>
-                                            <Shield size={14} style={{ marginRight: 8, color: '#ff6b6b' }} />
-                                            <span>{c}</span>
-                                            {!isLocked && (
-                                                <button
-                                                    onClick={() => {
-                                                        const newC = [...(domain.constraints || [])];
-                                                        newC.splice(i, 1);
-                                                        updateDomain(domainId, { constraints: newC });
-                                                    }}
-                                                    style={styles.deleteBtn}
-                                                >
-                                                    <X size={12} />
-                                                </button>
-                                            )}
-                                        </div>
-                                    ))}
-                                </div>
-                                {!isLocked && (
-                                    <div style={styles.addConstraintRow}>
-                                        <input
-                                            id="new-constraint"
-                                            style={styles.miniInput}
-                                            placeholder="E.g. Refunds > €500 require approval"
-                                            onKeyDown={(e) => {
-                                                if (e.key === 'Enter') {
-                                                    const val = (e.currentTarget as HTMLInputElement).value;
-                                                    if (val) {
-                                                        updateDomain(domainId, { constraints: [...(domain.constraints || []), val] });
-                                                        (e.currentTarget as HTMLInputElement).value = '';
-                                                    }
-                                                }
-                                            }}
-                                        />
-                                        <button
-                                            onClick={() => {
-                                                const el = document.getElementById('new-constraint') as HTMLInputElement;
-                                                if (el.value) {
-                                                    updateDomain(domainId, { constraints: [...(domain.constraints || []), el.value] });
-                                                    el.value = '';
-                                                }
-                                            }}
-                                            style={styles.miniAddBtn}
-                                        >
-                                            Add
-                                        </button>
-                                    </div>
-                                )}
+                                <DomainConstraintEditor
+                                    constraints={domain.constraints || []}
+                                    notes={domain.constraintNotes || []}
+                                    disabled={isLocked}
+                                    onChange={(constraints) => updateDomain(domainId, { constraints })}
+                                    onNotesChange={(constraintNotes) => updateDomain(domainId, { constraintNotes })}
+                                />
                             </div>
                         </div>
 
@@ -507,6 +502,13 @@ const styles = {
         fontSize: 14,
         cursor: 'pointer'
     },
+    categoryMapping: {
+        marginLeft: 'auto',
+        paddingLeft: 12,
+        fontSize: 11,
+        color: '#666',
+        fontFamily: 'monospace',
+    },
     helperText: {
         marginTop: 16,
         fontSize: 13,
@@ -524,22 +526,6 @@ const styles = {
         outline: 'none',
         appearance: 'none' as const
     },
-    constraintList: {
-        display: 'flex',
-        flexDirection: 'column' as const,
-        gap: 8,
-        marginBottom: 12
-    },
-    constraintItem: {
-        display: 'flex',
-        alignItems: 'center',
-        background: '#1a1a1a',
-        padding: '8px 12px',
-        borderRadius: 4,
-        fontSize: 13,
-        color: '#ddd',
-        border: '1px solid #2a2a2a'
-    },
     deleteBtn: {
         marginLeft: 'auto',
         background: 'transparent',
@@ -549,30 +535,6 @@ const styles = {
         padding: 4,
         display: 'flex'
     },
-    addConstraintRow: {
-        display: 'flex',
-        gap: 8
-    },
-    miniInput: {
-        flex: 1,
-        background: '#1a1a1a',
-        border: '1px solid #333',
-        borderRadius: 6,
-        padding: '8px 12px',
-        color: '#fff',
-        fontSize: 13,
-        outline: 'none'
-    },
-    miniAddBtn: {
-        background: '#333',
-        border: 'none',
-        color: '#fff',
-        borderRadius: 6,
-        padding: '0 12px',
-        fontSize: 12,
-        fontWeight: 600,
-        cursor: 'pointer'
-    },
     previewCard: {
         background: '#111',
         border: '1px solid #222',
@@ -3,11 +3,25 @@
 import React from 'react';
 import Link from 'next/link';
 import { useStructure } from '@/state/StructureContext';
-import { Lock, Unlock, Shield, AlertTriangle, Scale, Activity, Brain } from 'lucide-react';
+import { Lock, Unlock, Shield, AlertTriangle, Scale, Activity, Brain, ScrollText } from 'lucide-react';
 import { Organization } from '@/app/data/types';
+import { SnapshotPanel } from '@/components/SnapshotPanel';
+import { ConstitutionTransferPanel } from '@/components/ConstitutionTransferPanel';
+import { StructureDiagnosticsPanel } from '@/components/StructureDiagnosticsPanel';
+import { ActionCatalogPanel } from '@/components/ActionCatalogPanel';
 
 export default function OrganizationOSPage() {
-    const { data, updateOrganization } = useStructure();
+    const {
+        data,
+        updateOrganization,
+        snapshots,
+        createSnapshot,
+        rollbackToSnapshot,
+        importStructure,
+        validation,
+        actionCatalog,
+        updateActionCatalog,
+    } = useStructure();
     const org = data.organization;
     const isLocked = org.status === 'LOCKED';
 
@@ -36,6 +50,11 @@ export default function OrganizationOSPage() {
                     <div style={styles.navIcon}><Scale size={14} /></div>
                     <span>Policies (Read-Only)</span>
                 </Link>
+
+                <Link href="/runtime" style={styles.navItem}>
+                    <div style={styles.navIcon}><ScrollText size={14} /></div>
+                    <span>Runtime Log</span>
+                </Link>
             </div>
 
             {/* CENTER CONTENT */}
@@ -55,6 +74,8 @@ export default function OrganizationOSPage() {
                     </div>
                 </div>
 
+                <StructureDiagnosticsPanel validation={validation} />
+
                 <div style={styles.section}>
                     <div style={styles.sectionHeader}>
                         <div style={styles.sectionTitle}>1. Organization Identity</div>
@@ -220,7 +241,47 @@ export default function OrganizationOSPage() {
                     </div>
                 </div>
 
-                {/* SECTION 7: GOVERNANCE ACTIONS */}
+                {/* SECTION 7: ACTION CATALOG (Phase 9H) */}
+                <div style={styles.section}>
+                    <div style={styles.sectionHeader}>
+                        <div style={styles.sectionTitle}>7. Action Catalog</div>
+                        <div style={styles.sectionDesc}>Every Do action agents can attempt, and which roles and agents may attempt it.</div>
+                    </div>
+
+                    <ActionCatalogPanel
+                        catalog={actionCatalog}
+                        agents={data.agents}
+                        disabled={isLocked}
+                        onChange={updateActionCatalog}
+                    />
+                </div>
+
+                {/* SECTION 8: VERSIONS (Phase 9C) */}
+                <div style={styles.section}>
+                    <div style={styles.sectionHeader}>
+                        <div style={styles.sectionTitle}>8. Versions</div>
+                        <div style={styles.sectionDesc}>Named, immutable versions of this constitution. Compare or roll back at any time.</div>
+                    </div>
+
+                    <SnapshotPanel
+                        data={data}
+                        snapshots={snapshots}
+                        onCreate={createSnapshot}
+                        onRollback={rollbackToSnapshot}
+                    />
+                </div>
+
+                {/* SECTION 9: IMPORT / EXPORT (Phase 9D) */}
+                <div style={styles.section}>
+                    <div style={styles.sectionHeader}>
+                        <div style={styles.sectionTitle}>9. Import / Export</div>
+                        <div style={styles.sectionDesc}>Move this constitution between environments or keep it in version control.</div>
+                    </div>
+
+                    <ConstitutionTransferPanel data={data} onImport={importStructure} />
+                </div>
+
+                {/* SECTION 10: GOVERNANCE ACTIONS */}
                 <div style={styles.section} className="pb-20">
                     <div style={styles.card}>
                         {!isLocked ? (
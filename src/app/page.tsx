@@ -1,14 +1,15 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { OrgChartCanvas } from '@/components/OrgChartCanvas';
 import { InspectorPanel, ExplanationMode } from '@/components/InspectorPanel';
-import { PHASE0_DATA } from '@/app/data/phase0.data';
 import { buildOrgTree } from '@/app/data/buildOrgTree';
 import { ViewMode } from '@/components/ViewToggle';
 import PolicyExplorerPage from '@/app/policies/page';
-import { initializePersonaIdentityMappings } from '@/logic/persona/personaIdentityMapping';
-import { useStructureStore } from '@/state/structureStore';
+import { useStructure } from '@/state/StructureContext';
+import { StructurePersistenceState } from '@/state/structureStore';
+import { HistoryPanel, useHistoryShortcuts } from '@/components/HistoryPanel';
+import { OrganizationSwitcher } from '@/components/OrganizationSwitcher';
 
 export default function Home() {
     // Phase 6B: View toggle state (Structure | Policies)
@@ -18,15 +19,24 @@ export default function Home() {
     const [explanationMode, setExplanationMode] = useState<ExplanationMode>('STANDARD');
     const viewMode: ViewMode = 'STRUCTURE';
 
-    // Phase A: Structure State
+    // Phase A: Structure State (Phase 9A: shared, persisted store from StructureProvider)
     const {
         data: structureData,
+        persistence,
         moveAgent,
         addDomain,
         deleteDomain,
+        moveDomainToParent,
         addAgent,
-        deleteAgent
-    } = useStructureStore(PHASE0_DATA);
+        deleteAgent,
+        history,
+        undo,
+        redo,
+        actionCatalog,
+    } = useStructure();
+
+    // Phase 9B: Undo/redo shortcuts for structural edits
+    useHistoryShortcuts(undo, redo);
 
     // Compute tree from dynamic structure data (Needed if Inspector still uses recursive tree, 
     // although InspectorPanel mainly uses ID lookup. We keep this for compatibility if any other component needs tree).
@@ -36,10 +46,7 @@ export default function Home() {
     // So `treeData` is legacy here but harmless.
     const treeData = useMemo(() => buildOrgTree(structureData), [structureData]);
 
-    // Phase 7C: Initialize persona identity mappings
-    useEffect(() => {
-        initializePersonaIdentityMappings();
-    }, []);
+    // Phase 7C persona identity mappings are seeded per organization by the workspace (Phase 9G)
 
     return (
         <>
@@ -58,9 +65,14 @@ export default function Home() {
                     >
                         Policies
                     </button>
+                    <div style={{ flex: 1 }} />
+                    <OrganizationSwitcher />
                 </div>
-                <div style={styles.subtitle}>
-                    Two ways to understand the system: how it is structured, and what it has learned.
+                <div style={styles.subtitleRow}>
+                    <div style={styles.subtitle}>
+                        Two ways to understand the system: how it is structured, and what it has learned.
+                    </div>
+                    <PersistenceIndicator persistence={persistence} />
                 </div>
             </div>
 
@@ -90,14 +102,26 @@ export default function Home() {
                             onMoveAgent={moveAgent}
                             onAddDomain={addDomain}
                             onDeleteDomain={deleteDomain}
+                            onAddSubDomain={(parentDomainId, name) => addDomain(name, '', parentDomainId)}
+                            onMoveDomainToParent={moveDomainToParent}
                             onAddAgent={addAgent}
                             onDeleteAgent={deleteAgent}
                         />
                     </div>
 
+                    <HistoryPanel
+                        past={history.past}
+                        future={history.future}
+                        canUndo={history.canUndo}
+                        canRedo={history.canRedo}
+                        onUndo={undo}
+                        onRedo={redo}
+                    />
+
                     <InspectorPanel
                         selectedNodeId={selectedNodeId}
                         data={structureData} // Phase A: Inspector reflects dynamic structure
+                        actionCatalog={actionCatalog}
                         explanationMode={explanationMode}
                         onExplanationModeChange={setExplanationMode}
                     />
@@ -109,6 +133,39 @@ export default function Home() {
     );
 }
 
+// Phase 9A: Storage status for the structure store
+function PersistenceIndicator({ persistence }: { persistence: StructurePersistenceState }) {
+    const backendLabel =
+        persistence.kind === 'API' ? 'Local file' :
+            persistence.kind === 'INDEXED_DB' ? 'Browser storage' : 'Memory only';
+
+    let statusLabel: string;
+    switch (persistence.status) {
+        case 'LOADING':
+            statusLabel = 'Loading…';
+            break;
+        case 'SAVING':
+            statusLabel = 'Saving…';
+            break;
+        case 'ERROR':
+            statusLabel = 'Not saved';
+            break;
+        default:
+            statusLabel = 'Saved';
+    }
+
+    return (
+        <div
+            style={{ ...styles.persistence, color: persistence.status === 'ERROR' ? '#d97070' : '#666' }}
+            title={persistence.error ?? (persistence.kind === 'INDEXED_DB'
+                ? 'The local file store is unreachable; saving in this browser until it answers again'
+                : undefined)}
+        >
+            {statusLabel} · {backendLabel}
+        </div>
+    );
+}
+
 // Phase 6B: Toggle styles
 const styles = {
     viewToggleContainer: {
@@ -149,4 +206,13 @@ const styles = {
         fontStyle: 'italic' as const,
         marginTop: 4,
     },
+    subtitleRow: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    persistence: {
+        fontSize: '11px',
+        marginTop: 4,
+    },
 };
\ No newline at end of file
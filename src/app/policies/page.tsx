@@ -1,9 +1,20 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { LearnedPolicy, PolicyStatus } from '@/logic/policy/learnedPolicy';
 import { getAllLearnedPolicies } from '@/logic/staging/stagedActions';
 import { formatCreatedTime, formatReviewDueTime, formatExpiryTime } from '@/utils/timeUtils';
+import { getAuditLedger, subscribeToAuditLedger } from '@/logic/audit/auditLedger';
+import { useStructure } from '@/state/StructureContext';
+import { AuditTimelinePanel } from '@/components/AuditTimelinePanel';
+import { buildPolicyIndex, formatPolicyTarget, policiesGoverning } from '@/logic/policy/policyIndex';
+import { analyzePolicies } from '@/logic/policy/policyConflicts';
+import { getAllPolicyOverrides } from '@/logic/policy/policyOverride';
+import { PolicyFindingsPanel } from '@/components/PolicyFindingsPanel';
+import { Phase0Data } from '@/app/data/types';
+import { deriveDueSoonDigest, subscribeToLifecycleTransitions } from '@/logic/policy/policyLifecycle';
+import { PolicyDueSoonPanel } from '@/components/PolicyDueSoonPanel';
+import { getDomainAncestors } from '@/logic/structure/domainHierarchy';
 
 /**
  * Policy Explorer Page (Phase 6)
@@ -16,11 +27,46 @@ import { formatCreatedTime, formatReviewDueTime, formatExpiryTime } from '@/util
  * - NO mutations
  * 
  * This is governance visibility only.
+ *
+ * Phase 9R: Audit timeline of governance decisions, exportable with its hash chain,
+ * including decisions made through the decision API.
+ * Phase 9V: The list can be narrowed to the policies governing one node.
+ * Phase 9X: Policy health findings with suggested clean-up.
+ * Phase 9Y: Re-renders on lifecycle transitions; lists policies due for review or expiry soon.
  */
 
 export default function PolicyExplorerPage() {
+    const { data, actionCatalog } = useStructure();
+    const [, setLifecycleRevision] = useState(0);
+    const [dueSoonDays, setDueSoonDays] = useState(14);
+
+    // Phase 9Y: The stores are not React state; re-read them after the scheduler changes them
+    useEffect(() => subscribeToLifecycleTransitions(() => setLifecycleRevision(r => r + 1)), []);
+
+    // Phase 9R: Re-read the ledger when the persisted chain arrives
+    useEffect(() => subscribeToAuditLedger(() => setLifecycleRevision(r => r + 1)), []);
+
+    const now = new Date().toISOString();
     const policies = getAllLearnedPolicies();
+    const findings = analyzePolicies(
+        { policies, overrides: getAllPolicyOverrides() },
+        data,
+        actionCatalog,
+        now
+    );
+    const dueSoon = deriveDueSoonDigest(policies, now, dueSoonDays);
+    const auditLedger = getAuditLedger();
     const [selectedPolicyId, setSelectedPolicyId] = useState<string | null>(null);
+    const [governedNodeId, setGovernedNodeId] = useState('');
+
+    const showPolicy = (policyId: string) => {
+        setGovernedNodeId('');
+        setSelectedPolicyId(policyId);
+    };
+
+    const listedPolicies = governedNodeId
+        ? policiesGoverning(buildPolicyIndex(policies), resolveGovernedNode(data, governedNodeId))
+        : policies;
 
     const selectedPolicy = selectedPolicyId
         ? policies.find(p => p.policyId === selectedPolicyId) ?? null
@@ -40,10 +86,32 @@ export default function PolicyExplorerPage() {
                 {/* Policy List */}
                 <div style={styles.listContainer}>
                     <div style={styles.listHeader}>
-                        <div style={styles.listTitle}>All Policies</div>
-                        <div style={styles.listCount}>{policies.length} learned</div>
+                        <div style={styles.listTitle}>{governedNodeId ? 'Governing Policies' : 'All Policies'}</div>
+                        <div style={styles.listHeaderActions}>
+                            <select
+                                value={governedNodeId}
+                                onChange={e => setGovernedNodeId(e.target.value)}
+                                style={styles.nodeSelect}
+                            >
+                                <option value="">Every node</option>
+                                <option value={data.organization.id}>{data.organization.name}</option>
+                                {data.domains.map(domain => (
+                                    <option key={domain.id} value={domain.id}>Domain · {domain.name}</option>
+                                ))}
+                                {data.agents.map(agent => (
+                                    <option key={agent.id} value={agent.id}>Agent · {agent.name}</option>
+                                ))}
+                            </select>
+                            <div style={styles.listCount}>
+                                {governedNodeId ? `${listedPolicies.length} of ${policies.length}` : policies.length} learned
+                            </div>
+                        </div>
                     </div>
 
+                    {governedNodeId && policies.length > 0 && listedPolicies.length === 0 && (
+                        <div style={styles.emptyMessage}>No learned policy governs this node.</div>
+                    )}
+
                     {policies.length === 0 ? (
                         <div style={styles.emptyState}>
                             <div style={styles.emptyIcon}>📜</div>
@@ -54,7 +122,7 @@ export default function PolicyExplorerPage() {
                         </div>
                     ) : (
                         <div style={styles.policyList}>
-                            {policies.map(policy => (
+                            {listedPolicies.map(policy => (
                                 <PolicyCard
                                     key={policy.policyId}
                                     policy={policy}
@@ -71,15 +139,46 @@ export default function PolicyExplorerPage() {
                     <div style={styles.detailContainer}>
                         <PolicyDetailInspector
                             policy={selectedPolicy}
+                            data={data}
                             onClose={() => setSelectedPolicyId(null)}
                         />
                     </div>
                 )}
             </div>
+
+            {/* Due Soon */}
+            <div style={styles.findingsContainer}>
+                <PolicyDueSoonPanel
+                    items={dueSoon}
+                    days={dueSoonDays}
+                    onChangeDays={setDueSoonDays}
+                    onSelectPolicy={showPolicy}
+                />
+            </div>
+
+            {/* Policy Health */}
+            <div style={styles.findingsContainer}>
+                <PolicyFindingsPanel findings={findings} onSelectPolicy={showPolicy} />
+            </div>
+
+            {/* Audit Timeline */}
+            <div style={styles.auditContainer}>
+                <AuditTimelinePanel organizationName={data.organization.name} entries={auditLedger} />
+            </div>
         </div>
     );
 }
 
+/**
+ * The node a governing lookup is for. Agents are governed through their domain too.
+ */
+function resolveGovernedNode(data: Phase0Data, nodeId: string) {
+    const agent = data.agents.find(a => a.id === nodeId);
+    const domainId = agent ? agent.domainId : nodeId;
+    // Phase 9F: Enclosing domains' policies govern the node too
+    return { agent, domain: data.domains.find(d => d.id === domainId), ancestors: getDomainAncestors(data.domains, domainId) };
+}
+
 // ============================================================================
 // POLICY CARD
 // ============================================================================
@@ -106,7 +205,7 @@ function PolicyCard({ policy, isSelected, onClick }: PolicyCardProps) {
 
             {/* Badges */}
             <div style={styles.cardBadges}>
-                <ScopeBadge scope={policy.constraint.affectedScope} />
+                <ScopeBadge scope={policy.constraint.target.scope} />
                 <StatusBadge status={policy.lifecycle.status} />
             </div>
 
@@ -121,7 +220,7 @@ function PolicyCard({ policy, isSelected, onClick }: PolicyCardProps) {
 function ScopeBadge({ scope }: { scope: string }) {
     return (
         <div style={styles.scopeBadge}>
-            {scope.split(':')[0] || 'INSTANCE'}
+            {scope}
         </div>
     );
 }
@@ -157,10 +256,11 @@ function getStatusBadgeColor(status: PolicyStatus): React.CSSProperties {
 
 interface PolicyDetailInspectorProps {
     policy: LearnedPolicy;
+    data: Phase0Data;
     onClose: () => void;
 }
 
-function PolicyDetailInspector({ policy, onClose }: PolicyDetailInspectorProps) {
+function PolicyDetailInspector({ policy, data, onClose }: PolicyDetailInspectorProps) {
     return (
         <div style={styles.inspector}>
             {/* Close button */}
@@ -173,7 +273,8 @@ function PolicyDetailInspector({ policy, onClose }: PolicyDetailInspectorProps)
                 <InfoRow label="Policy ID" value={policy.policyId} mono />
                 <InfoRow label="Origin" value={`Learned from ${policy.sourceApprovalIntentId}`} />
                 <InfoRow label="Approved by" value={policy.learnedBy} />
-                <InfoRow label="Scope" value={policy.constraint.affectedScope} />
+                <InfoRow label="Target" value={formatPolicyTarget(policy.constraint.target, data)} />
+                <InfoRow label="Learned as" value={policy.constraint.affectedScope} />
                 <div style={styles.infoRow}>
                     <div style={styles.infoLabel}>Status:</div>
                     <StatusBadge status={policy.lifecycle.status} />
@@ -325,6 +426,14 @@ const styles = {
         gap: 24,
         padding: 40,
     },
+    findingsContainer: {
+        padding: '0 40px 24px',
+        maxWidth: 1224,
+    },
+    auditContainer: {
+        padding: '0 40px 40px',
+        maxWidth: 1224,
+    },
     listContainer: {
         flex: 1,
         maxWidth: 500,
@@ -348,6 +457,19 @@ const styles = {
         fontSize: '12px',
         color: '#666',
     },
+    listHeaderActions: {
+        display: 'flex',
+        alignItems: 'center' as const,
+        gap: 12,
+    },
+    nodeSelect: {
+        padding: '6px 8px',
+        background: '#0f0f0f',
+        border: '1px solid #2a2a2a',
+        borderRadius: 4,
+        color: '#ddd',
+        fontSize: '12px',
+    },
     policyList: {
         display: 'flex',
         flexDirection: 'column' as const,
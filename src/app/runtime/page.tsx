@@ -0,0 +1,536 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useStructure } from '@/state/StructureContext';
+import { RuntimeVerdict } from '@/logic/authority/deriveRuntimeVerdict';
+import { formatVerdictContext } from '@/logic/authority/verdictContext';
+import { VerdictLogEntry, VerdictLogQuery } from '@/logic/runtime/verdictLog';
+import { DecisionClientError, createDecisionClient } from '@/client/decisionClient';
+
+/**
+ * Runtime Log Page (Phase 9Q)
+ *
+ * Read-only view of the verdict log: every verdict the decision API returned
+ * for the active organization, newest first, filterable by agent, action,
+ * status and time range.
+ *
+ * CRITICAL: READ-ONLY ONLY
+ * - The log is append-only; nothing here edits or removes entries
+ * - Entries are shown as recorded, even when the structure has changed since
+ */
+
+type VerdictStatus = RuntimeVerdict['decision']['status'];
+
+interface LogFilters {
+    agentId: string;
+    actionId: string;
+    status: VerdictStatus | '';
+    from: string;               // datetime-local value (local time)
+    to: string;
+}
+
+const EMPTY_FILTERS: LogFilters = { agentId: '', actionId: '', status: '', from: '', to: '' };
+
+function toQuery(filters: LogFilters): VerdictLogQuery {
+    return {
+        agentId: filters.agentId || undefined,
+        actionId: filters.actionId || undefined,
+        status: filters.status || undefined,
+        from: filters.from ? new Date(filters.from).toISOString() : undefined,
+        to: filters.to ? new Date(filters.to).toISOString() : undefined,
+    };
+}
+
+export default function RuntimeLogPage() {
+    const { data, actionCatalog, persistence } = useStructure();
+    const organizationId = data.organization.id;
+    const isApiBacked = persistence.kind === 'API';
+
+    const [filters, setFilters] = useState<LogFilters>(EMPTY_FILTERS);
+    const [entries, setEntries] = useState<VerdictLogEntry[]>([]);
+    const [status, setStatus] = useState<'LOADING' | 'READY' | 'ERROR'>('LOADING');
+    const [error, setError] = useState<string | null>(null);
+    const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null);
+
+    const client = useMemo(
+        () => createDecisionClient({ baseUrl: '/api/v1', organizationId, retries: 1 }),
+        [organizationId]
+    );
+
+    const load = useCallback(async (current: LogFilters) => {
+        setStatus('LOADING');
+        try {
+            setEntries(await client.verdictLog(toQuery(current)));
+            setError(null);
+            setStatus('READY');
+        } catch (cause) {
+            setError(cause instanceof DecisionClientError ? cause.message : 'The verdict log could not be loaded.');
+            setStatus('ERROR');
+        }
+    }, [client]);
+
+    useEffect(() => {
+        if (isApiBacked) load(filters);
+    }, [isApiBacked, load, filters]);
+
+    const selectedEntry = entries.find(e => e.entryId === selectedEntryId) ?? null;
+    const updateFilter = (updates: Partial<LogFilters>) => setFilters(current => ({ ...current, ...updates }));
+
+    return (
+        <div style={styles.container}>
+            {/* Header */}
+            <div style={styles.header}>
+                <div style={styles.headerTop}>
+                    <div style={styles.headerTitle}>RUNTIME LOG</div>
+                    <Link href="/os" style={styles.backLink}>Organization OS</Link>
+                </div>
+                <div style={styles.headerSubtitle}>
+                    Every verdict the decision API returned for {data.organization.name}, as recorded
+                </div>
+            </div>
+
+            {!isApiBacked ? (
+                <div style={styles.emptyState}>
+                    <div style={styles.emptyTitle}>Verdict log unavailable</div>
+                    <div style={styles.emptyMessage}>
+                        The verdict log is kept by the decision API. Run the app with API persistence to view it.
+                    </div>
+                </div>
+            ) : (
+                <div style={styles.content}>
+                    <div style={styles.listContainer}>
+                        {/* Filters */}
+                        <div style={styles.filters}>
+                            <select
+                                value={filters.agentId}
+                                onChange={e => updateFilter({ agentId: e.target.value })}
+                                style={styles.input}
+                            >
+                                <option value="">All agents</option>
+                                {data.agents.map(agent => (
+                                    <option key={agent.id} value={agent.id}>{agent.name}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={filters.actionId}
+                                onChange={e => updateFilter({ actionId: e.target.value })}
+                                style={styles.input}
+                            >
+                                <option value="">All actions</option>
+                                {actionCatalog.entries.map(entry => (
+                                    <option key={entry.id} value={entry.id}>{entry.verbPhrase}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={filters.status}
+                                onChange={e => updateFilter({ status: e.target.value as LogFilters['status'] })}
+                                style={styles.input}
+                            >
+                                <option value="">All outcomes</option>
+                                <option value="ALLOWED">Allowed</option>
+                                <option value="ESCALATION_REQUIRED">Escalation required</option>
+                                <option value="BLOCKED">Blocked</option>
+                            </select>
+                            <label style={styles.filterLabel}>
+                                From
+                                <input
+                                    type="datetime-local"
+                                    value={filters.from}
+                                    onChange={e => updateFilter({ from: e.target.value })}
+                                    style={styles.input}
+                                />
+                            </label>
+                            <label style={styles.filterLabel}>
+                                To
+                                <input
+                                    type="datetime-local"
+                                    value={filters.to}
+                                    onChange={e => updateFilter({ to: e.target.value })}
+                                    style={styles.input}
+                                />
+                            </label>
+                            <div style={styles.filterActions}>
+                                <button style={styles.secondaryButton} onClick={() => setFilters(EMPTY_FILTERS)}>
+                                    Clear
+                                </button>
+                                <button style={styles.secondaryButton} onClick={() => load(filters)}>
+                                    Refresh
+                                </button>
+                            </div>
+                        </div>
+
+                        <div style={styles.listHeader}>
+                            <div style={styles.listTitle}>Verdicts</div>
+                            <div style={styles.listCount}>
+                                {status === 'LOADING' ? 'Loading…' : `${entries.length} shown`}
+                            </div>
+                        </div>
+
+                        {status === 'ERROR' ? (
+                            <div style={styles.errorBox}>{error}</div>
+                        ) : entries.length === 0 && status === 'READY' ? (
+                            <div style={styles.emptyState}>
+                                <div style={styles.emptyTitle}>No verdicts recorded</div>
+                                <div style={styles.emptyMessage}>
+                                    Verdicts appear here once agents ask the decision API for them.
+                                </div>
+                            </div>
+                        ) : (
+                            <div style={styles.entryList}>
+                                {entries.map(entry => (
+                                    <EntryCard
+                                        key={entry.entryId}
+                                        entry={entry}
+                                        isSelected={entry.entryId === selectedEntryId}
+                                        onClick={() => setSelectedEntryId(entry.entryId)}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {selectedEntry && (
+                        <div style={styles.detailContainer}>
+                            <EntryInspector entry={selectedEntry} onClose={() => setSelectedEntryId(null)} />
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ============================================================================
+// ENTRY CARD
+// ============================================================================
+
+function EntryCard({ entry, isSelected, onClick }: { entry: VerdictLogEntry; isSelected: boolean; onClick: () => void }) {
+    const { verdict } = entry;
+    return (
+        <div style={{ ...styles.card, ...(isSelected ? styles.cardSelected : {}) }} onClick={onClick}>
+            <div style={styles.cardTop}>
+                <div style={styles.cardTitle}>{verdict.action.actionName}</div>
+                <OutcomeBadge status={verdict.decision.status} />
+            </div>
+            <div style={styles.cardMeta}>
+                {verdict.subject.agentName} · {new Date(verdict.evaluatedAt).toLocaleString()}
+            </div>
+        </div>
+    );
+}
+
+function OutcomeBadge({ status }: { status: VerdictStatus }) {
+    const color = status === 'ALLOWED'
+        ? { background: '#1a2a20', color: '#6FAF8E' }
+        : status === 'BLOCKED'
+            ? { background: '#2a1a1a', color: '#C46A6A' }
+            : { background: '#2a2a1a', color: '#C8A96A' };
+    return <div style={{ ...styles.badge, ...color }}>{status.replace('_', ' ')}</div>;
+}
+
+// ============================================================================
+// ENTRY INSPECTOR
+// ============================================================================
+
+function EntryInspector({ entry, onClose }: { entry: VerdictLogEntry; onClose: () => void }) {
+    const { verdict } = entry;
+    return (
+        <div style={styles.inspector}>
+            <button style={styles.closeButton} onClick={onClose}>✕</button>
+
+            <InspectorSection title="WHAT WAS ASKED">
+                <InfoRow label="Agent" value={`${verdict.subject.agentName} (${verdict.subject.agentId})`} />
+                <InfoRow label="Action" value={`${verdict.action.actionName} (${verdict.action.actionId})`} />
+                <InfoRow label="Context sent" value={formatVerdictContext(entry.requestedContext)} />
+                <InfoRow label="Evaluated with" value={formatVerdictContext(verdict.context)} />
+                <InfoRow label="Via" value={entry.source} />
+            </InspectorSection>
+
+            <InspectorSection title="WHAT IT WAS TOLD">
+                <div style={styles.infoRow}>
+                    <div style={styles.infoLabel}>Outcome:</div>
+                    <OutcomeBadge status={verdict.decision.status} />
+                </div>
+                <InfoRow label="Confidence" value={verdict.decision.confidence} />
+                <div style={styles.summary}>{verdict.reasoning.summary}</div>
+                {verdict.reasoning.appliedConstraints.map((constraint, index) => (
+                    <div key={index} style={styles.constraintRow}>
+                        <span style={styles.constraintSource}>{constraint.source}</span>
+                        {constraint.description}
+                    </div>
+                ))}
+                {verdict.escalation && (
+                    <InfoRow label="Approver" value={`${verdict.escalation.expectedApproverRole}: ${verdict.escalation.reason}`} />
+                )}
+            </InspectorSection>
+
+            <InspectorSection title="RECORD">
+                <InfoRow label="Verdict ID" value={verdict.verdictId} mono />
+                <InfoRow label="Configuration" value={entry.configurationVersion} mono />
+                <InfoRow label="Evaluated" value={new Date(verdict.evaluatedAt).toLocaleString()} />
+                <InfoRow label="Recorded" value={new Date(entry.recordedAt).toLocaleString()} />
+                <InfoRow label="Entry" value={entry.entryId} mono />
+            </InspectorSection>
+        </div>
+    );
+}
+
+function InspectorSection({ title, children }: { title: string; children: React.ReactNode }) {
+    return (
+        <div style={styles.inspectorSection}>
+            <div style={styles.inspectorSectionTitle}>{title}</div>
+            <div>{children}</div>
+        </div>
+    );
+}
+
+function InfoRow({ label, value, mono = false }: { label: string; value: string; mono?: boolean }) {
+    return (
+        <div style={styles.infoRow}>
+            <div style={styles.infoLabel}>{label}:</div>
+            <div style={{
+                ...styles.infoValue,
+                ...(mono ? { fontFamily: 'monospace', fontSize: '11px', wordBreak: 'break-all' as const } : {}),
+            }}>
+                {value}
+            </div>
+        </div>
+    );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    container: {
+        minHeight: '100vh',
+        background: '#0a0a0a',
+        color: '#ddd',
+    },
+    header: {
+        padding: '32px 40px',
+        borderBottom: '1px solid #2a2a2a',
+    },
+    headerTop: {
+        display: 'flex',
+        justifyContent: 'space-between' as const,
+        alignItems: 'center' as const,
+        marginBottom: 8,
+    },
+    headerTitle: {
+        fontSize: '20px',
+        fontWeight: 600,
+        color: '#C8A96A',
+        letterSpacing: '1px',
+    },
+    headerSubtitle: {
+        fontSize: '13px',
+        color: '#888',
+    },
+    backLink: {
+        fontSize: '12px',
+        color: '#888',
+        textDecoration: 'none',
+    },
+    content: {
+        display: 'flex',
+        gap: 24,
+        padding: 40,
+    },
+    listContainer: {
+        flex: 1,
+        maxWidth: 560,
+    },
+    filters: {
+        display: 'flex',
+        flexWrap: 'wrap' as const,
+        gap: 8,
+        marginBottom: 24,
+    },
+    filterLabel: {
+        display: 'flex',
+        alignItems: 'center' as const,
+        gap: 6,
+        fontSize: '11px',
+        color: '#777',
+    },
+    filterActions: {
+        display: 'flex',
+        gap: 8,
+    },
+    input: {
+        padding: '6px 8px',
+        background: '#0f0f0f',
+        border: '1px solid #2a2a2a',
+        borderRadius: 4,
+        color: '#ddd',
+        fontSize: '12px',
+    },
+    secondaryButton: {
+        padding: '6px 12px',
+        background: 'transparent',
+        border: '1px solid #2a2a2a',
+        borderRadius: 4,
+        color: '#aaa',
+        fontSize: '12px',
+        cursor: 'pointer',
+    },
+    listHeader: {
+        display: 'flex',
+        justifyContent: 'space-between' as const,
+        alignItems: 'center' as const,
+        marginBottom: 20,
+        paddingBottom: 12,
+        borderBottom: '1px solid #1a1a1a',
+    },
+    listTitle: {
+        fontSize: '14px',
+        fontWeight: 600,
+        color: '#aaa',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+    },
+    listCount: {
+        fontSize: '12px',
+        color: '#666',
+    },
+    entryList: {
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: 8,
+    },
+    emptyState: {
+        textAlign: 'center' as const,
+        padding: '80px 40px',
+        color: '#666',
+    },
+    emptyTitle: {
+        fontSize: '16px',
+        fontWeight: 500,
+        marginBottom: 8,
+        color: '#888',
+    },
+    emptyMessage: {
+        fontSize: '13px',
+        color: '#666',
+        lineHeight: '1.6',
+    },
+    errorBox: {
+        padding: 16,
+        background: '#1a0f0f',
+        border: '1px solid #3a2020',
+        borderRadius: 6,
+        fontSize: '13px',
+        color: '#C46A6A',
+    },
+    card: {
+        padding: 14,
+        background: '#0f0f0f',
+        border: '1px solid #2a2a2a',
+        borderRadius: 6,
+        cursor: 'pointer',
+        transition: 'border-color 0.2s',
+    },
+    cardSelected: {
+        borderColor: '#C8A96A',
+        background: '#1a1a1a',
+    },
+    cardTop: {
+        display: 'flex',
+        justifyContent: 'space-between' as const,
+        alignItems: 'center' as const,
+        gap: 12,
+        marginBottom: 8,
+    },
+    cardTitle: {
+        fontSize: '13px',
+        color: '#ddd',
+        fontWeight: 500,
+    },
+    cardMeta: {
+        fontSize: '11px',
+        color: '#666',
+    },
+    badge: {
+        padding: '3px 8px',
+        borderRadius: 3,
+        fontSize: '10px',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        fontWeight: 500,
+        whiteSpace: 'nowrap' as const,
+    },
+    detailContainer: {
+        flex: 1,
+        maxWidth: 700,
+    },
+    inspector: {
+        background: '#0f0f0f',
+        border: '1px solid #2a2a2a',
+        borderRadius: 8,
+        padding: 24,
+        position: 'relative' as const,
+    },
+    closeButton: {
+        position: 'absolute' as const,
+        top: 16,
+        right: 16,
+        background: 'transparent',
+        border: 'none',
+        color: '#666',
+        fontSize: '20px',
+        cursor: 'pointer',
+        padding: 8,
+    },
+    inspectorSection: {
+        marginBottom: 28,
+        paddingBottom: 28,
+        borderBottom: '1px solid #1a1a1a',
+    },
+    inspectorSectionTitle: {
+        fontSize: '11px',
+        fontWeight: 600,
+        color: '#777',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        marginBottom: 16,
+    },
+    infoRow: {
+        display: 'flex',
+        marginBottom: 10,
+        alignItems: 'center' as const,
+    },
+    infoLabel: {
+        width: 130,
+        flexShrink: 0,
+        fontSize: '12px',
+        color: '#888',
+        fontWeight: 500,
+    },
+    infoValue: {
+        flex: 1,
+        fontSize: '12px',
+        color: '#aaa',
+    },
+    summary: {
+        fontSize: '13px',
+        color: '#ddd',
+        lineHeight: '1.6',
+        margin: '12px 0',
+    },
+    constraintRow: {
+        fontSize: '12px',
+        color: '#aaa',
+        lineHeight: '1.5',
+        marginBottom: 6,
+    },
+    constraintSource: {
+        display: 'inline-block',
+        minWidth: 100,
+        fontSize: '10px',
+        color: '#777',
+        letterSpacing: '0.5px',
+    },
+};
@@ -0,0 +1,98 @@
+import { describe, it, expect } from '@jest/globals';
+import { DecisionClientError, createDecisionClient } from './decisionClient';
+import { createFakeDecisionServer } from './fakeDecisionServer';
+import { DEFAULT_ACTION_CATALOG } from '@/logic/actions/actionCatalog';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+
+describe('Decision Client', () => {
+    const setup = (options: { failClosed?: boolean; timeoutMs?: number } = {}) => {
+        const server = createFakeDecisionServer({ structure: PHASE0_DATA, catalog: DEFAULT_ACTION_CATALOG });
+        const client = createDecisionClient({
+            baseUrl: 'http://osr.test/api/v1',
+            fetch: server.fetch,
+            retries: 2,
+            retryDelayMs: 0,
+            ...options,
+        });
+        return { server, client };
+    };
+
+    const errorOf = async (promise: Promise<unknown>) => {
+        try {
+            await promise;
+        } catch (error) {
+            return error as DecisionClientError;
+        }
+        throw new Error('Expected the call to fail');
+    };
+
+    it('returns the service verdict for a check', async () => {
+        const { client } = setup();
+        const verdict = await client.check('agt-fin-recon', 'finance_review_ledger', { timeOfDay: '10:00' });
+        expect(verdict.subject.agentId).toBe('agt-fin-recon');
+        expect(verdict.context.timeOfDay).toBe('10:00');
+    });
+
+    it('retries reads until the service recovers', async () => {
+        const { server, client } = setup();
+        server.failNext(2);
+        const verdict = await client.check('agt-fin-recon', 'finance_review_ledger');
+        expect(verdict.verdictId.startsWith('unavailable-')).toBe(false);
+        expect(server.requests).toHaveLength(3);
+    });
+
+    it('fails closed with a BLOCKED verdict when retries are exhausted', async () => {
+        const { server, client } = setup();
+        server.failNext(3);
+        const verdict = await client.check('agt-fin-recon', 'finance_review_ledger');
+        expect(verdict.decision.status).toBe('BLOCKED');
+        expect(verdict.reasoning.appliedConstraints[0].source).toBe('RUNTIME');
+    });
+
+    it('throws instead when fail-closed is disabled', async () => {
+        const { server, client } = setup({ failClosed: false });
+        server.failNext(3);
+        expect((await errorOf(client.check('agt-fin-recon', 'finance_review_ledger'))).code).toBe('UNAVAILABLE');
+    });
+
+    it('treats a slow service as unavailable', async () => {
+        const { server, client } = setup({ timeoutMs: 5 });
+        server.latencyMs = 50;
+        const verdict = await client.check('agt-fin-recon', 'finance_review_ledger');
+        expect(verdict.decision.status).toBe('BLOCKED');
+    });
+
+    it('surfaces request errors without retrying', async () => {
+        const { server, client } = setup();
+        const error = await errorOf(client.check('agt-missing', 'finance_review_ledger'));
+        expect(error.code).toBe('UNKNOWN_AGENT');
+        expect(error.status).toBe(404);
+        expect(server.requests).toHaveLength(1);
+    });
+
+    it('stages once and reports the approval', async () => {
+        const { server, client } = setup();
+        const staged = await client.stage('agt-fin-recon', 'finance_post_adjustment');
+        expect(staged.state).toBe('STAGED');
+
+        server.approve(staged.id);
+        const { outcome, stagedAction } = await client.awaitApproval(staged.id, { pollIntervalMs: 1 });
+        expect(outcome).toBe('APPROVED');
+        expect(stagedAction?.state).toBe('APPROVED');
+    });
+
+    it('does not retry staging', async () => {
+        const { server, client } = setup();
+        server.failNext(1);
+        expect((await errorOf(client.stage('agt-fin-recon', 'finance_post_adjustment'))).code).toBe('UNAVAILABLE');
+        expect(server.stagedActions()).toHaveLength(0);
+        expect(server.requests).toHaveLength(1);
+    });
+
+    it('stops waiting for approval at the deadline', async () => {
+        const { client } = setup();
+        const staged = await client.stage('agt-fin-recon', 'finance_post_adjustment');
+        const { outcome } = await client.awaitApproval(staged.id, { timeoutMs: 5, pollIntervalMs: 1 });
+        expect(outcome).toBe('TIMED_OUT');
+    });
+});
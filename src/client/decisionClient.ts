@@ -0,0 +1,280 @@
+import type { RuntimeVerdict } from '@/logic/authority/deriveRuntimeVerdict';
+import type { DoAction } from '@/logic/authority/deriveDoActions';
+import type { VerdictContext } from '@/logic/authority/verdictContext';
+import type { StagedAction } from '@/logic/staging/stagedActions';
+import type { DecisionErrorBody, DecisionRequestIssue, ReadinessDecision } from '@/logic/runtime/decisionService';
+import type { VerdictLogEntry, VerdictLogQuery } from '@/logic/runtime/verdictLog';
+import type { AuditEntry, GovernanceEvent } from '@/logic/audit/auditLedger';
+
+/**
+ * Decision API Client (Phase 9O)
+ *
+ * Typed client for the v1 decision API, for agent integrations that ask
+ * "may I?" before acting. Responses are the server's own types
+ * (RuntimeVerdict, ExecutionReadiness, DoAction, StagedAction); only types
+ * are imported, so the client carries no server code.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - FAIL CLOSED: By default an unreachable service yields a BLOCKED verdict, never an ALLOWED one
+ * - Only reads are retried; stage() and recordGovernanceEvents() are sent once so nothing is recorded twice
+ * - Request errors (4xx) are never retried and always throw
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface DecisionClientOptions {
+    baseUrl: string;                // e.g. "https://osr.example.com/api/v1"
+    organizationId?: string;        // Defaults to the workspace's active organization
+    fetch?: FetchLike;              // Defaults to the global fetch
+    timeoutMs?: number;             // Per attempt (default 5000)
+    retries?: number;               // Extra attempts after a failed read (default 2)
+    retryDelayMs?: number;          // First backoff delay, doubled per retry (default 200)
+    failClosed?: boolean;           // Default true; false makes check() throw when unavailable
+}
+
+export interface AwaitApprovalOptions {
+    timeoutMs?: number;             // Total wait (default 10 minutes)
+    pollIntervalMs?: number;        // Default 2000
+}
+
+/**
+ * Result of waiting for a human. Only APPROVED permits the action.
+ */
+export interface ApprovalOutcome {
+    outcome: 'APPROVED' | 'REJECTED' | 'TIMED_OUT' | 'UNAVAILABLE';
+    stagedAction: StagedAction | null;      // Last state seen, null if never reached
+}
+
+export type DecisionClientErrorCode =
+    | DecisionErrorBody['code']     // Returned by the service
+    | 'UNAVAILABLE'                 // Network failure, timeout or 5xx after every retry
+    | 'INVALID_RESPONSE';           // Response body was not what the contract promises
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export class DecisionClientError extends Error {
+    constructor(
+        message: string,
+        public readonly code: DecisionClientErrorCode,
+        public readonly status: number | null = null,
+        public readonly issues: DecisionRequestIssue[] = []
+    ) {
+        super(message);
+        this.name = 'DecisionClientError';
+    }
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+const DEFAULTS = {
+    timeoutMs: 5000,
+    retries: 2,
+    retryDelayMs: 200,
+    approvalTimeoutMs: 10 * 60 * 1000,
+    pollIntervalMs: 2000,
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export interface DecisionClient {
+    /** The verdict for one attempt. Fails closed when the service is unreachable. */
+    check(agentId: string, actionId: string, context?: VerdictContext): Promise<RuntimeVerdict>;
+    /** The verdict and execution readiness for one attempt. */
+    readiness(agentId: string, actionId: string, context?: VerdictContext): Promise<ReadinessDecision>;
+    /** The Do actions bound to an agent. */
+    actions(agentId: string): Promise<DoAction[]>;
+    /** Stage an attempt for human review. */
+    stage(agentId: string, actionId: string, context?: VerdictContext): Promise<StagedAction>;
+    /** Poll a staged action until a human approves or rejects it. */
+    awaitApproval(stagedId: string, options?: AwaitApprovalOptions): Promise<ApprovalOutcome>;
+    /** Recorded verdicts matching the query, newest first (Phase 9Q). */
+    verdictLog(query?: VerdictLogQuery): Promise<VerdictLogEntry[]>;
+    /** The organization's audit ledger, oldest first (Phase 9R). */
+    auditLedger(): Promise<AuditEntry[]>;
+    /** Chain governance events onto the audit ledger; returns the whole ledger. */
+    recordGovernanceEvents(events: GovernanceEvent[]): Promise<AuditEntry[]>;
+}
+
+export function createDecisionClient(options: DecisionClientOptions): DecisionClient {
+    const transport: FetchLike = options.fetch ?? ((input, init) => fetch(input, init));
+    const baseUrl = options.baseUrl.replace(/\/+$/, '');
+    const timeoutMs = options.timeoutMs ?? DEFAULTS.timeoutMs;
+    const retries = options.retries ?? DEFAULTS.retries;
+    const retryDelayMs = options.retryDelayMs ?? DEFAULTS.retryDelayMs;
+    const failClosed = options.failClosed ?? true;
+    const { organizationId } = options;
+
+    /**
+     * One attempt. Request errors throw with the service's code; anything
+     * that says nothing about the request throws UNAVAILABLE.
+     */
+    async function attempt<T>(method: 'GET' | 'POST', path: string, body?: object): Promise<T> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        let response: Response;
+        try {
+            response = await transport(`${baseUrl}${path}`, {
+                method,
+                headers: body ? { 'Content-Type': 'application/json' } : undefined,
+                body: body ? JSON.stringify(body) : undefined,
+                signal: controller.signal,
+            });
+        } catch (error) {
+            const reason = controller.signal.aborted ? `timed out after ${timeoutMs}ms` : String(error);
+            throw new DecisionClientError(`${method} ${path} ${reason}`, 'UNAVAILABLE');
+        } finally {
+            clearTimeout(timer);
+        }
+
+        let payload: unknown;
+        try {
+            payload = await response.json();
+        } catch {
+            throw new DecisionClientError(`${method} ${path} returned a non-JSON body`,
+                response.status >= 500 ? 'UNAVAILABLE' : 'INVALID_RESPONSE', response.status);
+        }
+
+        if (!response.ok) {
+            const error = payload as Partial<DecisionErrorBody>;
+            const code = response.status >= 500 ? 'UNAVAILABLE' : (error.code ?? 'INVALID_RESPONSE');
+            throw new DecisionClientError(error.error ?? `${method} ${path} failed with ${response.status}`,
+                code, response.status, error.issues ?? []);
+        }
+        return payload as T;
+    }
+
+    /**
+     * Reads are retried with exponential backoff while the service is unavailable.
+     */
+    async function read<T>(method: 'GET' | 'POST', path: string, body?: object): Promise<T> {
+        for (let retry = 0; ; retry++) {
+            try {
+                return await attempt<T>(method, path, body);
+            } catch (error) {
+                const unavailable = error instanceof DecisionClientError && error.code === 'UNAVAILABLE';
+                if (!unavailable || retry >= retries) throw error;
+                await sleep(retryDelayMs * 2 ** retry);
+            }
+        }
+    }
+
+    const decisionBody = (agentId: string, actionId: string, context?: VerdictContext) => ({
+        ...(organizationId ? { organizationId } : {}),
+        agentId,
+        actionId,
+        ...(context ? { context } : {}),
+    });
+
+    const query = organizationId ? `?organizationId=${encodeURIComponent(organizationId)}` : '';
+
+    return {
+        async check(agentId, actionId, context) {
+            try {
+                return await read<RuntimeVerdict>('POST', '/verdicts', decisionBody(agentId, actionId, context));
+            } catch (error) {
+                if (!failClosed || !(error instanceof DecisionClientError) || error.code !== 'UNAVAILABLE') throw error;
+                return unavailableVerdict(agentId, actionId, context ?? {}, organizationId ?? '', error.message);
+            }
+        },
+
+        readiness(agentId, actionId, context) {
+            return read<ReadinessDecision>('POST', '/readiness', decisionBody(agentId, actionId, context));
+        },
+
+        async actions(agentId) {
+            const { actions } = await read<{ actions: DoAction[] }>('GET', `/agents/${encodeURIComponent(agentId)}/actions${query}`);
+            return actions;
+        },
+
+        stage(agentId, actionId, context) {
+            return attempt<StagedAction>('POST', '/staged-actions', decisionBody(agentId, actionId, context));
+        },
+
+        async awaitApproval(stagedId, waitOptions = {}) {
+            const deadline = Date.now() + (waitOptions.timeoutMs ?? DEFAULTS.approvalTimeoutMs);
+            const pollIntervalMs = waitOptions.pollIntervalMs ?? DEFAULTS.pollIntervalMs;
+            let stagedAction: StagedAction | null = null;
+
+            for (;;) {
+                try {
+                    stagedAction = await read<StagedAction>('GET', `/staged-actions/${encodeURIComponent(stagedId)}${query}`);
+                } catch (error) {
+                    if (!failClosed || !(error instanceof DecisionClientError) || error.code !== 'UNAVAILABLE') throw error;
+                    return { outcome: 'UNAVAILABLE', stagedAction };
+                }
+                if (stagedAction.state !== 'STAGED') {
+                    return { outcome: stagedAction.state, stagedAction };
+                }
+                const remaining = deadline - Date.now();
+                if (remaining <= 0) return { outcome: 'TIMED_OUT', stagedAction };
+                await sleep(Math.min(pollIntervalMs, remaining));
+            }
+        },
+
+        async verdictLog(logQuery = {}) {
+            const params = new URLSearchParams();
+            if (organizationId) params.set('organizationId', organizationId);
+            for (const [key, value] of Object.entries(logQuery)) {
+                if (value !== undefined) params.set(key, String(value));
+            }
+            const search = params.toString();
+            const { entries } = await read<{ entries: VerdictLogEntry[] }>('GET', `/verdict-log${search ? `?${search}` : ''}`);
+            return entries;
+        },
+
+        async auditLedger() {
+            const { entries } = await read<{ entries: AuditEntry[] }>('GET', `/audit-ledger${query}`);
+            return entries;
+        },
+
+        async recordGovernanceEvents(events) {
+            const { entries } = await attempt<{ entries: AuditEntry[] }>('POST', '/audit-ledger', {
+                ...(organizationId ? { organizationId } : {}),
+                events,
+            });
+            return entries;
+        },
+    };
+}
+
+// ============================================================================
+// FAIL-CLOSED VERDICT
+// ============================================================================
+
+/**
+ * The verdict used when the service cannot be reached: BLOCKED, LOW confidence,
+ * citing the failure. Names and the domain are unknown without the service,
+ * and the action is treated as EXECUTE, the most consequential category.
+ */
+export function unavailableVerdict(
+    agentId: string,
+    actionId: string,
+    context: VerdictContext,
+    organizationId: string,
+    failure: string
+): RuntimeVerdict {
+    const evaluatedAt = new Date().toISOString();
+    return {
+        verdictId: `unavailable-${Date.now()}`,
+        evaluatedAt,
+        subject: { agentId, agentName: agentId, domainId: '', organizationId },
+        action: { actionId, actionName: actionId, actionCategory: 'EXECUTE' },
+        context,
+        configurationVersion: '',
+        decision: { status: 'BLOCKED', confidence: 'LOW' },
+        reasoning: {
+            summary: 'The decision service could not be reached, so the action is blocked (fail closed).',
+            appliedConstraints: [{ source: 'RUNTIME', description: `Decision service unavailable: ${failure}` }],
+        },
+        execution: { attempted: true, executed: false, executionPath: null },
+        guarantees: { deterministic: true, reversible: true, persisted: false, executable: false },
+    };
+}
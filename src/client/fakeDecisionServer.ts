@@ -0,0 +1,163 @@
+import {
+    DECISION_ERROR_STATUS,
+    DecisionConfiguration,
+    DecisionError,
+    applyApprovalDecision,
+    assessReadiness,
+    decide,
+    listActions,
+    parseDecisionRequest,
+    stageAction,
+    toDecisionErrorBody,
+} from '@/logic/runtime/decisionService';
+import { StagedAction } from '@/logic/staging/stagedActions';
+import { VerdictLogEntry, createVerdictLogEntry, parseVerdictLogQuery, queryVerdictLog } from '@/logic/runtime/verdictLog';
+import { FetchLike } from './decisionClient';
+
+/**
+ * Fake Decision Server (Phase 9O)
+ *
+ * In-memory stand-in for the v1 decision API, for testing integrations
+ * without a running app. Its fetch answers the routes the client uses with
+ * the same decision service as the real routes, so verdicts are identical.
+ * Returned verdicts are recorded in an in-memory verdict log, as the real routes do.
+ *
+ * Tests drive the human side (approve, reject) and inject failures
+ * (failNext, latencyMs) to exercise retries, timeouts and fail-closed paths.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FakeDecisionServer {
+    fetch: FetchLike;
+    approve(stagedId: string): StagedAction;
+    reject(stagedId: string, reason: string): StagedAction;
+    stagedActions(): StagedAction[];
+    verdictLog(): VerdictLogEntry[];
+    /** Answer the next `count` requests with this status (default 503) instead of handling them. */
+    failNext(count: number, status?: number): void;
+    /** Delay every response; requests aborted meanwhile reject like a real fetch. */
+    latencyMs: number;
+    /** Paths of every request received, failed ones included. */
+    requests: string[];
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+const json = (body: unknown, status: number = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (ms <= 0) return resolve();
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('The operation was aborted', 'AbortError'));
+        });
+    });
+}
+
+export function createFakeDecisionServer(configuration: DecisionConfiguration): FakeDecisionServer {
+    const staged = new Map<string, StagedAction>();
+    const log: VerdictLogEntry[] = [];
+    const organizationId = configuration.structure.organization.id;
+    let failures: { remaining: number; status: number } = { remaining: 0, status: 503 };
+
+    const findStaged = (id: string): StagedAction => {
+        const action = staged.get(id);
+        if (!action) throw new DecisionError(`Unknown staged action "${id}"`, 'UNKNOWN_STAGED_ACTION');
+        return action;
+    };
+
+    const record = (action: StagedAction) => {
+        staged.set(action.id, action);
+        return action;
+    };
+
+    function route(method: string, path: string, search: URLSearchParams, body: unknown): Response {
+        const { organizationId: _organizationId, ...request } = (body ?? {}) as Record<string, unknown>;
+        let match: RegExpMatchArray | null;
+
+        if (method === 'POST' && path === '/verdicts') {
+            const decisionRequest = parseDecisionRequest(request);
+            const verdict = decide(configuration, decisionRequest);
+            log.push(createVerdictLogEntry(organizationId, 'VERDICT', decisionRequest.context, verdict));
+            return json(verdict);
+        }
+        if (method === 'POST' && path === '/readiness') {
+            const decisionRequest = parseDecisionRequest(request);
+            const decision = assessReadiness(configuration, decisionRequest);
+            log.push(createVerdictLogEntry(organizationId, 'READINESS', decisionRequest.context, decision.verdict));
+            return json(decision);
+        }
+        if (method === 'POST' && path === '/staged-actions') {
+            const decisionRequest = parseDecisionRequest(request);
+            const action = record(stageAction(configuration, decisionRequest));
+            log.push(createVerdictLogEntry(organizationId, 'STAGING', decisionRequest.context, action.runtimeVerdict));
+            return json(action, 201);
+        }
+        if (method === 'GET' && path === '/verdict-log') {
+            const { query, issues } = parseVerdictLogQuery(Object.fromEntries(search));
+            if (issues.length > 0) throw new DecisionError('The verdict log query is invalid', 'INVALID_REQUEST', issues);
+            return json({ entries: queryVerdictLog(log, query) });
+        }
+        if (method === 'GET' && (match = path.match(/^\/agents\/([^/]+)\/actions$/))) {
+            return json({ actions: listActions(configuration, decodeURIComponent(match[1])) });
+        }
+        if (method === 'GET' && (match = path.match(/^\/staged-actions\/([^/]+)$/))) {
+            return json(findStaged(decodeURIComponent(match[1])));
+        }
+        return json({ error: `No route for ${method} ${path}`, code: 'INVALID_REQUEST' }, 404);
+    }
+
+    const server: FakeDecisionServer = {
+        latencyMs: 0,
+        requests: [],
+
+        async fetch(input, init = {}) {
+            const method = init.method ?? 'GET';
+            const url = new URL(input, 'http://fake.local');
+            const path = url.pathname.replace(/^\/api\/v1/, '');
+            server.requests.push(`${method} ${path}`);
+            await delay(server.latencyMs, init.signal);
+
+            if (failures.remaining > 0) {
+                failures = { ...failures, remaining: failures.remaining - 1 };
+                return json({ error: 'Injected failure', code: 'INTERNAL' }, failures.status);
+            }
+            try {
+                return route(method, path, url.searchParams, init.body ? JSON.parse(String(init.body)) : undefined);
+            } catch (error) {
+                const body = toDecisionErrorBody(error);
+                return json(body, DECISION_ERROR_STATUS[body.code]);
+            }
+        },
+
+        approve(stagedId) {
+            return record(applyApprovalDecision(findStaged(stagedId), { decision: 'APPROVE' }));
+        },
+
+        reject(stagedId, reason) {
+            return record(applyApprovalDecision(findStaged(stagedId), { decision: 'REJECT', reason }));
+        },
+
+        stagedActions() {
+            return Array.from(staged.values());
+        },
+
+        verdictLog() {
+            return [...log];
+        },
+
+        failNext(count, status = 503) {
+            failures = { remaining: count, status };
+        },
+    };
+
+    return server;
+}
@@ -0,0 +1,390 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { Agent } from '@/app/data/types';
+import {
+    ActionCatalog,
+    ActionCatalogEntry,
+    ActionCatalogIssue,
+    ActionSurface,
+    ACTION_CATEGORIES,
+    ACTION_SURFACES,
+    REQUIRED_AUTHORITY_RANGE,
+    upsertCatalogEntry,
+    removeCatalogEntry,
+    bindRoleActions,
+    bindAgentActions,
+    setDefaultActions,
+    getAgentBindingSource,
+    resolveAgentActions,
+    suggestActionId,
+} from '@/logic/actions/actionCatalog';
+import { DoActionCategory } from '@/logic/authority/deriveDoActions';
+
+/**
+ * Action Catalog Panel (Phase 9H)
+ *
+ * Edit the organization's Do action catalog and bind entries to roles and agents.
+ * Every change is validated by the store; refused changes list their issues here.
+ */
+
+interface ActionCatalogPanelProps {
+    catalog: ActionCatalog;
+    agents: Agent[];
+    disabled?: boolean;
+    onChange: (catalog: ActionCatalog) => ActionCatalogIssue[];
+}
+
+// Binding target: the defaults, a role, or a single agent
+type BindingTarget =
+    | { kind: 'DEFAULT' }
+    | { kind: 'ROLE'; role: string }
+    | { kind: 'AGENT'; agent: Agent };
+
+export function ActionCatalogPanel({ catalog, agents, disabled, onChange }: ActionCatalogPanelProps) {
+    const [issues, setIssues] = useState<ActionCatalogIssue[]>([]);
+    const [newVerbPhrase, setNewVerbPhrase] = useState('');
+    const [targetKey, setTargetKey] = useState('DEFAULT');
+
+    const apply = (next: ActionCatalog) => setIssues(onChange(next));
+
+    const roles = Array.from(new Set([...agents.map(a => a.role), ...Object.keys(catalog.roleBindings)])).sort();
+    const target = resolveTarget(targetKey, agents);
+
+    // Currently bound IDs for the target, and whether they are its own binding
+    let boundIds: string[];
+    let inheritedFrom: string | null = null;
+    if (target.kind === 'DEFAULT') {
+        boundIds = catalog.defaultActionIds;
+    } else if (target.kind === 'ROLE') {
+        boundIds = catalog.roleBindings[target.role] ?? catalog.defaultActionIds;
+        if (!catalog.roleBindings[target.role]) inheritedFrom = 'defaults';
+    } else {
+        boundIds = resolveAgentActions(catalog, target.agent).map(e => e.id);
+        const source = getAgentBindingSource(catalog, target.agent);
+        if (source === 'ROLE') inheritedFrom = `role "${target.agent.role}"`;
+        if (source === 'DEFAULT') inheritedFrom = 'defaults';
+    }
+
+    const setBinding = (ids: string[] | null) => {
+        if (target.kind === 'DEFAULT') apply(setDefaultActions(catalog, ids ?? []));
+        else if (target.kind === 'ROLE') apply(bindRoleActions(catalog, target.role, ids));
+        else apply(bindAgentActions(catalog, target.agent.id, ids));
+    };
+
+    const toggleBinding = (actionId: string) => {
+        const next = boundIds.includes(actionId)
+            ? boundIds.filter(id => id !== actionId)
+            : [...boundIds, actionId];
+        setBinding(next);
+    };
+
+    const handleAdd = () => {
+        const verbPhrase = newVerbPhrase.trim();
+        if (!verbPhrase) return;
+        apply(upsertCatalogEntry(catalog, {
+            id: suggestActionId(catalog, verbPhrase),
+            verbPhrase,
+            category: 'DATA_ACCESS',
+            requiredAuthority: 1,
+            requiredSurface: 'READ',
+            tags: [],
+        }));
+        setNewVerbPhrase('');
+    };
+
+    return (
+        <div style={styles.card}>
+            {/* ENTRIES */}
+            <div style={styles.subTitle}>Actions ({catalog.entries.length})</div>
+            <div style={styles.table}>
+                <div style={{ ...styles.row, ...styles.headerRow }}>
+                    <span>Verb phrase</span>
+                    <span>Category</span>
+                    <span>Authority</span>
+                    <span>Surface</span>
+                    <span>Tags</span>
+                    <span />
+                </div>
+                {catalog.entries.map(entry => (
+                    <CatalogEntryRow
+                        key={entry.id}
+                        entry={entry}
+                        disabled={disabled}
+                        onChange={(next) => apply(upsertCatalogEntry(catalog, next))}
+                        onRemove={() => {
+                            if (confirm(`Remove "${entry.verbPhrase}" and all its bindings?`)) {
+                                apply(removeCatalogEntry(catalog, entry.id));
+                            }
+                        }}
+                    />
+                ))}
+            </div>
+
+            {!disabled && (
+                <div style={styles.addRow}>
+                    <input
+                        style={{ ...styles.input, flex: 1 }}
+                        value={newVerbPhrase}
+                        placeholder="New action, e.g. Issue customer refund"
+                        onChange={(e) => setNewVerbPhrase(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                    />
+                    <button style={styles.button} onClick={handleAdd} disabled={!newVerbPhrase.trim()}>
+                        <Plus size={14} /> Add action
+                    </button>
+                </div>
+            )}
+
+            {/* BINDINGS */}
+            <div style={{ ...styles.subTitle, marginTop: 24 }}>Bindings</div>
+            <div style={styles.addRow}>
+                <select style={styles.input} value={targetKey} onChange={(e) => setTargetKey(e.target.value)}>
+                    <option value="DEFAULT">Defaults (agents without a binding)</option>
+                    <optgroup label="Roles">
+                        {roles.map(role => <option key={role} value={`ROLE:${role}`}>{role}</option>)}
+                    </optgroup>
+                    <optgroup label="Agents">
+                        {agents.map(agent => <option key={agent.id} value={`AGENT:${agent.id}`}>{agent.name}</option>)}
+                    </optgroup>
+                </select>
+                {inheritedFrom ? (
+                    <span style={styles.hint}>Inherits from {inheritedFrom}. Ticking an action creates an explicit binding.</span>
+                ) : target.kind !== 'DEFAULT' && !disabled ? (
+                    <button style={styles.button} onClick={() => setBinding(null)}>
+                        Clear binding
+                    </button>
+                ) : null}
+            </div>
+
+            <div style={styles.bindingGrid}>
+                {catalog.entries.map(entry => (
+                    <label key={entry.id} style={styles.bindingItem}>
+                        <input
+                            type="checkbox"
+                            checked={boundIds.includes(entry.id)}
+                            disabled={disabled}
+                            onChange={() => toggleBinding(entry.id)}
+                        />
+                        <span>{entry.verbPhrase}</span>
+                    </label>
+                ))}
+            </div>
+
+            {issues.length > 0 && (
+                <div style={styles.errorBox}>
+                    <div style={styles.errorTitle}>
+                        <AlertTriangle size={14} /> Change refused
+                    </div>
+                    {issues.map((issue, i) => (
+                        <div key={`${issue.path}-${i}`} style={styles.errorItem}>
+                            <code style={styles.errorPath}>{issue.path}</code>
+                            <span>{issue.message}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function resolveTarget(key: string, agents: Agent[]): BindingTarget {
+    if (key.startsWith('ROLE:')) return { kind: 'ROLE', role: key.slice('ROLE:'.length) };
+    if (key.startsWith('AGENT:')) {
+        const agent = agents.find(a => a.id === key.slice('AGENT:'.length));
+        if (agent) return { kind: 'AGENT', agent };
+    }
+    return { kind: 'DEFAULT' };
+}
+
+// ============================================================================
+// ENTRY ROW
+// ============================================================================
+
+function CatalogEntryRow({
+    entry,
+    disabled,
+    onChange,
+    onRemove,
+}: {
+    entry: ActionCatalogEntry;
+    disabled?: boolean;
+    onChange: (entry: ActionCatalogEntry) => void;
+    onRemove: () => void;
+}) {
+    return (
+        <div style={styles.row} title={entry.id}>
+            {/* Text fields commit on blur so partial input is never validated */}
+            <input
+                key={`verb-${entry.verbPhrase}`}
+                style={styles.input}
+                defaultValue={entry.verbPhrase}
+                disabled={disabled}
+                onBlur={(e) => {
+                    if (e.target.value !== entry.verbPhrase) onChange({ ...entry, verbPhrase: e.target.value });
+                }}
+            />
+            <select
+                style={styles.input}
+                value={entry.category}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...entry, category: e.target.value as DoActionCategory })}
+            >
+                {ACTION_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+            </select>
+            <input
+                type="number"
+                style={styles.input}
+                min={REQUIRED_AUTHORITY_RANGE.min}
+                max={REQUIRED_AUTHORITY_RANGE.max}
+                value={entry.requiredAuthority}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...entry, requiredAuthority: parseInt(e.target.value, 10) })}
+            />
+            <select
+                style={styles.input}
+                value={entry.requiredSurface}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...entry, requiredSurface: e.target.value as ActionSurface })}
+            >
+                {ACTION_SURFACES.map(surface => <option key={surface} value={surface}>{surface}</option>)}
+            </select>
+            <input
+                key={`tags-${entry.tags.join(',')}`}
+                style={styles.input}
+                defaultValue={entry.tags.join(', ')}
+                placeholder="tag, tag"
+                disabled={disabled}
+                onBlur={(e) => {
+                    const tags = e.target.value.split(',').map(t => t.trim()).filter(Boolean);
+                    if (tags.join(',') !== entry.tags.join(',')) onChange({ ...entry, tags });
+                }}
+            />
+            <button style={styles.iconButton} onClick={onRemove} disabled={disabled} title="Remove action">
+                <Trash2 size={14} />
+            </button>
+        </div>
+    );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    card: {
+        background: '#111',
+        border: '1px solid #222',
+        borderRadius: 8,
+        padding: 24,
+    },
+    subTitle: {
+        fontSize: 12,
+        fontWeight: 600,
+        color: '#888',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        marginBottom: 12,
+    },
+    table: {
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: 6,
+    },
+    row: {
+        display: 'grid',
+        gridTemplateColumns: '2fr 1.4fr 0.7fr 0.9fr 1.4fr 32px',
+        gap: 8,
+        alignItems: 'center',
+    },
+    headerRow: {
+        fontSize: 11,
+        color: '#666',
+        textTransform: 'uppercase' as const,
+    },
+    input: {
+        background: '#0a0a0a',
+        color: '#ddd',
+        border: '1px solid #333',
+        borderRadius: 6,
+        padding: '6px 8px',
+        fontSize: 13,
+        minWidth: 0,
+    },
+    addRow: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 12,
+    },
+    button: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        background: 'transparent',
+        color: '#ccc',
+        border: '1px solid #333',
+        padding: '6px 12px',
+        borderRadius: 6,
+        fontSize: 13,
+        cursor: 'pointer',
+        whiteSpace: 'nowrap' as const,
+    },
+    iconButton: {
+        background: 'transparent',
+        border: 'none',
+        color: '#555',
+        cursor: 'pointer',
+        padding: 6,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    hint: {
+        fontSize: 12,
+        color: '#666',
+        fontStyle: 'italic' as const,
+    },
+    bindingGrid: {
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))',
+        gap: 6,
+        marginTop: 12,
+    },
+    bindingItem: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        fontSize: 13,
+        color: '#ccc',
+        cursor: 'pointer',
+    },
+    errorBox: {
+        marginTop: 16,
+        background: '#1a1010',
+        border: '1px solid #3a2020',
+        borderRadius: 6,
+        padding: 12,
+    },
+    errorTitle: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        fontSize: 13,
+        fontWeight: 600,
+        color: '#d97070',
+        marginBottom: 8,
+    },
+    errorItem: {
+        display: 'flex',
+        gap: 10,
+        fontSize: 12,
+        color: '#ccc',
+        padding: '3px 0',
+    },
+    errorPath: {
+        color: '#C8A96A',
+        fontFamily: 'monospace',
+    },
+};
@@ -0,0 +1,252 @@
+'use client';
+
+import { Download, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { AuditEntry, AuditIssue, verifyAuditLedger } from '@/logic/audit/auditLedger';
+
+/**
+ * Audit Timeline Panel (Phase 9R)
+ *
+ * Governance decisions from the audit ledger, newest first, with the result
+ * of re-verifying the hash chain. Export downloads the chain exactly as
+ * recorded, so it can be verified elsewhere.
+ *
+ * CRITICAL: READ-ONLY ONLY
+ */
+
+interface AuditTimelinePanelProps {
+    organizationName: string;
+    entries: ReadonlyArray<AuditEntry>;
+}
+
+export function AuditTimelinePanel({ organizationName, entries }: AuditTimelinePanelProps) {
+    const verification = verifyAuditLedger(entries);
+    const issuesBySequence = new Map<number, AuditIssue[]>();
+    verification.issues.forEach(issue => {
+        issuesBySequence.set(issue.sequence, [...(issuesBySequence.get(issue.sequence) ?? []), issue]);
+    });
+
+    const handleExport = () => {
+        const text = JSON.stringify({
+            organizationName,
+            exportedAt: new Date().toISOString(),
+            verification,
+            entries,
+        }, null, 2);
+        const slug = organizationName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+        const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+        const link = window.document.createElement('a');
+        link.href = url;
+        link.download = `${slug || 'organization'}.audit-ledger.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.header}>
+                <div>
+                    <div style={styles.title}>Audit Timeline</div>
+                    <div style={styles.subtitle}>
+                        {entries.length} governance {entries.length === 1 ? 'decision' : 'decisions'} recorded
+                    </div>
+                </div>
+                <div style={styles.headerActions}>
+                    {verification.intact ? (
+                        <div style={{ ...styles.chainBadge, ...styles.chainIntact }}>
+                            <ShieldCheck size={12} /> Chain intact
+                        </div>
+                    ) : (
+                        <div style={{ ...styles.chainBadge, ...styles.chainBroken }}>
+                            <ShieldAlert size={12} /> {verification.issues.length} tampering {verification.issues.length === 1 ? 'issue' : 'issues'}
+                        </div>
+                    )}
+                    <button style={styles.button} onClick={handleExport} disabled={entries.length === 0}>
+                        <Download size={14} /> Export
+                    </button>
+                </div>
+            </div>
+
+            {entries.length > 0 && (
+                <div style={styles.headHash}>Head {verification.headHash}</div>
+            )}
+
+            {entries.length === 0 ? (
+                <div style={styles.empty}>
+                    Approvals, rejections, proposal decisions, overrides and renewals will appear here.
+                </div>
+            ) : (
+                <div style={styles.timeline}>
+                    {[...entries].reverse().map(entry => (
+                        <TimelineEntry
+                            key={`${entry.sequence}-${entry.hash}`}
+                            entry={entry}
+                            issues={issuesBySequence.get(entries.indexOf(entry)) ?? []}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function TimelineEntry({ entry, issues }: { entry: AuditEntry; issues: AuditIssue[] }) {
+    return (
+        <div style={{ ...styles.entry, ...(issues.length > 0 ? styles.entryTampered : {}) }}>
+            <div style={styles.entryTop}>
+                <span style={styles.entryType}>{entry.type.replace(/_/g, ' ')}</span>
+                <span style={styles.entryMeta}>
+                    #{entry.sequence} · {entry.actor} · {new Date(entry.recordedAt).toLocaleString()}
+                </span>
+            </div>
+            <div style={styles.entrySummary}>{entry.summary}</div>
+            {entry.justification && (
+                <div style={styles.entryJustification}>“{entry.justification}”</div>
+            )}
+            {entry.changes.map((change, index) => (
+                <div key={index} style={styles.change}>
+                    <span style={styles.changeField}>{change.field}</span>
+                    {change.before ?? '—'} → {change.after ?? '—'}
+                </div>
+            ))}
+            {issues.map((issue, index) => (
+                <div key={index} style={styles.issue}>{issue.message}</div>
+            ))}
+        </div>
+    );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    container: {
+        background: '#0f0f0f',
+        border: '1px solid #2a2a2a',
+        borderRadius: 8,
+        padding: 24,
+    },
+    header: {
+        display: 'flex',
+        justifyContent: 'space-between' as const,
+        alignItems: 'flex-start' as const,
+        gap: 16,
+        marginBottom: 12,
+    },
+    title: {
+        fontSize: '14px',
+        fontWeight: 600,
+        color: '#aaa',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        marginBottom: 4,
+    },
+    subtitle: {
+        fontSize: '12px',
+        color: '#666',
+    },
+    headerActions: {
+        display: 'flex',
+        alignItems: 'center' as const,
+        gap: 8,
+    },
+    chainBadge: {
+        display: 'flex',
+        alignItems: 'center' as const,
+        gap: 6,
+        padding: '4px 8px',
+        borderRadius: 3,
+        fontSize: '10px',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        fontWeight: 500,
+    },
+    chainIntact: {
+        background: '#1a2a20',
+        color: '#6FAF8E',
+    },
+    chainBroken: {
+        background: '#2a1a1a',
+        color: '#d97070',
+    },
+    button: {
+        display: 'flex',
+        alignItems: 'center' as const,
+        gap: 6,
+        background: 'transparent',
+        color: '#ccc',
+        border: '1px solid #333',
+        padding: '6px 12px',
+        borderRadius: 6,
+        fontSize: 12,
+        cursor: 'pointer',
+    },
+    headHash: {
+        fontFamily: 'monospace',
+        fontSize: '10px',
+        color: '#555',
+        wordBreak: 'break-all' as const,
+        marginBottom: 16,
+    },
+    empty: {
+        fontSize: '13px',
+        color: '#666',
+        padding: '24px 0',
+    },
+    timeline: {
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: 8,
+    },
+    entry: {
+        padding: 12,
+        borderLeft: '2px solid #2a2a2a',
+        background: '#111',
+    },
+    entryTampered: {
+        borderLeftColor: '#d97070',
+    },
+    entryTop: {
+        display: 'flex',
+        justifyContent: 'space-between' as const,
+        gap: 12,
+        marginBottom: 6,
+    },
+    entryType: {
+        fontSize: '10px',
+        color: '#C8A96A',
+        letterSpacing: '0.5px',
+        fontWeight: 600,
+    },
+    entryMeta: {
+        fontSize: '11px',
+        color: '#666',
+    },
+    entrySummary: {
+        fontSize: '13px',
+        color: '#ddd',
+        marginBottom: 6,
+    },
+    entryJustification: {
+        fontSize: '12px',
+        color: '#aaa',
+        fontStyle: 'italic' as const,
+        marginBottom: 6,
+    },
+    change: {
+        fontSize: '11px',
+        color: '#888',
+        fontFamily: 'monospace',
+    },
+    changeField: {
+        display: 'inline-block',
+        minWidth: 120,
+        color: '#666',
+    },
+    issue: {
+        marginTop: 6,
+        fontSize: '12px',
+        color: '#d97070',
+    },
+};
@@ -0,0 +1,232 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Download, Upload, AlertTriangle, Check } from 'lucide-react';
+import { Phase0Data } from '@/app/data/types';
+import {
+    ConstitutionFieldError,
+    ConstitutionSerialization,
+    buildConstitutionDocument,
+    serializeConstitution,
+    parseConstitution,
+    toConstitutionRegistries,
+    toPhase0Data,
+} from '@/logic/constitution/constitutionDocument';
+import { StructureValidation } from '@/logic/validation/validatePhase0Data';
+import { RegistryContents } from '@/state/structureHistory';
+
+/**
+ * Constitution Transfer Panel (Phase 9D)
+ *
+ * Export the Organization OS as a JSON or YAML document, or import one.
+ * Imports are validated in full before anything is applied, and applied as
+ * one history step: structure, persona identities, policies and overrides.
+ */
+
+interface ConstitutionTransferPanelProps {
+    data: Phase0Data;
+    onImport: (data: Phase0Data, label: string, registries: RegistryContents) => StructureValidation;
+}
+
+export function ConstitutionTransferPanel({ data, onImport }: ConstitutionTransferPanelProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [errors, setErrors] = useState<ConstitutionFieldError[]>([]);
+    const [warnings, setWarnings] = useState<ConstitutionFieldError[]>([]);
+    const [imported, setImported] = useState<string | null>(null);
+
+    const handleExport = (serialization: ConstitutionSerialization) => {
+        const document = buildConstitutionDocument(data);
+        const text = serializeConstitution(document, serialization);
+        const extension = serialization === 'YAML' ? 'yaml' : 'json';
+        const slug = data.organization.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+        const url = URL.createObjectURL(new Blob([text], {
+            type: serialization === 'YAML' ? 'application/yaml' : 'application/json',
+        }));
+        const link = window.document.createElement('a');
+        link.href = url;
+        link.download = `${slug || 'organization'}.constitution.${extension}`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleFile = async (file: File) => {
+        setImported(null);
+        setErrors([]);
+        const text = await file.text();
+        const serialization: ConstitutionSerialization | undefined =
+            /\.ya?ml$/i.test(file.name) ? 'YAML' : /\.json$/i.test(file.name) ? 'JSON' : undefined;
+
+        const result = parseConstitution(text, serialization);
+        setWarnings(result.warnings);
+        if (!result.valid || !result.document) {
+            setErrors(result.errors);
+            return;
+        }
+
+        // The store re-validates the structure before accepting it, registries included
+        const accepted = onImport(
+            toPhase0Data(result.document),
+            `Import ${file.name}`,
+            toConstitutionRegistries(result.document)
+        );
+        if (!accepted.valid) {
+            setErrors(accepted.diagnostics
+                .filter(d => d.severity === 'ERROR')
+                .map(d => ({ path: d.path, message: d.message })));
+            return;
+        }
+
+        setErrors([]);
+        setImported(file.name);
+    };
+
+    return (
+        <div style={styles.card}>
+            <div style={styles.buttonRow}>
+                <button style={styles.button} onClick={() => handleExport('JSON')}>
+                    <Download size={14} /> Export JSON
+                </button>
+                <button style={styles.button} onClick={() => handleExport('YAML')}>
+                    <Download size={14} /> Export YAML
+                </button>
+                <div style={{ flex: 1 }} />
+                <button style={styles.button} onClick={() => fileInputRef.current?.click()}>
+                    <Upload size={14} /> Import…
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,.yaml,.yml,application/json,application/yaml"
+                    style={{ display: 'none' }}
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            {imported && (
+                <div style={styles.success}>
+                    <Check size={14} /> Imported {imported}. Undo it from History to restore the previous structure, personas and policies.
+                </div>
+            )}
+
+            {warnings.length > 0 && (
+                <div style={styles.warningBox}>
+                    {warnings.map((warning, i) => (
+                        <div key={`${warning.path}-${i}`} style={styles.errorItem}>
+                            <code style={styles.errorPath}>{warning.path}</code>
+                            <span>{warning.message}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {errors.length > 0 && (
+                <div style={styles.errorBox}>
+                    <div style={styles.errorTitle}>
+                        <AlertTriangle size={14} /> Import rejected ({errors.length} {errors.length === 1 ? 'error' : 'errors'})
+                    </div>
+                    <ul style={styles.errorList}>
+                        {errors.map((error, i) => (
+                            <li key={`${error.path}-${i}`} style={styles.errorItem}>
+                                <code style={styles.errorPath}>{error.path}</code>
+                                <span>{error.message}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div style={styles.helperText}>
+                Documents include the organization, domains, agents, persona identities, learned policies and overrides.
+            </div>
+        </div>
+    );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    card: {
+        background: '#111',
+        border: '1px solid #222',
+        borderRadius: 8,
+        padding: 24,
+    },
+    buttonRow: {
+        display: 'flex',
+        gap: 8,
+    },
+    button: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        background: 'transparent',
+        color: '#ccc',
+        border: '1px solid #333',
+        padding: '8px 12px',
+        borderRadius: 6,
+        fontSize: 13,
+        cursor: 'pointer',
+    },
+    success: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 16,
+        fontSize: 13,
+        color: '#6FAF8E',
+    },
+    errorBox: {
+        marginTop: 16,
+        background: '#1a1010',
+        border: '1px solid #3a2020',
+        borderRadius: 6,
+        padding: 12,
+    },
+    warningBox: {
+        marginTop: 16,
+        background: '#17140c',
+        border: '1px solid #3a3220',
+        borderRadius: 6,
+        padding: 12,
+    },
+    errorTitle: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        fontSize: 13,
+        fontWeight: 600,
+        color: '#d97070',
+        marginBottom: 8,
+    },
+    errorList: {
+        listStyle: 'none',
+        padding: 0,
+        margin: 0,
+        maxHeight: 240,
+        overflowY: 'auto' as const,
+    },
+    errorItem: {
+        display: 'flex',
+        gap: 10,
+        fontSize: 12,
+        color: '#ccc',
+        padding: '3px 0',
+    },
+    errorPath: {
+        color: '#C8A96A',
+        fontFamily: 'monospace',
+    },
+    helperText: {
+        marginTop: 16,
+        fontSize: 13,
+        color: '#666',
+        fontStyle: 'italic' as const,
+    },
+};
@@ -0,0 +1,435 @@
+'use client';
+
+import { useState } from 'react';
+import { Shield, AlertTriangle, Plus, X } from 'lucide-react';
+import { ACTION_CATEGORIES } from '@/logic/actions/actionCatalog';
+import { DoActionCategory } from '@/logic/authority/deriveDoActions';
+import { ContextAttributeValue, DataClassification, DATA_CLASSIFICATIONS } from '@/logic/authority/verdictContext';
+import {
+    AmountOperator,
+    AMOUNT_OPERATORS,
+    CAP_AUTHORITY_RANGE,
+    CONSTRAINT_EFFECTS,
+    ConstraintCondition,
+    ConstraintEffect,
+    ConstraintEffectKind,
+    ConstraintIssue,
+    DomainConstraint,
+    createDomainConstraint,
+    formatConstraint,
+    validateDomainConstraints,
+} from '@/logic/constraints/domainConstraints';
+
+/**
+ * Domain Constraint Editor (Phase 9L)
+ *
+ * Author structured domain constraints: a condition on the proposed action and
+ * the effect when it matches. Constraints are listed as readable text; prose
+ * notes from earlier versions are listed separately and are not evaluated.
+ */
+
+interface DomainConstraintEditorProps {
+    constraints: DomainConstraint[];
+    notes: string[];
+    disabled?: boolean;
+    onChange: (constraints: DomainConstraint[]) => void;
+    onNotesChange: (notes: string[]) => void;
+}
+
+const EFFECT_LABELS: Record<ConstraintEffectKind, string> = {
+    BLOCK: 'Block',
+    REQUIRE_APPROVAL: 'Require approval',
+    CAP_AUTHORITY: 'Cap authority',
+};
+
+const OPERATOR_LABELS: Record<AmountOperator, string> = { GT: '>', GTE: '≥', LT: '<', LTE: '≤' };
+
+// Form state; numbers and lists stay text until the constraint is built
+interface Draft {
+    categories: DoActionCategory[];
+    operator: AmountOperator | '';
+    amount: string;
+    currency: string;
+    targets: string;
+    counterparties: string;
+    classification: DataClassification | '';
+    attributes: string;             // "key=value, key=value"
+    from: string;
+    to: string;
+    effect: ConstraintEffectKind;
+    level: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+    categories: [],
+    operator: '',
+    amount: '',
+    currency: '',
+    targets: '',
+    counterparties: '',
+    classification: '',
+    attributes: '',
+    from: '',
+    to: '',
+    effect: 'REQUIRE_APPROVAL',
+    level: '1',
+};
+
+export function DomainConstraintEditor({ constraints, notes, disabled, onChange, onNotesChange }: DomainConstraintEditorProps) {
+    const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+    const [issues, setIssues] = useState<ConstraintIssue[]>([]);
+
+    const update = (changes: Partial<Draft>) => setDraft(prev => ({ ...prev, ...changes }));
+    const candidate = createDomainConstraint(constraints, buildCondition(draft), buildEffect(draft));
+
+    const add = () => {
+        const next = [...constraints, candidate];
+        const found = validateDomainConstraints(next);
+        setIssues(found);
+        if (found.length > 0) return;
+        onChange(next);
+        setDraft(EMPTY_DRAFT);
+    };
+
+    const toggleCategory = (category: DoActionCategory) => update({
+        categories: draft.categories.includes(category)
+            ? draft.categories.filter(c => c !== category)
+            : [...draft.categories, category],
+    });
+
+    return (
+        <div>
+            <div style={styles.list}>
+                {constraints.map(constraint => (
+                    <div key={constraint.id} style={styles.item}>
+                        <Shield size={14} style={{ marginRight: 8, color: '#ff6b6b', flexShrink: 0 }} />
+                        <span>{formatConstraint(constraint)}</span>
+                        <span style={styles.id}>{constraint.id}</span>
+                        {!disabled && (
+                            <button
+                                style={styles.deleteBtn}
+                                title="Remove constraint"
+                                onClick={() => onChange(constraints.filter(c => c.id !== constraint.id))}
+                            >
+                                <X size={12} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+                {notes.map((note, i) => (
+                    <div key={`note-${i}`} style={{ ...styles.item, color: '#C8A96A' }}>
+                        <AlertTriangle size={14} style={{ marginRight: 8, flexShrink: 0 }} />
+                        <span>{note}</span>
+                        <span style={styles.id}>Not evaluated: rewrite as a structured constraint</span>
+                        {!disabled && (
+                            <button
+                                style={styles.deleteBtn}
+                                title="Remove note"
+                                onClick={() => onNotesChange(notes.filter((_, j) => j !== i))}
+                            >
+                                <X size={12} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+                {constraints.length === 0 && notes.length === 0 && (
+                    <div style={styles.empty}>No constraints. Agents are limited by authority and posture only.</div>
+                )}
+            </div>
+
+            {!disabled && (
+                <div style={styles.form}>
+                    <div style={styles.field}>
+                        <span style={styles.label}>Categories</span>
+                        <div style={styles.chips}>
+                            {ACTION_CATEGORIES.map(category => (
+                                <label key={category} style={styles.chip}>
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.categories.includes(category)}
+                                        onChange={() => toggleCategory(category)}
+                                    />
+                                    {category}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div style={styles.field}>
+                        <span style={styles.label}>Amount</span>
+                        <div style={styles.inline}>
+                            <select
+                                style={styles.input}
+                                value={draft.operator}
+                                onChange={(e) => update({ operator: e.target.value as AmountOperator | '' })}
+                            >
+                                <option value="">Any</option>
+                                {AMOUNT_OPERATORS.map(op => <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>)}
+                            </select>
+                            <input
+                                type="number"
+                                style={styles.input}
+                                placeholder="500"
+                                disabled={draft.operator === ''}
+                                value={draft.amount}
+                                onChange={(e) => update({ amount: e.target.value })}
+                            />
+                            <input
+                                style={{ ...styles.input, width: 70 }}
+                                placeholder="EUR"
+                                disabled={draft.operator === ''}
+                                value={draft.currency}
+                                onChange={(e) => update({ currency: e.target.value.toUpperCase() })}
+                            />
+                        </div>
+                    </div>
+
+                    <div style={styles.field}>
+                        <span style={styles.label}>Targets</span>
+                        <input
+                            style={styles.input}
+                            placeholder="billing/*, ledger/main (empty = any target)"
+                            value={draft.targets}
+                            onChange={(e) => update({ targets: e.target.value })}
+                        />
+                    </div>
+
+                    <div style={styles.field}>
+                        <span style={styles.label}>Counterparties</span>
+                        <input
+                            style={styles.input}
+                            placeholder="vendor:*, customer:4471 (empty = anyone)"
+                            value={draft.counterparties}
+                            onChange={(e) => update({ counterparties: e.target.value })}
+                        />
+                    </div>
+
+                    <div style={styles.field}>
+                        <span style={styles.label}>Data</span>
+                        <select
+                            style={styles.input}
+                            value={draft.classification}
+                            onChange={(e) => update({ classification: e.target.value as DataClassification | '' })}
+                        >
+                            <option value="">Any classification</option>
+                            {DATA_CLASSIFICATIONS.map(c => <option key={c} value={c}>{c} or more sensitive</option>)}
+                        </select>
+                    </div>
+
+                    <div style={styles.field}>
+                        <span style={styles.label}>Attributes</span>
+                        <input
+                            style={styles.input}
+                            placeholder="refund=true, channel=email"
+                            value={draft.attributes}
+                            onChange={(e) => update({ attributes: e.target.value })}
+                        />
+                    </div>
+
+                    <div style={styles.field}>
+                        <span style={styles.label}>Time (UTC)</span>
+                        <div style={styles.inline}>
+                            <input type="time" style={styles.input} value={draft.from} onChange={(e) => update({ from: e.target.value })} />
+                            <span style={styles.label}>to</span>
+                            <input type="time" style={styles.input} value={draft.to} onChange={(e) => update({ to: e.target.value })} />
+                        </div>
+                    </div>
+
+                    <div style={styles.field}>
+                        <span style={styles.label}>Effect</span>
+                        <div style={styles.inline}>
+                            <select
+                                style={styles.input}
+                                value={draft.effect}
+                                onChange={(e) => update({ effect: e.target.value as ConstraintEffectKind })}
+                            >
+                                {CONSTRAINT_EFFECTS.map(kind => <option key={kind} value={kind}>{EFFECT_LABELS[kind]}</option>)}
+                            </select>
+                            {draft.effect === 'CAP_AUTHORITY' && (
+                                <input
+                                    type="number"
+                                    style={{ ...styles.input, width: 70 }}
+                                    min={CAP_AUTHORITY_RANGE.min}
+                                    max={CAP_AUTHORITY_RANGE.max}
+                                    value={draft.level}
+                                    onChange={(e) => update({ level: e.target.value })}
+                                />
+                            )}
+                        </div>
+                    </div>
+
+                    <div style={styles.preview}>{formatConstraint(candidate)}</div>
+
+                    <button style={styles.addBtn} onClick={add}>
+                        <Plus size={14} /> Add constraint
+                    </button>
+
+                    {issues.length > 0 && (
+                        <div style={styles.issues}>
+                            {issues.map((issue, i) => (
+                                <div key={i}>{issue.path.replace(/^\[\d+\]\./, '')}: {issue.message}</div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function buildCondition(draft: Draft): ConstraintCondition {
+    const when: ConstraintCondition = {};
+    if (draft.categories.length > 0) when.categories = draft.categories;
+    if (draft.operator !== '') {
+        when.amount = {
+            operator: draft.operator,
+            value: draft.amount.trim() === '' ? NaN : Number(draft.amount),
+            ...(draft.currency.trim() ? { currency: draft.currency.trim() } : {}),
+        };
+    }
+    const targets = splitList(draft.targets);
+    if (targets.length > 0) when.targets = targets;
+    const counterparties = splitList(draft.counterparties);
+    if (counterparties.length > 0) when.counterparties = counterparties;
+    if (draft.classification !== '') when.minClassification = draft.classification;
+    const attributes = parseAttributes(draft.attributes);
+    if (Object.keys(attributes).length > 0) when.attributes = attributes;
+    if (draft.from || draft.to) when.timeWindow = { from: draft.from, to: draft.to };
+    return when;
+}
+
+function splitList(text: string): string[] {
+    return text.split(',').map(t => t.trim()).filter(Boolean);
+}
+
+// "true"/"false" become booleans and numerals numbers, matching typed context attributes
+function parseAttributes(text: string): Record<string, ContextAttributeValue> {
+    const attributes: Record<string, ContextAttributeValue> = {};
+    for (const pair of splitList(text)) {
+        const [key, ...rest] = pair.split('=');
+        const raw = rest.join('=').trim();
+        if (!key.trim() || raw === '') continue;
+        attributes[key.trim()] = raw === 'true' ? true
+            : raw === 'false' ? false
+                : !Number.isNaN(Number(raw)) ? Number(raw)
+                    : raw;
+    }
+    return attributes;
+}
+
+function buildEffect(draft: Draft): ConstraintEffect {
+    return draft.effect === 'CAP_AUTHORITY'
+        ? { kind: 'CAP_AUTHORITY', level: Number(draft.level) }
+        : { kind: draft.effect };
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    list: {
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: 8,
+        marginBottom: 16,
+    },
+    item: {
+        display: 'flex',
+        alignItems: 'center',
+        background: '#1a1a1a',
+        padding: '8px 12px',
+        borderRadius: 4,
+        fontSize: 13,
+        color: '#ddd',
+        border: '1px solid #2a2a2a',
+    },
+    id: {
+        marginLeft: 'auto',
+        paddingLeft: 12,
+        fontSize: 11,
+        color: '#666',
+        fontFamily: 'monospace',
+    },
+    deleteBtn: {
+        marginLeft: 8,
+        background: 'transparent',
+        border: 'none',
+        color: '#666',
+        cursor: 'pointer',
+        padding: 4,
+        display: 'flex',
+    },
+    empty: {
+        fontSize: 13,
+        color: '#666',
+        fontStyle: 'italic',
+    },
+    form: {
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: 10,
+        borderTop: '1px solid #222',
+        paddingTop: 16,
+    },
+    field: {
+        display: 'grid',
+        gridTemplateColumns: '90px 1fr',
+        alignItems: 'center',
+        gap: 8,
+    },
+    label: {
+        fontSize: 12,
+        color: '#888',
+    },
+    inline: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+    },
+    chips: {
+        display: 'flex',
+        flexWrap: 'wrap' as const,
+        gap: 8,
+    },
+    chip: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 4,
+        fontSize: 11,
+        color: '#ccc',
+        fontFamily: 'monospace',
+        cursor: 'pointer',
+    },
+    input: {
+        background: '#0a0a0a',
+        color: '#ddd',
+        border: '1px solid #333',
+        borderRadius: 6,
+        padding: '6px 8px',
+        fontSize: 13,
+        minWidth: 0,
+    },
+    preview: {
+        fontSize: 13,
+        color: '#6FAF8E',
+        fontStyle: 'italic',
+    },
+    addBtn: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        alignSelf: 'flex-start',
+        background: 'transparent',
+        color: '#ccc',
+        border: '1px solid #333',
+        padding: '6px 12px',
+        borderRadius: 6,
+        fontSize: 13,
+        cursor: 'pointer',
+    },
+    issues: {
+        fontSize: 12,
+        color: '#d97070',
+    },
+};
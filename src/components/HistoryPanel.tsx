@@ -0,0 +1,246 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { History, Undo2, Redo2, ChevronDown, ChevronUp } from 'lucide-react';
+import { HistoryEntry } from '@/state/structureHistory';
+import { AgentAuthorityImpact } from '@/logic/authority/deriveAuthorityImpact';
+
+/**
+ * History Panel (Phase 9B)
+ *
+ * Visible undo/redo list for structural edits on the governance board.
+ * Each step shows the effective agent authority it changed.
+ */
+
+interface HistoryPanelProps {
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+}
+
+// ============================================================================
+// KEYBOARD SHORTCUTS
+// ============================================================================
+
+/**
+ * Bind ⌘/Ctrl+Z (undo) and ⌘/Ctrl+Shift+Z or Ctrl+Y (redo).
+ * Ignored while typing in form fields so native text undo keeps working.
+ */
+export function useHistoryShortcuts(onUndo: () => void, onRedo: () => void) {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+                return;
+            }
+            if (!(e.metaKey || e.ctrlKey)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                onUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                onRedo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onUndo, onRedo]);
+}
+
+// ============================================================================
+// PANEL
+// ============================================================================
+
+export function HistoryPanel({ past, future, canUndo, canRedo, onUndo, onRedo }: HistoryPanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+
+    // Most recent first; undone steps (redo stack) are listed above, dimmed
+    const undone = [...future].reverse();
+    const applied = [...past].reverse();
+
+    return (
+        <div style={styles.panel} onClick={(e) => e.stopPropagation()}>
+            <div style={styles.header}>
+                <button style={styles.titleButton} onClick={() => setIsOpen(!isOpen)}>
+                    <History size={14} />
+                    <span>History</span>
+                    <span style={styles.count}>{past.length}</span>
+                    {isOpen ? <ChevronDown size={12} /> : <ChevronUp size={12} />}
+                </button>
+                <div style={{ display: 'flex', gap: 4 }}>
+                    <button
+                        style={{ ...styles.iconButton, opacity: canUndo ? 1 : 0.3 }}
+                        disabled={!canUndo}
+                        onClick={onUndo}
+                        title="Undo (⌘Z)"
+                    >
+                        <Undo2 size={14} />
+                    </button>
+                    <button
+                        style={{ ...styles.iconButton, opacity: canRedo ? 1 : 0.3 }}
+                        disabled={!canRedo}
+                        onClick={onRedo}
+                        title="Redo (⇧⌘Z)"
+                    >
+                        <Redo2 size={14} />
+                    </button>
+                </div>
+            </div>
+
+            {isOpen && (
+                <div style={styles.list}>
+                    {past.length === 0 && future.length === 0 && (
+                        <div style={styles.empty}>No structural edits yet.</div>
+                    )}
+                    {undone.map(entry => (
+                        <HistoryRow key={entry.id} entry={entry} undone />
+                    ))}
+                    {applied.map(entry => (
+                        <HistoryRow key={entry.id} entry={entry} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function HistoryRow({ entry, undone = false }: { entry: HistoryEntry; undone?: boolean }) {
+    return (
+        <div style={{ ...styles.row, opacity: undone ? 0.4 : 1 }}>
+            <div style={styles.rowHeader}>
+                <span style={styles.rowLabel}>{entry.label}</span>
+                <span style={styles.rowTime}>{new Date(entry.executedAt).toLocaleTimeString()}</span>
+            </div>
+            {entry.authorityImpact.length === 0 ? (
+                <div style={styles.noImpact}>No change to agent authority</div>
+            ) : (
+                entry.authorityImpact.map(impact => (
+                    <ImpactLine key={impact.agentId} impact={impact} />
+                ))
+            )}
+        </div>
+    );
+}
+
+function ImpactLine({ impact }: { impact: AgentAuthorityImpact }) {
+    const color =
+        impact.change === 'LOWERED' || impact.change === 'REMOVED' ? '#C8A96A' :
+            impact.change === 'RAISED' ? '#d97070' : '#6FAF8E';
+
+    return (
+        <div style={styles.impact}>
+            <span>{impact.agentName}</span>
+            <span style={{ color }}>
+                {impact.before ?? '—'} → {impact.after ?? '—'}
+            </span>
+        </div>
+    );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    panel: {
+        position: 'fixed' as const,
+        left: 20,
+        bottom: 20,
+        width: 320,
+        background: '#0e0e0e',
+        border: '1px solid #333',
+        borderRadius: 10,
+        color: '#ddd',
+        zIndex: 90,
+        boxShadow: '0 10px 30px rgba(0,0,0,0.6)',
+    },
+    header: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: '8px 12px',
+    },
+    titleButton: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        background: 'transparent',
+        border: 'none',
+        color: '#aaa',
+        fontSize: '12px',
+        fontWeight: 600,
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        cursor: 'pointer',
+        padding: 0,
+    },
+    count: {
+        fontSize: '10px',
+        color: '#666',
+        background: '#1a1a1a',
+        padding: '1px 6px',
+        borderRadius: 8,
+    },
+    iconButton: {
+        background: 'transparent',
+        border: '1px solid #2a2a2a',
+        color: '#ccc',
+        borderRadius: 4,
+        padding: 4,
+        display: 'flex',
+        cursor: 'pointer',
+    },
+    list: {
+        maxHeight: 320,
+        overflowY: 'auto' as const,
+        borderTop: '1px solid #222',
+        padding: 8,
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: 6,
+    },
+    empty: {
+        fontSize: '12px',
+        color: '#666',
+        fontStyle: 'italic' as const,
+        padding: 8,
+    },
+    row: {
+        background: '#121212',
+        border: '1px solid #222',
+        borderRadius: 6,
+        padding: 8,
+    },
+    rowHeader: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        gap: 8,
+        marginBottom: 4,
+    },
+    rowLabel: {
+        fontSize: '12px',
+        color: '#eee',
+        fontWeight: 500,
+    },
+    rowTime: {
+        fontSize: '10px',
+        color: '#666',
+        whiteSpace: 'nowrap' as const,
+    },
+    noImpact: {
+        fontSize: '11px',
+        color: '#555',
+    },
+    impact: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        fontSize: '11px',
+        color: '#999',
+    },
+};
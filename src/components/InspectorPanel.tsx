@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { Phase0Data, Organization, Domain, Agent } from '@/app/data/types';
 import {
     deriveOrganizationAuthority,
@@ -9,6 +10,17 @@ import {
 } from '@/logic/authority/deriveAuthority';
 import { formatAuthorityBadge } from '@/logic/authority/compactFormatting';
 import { getPersonaIdentityForAgent } from '@/logic/persona/personaIdentityMapping';
+import { getDomainAncestors } from '@/logic/structure/domainHierarchy';
+import { ActionCatalog } from '@/logic/actions/actionCatalog';
+import { evaluateAuthority } from '@/logic/authority/authorityEngine';
+import { deriveDoActions } from '@/logic/authority/deriveDoActions';
+import { deriveRuntimeVerdict } from '@/logic/authority/deriveRuntimeVerdict';
+import { getAllLearnedPolicies } from '@/logic/staging/stagedActions';
+import { getAllPolicyOverrides } from '@/logic/policy/policyOverride';
+import { LearnedPolicy } from '@/logic/policy/learnedPolicy';
+import { policiesInForce } from '@/logic/policy/policyApplication';
+import { buildPolicyIndex, formatPolicyTarget, policiesGoverning } from '@/logic/policy/policyIndex';
+import { ExecutionReadiness, ExecutionReadinessState, deriveExecutionReadiness } from '@/logic/authority/deriveExecutionReadiness';
 import {
     Clock,
     Shield,
@@ -21,7 +33,8 @@ import {
     User,
     Brain,
     Scale,
-    Activity
+    Activity,
+    ScrollText
 } from 'lucide-react';
 
 // ============================================================================
@@ -33,6 +46,7 @@ export type ExplanationMode = 'STANDARD' | 'TECHNICAL' | 'AUDIT';
 export interface InspectorPanelProps {
     selectedNodeId: string | null;
     data: Phase0Data;
+    actionCatalog: ActionCatalog;
     explanationMode: ExplanationMode;
     onExplanationModeChange: (mode: ExplanationMode) => void;
 }
@@ -44,6 +58,7 @@ export interface InspectorPanelProps {
 export function InspectorPanel({
     selectedNodeId,
     data,
+    actionCatalog,
     explanationMode,
     onExplanationModeChange,
 }: InspectorPanelProps) {
@@ -110,11 +125,27 @@ export function InspectorPanel({
                     org={org}
                     domain={parentDomain || (selectedType === 'DOMAIN' ? (selectedEntity as Domain) : undefined)}
                     agent={selectedType === 'AGENT' ? (selectedEntity as Agent) : undefined}
+                    domains={data.domains}
+                    catalog={actionCatalog}
+                />
+
+                {/* Phase 9V: GOVERNING POLICIES */}
+                <SectionGoverningPolicies
+                    data={data}
+                    domain={parentDomain || (selectedType === 'DOMAIN' ? (selectedEntity as Domain) : undefined)}
+                    agent={selectedType === 'AGENT' ? (selectedEntity as Agent) : undefined}
                 />
 
                 {/* SECTION 4: EXECUTION READINESS (Agents Only) */}
                 {selectedType === 'AGENT' && (
-                    <SectionExecutionReadiness />
+                    <SectionExecutionReadiness
+                        key={selectedEntity.id}
+                        org={org}
+                        domain={parentDomain ?? undefined}
+                        agent={selectedEntity as Agent}
+                        domains={data.domains}
+                        catalog={actionCatalog}
+                    />
                 )}
             </div>
         </div>
@@ -202,21 +233,45 @@ function SectionPersonaIdentity({ agent }: { agent: Agent }) {
     );
 }
 
-function SectionRuntimeAuthority({ type, org, domain, agent }: { type: string, org: Organization, domain?: Domain, agent?: Agent }) {
-    // Derive authority based on selection
+/**
+ * Phase 9U: Learned policies the Inspector applies, as they stand right now.
+ */
+function currentPolicies(): LearnedPolicy[] {
+    return policiesInForce(
+        { policies: getAllLearnedPolicies(), overrides: getAllPolicyOverrides() },
+        new Date().toISOString()
+    );
+}
+
+function SectionRuntimeAuthority({ type, org, domain, agent, domains, catalog }: { type: string, org: Organization, domain?: Domain, agent?: Agent, domains: Domain[], catalog: ActionCatalog }) {
+    // Derive authority based on selection (Phase 9F: through the full domain chain)
+    const ancestors = domain ? getDomainAncestors(domains, domain.id) : [];
     let authority: AuthorityResult | null = null;
     if (type === 'ORGANIZATION') authority = deriveOrganizationAuthority(org);
-    else if (type === 'DOMAIN' && domain) authority = deriveDomainAuthority(org, domain);
-    else if (type === 'AGENT' && domain && agent) authority = deriveAgentAuthority(org, domain, agent);
+    else if (type === 'DOMAIN' && domain) authority = deriveDomainAuthority(org, domain, ancestors);
+    else if (type === 'AGENT' && domain && agent) authority = deriveAgentAuthority(org, domain, agent, ancestors);
 
     if (!authority) return null;
 
+    // Phase 9I: Verdicts come from the authority engine (agents see only their bound actions)
+    const evaluation = evaluateAuthority(authority, catalog, {
+        agent: type === 'AGENT' ? agent : undefined,
+        domain,
+        ancestors,
+        policies: currentPolicies(),
+        persona: type === 'AGENT' && agent ? getPersonaIdentityForAgent(agent.id) : null,
+    });
+    const actions = evaluation.actions.filter(action => action.bound);
+
     return (
         <div style={styles.section}>
             <SectionTitle icon={<Scale size={14} />} title="Runtime Authority" />
 
             <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-                {authority.doActions.map((action, i) => {
+                {actions.length === 0 && (
+                    <div style={styles.actionReason}>No catalog actions are bound here.</div>
+                )}
+                {actions.map((action) => {
                     const statusColor =
                         action.verdict === 'ALLOWED' ? '#6FAF8E' :
                             action.verdict === 'ESCALATION_REQUIRED' ? '#C8A96A' : '#d97070';
@@ -225,9 +280,9 @@ function SectionRuntimeAuthority({ type, org, domain, agent }: { type: string, o
                             action.verdict === 'ESCALATION_REQUIRED' ? '#3a2f1a' : '#3a1a1a';
 
                     return (
-                        <div key={i} style={styles.actionRow}>
+                        <div key={action.entry.id} style={styles.actionRow}>
                             <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 4 }}>
-                                <span style={styles.actionName}>{action.actionName}</span>
+                                <span style={styles.actionName}>{action.entry.verbPhrase}</span>
                                 <span style={{
                                     ...styles.verdictBadge,
                                     color: statusColor,
@@ -238,7 +293,7 @@ function SectionRuntimeAuthority({ type, org, domain, agent }: { type: string, o
                                 </span>
                             </div>
                             <div style={styles.actionReason}>
-                                {action.reasons[0] || 'No specific constraint.'}
+                                {action.reason}
                             </div>
                         </div>
                     );
@@ -248,37 +303,148 @@ function SectionRuntimeAuthority({ type, org, domain, agent }: { type: string, o
     );
 }
 
-function SectionExecutionReadiness() {
+/**
+ * Phase 9V: Learned policies governing the node, looked up by ID through the
+ * policy index, so they follow renames. Includes policies not in force.
+ */
+function SectionGoverningPolicies({ data, domain, agent }: { data: Phase0Data, domain?: Domain, agent?: Agent }) {
+    const inForce = new Set(currentPolicies().map(p => p.policyId));
+    const ancestors = domain ? getDomainAncestors(data.domains, domain.id) : [];
+    const policies = policiesGoverning(buildPolicyIndex(getAllLearnedPolicies()), { domain, ancestors, agent });
+
     return (
         <div style={styles.section}>
-            <SectionTitle icon={<Activity size={14} />} title="Execution Readiness" />
+            <SectionTitle icon={<ScrollText size={14} />} title="Governing Policies" />
 
-            <div style={styles.gateRow}>
-                <div style={styles.gateLabel}>
-                    <Shield size={12} color="#6FAF8E" /> Authority Gate
-                </div>
-                <div style={styles.gateStatus}>PASS</div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+                {policies.length === 0 && (
+                    <div style={styles.actionReason}>No learned policies govern this node.</div>
+                )}
+                {policies.map(policy => {
+                    const applied = inForce.has(policy.policyId);
+                    return (
+                        <div key={policy.policyId} style={styles.actionRow}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 4 }}>
+                                <span style={styles.actionName}>{policy.constraint.description}</span>
+                                <span style={{
+                                    ...styles.verdictBadge,
+                                    color: applied ? '#C8A96A' : '#666',
+                                    background: applied ? '#3a2f1a' : '#1a1a1a',
+                                    border: `1px solid ${applied ? '#3a2f1a' : '#1a1a1a'}`
+                                }}>
+                                    {applied ? 'IN FORCE' : 'NOT IN FORCE'}
+                                </span>
+                            </div>
+                            <div style={styles.actionReason}>
+                                {formatPolicyTarget(policy.constraint.target, data)}
+                            </div>
+                        </div>
+                    );
+                })}
             </div>
-            <div style={styles.gateRow}>
-                <div style={styles.gateLabel}>
-                    <Brain size={12} color="#6FAF8E" /> Persona Alignment
-                </div>
-                <div style={styles.gateStatus}>PASS</div>
+        </div>
+    );
+}
+
+/**
+ * Phase 9S: Readiness is derived for the Do action the user picks, through the
+ * same verdict and readiness derivations the decision API uses. Inputs come
+ * from the structure store and the persona and policy registries, which the
+ * store saves for the decision API, so edits re-derive it immediately.
+ */
+function SectionExecutionReadiness({ org, domain, agent, domains, catalog }: { org: Organization, domain?: Domain, agent: Agent, domains: Domain[], catalog: ActionCatalog }) {
+    const [selectedActionId, setSelectedActionId] = useState<string | null>(null);
+
+    if (!domain) {
+        return (
+            <div style={styles.section}>
+                <SectionTitle icon={<Activity size={14} />} title="Execution Readiness" />
+                <div style={styles.readOnlyText}>This agent is not assigned to a domain.</div>
+            </div>
+        );
+    }
+
+    const ancestors = getDomainAncestors(domains, domain.id);
+    const authority = deriveAgentAuthority(org, domain, agent, ancestors);
+    const policies = currentPolicies();
+    const persona = getPersonaIdentityForAgent(agent.id);
+    const { actions } = deriveDoActions(agent, authority, domain, org, catalog, policies, ancestors, persona);
+    // Fall back to the first action when the selected one is no longer bound
+    const doAction = actions.find(a => a.id === selectedActionId) ?? actions[0];
+
+    if (!doAction) {
+        return (
+            <div style={styles.section}>
+                <SectionTitle icon={<Activity size={14} />} title="Execution Readiness" />
+                <div style={styles.actionReason}>No Do actions are bound to this agent.</div>
             </div>
-            <div style={styles.gateRow}>
-                <div style={styles.gateLabel}>
-                    <AlertTriangle size={12} color="#C8A96A" /> Escalation Check
+        );
+    }
+
+    const verdict = deriveRuntimeVerdict(agent, doAction, authority, domain, org, catalog, {}, undefined, policies, ancestors, persona);
+    const readiness = deriveExecutionReadiness(agent, doAction, authority, verdict, domain, org, persona);
+    const gates: { label: string, icon: React.ReactNode, gate: ExecutionReadiness['gates'][keyof ExecutionReadiness['gates']] }[] = [
+        { label: 'Authority Alignment', icon: <Shield size={12} />, gate: readiness.gates.authorityAlignment },
+        { label: 'Action Surface', icon: <Activity size={12} />, gate: readiness.gates.actionSurfaceCompatibility },
+        { label: 'Escalation Resolution', icon: <AlertTriangle size={12} />, gate: readiness.gates.escalationResolution },
+        { label: 'Persona Alignment', icon: <Brain size={12} />, gate: readiness.gates.personaAlignment },
+    ];
+    const stateColor = READINESS_STATE_COLORS[readiness.state];
+
+    return (
+        <div style={styles.section}>
+            <SectionTitle icon={<Activity size={14} />} title="Execution Readiness" />
+
+            <select
+                value={doAction.id}
+                onChange={e => setSelectedActionId(e.target.value)}
+                style={styles.actionSelect}
+            >
+                {actions.map(action => (
+                    <option key={action.id} value={action.id}>{action.verbPhrase}</option>
+                ))}
+            </select>
+
+            {gates.map(({ label, icon, gate }) => (
+                <div key={label} style={styles.gateRow}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <div style={{ ...styles.gateLabel, color: gate.passed ? '#ccc' : '#d97070' }}>
+                            {icon} {label}
+                        </div>
+                        <div style={{ ...styles.gateStatus, color: gate.passed ? '#6FAF8E' : '#d97070' }}>
+                            {gate.passed ? <CheckCircle2 size={12} /> : <XCircle size={12} />}
+                            {gate.passed ? 'PASS' : 'FAIL'}
+                        </div>
+                    </div>
+                    <div style={{ ...styles.actionReason, marginTop: 4 }}>{gate.reason}</div>
                 </div>
-                <div style={{ ...styles.gateStatus, color: '#C8A96A' }}>PENDING</div>
+            ))}
+
+            <div style={{ display: 'flex', justifyContent: 'center', marginTop: 16 }}>
+                <span style={{
+                    ...styles.verdictBadge,
+                    color: stateColor.color,
+                    background: stateColor.background,
+                    border: `1px solid ${stateColor.background}`
+                }}>
+                    {readiness.state.replace(/_/g, ' ')}
+                </span>
             </div>
 
             <div style={styles.executionSummary}>
-                Execution would require explicit human approval due to escalation requirements.
+                {readiness.summary}
             </div>
         </div>
     );
 }
 
+const READINESS_STATE_COLORS: Record<ExecutionReadinessState, { color: string, background: string }> = {
+    ELIGIBLE_AUTOMATIC: { color: '#6FAF8E', background: '#1a3a2a' },
+    ELIGIBLE_PENDING_APPROVAL: { color: '#C8A96A', background: '#3a2f1a' },
+    NOT_ELIGIBLE: { color: '#aaa', background: '#2a2a2a' },
+    BLOCKED_HARD: { color: '#d97070', background: '#3a1a1a' },
+};
+
 function SectionTitle({ icon, title }: { icon: React.ReactNode, title: string }) {
     return (
         <div style={styles.sectionHeader}>
@@ -427,10 +593,17 @@ const styles = {
         color: '#666',
         lineHeight: 1.4
     },
+    actionSelect: {
+        width: '100%',
+        marginBottom: 8,
+        padding: '6px 8px',
+        background: '#151515',
+        border: '1px solid #222',
+        borderRadius: 6,
+        color: '#ddd',
+        fontSize: '12px'
+    },
     gateRow: {
-        display: 'flex',
-        justifyContent: 'space-between',
-        alignItems: 'center',
         padding: '8px 0',
         borderBottom: '1px solid #1a1a1a'
     },
@@ -442,6 +615,9 @@ const styles = {
         color: '#ccc'
     },
     gateStatus: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 4,
         fontSize: '11px',
         fontWeight: 700,
         color: '#6FAF8E'
@@ -8,7 +8,8 @@ import {
     deriveAgentAuthority,
 } from '@/logic/authority/deriveAuthority';
 import { formatAuthorityBadge } from '@/logic/authority/compactFormatting';
-import { Plus, Trash2 } from 'lucide-react';
+import { getChildDomains, getDomainAncestors, canReparentDomain } from '@/logic/structure/domainHierarchy';
+import { Plus, Trash2, FolderPlus } from 'lucide-react';
 
 // ============================================================================
 // TYPES & PROPS
@@ -24,6 +25,9 @@ interface OrgChartCanvasProps {
     onMoveAgent: (agentId: string, targetDomainId: string) => void;
     onAddDomain: (name: string) => void;
     onDeleteDomain: (id: string) => void;
+    // Phase 9F: Nested sub-domains
+    onAddSubDomain: (parentDomainId: string, name: string) => void;
+    onMoveDomainToParent: (domainId: string, parentDomainId: string | null) => void;
     onAddAgent: (domainId: string, name: string) => void;
     onDeleteAgent: (id: string) => void;
     // Unused
@@ -48,15 +52,16 @@ export function OrgChartCanvas({
     onMoveAgent,
     onAddDomain,
     onDeleteDomain,
+    onAddSubDomain,
+    onMoveDomainToParent,
     onAddAgent,
     onDeleteAgent,
 }: OrgChartCanvasProps) {
     const [draggingItem, setDraggingItem] = useState<DragItem | null>(null);
 
-    // Organization Data
+    // Organization Data (Phase 9F: only top-level lanes here, sub-domains nest inside)
     const org = lookupData.organization;
-    const domains = lookupData.domains;
-    const agents = lookupData.agents;
+    const domains = getChildDomains(lookupData.domains, null);
 
     return (
         <div style={{
@@ -76,6 +81,10 @@ export function OrgChartCanvas({
                     selectedNodeId={selectedNodeId}
                     onNodeSelect={onNodeSelect}
                     onAddDomain={onAddDomain}
+                    draggingItem={draggingItem}
+                    onDragEnd={() => setDraggingItem(null)}
+                    onMoveDomainToParent={onMoveDomainToParent}
+                    lookupData={lookupData}
                 />
 
                 {/* Vertical Connector Line */}
@@ -121,7 +130,6 @@ export function OrgChartCanvas({
                     <DomainLane
                         key={domain.id}
                         domain={domain}
-                        agents={agents.filter(a => a.domainId === domain.id)}
                         lookupData={lookupData}
                         selectedNodeId={selectedNodeId}
                         onNodeSelect={onNodeSelect}
@@ -130,6 +138,8 @@ export function OrgChartCanvas({
                         onDragEnd={() => setDraggingItem(null)}
                         onMoveAgent={onMoveAgent}
                         onDeleteDomain={onDeleteDomain}
+                        onAddSubDomain={onAddSubDomain}
+                        onMoveDomainToParent={onMoveDomainToParent}
                         onAddAgent={onAddAgent}
                         onDeleteAgent={onDeleteAgent}
                     />
@@ -160,28 +170,58 @@ function OrganizationCard({
     org,
     selectedNodeId,
     onNodeSelect,
-    onAddDomain
+    onAddDomain,
+    draggingItem,
+    onDragEnd,
+    onMoveDomainToParent,
+    lookupData
 }: {
     org: Organization;
     selectedNodeId: string | null;
     onNodeSelect: any;
     onAddDomain: (name: string) => void;
+    draggingItem: DragItem | null;
+    onDragEnd: () => void;
+    onMoveDomainToParent: (domainId: string, parentDomainId: string | null) => void;
+    lookupData: Phase0Data;
 }) {
     const isSelected = selectedNodeId === org.id;
+    const [isDragOver, setIsDragOver] = useState(false);
+
+    // Phase 9F: Dropping a sub-domain on the organization makes it top-level again
+    const isValidTarget = draggingItem?.type === 'DOMAIN' &&
+        !!lookupData.domains.find(d => d.id === draggingItem.id)?.parentDomainId;
 
     return (
-        <div style={{
-            width: 380,
-            background: isSelected ? '#1a1a1a' : '#000',
-            border: isSelected ? '2px solid #fff' : '2px solid #333',
-            borderRadius: 12,
-            padding: 20,
-            textAlign: 'center',
-            boxShadow: '0 4px 20px rgba(0,0,0,0.5)',
-            cursor: 'pointer',
-            position: 'relative',
-            transition: 'all 0.2s ease'
-        }}
+        <div
+            onDragOver={(e) => {
+                if (!isValidTarget) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                if (!isDragOver) setIsDragOver(true);
+            }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={(e) => {
+                if (!isValidTarget || !draggingItem) return;
+                e.preventDefault();
+                setIsDragOver(false);
+                onMoveDomainToParent(draggingItem.id, null);
+                onDragEnd();
+            }}
+            style={{
+                width: 380,
+                background: isSelected ? '#1a1a1a' : '#000',
+                border: isDragOver
+                    ? '2px dashed #4CAF50'
+                    : isSelected ? '2px solid #fff' : '2px solid #333',
+                borderRadius: 12,
+                padding: 20,
+                textAlign: 'center',
+                boxShadow: '0 4px 20px rgba(0,0,0,0.5)',
+                cursor: 'pointer',
+                position: 'relative',
+                transition: 'all 0.2s ease'
+            }}
             onClick={(e) => {
                 e.stopPropagation();
                 onNodeSelect({ id: org.id, type: 'ORGANIZATION', label: org.name });
@@ -228,7 +268,6 @@ function OrganizationCard({
 
 function DomainLane({
     domain,
-    agents,
     lookupData,
     selectedNodeId,
     onNodeSelect,
@@ -237,11 +276,12 @@ function DomainLane({
     onDragEnd,
     onMoveAgent,
     onDeleteDomain,
+    onAddSubDomain,
+    onMoveDomainToParent,
     onAddAgent,
     onDeleteAgent
 }: {
     domain: Domain;
-    agents: Agent[];
     lookupData: Phase0Data;
     selectedNodeId: string | null;
     onNodeSelect: any;
@@ -250,22 +290,35 @@ function DomainLane({
     onDragEnd: () => void;
     onMoveAgent: (id: string, targetId: string) => void;
     onDeleteDomain: (id: string) => void;
+    onAddSubDomain: (parentDomainId: string, name: string) => void;
+    onMoveDomainToParent: (domainId: string, parentDomainId: string | null) => void;
     onAddAgent: (domainId: string, name: string) => void;
     onDeleteAgent: (id: string) => void;
 }) {
     const isSelected = selectedNodeId === domain.id;
     const [isDragOver, setIsDragOver] = useState(false);
 
-    // Authority Badge
-    const authority = deriveDomainAuthority(lookupData.organization, domain);
+    const agents = lookupData.agents.filter(a => a.domainId === domain.id);
+    const subDomains = getChildDomains(lookupData.domains, domain.id);
+    const ancestors = getDomainAncestors(lookupData.domains, domain.id);
+    const isEmpty = agents.length === 0 && subDomains.length === 0;
+
+    // Authority Badge (Phase 9F: derived through every enclosing domain)
+    const authority = deriveDomainAuthority(lookupData.organization, domain, ancestors);
     const badge = formatAuthorityBadge(authority, lookupData.organization.authorityCeiling);
 
-    // Drop Logic
-    const isValidTarget = draggingItem?.type === 'AGENT';
+    // Drop Logic: agents move into this domain, domains nest under it
+    const isValidTarget = draggingItem?.type === 'AGENT' || (
+        draggingItem?.type === 'DOMAIN' &&
+        draggingItem.id !== domain.id &&
+        lookupData.domains.find(d => d.id === draggingItem.id)?.parentDomainId !== domain.id &&
+        canReparentDomain(lookupData.domains, draggingItem.id, domain.id)
+    );
 
     const handleDragOver = (e: React.DragEvent) => {
         if (!isValidTarget) return;
         e.preventDefault();
+        e.stopPropagation(); // Innermost lane wins
         e.dataTransfer.dropEffect = 'move';
         if (!isDragOver) setIsDragOver(true);
     };
@@ -273,11 +326,24 @@ function DomainLane({
     const handleDrop = (e: React.DragEvent) => {
         if (!isValidTarget || !draggingItem) return;
         e.preventDefault();
+        e.stopPropagation();
         setIsDragOver(false);
-        onMoveAgent(draggingItem.id, domain.id);
+        if (draggingItem.type === 'DOMAIN') {
+            onMoveDomainToParent(draggingItem.id, domain.id);
+        } else {
+            onMoveAgent(draggingItem.id, domain.id);
+        }
         onDragEnd(); // Reset local drag state
     };
 
+    const handleHeaderDragStart = (e: React.DragEvent) => {
+        e.stopPropagation();
+        const item: DragItem = { type: 'DOMAIN', id: domain.id };
+        onDragStart(item);
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('application/json', JSON.stringify(item));
+    };
+
     return (
         <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
             {/* Connector Dot */}
@@ -288,8 +354,8 @@ function DomainLane({
                 onDragLeave={() => setIsDragOver(false)}
                 onDrop={handleDrop}
                 style={{
-                    width: 300,
-                    background: '#0a0a0a',
+                    minWidth: 300,
+                    background: ancestors.length > 0 ? '#0f0f0f' : '#0a0a0a',
                     border: isDragOver
                         ? '2px dashed #4CAF50'
                         : isSelected ? '1px solid #fff' : '1px solid #333',
@@ -301,8 +367,11 @@ function DomainLane({
                     minHeight: 200
                 }}
             >
-                {/* Lane Header */}
+                {/* Lane Header (drag to nest under another domain) */}
                 <div
+                    draggable
+                    onDragStart={handleHeaderDragStart}
+                    onDragEnd={onDragEnd}
                     onClick={(e) => {
                         e.stopPropagation();
                         onNodeSelect({ id: domain.id, type: 'DOMAIN', label: domain.name });
@@ -310,7 +379,7 @@ function DomainLane({
                     style={{
                         padding: 16,
                         borderBottom: '1px solid #222',
-                        cursor: 'pointer',
+                        cursor: 'grab',
                         background: isSelected ? '#1a1a1a' : 'transparent',
                         borderTopLeftRadius: 8,
                         borderTopRightRadius: 8,
@@ -320,6 +389,11 @@ function DomainLane({
                     }}
                 >
                     <div>
+                        {ancestors.length > 0 && (
+                            <div style={{ fontSize: 10, textTransform: 'uppercase', letterSpacing: 1, color: '#666', marginBottom: 4 }}>
+                                Sub-domain
+                            </div>
+                        )}
                         <div style={{ fontWeight: 600, fontSize: 15, color: '#eee' }}>{domain.name}</div>
                         {badge && (
                             <div style={{ fontSize: 11, color: badge.hasRestriction ? '#ffa500' : '#888', marginTop: 4 }}>
@@ -345,26 +419,41 @@ function DomainLane({
                         </a>
                     </div>
 
-                    {/* Delete Domain */}
-                    <button
-                        onClick={(e) => {
-                            e.stopPropagation();
-                            if (agents.length > 0) {
-                                alert('Cannot delete domain with agents. Move or delete them first.');
-                                return;
-                            }
-                            if (confirm(`Delete domain "${domain.name}"?`)) {
-                                onDeleteDomain(domain.id);
-                            }
-                        }}
-                        style={{
-                            ...styles.iconButton,
-                            color: agents.length > 0 ? '#333' : '#555',
-                            cursor: agents.length > 0 ? 'not-allowed' : 'pointer'
-                        }}
-                    >
-                        <Trash2 size={14} />
-                    </button>
+                    <div style={{ display: 'flex' }}>
+                        {/* Add Sub-domain */}
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                const name = prompt(`Enter new sub-domain name under "${domain.name}":`);
+                                if (name) onAddSubDomain(domain.id, name);
+                            }}
+                            style={styles.iconButton}
+                            title="Add Sub-domain"
+                        >
+                            <FolderPlus size={14} />
+                        </button>
+
+                        {/* Delete Domain */}
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                if (!isEmpty) {
+                                    alert('Cannot delete domain with agents or sub-domains. Move or delete them first.');
+                                    return;
+                                }
+                                if (confirm(`Delete domain "${domain.name}"?`)) {
+                                    onDeleteDomain(domain.id);
+                                }
+                            }}
+                            style={{
+                                ...styles.iconButton,
+                                color: isEmpty ? '#555' : '#333',
+                                cursor: isEmpty ? 'pointer' : 'not-allowed'
+                            }}
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
                 </div>
 
                 {/* Agent List Area */}
@@ -374,6 +463,7 @@ function DomainLane({
                             key={agent.id}
                             agent={agent}
                             domain={domain}
+                            ancestors={ancestors}
                             lookupData={lookupData}
                             selectedNodeId={selectedNodeId}
                             onNodeSelect={onNodeSelect}
@@ -394,6 +484,30 @@ function DomainLane({
                         <Plus size={14} /> <span>Add Agent</span>
                     </button>
                 </div>
+
+                {/* Nested Sub-domain Lanes (Phase 9F) */}
+                {subDomains.length > 0 && (
+                    <div style={styles.subDomainRow}>
+                        {subDomains.map(subDomain => (
+                            <DomainLane
+                                key={subDomain.id}
+                                domain={subDomain}
+                                lookupData={lookupData}
+                                selectedNodeId={selectedNodeId}
+                                onNodeSelect={onNodeSelect}
+                                draggingItem={draggingItem}
+                                onDragStart={onDragStart}
+                                onDragEnd={onDragEnd}
+                                onMoveAgent={onMoveAgent}
+                                onDeleteDomain={onDeleteDomain}
+                                onAddSubDomain={onAddSubDomain}
+                                onMoveDomainToParent={onMoveDomainToParent}
+                                onAddAgent={onAddAgent}
+                                onDeleteAgent={onDeleteAgent}
+                            />
+                        ))}
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -406,6 +520,7 @@ function DomainLane({
 function AgentCard({
     agent,
     domain,
+    ancestors,
     lookupData,
     selectedNodeId,
     onNodeSelect,
@@ -414,6 +529,7 @@ function AgentCard({
 }: {
     agent: Agent;
     domain: Domain;
+    ancestors: Domain[];
     lookupData: Phase0Data;
     selectedNodeId: string | null;
     onNodeSelect: any;
@@ -423,7 +539,7 @@ function AgentCard({
     const isSelected = selectedNodeId === agent.id;
 
     // Authority Badge
-    const authority = deriveAgentAuthority(lookupData.organization, domain, agent);
+    const authority = deriveAgentAuthority(lookupData.organization, domain, agent, ancestors);
     const badge = formatAuthorityBadge(authority, lookupData.organization.authorityCeiling);
 
     const handleDragStart = (e: React.DragEvent) => {
@@ -487,6 +603,13 @@ function AgentCard({
 // ============================================================================
 
 const styles = {
+    subDomainRow: {
+        display: 'flex',
+        gap: 12,
+        padding: 12,
+        borderTop: '1px solid #222',
+        alignItems: 'flex-start',
+    },
     addAgentButton: {
         background: 'transparent',
         border: '1px dashed #333',
@@ -0,0 +1,74 @@
+'use client';
+
+import { Building2, Plus } from 'lucide-react';
+import { useWorkspace } from '@/state/StructureContext';
+
+/**
+ * Organization Switcher (Phase 9G)
+ *
+ * Top-bar selector for the workspace's organizations.
+ * Switching remounts the structure store, so nothing from the previous
+ * organization stays on screen or in the registries.
+ */
+
+export function OrganizationSwitcher() {
+    const { workspace, activeOrganization, status, error, switchOrganization, createOrganization } = useWorkspace();
+
+    return (
+        <div style={styles.container} title={error ?? undefined}>
+            <Building2 size={14} color={status === 'ERROR' ? '#d97070' : '#888'} />
+            <select
+                style={styles.select}
+                value={activeOrganization.organizationId}
+                onChange={(e) => switchOrganization(e.target.value)}
+            >
+                {workspace.organizations.map(organization => (
+                    <option key={organization.organizationId} value={organization.organizationId}>
+                        {organization.name}
+                    </option>
+                ))}
+            </select>
+            <button
+                style={styles.button}
+                onClick={() => {
+                    const name = prompt('Enter new Organization name:');
+                    if (name?.trim()) createOrganization(name.trim());
+                }}
+                title="New Organization"
+            >
+                <Plus size={14} />
+            </button>
+        </div>
+    );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    container: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+    },
+    select: {
+        background: '#111',
+        color: '#ddd',
+        border: '1px solid #333',
+        borderRadius: 6,
+        padding: '6px 10px',
+        fontSize: 13,
+        cursor: 'pointer',
+    },
+    button: {
+        display: 'flex',
+        alignItems: 'center',
+        background: 'transparent',
+        color: '#888',
+        border: '1px solid #333',
+        borderRadius: 6,
+        padding: 6,
+        cursor: 'pointer',
+    },
+};
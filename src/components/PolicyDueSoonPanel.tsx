@@ -0,0 +1,147 @@
+'use client';
+
+import { CalendarClock } from 'lucide-react';
+import { DueSoonItem, LifecycleMilestone } from '@/logic/policy/policyLifecycle';
+
+/**
+ * Policy Due Soon Panel (Phase 9Y)
+ *
+ * Policies reaching review or expiry in the next few days, soonest first.
+ *
+ * CRITICAL: READ-ONLY ONLY
+ * Renewing or letting a policy expire happens where policies are governed.
+ */
+
+export const DUE_SOON_WINDOWS = [7, 14, 30];
+
+interface PolicyDueSoonPanelProps {
+    items: ReadonlyArray<DueSoonItem>;
+    days: number;
+    onChangeDays: (days: number) => void;
+    onSelectPolicy: (policyId: string) => void;
+}
+
+const MILESTONE_LABELS: Record<LifecycleMilestone, string> = {
+    REVIEW: 'Review',
+    EXPIRY: 'Expiry',
+};
+
+export function PolicyDueSoonPanel({ items, days, onChangeDays, onSelectPolicy }: PolicyDueSoonPanelProps) {
+    return (
+        <div style={styles.container}>
+            <div style={styles.header}>
+                <div>
+                    <div style={styles.title}>Due Soon</div>
+                    <div style={styles.subtitle}>
+                        Policies reaching review or expiry
+                    </div>
+                </div>
+                <select
+                    value={days}
+                    onChange={e => onChangeDays(Number(e.target.value))}
+                    style={styles.daysSelect}
+                >
+                    {DUE_SOON_WINDOWS.map(window => (
+                        <option key={window} value={window}>Next {window} days</option>
+                    ))}
+                </select>
+            </div>
+
+            {items.length === 0 ? (
+                <div style={styles.empty}>Nothing due in the next {days} days.</div>
+            ) : (
+                <div style={styles.list}>
+                    {items.map(item => (
+                        <div key={`${item.policyId}-${item.milestone}`} style={styles.item}>
+                            <CalendarClock size={14} color={item.milestone === 'EXPIRY' ? '#d97070' : '#C8A96A'} />
+                            <span style={styles.milestone}>{MILESTONE_LABELS[item.milestone].toUpperCase()}</span>
+                            <button style={styles.policyLink} onClick={() => onSelectPolicy(item.policyId)}>
+                                {item.description || item.policyId}
+                            </button>
+                            <span style={styles.remaining}>
+                                {item.daysRemaining === 1 ? 'in 1 day' : `in ${item.daysRemaining} days`}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    container: {
+        background: '#0f0f0f',
+        border: '1px solid #2a2a2a',
+        borderRadius: 8,
+        padding: 24,
+    },
+    header: {
+        display: 'flex',
+        justifyContent: 'space-between' as const,
+        alignItems: 'flex-start' as const,
+        gap: 16,
+    },
+    title: {
+        fontSize: '14px',
+        fontWeight: 600,
+        color: '#aaa',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        marginBottom: 4,
+    },
+    subtitle: {
+        fontSize: '12px',
+        color: '#666',
+    },
+    daysSelect: {
+        background: '#111',
+        border: '1px solid #2a2a2a',
+        borderRadius: 3,
+        color: '#aaa',
+        fontSize: '11px',
+        padding: '4px 6px',
+    },
+    empty: {
+        marginTop: 16,
+        fontSize: '12px',
+        color: '#666',
+    },
+    list: {
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: 6,
+        marginTop: 16,
+    },
+    item: {
+        display: 'flex',
+        alignItems: 'center' as const,
+        gap: 10,
+        padding: '8px 12px',
+        background: '#111',
+    },
+    milestone: {
+        minWidth: 50,
+        fontSize: '10px',
+        color: '#666',
+        letterSpacing: '0.5px',
+    },
+    policyLink: {
+        flex: 1,
+        background: 'transparent',
+        border: 'none',
+        padding: 0,
+        textAlign: 'left' as const,
+        fontSize: '13px',
+        color: '#ddd',
+        cursor: 'pointer',
+    },
+    remaining: {
+        fontSize: '11px',
+        color: '#888',
+    },
+};
@@ -0,0 +1,191 @@
+'use client';
+
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+import { PolicyFinding, PolicyFindingKind } from '@/logic/policy/policyConflicts';
+
+/**
+ * Policy Findings Panel (Phase 9X)
+ *
+ * Duplicate, subsumed, conflicting and orphaned policies and shadowed
+ * overrides, each with the clean-up the analyzer suggests.
+ *
+ * CRITICAL: READ-ONLY ONLY
+ * Suggestions are text. Letting a policy expire happens where policies are governed.
+ */
+
+interface PolicyFindingsPanelProps {
+    findings: ReadonlyArray<PolicyFinding>;
+    onSelectPolicy: (policyId: string) => void;
+}
+
+const KIND_LABELS: Record<PolicyFindingKind, string> = {
+    DUPLICATE: 'Duplicate',
+    SUBSUMED: 'Subsumed',
+    CONFLICTING_EFFECTS: 'Conflicting effects',
+    SHADOWED_OVERRIDE: 'Shadowed override',
+    ORPHANED_TARGET: 'Orphaned target',
+};
+
+export function PolicyFindingsPanel({ findings, onSelectPolicy }: PolicyFindingsPanelProps) {
+    return (
+        <div style={styles.container}>
+            <div style={styles.header}>
+                <div>
+                    <div style={styles.title}>Policy Health</div>
+                    <div style={styles.subtitle}>
+                        Redundant, conflicting and orphaned policies and overrides
+                    </div>
+                </div>
+                {findings.length === 0 ? (
+                    <div style={{ ...styles.badge, ...styles.badgeClean }}>
+                        <CheckCircle2 size={12} /> No findings
+                    </div>
+                ) : (
+                    <div style={{ ...styles.badge, ...styles.badgeFindings }}>
+                        <AlertTriangle size={12} /> {findings.length} {findings.length === 1 ? 'finding' : 'findings'}
+                    </div>
+                )}
+            </div>
+
+            {findings.length > 0 && (
+                <div style={styles.list}>
+                    {findings.map((finding, index) => (
+                        <div key={index} style={styles.finding}>
+                            <div style={styles.findingTop}>
+                                <span style={styles.kind}>{KIND_LABELS[finding.kind].toUpperCase()}</span>
+                                <span style={styles.involved}>
+                                    {finding.policyIds.map(policyId => (
+                                        <button
+                                            key={policyId}
+                                            style={styles.policyLink}
+                                            onClick={() => onSelectPolicy(policyId)}
+                                        >
+                                            {policyId}
+                                        </button>
+                                    ))}
+                                    {finding.overrideIds.map(overrideId => (
+                                        <span key={overrideId} style={styles.overrideId}>{overrideId}</span>
+                                    ))}
+                                </span>
+                            </div>
+                            <div style={styles.message}>{finding.message}</div>
+                            <div style={styles.suggestion}>
+                                <span style={styles.suggestionAction}>{finding.suggestion.action.replace(/_/g, ' ')}</span>
+                                {finding.suggestion.description}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    container: {
+        background: '#0f0f0f',
+        border: '1px solid #2a2a2a',
+        borderRadius: 8,
+        padding: 24,
+    },
+    header: {
+        display: 'flex',
+        justifyContent: 'space-between' as const,
+        alignItems: 'flex-start' as const,
+        gap: 16,
+    },
+    title: {
+        fontSize: '14px',
+        fontWeight: 600,
+        color: '#aaa',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        marginBottom: 4,
+    },
+    subtitle: {
+        fontSize: '12px',
+        color: '#666',
+    },
+    badge: {
+        display: 'flex',
+        alignItems: 'center' as const,
+        gap: 6,
+        padding: '4px 8px',
+        borderRadius: 3,
+        fontSize: '10px',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        fontWeight: 500,
+    },
+    badgeClean: {
+        background: '#1a2a20',
+        color: '#6FAF8E',
+    },
+    badgeFindings: {
+        background: '#2a2a1a',
+        color: '#C8A96A',
+    },
+    list: {
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: 8,
+        marginTop: 16,
+    },
+    finding: {
+        padding: 12,
+        borderLeft: '2px solid #C8A96A',
+        background: '#111',
+    },
+    findingTop: {
+        display: 'flex',
+        justifyContent: 'space-between' as const,
+        gap: 12,
+        marginBottom: 6,
+    },
+    kind: {
+        fontSize: '10px',
+        color: '#C8A96A',
+        letterSpacing: '0.5px',
+        fontWeight: 600,
+    },
+    involved: {
+        display: 'flex',
+        gap: 6,
+        flexWrap: 'wrap' as const,
+    },
+    policyLink: {
+        background: 'transparent',
+        border: 'none',
+        padding: 0,
+        fontFamily: 'monospace',
+        fontSize: '11px',
+        color: '#888',
+        textDecoration: 'underline',
+        cursor: 'pointer',
+    },
+    overrideId: {
+        fontFamily: 'monospace',
+        fontSize: '11px',
+        color: '#666',
+    },
+    message: {
+        fontSize: '13px',
+        color: '#ddd',
+        marginBottom: 6,
+    },
+    suggestion: {
+        fontSize: '12px',
+        color: '#aaa',
+    },
+    suggestionAction: {
+        display: 'inline-block',
+        minWidth: 90,
+        fontSize: '10px',
+        color: '#666',
+        letterSpacing: '0.5px',
+    },
+};
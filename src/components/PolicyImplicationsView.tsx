@@ -1,6 +1,7 @@
 'use client';
 
 import { PolicyChangeProposal } from '@/logic/staging/stagedActions';
+import { AuthorityDirection, compareAuthorityModels } from '@/logic/policy/learnedPolicy';
 
 /**
  * Policy Implications View (Phase 4C)
@@ -10,6 +11,9 @@ import { PolicyChangeProposal } from '@/logic/staging/stagedActions';
  * 
  * CRITICAL: NO POLICY APPLICATION
  * Confirming a proposal does NOT apply any changes. It only marks ready for future phases.
+ *
+ * Phase 9W: The authority direction shown is computed from the proposal's
+ * authority models, the same comparison policy learning validates with.
  */
 
 interface PolicyImplicationsViewProps {
@@ -19,6 +23,8 @@ interface PolicyImplicationsViewProps {
 }
 
 export function PolicyImplicationsView({ proposal, onConfirm, onDismiss }: PolicyImplicationsViewProps) {
+    const { direction, changes } = compareAuthorityModels(proposal.beforeAuthority, proposal.afterAuthority);
+
     return (
         <div style={styles.container}>
             {/* Header */}
@@ -46,6 +52,23 @@ export function PolicyImplicationsView({ proposal, onConfirm, onDismiss }: Polic
                 />
             </Section>
 
+            {/* Phase 9W: Structural comparison */}
+            <Section title="AUTHORITY DIRECTION">
+                <div style={{
+                    ...styles.direction,
+                    color: direction === AuthorityDirection.EXPAND ? '#d97070' : '#6FAF8E',
+                }}>
+                    {direction}
+                    {direction === AuthorityDirection.EXPAND && ' — cannot be learned as a policy'}
+                </div>
+                {changes.map(change => (
+                    <div key={change.field} style={styles.authorityChange}>
+                        <span style={styles.authorityChangeField}>{change.field}</span>
+                        {change.before} → {change.after}
+                    </div>
+                ))}
+            </Section>
+
             {/* System Analysis */}
             <Section title="SYSTEM ANALYSIS">
                 <div style={styles.reasoning}>{proposal.systemReasoning}</div>
@@ -208,6 +231,22 @@ const styles = {
         color: '#666',
         fontStyle: 'italic' as const,
     },
+    direction: {
+        fontSize: '12px',
+        fontWeight: 600,
+        letterSpacing: '0.5px',
+        marginBottom: 8,
+    },
+    authorityChange: {
+        fontSize: '11px',
+        color: '#888',
+        fontFamily: 'monospace',
+    },
+    authorityChangeField: {
+        display: 'inline-block',
+        minWidth: 200,
+        color: '#666',
+    },
     reasoning: {
         fontSize: '13px',
         color: '#a1a1aa',
@@ -105,7 +105,7 @@ export function SidePanel({ node, onClose }: SidePanelProps) {
                                         </div>
                                         <div>
                                             <Label>AI Posture</Label>
-                                            <Value>{org.communicationPosture} • {org.escalationDefault} Escalation</Value>
+                                            <Value>{org.communicationPosture} • {org.escalationBaseline} Escalation</Value>
                                         </div>
                                     </div>
                                 </section>
@@ -125,7 +125,7 @@ export function SidePanel({ node, onClose }: SidePanelProps) {
                                         <div className="grid grid-cols-2 gap-4">
                                             <div>
                                                 <Label>Escalation Default</Label>
-                                                <Value>{org.escalationDefault}</Value>
+                                                <Value>{org.escalationBaseline}</Value>
                                             </div>
                                             <div>
                                                 <Label>Comm. Posture</Label>
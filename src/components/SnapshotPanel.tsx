@@ -0,0 +1,331 @@
+'use client';
+
+import { useState } from 'react';
+import { Camera, RotateCcw, GitCompare } from 'lucide-react';
+import { Phase0Data } from '@/app/data/types';
+import {
+    StructureSnapshot,
+    StructureDiff,
+    diffStructures,
+} from '@/logic/snapshots/structureSnapshots';
+import { getAgentPersonaMappings } from '@/logic/persona/personaIdentityMapping';
+
+/**
+ * Snapshot Panel (Phase 9C)
+ *
+ * Named versions of the Organization OS: capture, compare, roll back.
+ * Comparison reads from a base version to a target version (default: live).
+ */
+
+// Sentinel for "the live structure" in compare selectors
+const CURRENT = 'CURRENT';
+
+interface SnapshotPanelProps {
+    data: Phase0Data;
+    snapshots: StructureSnapshot[];
+    onCreate: (name: string, note?: string) => void;
+    onRollback: (snapshotId: string) => void;
+}
+
+export function SnapshotPanel({ data, snapshots, onCreate, onRollback }: SnapshotPanelProps) {
+    const [name, setName] = useState('');
+    const [note, setNote] = useState('');
+    const [baseId, setBaseId] = useState<string>('');
+    const [targetId, setTargetId] = useState<string>(CURRENT);
+
+    const newestFirst = [...snapshots].reverse();
+
+    const resolve = (id: string) => {
+        if (id === CURRENT) {
+            return { data, personaMappings: getAgentPersonaMappings() };
+        }
+        return snapshots.find(s => s.snapshotId === id) ?? null;
+    };
+
+    const base = resolve(baseId);
+    const target = resolve(targetId);
+    const diff = base && target && baseId !== targetId ? diffStructures(base, target) : null;
+
+    const handleCreate = () => {
+        if (!name.trim()) return;
+        onCreate(name, note);
+        setName('');
+        setNote('');
+    };
+
+    const handleRollback = (snapshot: StructureSnapshot) => {
+        if (window.confirm(`Roll back the Organization OS to "${snapshot.name}"? This can be undone.`)) {
+            onRollback(snapshot.snapshotId);
+        }
+    };
+
+    return (
+        <div style={styles.card}>
+            {/* CREATE */}
+            <div style={styles.createRow}>
+                <input
+                    style={styles.input}
+                    placeholder="Version name (e.g. Q3 baseline)"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                />
+                <input
+                    style={{ ...styles.input, flex: 2 }}
+                    placeholder="Note (optional)"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                />
+                <button
+                    style={{ ...styles.primaryButton, opacity: name.trim() ? 1 : 0.4 }}
+                    disabled={!name.trim()}
+                    onClick={handleCreate}
+                >
+                    <Camera size={14} /> Save version
+                </button>
+            </div>
+
+            {/* LIST */}
+            {newestFirst.length === 0 ? (
+                <div style={styles.empty}>No saved versions yet.</div>
+            ) : (
+                <div style={styles.list}>
+                    {newestFirst.map(snapshot => (
+                        <div key={snapshot.snapshotId} style={styles.row}>
+                            <div style={{ flex: 1 }}>
+                                <div style={styles.rowName}>{snapshot.name}</div>
+                                <div style={styles.rowMeta}>
+                                    {new Date(snapshot.createdAt).toLocaleString()}
+                                    {' · '}{snapshot.data.domains.length} domains
+                                    {' · '}{snapshot.data.agents.length} agents
+                                    {' · '}{snapshot.data.organization.status}
+                                </div>
+                                {snapshot.note && <div style={styles.rowNote}>{snapshot.note}</div>}
+                            </div>
+                            <button
+                                style={styles.secondaryButton}
+                                onClick={() => { setBaseId(snapshot.snapshotId); setTargetId(CURRENT); }}
+                                title="Compare with current"
+                            >
+                                <GitCompare size={12} />
+                            </button>
+                            <button
+                                style={styles.secondaryButton}
+                                onClick={() => handleRollback(snapshot)}
+                                title="Roll back to this version"
+                            >
+                                <RotateCcw size={12} /> Roll back
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* COMPARE */}
+            {snapshots.length > 0 && (
+                <div style={styles.compare}>
+                    <div style={styles.compareRow}>
+                        <select style={styles.select} value={baseId} onChange={(e) => setBaseId(e.target.value)}>
+                            <option value="">Select base version…</option>
+                            {newestFirst.map(s => (
+                                <option key={s.snapshotId} value={s.snapshotId}>{s.name}</option>
+                            ))}
+                        </select>
+                        <span style={{ color: '#666' }}>→</span>
+                        <select style={styles.select} value={targetId} onChange={(e) => setTargetId(e.target.value)}>
+                            <option value={CURRENT}>Current (live)</option>
+                            {newestFirst.map(s => (
+                                <option key={s.snapshotId} value={s.snapshotId}>{s.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {diff && <SnapshotDiffView diff={diff} />}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ============================================================================
+// DIFF VIEW
+// ============================================================================
+
+export function SnapshotDiffView({ diff }: { diff: StructureDiff }) {
+    if (diff.isEmpty) {
+        return <div style={styles.empty}>No differences.</div>;
+    }
+
+    return (
+        <div style={styles.diff}>
+            <div style={styles.diffTitle}>Structural changes ({diff.changes.length})</div>
+            {diff.changes.map((change, i) => (
+                <div key={`${change.kind}-${change.entityId}-${i}`} style={styles.diffLine}>
+                    <span style={styles.diffKind}>{change.kind.replace(/_/g, ' ')}</span>
+                    <span style={styles.diffEntity}>{change.entityName}</span>
+                    <span style={styles.diffDesc}>{change.description}</span>
+                </div>
+            ))}
+
+            <div style={{ ...styles.diffTitle, marginTop: 12 }}>
+                Effective authority ({diff.authorityImpact.length})
+            </div>
+            {diff.authorityImpact.length === 0 ? (
+                <div style={styles.rowMeta}>No change to agent authority.</div>
+            ) : (
+                diff.authorityImpact.map(impact => (
+                    <div key={impact.agentId} style={styles.diffLine}>
+                        <span style={styles.diffEntity}>{impact.agentName}</span>
+                        <span style={{
+                            color: impact.change === 'RAISED' ? '#d97070' :
+                                impact.change === 'LOWERED' || impact.change === 'REMOVED' ? '#C8A96A' : '#6FAF8E'
+                        }}>
+                            {impact.before ?? '—'} → {impact.after ?? '—'} ({impact.change})
+                        </span>
+                    </div>
+                ))
+            )}
+        </div>
+    );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    card: {
+        background: '#111',
+        border: '1px solid #222',
+        borderRadius: 8,
+        padding: 24,
+    },
+    createRow: {
+        display: 'flex',
+        gap: 8,
+        marginBottom: 16,
+    },
+    input: {
+        flex: 1,
+        background: '#0a0a0a',
+        border: '1px solid #333',
+        borderRadius: 6,
+        color: '#eee',
+        padding: '8px 10px',
+        fontSize: 13,
+    },
+    select: {
+        flex: 1,
+        background: '#0a0a0a',
+        border: '1px solid #333',
+        borderRadius: 6,
+        color: '#eee',
+        padding: '6px 8px',
+        fontSize: 13,
+    },
+    primaryButton: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        background: '#eee',
+        color: '#000',
+        border: 'none',
+        padding: '8px 12px',
+        borderRadius: 6,
+        fontWeight: 600,
+        fontSize: 13,
+        cursor: 'pointer',
+        whiteSpace: 'nowrap' as const,
+    },
+    secondaryButton: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 4,
+        background: 'transparent',
+        color: '#aaa',
+        border: '1px solid #333',
+        padding: '4px 8px',
+        borderRadius: 4,
+        fontSize: 12,
+        cursor: 'pointer',
+    },
+    empty: {
+        fontSize: 13,
+        color: '#666',
+        fontStyle: 'italic' as const,
+    },
+    list: {
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: 8,
+    },
+    row: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: '10px 12px',
+        background: '#151515',
+        border: '1px solid #222',
+        borderRadius: 6,
+    },
+    rowName: {
+        fontSize: 14,
+        fontWeight: 500,
+        color: '#fff',
+    },
+    rowMeta: {
+        fontSize: 12,
+        color: '#666',
+    },
+    rowNote: {
+        fontSize: 12,
+        color: '#999',
+        marginTop: 4,
+    },
+    compare: {
+        marginTop: 20,
+        paddingTop: 16,
+        borderTop: '1px solid #222',
+    },
+    compareRow: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 12,
+    },
+    diff: {
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: 4,
+    },
+    diffTitle: {
+        fontSize: 11,
+        fontWeight: 600,
+        color: '#888',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        marginBottom: 4,
+    },
+    diffLine: {
+        display: 'flex',
+        gap: 10,
+        fontSize: 12,
+        color: '#ccc',
+    },
+    diffKind: {
+        width: 170,
+        flexShrink: 0,
+        color: '#666',
+        fontSize: 10,
+        textTransform: 'uppercase' as const,
+        paddingTop: 2,
+    },
+    diffEntity: {
+        minWidth: 120,
+        color: '#eee',
+        fontWeight: 500,
+    },
+    diffDesc: {
+        color: '#aaa',
+    },
+};
@@ -0,0 +1,70 @@
+'use client';
+
+import { AlertTriangle, AlertOctagon } from 'lucide-react';
+import { StructureValidation } from '@/logic/validation/validatePhase0Data';
+
+/**
+ * Structure Diagnostics Panel (Phase 9E)
+ *
+ * Lists validation diagnostics for the live structure.
+ * Renders nothing when the structure is clean.
+ */
+
+export function StructureDiagnosticsPanel({ validation }: { validation: StructureValidation }) {
+    if (validation.diagnostics.length === 0) {
+        return null;
+    }
+
+    return (
+        <div style={styles.panel}>
+            <div style={styles.title}>Structure diagnostics ({validation.diagnostics.length})</div>
+            {validation.diagnostics.map((diagnostic, i) => {
+                const isError = diagnostic.severity === 'ERROR';
+                return (
+                    <div key={`${diagnostic.path}-${i}`} style={styles.row}>
+                        {isError
+                            ? <AlertOctagon size={13} color="#d97070" />
+                            : <AlertTriangle size={13} color="#C8A96A" />}
+                        <code style={styles.path}>{diagnostic.path}</code>
+                        <span>{diagnostic.message}</span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = {
+    panel: {
+        background: '#17140c',
+        border: '1px solid #3a3220',
+        borderRadius: 8,
+        padding: 16,
+        marginBottom: 40,
+    },
+    title: {
+        fontSize: 12,
+        fontWeight: 600,
+        color: '#C8A96A',
+        textTransform: 'uppercase' as const,
+        letterSpacing: '0.5px',
+        marginBottom: 8,
+    },
+    row: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        fontSize: 13,
+        color: '#ccc',
+        padding: '3px 0',
+    },
+    path: {
+        color: '#888',
+        fontFamily: 'monospace',
+        fontSize: 12,
+    },
+};
@@ -0,0 +1,316 @@
+import { Agent } from '@/app/data/types';
+import { DoActionCategory } from '../authority/deriveDoActions';
+
+/**
+ * Action Catalog (Phase 9H)
+ *
+ * Declarative list of every Do action an organization recognises, and the
+ * explicit bindings that decide which agents can attempt which actions.
+ *
+ * Resolution order for an agent:
+ * 1. Agent binding (agentBindings[agent.id])
+ * 2. Role binding (roleBindings[agent.role], exact role name)
+ * 3. defaultActionIds
+ *
+ * CRITICAL CONSTRAINTS:
+ * - Single source of Do actions for deriveDoActions, deriveRuntimeVerdict and staging
+ * - PURE: Edits return a new catalog; nothing here reads or writes storage
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ActionSurface = 'READ' | 'WRITE' | 'EXECUTE';
+
+export interface ActionCatalogEntry {
+    id: string;
+    verbPhrase: string;             // e.g. "Reply to customer inquiry"
+    category: DoActionCategory;
+    requiredAuthority: number;      // 0-5
+    requiredSurface: ActionSurface;
+    tags: string[];
+}
+
+export interface ActionCatalog {
+    entries: ActionCatalogEntry[];
+    roleBindings: Record<string, string[]>;     // Role name → entry IDs
+    agentBindings: Record<string, string[]>;    // Agent ID → entry IDs (overrides the role)
+    defaultActionIds: string[];                 // For agents with no binding
+}
+
+export interface ActionCatalogIssue {
+    path: string;
+    message: string;
+}
+
+export const ACTION_CATEGORIES: readonly DoActionCategory[] = [
+    'DATA_ACCESS',
+    'DATA_MODIFICATION',
+    'DECISION_MAKING',
+    'EXECUTION',
+    'ESCALATION',
+    'REPORTING',
+    'OPERATIONS',
+];
+
+export const ACTION_SURFACES: readonly ActionSurface[] = ['READ', 'WRITE', 'EXECUTE'];
+
+export const REQUIRED_AUTHORITY_RANGE = { min: 0, max: 5 } as const;
+
+// ============================================================================
+// DEFAULT CATALOG
+// ============================================================================
+
+function entry(
+    id: string,
+    verbPhrase: string,
+    category: DoActionCategory,
+    requiredAuthority: number,
+    requiredSurface: ActionSurface,
+    tags: string[]
+): ActionCatalogEntry {
+    return { id, verbPhrase, category, requiredAuthority, requiredSurface, tags };
+}
+
+/**
+ * Seed catalog. Covers the Phase 3A action templates plus finance actions,
+ * with explicit bindings for every Phase 0 role.
+ */
+export const DEFAULT_ACTION_CATALOG: ActionCatalog = {
+    entries: [
+        // Support
+        entry('support_view_ticket', 'View customer ticket', 'DATA_ACCESS', 0, 'READ', ['support']),
+        entry('support_reply_inquiry', 'Reply to customer inquiry', 'DATA_MODIFICATION', 1, 'WRITE', ['support', 'customer-facing']),
+        entry('support_update_status', 'Update ticket status', 'DATA_MODIFICATION', 1, 'WRITE', ['support']),
+        entry('support_escalate', 'Escalate to specialist', 'ESCALATION', 1, 'WRITE', ['support']),
+        entry('support_close_ticket', 'Close support ticket', 'DECISION_MAKING', 2, 'WRITE', ['support']),
+
+        // Analysis
+        entry('analyst_view_data', 'View analytics data', 'DATA_ACCESS', 0, 'READ', ['analysis']),
+        entry('analyst_export_data', 'Export analytics data', 'DATA_ACCESS', 1, 'READ', ['analysis', 'data-export']),
+        entry('analyst_generate_report', 'Generate compliance report', 'REPORTING', 2, 'WRITE', ['analysis', 'compliance']),
+        entry('analyst_schedule_job', 'Schedule analysis job', 'EXECUTION', 2, 'EXECUTE', ['analysis']),
+        entry('analyst_approve_findings', 'Approve analysis findings', 'DECISION_MAKING', 3, 'WRITE', ['analysis']),
+
+        // Finance
+        entry('finance_review_ledger', 'Review ledger entries', 'DATA_ACCESS', 0, 'READ', ['finance', 'audit']),
+        entry('finance_match_transactions', 'Match transactions to records', 'DATA_MODIFICATION', 1, 'WRITE', ['finance', 'reconciliation']),
+        entry('finance_post_adjustment', 'Post reconciliation adjustment', 'DECISION_MAKING', 2, 'WRITE', ['finance', 'reconciliation']),
+
+        // Operations
+        entry('ops_view_logs', 'View system logs', 'DATA_ACCESS', 0, 'READ', ['operations']),
+        entry('ops_update_config', 'Update configuration', 'DATA_MODIFICATION', 2, 'WRITE', ['operations']),
+        entry('ops_restart_service', 'Restart service', 'EXECUTION', 2, 'EXECUTE', ['operations']),
+        entry('ops_deploy_staging', 'Deploy to staging', 'EXECUTION', 2, 'EXECUTE', ['operations', 'deployment']),
+        entry('ops_deploy_production', 'Deploy to production', 'EXECUTION', 3, 'EXECUTE', ['operations', 'deployment', 'production']),
+
+        // Generic
+        entry('generic_read_info', 'Read information', 'DATA_ACCESS', 0, 'READ', ['generic']),
+        entry('generic_update_record', 'Update record', 'DATA_MODIFICATION', 1, 'WRITE', ['generic']),
+        entry('generic_make_decision', 'Make autonomous decision', 'DECISION_MAKING', 2, 'WRITE', ['generic']),
+        entry('generic_execute_action', 'Execute system action', 'EXECUTION', 2, 'EXECUTE', ['generic']),
+        entry('generic_escalate', 'Escalate to human', 'ESCALATION', 0, 'READ', ['generic']),
+    ],
+    roleBindings: {
+        'Compliance Auditor': ['finance_review_ledger', 'analyst_view_data', 'analyst_generate_report', 'generic_escalate'],
+        'Transaction Matcher': ['finance_review_ledger', 'finance_match_transactions', 'finance_post_adjustment', 'generic_escalate'],
+        'Ticket Router': ['support_view_ticket', 'support_update_status', 'support_escalate', 'support_close_ticket'],
+        'First Responder': ['support_view_ticket', 'support_reply_inquiry', 'support_update_status', 'support_escalate'],
+        'Monitor': ['ops_view_logs', 'analyst_view_data', 'generic_escalate'],
+        'Resource Manager': ['ops_view_logs', 'ops_update_config', 'ops_restart_service', 'ops_deploy_staging', 'ops_deploy_production'],
+    },
+    agentBindings: {},
+    defaultActionIds: ['generic_read_info', 'generic_update_record', 'generic_make_decision', 'generic_execute_action', 'generic_escalate'],
+};
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+export function getCatalogEntry(catalog: ActionCatalog, actionId: string): ActionCatalogEntry | null {
+    return catalog.entries.find(e => e.id === actionId) ?? null;
+}
+
+/**
+ * Where an agent's action list comes from.
+ */
+export function getAgentBindingSource(catalog: ActionCatalog, agent: Agent): 'AGENT' | 'ROLE' | 'DEFAULT' {
+    if (catalog.agentBindings[agent.id]) return 'AGENT';
+    if (catalog.roleBindings[agent.role]) return 'ROLE';
+    return 'DEFAULT';
+}
+
+/**
+ * Catalog entries bound to an agent, in binding order.
+ * IDs that no longer exist in the catalog are skipped.
+ */
+export function resolveAgentActions(catalog: ActionCatalog, agent: Agent): ActionCatalogEntry[] {
+    const ids = catalog.agentBindings[agent.id] ?? catalog.roleBindings[agent.role] ?? catalog.defaultActionIds;
+    return ids
+        .map(id => getCatalogEntry(catalog, id))
+        .filter((e): e is ActionCatalogEntry => e !== null);
+}
+
+export function isActionBoundToAgent(catalog: ActionCatalog, agent: Agent, actionId: string): boolean {
+    return resolveAgentActions(catalog, agent).some(e => e.id === actionId);
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+/**
+ * Add an entry, or replace the entry with the same ID.
+ */
+export function upsertCatalogEntry(catalog: ActionCatalog, next: ActionCatalogEntry): ActionCatalog {
+    const exists = catalog.entries.some(e => e.id === next.id);
+    return {
+        ...catalog,
+        entries: exists
+            ? catalog.entries.map(e => (e.id === next.id ? next : e))
+            : [...catalog.entries, next],
+    };
+}
+
+/**
+ * Remove an entry and every binding to it.
+ */
+export function removeCatalogEntry(catalog: ActionCatalog, actionId: string): ActionCatalog {
+    const strip = (bindings: Record<string, string[]>) =>
+        Object.fromEntries(Object.entries(bindings).map(([key, ids]) => [key, ids.filter(id => id !== actionId)]));
+
+    return {
+        entries: catalog.entries.filter(e => e.id !== actionId),
+        roleBindings: strip(catalog.roleBindings),
+        agentBindings: strip(catalog.agentBindings),
+        defaultActionIds: catalog.defaultActionIds.filter(id => id !== actionId),
+    };
+}
+
+/**
+ * Bind a role to entries. null removes the binding (agents fall back to the defaults).
+ */
+export function bindRoleActions(catalog: ActionCatalog, role: string, actionIds: string[] | null): ActionCatalog {
+    const roleBindings = { ...catalog.roleBindings };
+    if (actionIds === null) delete roleBindings[role];
+    else roleBindings[role] = actionIds;
+    return { ...catalog, roleBindings };
+}
+
+/**
+ * Bind a single agent to entries. null removes the binding (the agent uses its role).
+ */
+export function bindAgentActions(catalog: ActionCatalog, agentId: string, actionIds: string[] | null): ActionCatalog {
+    const agentBindings = { ...catalog.agentBindings };
+    if (actionIds === null) delete agentBindings[agentId];
+    else agentBindings[agentId] = actionIds;
+    return { ...catalog, agentBindings };
+}
+
+export function setDefaultActions(catalog: ActionCatalog, actionIds: string[]): ActionCatalog {
+    return { ...catalog, defaultActionIds: actionIds };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Validate an untrusted value as an ActionCatalog.
+ * Returns an empty list when the catalog is usable.
+ */
+export function validateActionCatalog(raw: unknown): ActionCatalogIssue[] {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return [{ path: '(catalog)', message: 'Expected an object' }];
+    }
+
+    const catalog = raw as Record<string, unknown>;
+    const issues: ActionCatalogIssue[] = [];
+
+    if (!Array.isArray(catalog.entries)) {
+        return [{ path: 'entries', message: 'Expected a list' }];
+    }
+
+    const ids = new Set<string>();
+    catalog.entries.forEach((value, i) => {
+        const path = `entries[${i}]`;
+        if (typeof value !== 'object' || value === null) {
+            issues.push({ path, message: 'Expected an object' });
+            return;
+        }
+        const e = value as Record<string, unknown>;
+
+        if (typeof e.id !== 'string' || e.id.trim() === '') {
+            issues.push({ path: `${path}.id`, message: 'Must be a non-empty string' });
+        } else if (ids.has(e.id)) {
+            issues.push({ path: `${path}.id`, message: `Duplicate action ID "${e.id}"` });
+        } else {
+            ids.add(e.id);
+        }
+
+        if (typeof e.verbPhrase !== 'string' || e.verbPhrase.trim() === '') {
+            issues.push({ path: `${path}.verbPhrase`, message: 'Must be a non-empty string' });
+        }
+        if (!ACTION_CATEGORIES.includes(e.category as DoActionCategory)) {
+            issues.push({ path: `${path}.category`, message: `Expected one of ${ACTION_CATEGORIES.join(', ')}` });
+        }
+        if (typeof e.requiredAuthority !== 'number' ||
+            !Number.isInteger(e.requiredAuthority) ||
+            e.requiredAuthority < REQUIRED_AUTHORITY_RANGE.min ||
+            e.requiredAuthority > REQUIRED_AUTHORITY_RANGE.max) {
+            issues.push({
+                path: `${path}.requiredAuthority`,
+                message: `Must be a whole number between ${REQUIRED_AUTHORITY_RANGE.min} and ${REQUIRED_AUTHORITY_RANGE.max}`,
+            });
+        }
+        if (!ACTION_SURFACES.includes(e.requiredSurface as ActionSurface)) {
+            issues.push({ path: `${path}.requiredSurface`, message: `Expected one of ${ACTION_SURFACES.join(', ')}` });
+        }
+        if (!isStringList(e.tags)) {
+            issues.push({ path: `${path}.tags`, message: 'Expected a list of strings' });
+        }
+    });
+
+    const checkIds = (value: unknown, path: string) => {
+        if (!isStringList(value)) {
+            issues.push({ path, message: 'Expected a list of action IDs' });
+            return;
+        }
+        value.forEach((id, i) => {
+            if (!ids.has(id)) issues.push({ path: `${path}[${i}]`, message: `Unknown action "${id}"` });
+        });
+    };
+
+    for (const field of ['roleBindings', 'agentBindings'] as const) {
+        const bindings = catalog[field];
+        if (typeof bindings !== 'object' || bindings === null || Array.isArray(bindings)) {
+            issues.push({ path: field, message: 'Expected an object' });
+            continue;
+        }
+        for (const [key, value] of Object.entries(bindings)) {
+            checkIds(value, `${field}.${key}`);
+        }
+    }
+
+    checkIds(catalog.defaultActionIds, 'defaultActionIds');
+
+    return issues;
+}
+
+/**
+ * Suggested ID for a new entry from its verb phrase, unique within the catalog.
+ */
+export function suggestActionId(catalog: ActionCatalog, verbPhrase: string): string {
+    const base = verbPhrase.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'action';
+    let id = base;
+    let suffix = 2;
+    while (catalog.entries.some(e => e.id === id)) {
+        id = `${base}_${suffix++}`;
+    }
+    return id;
+}
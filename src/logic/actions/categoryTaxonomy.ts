@@ -0,0 +1,91 @@
+import { Domain } from '@/app/data/types';
+import type { DoActionCategory } from '../authority/deriveDoActions';
+
+/**
+ * Action Category Taxonomy (Phase 9J)
+ *
+ * Domains describe what they may do with business categories ("Report Generation");
+ * Do actions are classified with DoActionCategory values ("REPORTING"). This table
+ * is the only translation between the two.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - FAIL CLOSED: A domain permits only the categories its mapped labels grant
+ * - Labels missing from the taxonomy grant nothing and are configuration errors
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BusinessCategory {
+    label: string;                      // Stored in Domain.allowedActionCategories
+    categories: DoActionCategory[];     // Do action categories the label permits
+    legacy?: boolean;                   // Written by earlier Domain Studio versions; not offered for new selections
+}
+
+export interface DomainCategoryResolution {
+    allowed: DoActionCategory[];
+    unmapped: string[];                 // Labels with no taxonomy entry
+}
+
+// ============================================================================
+// TAXONOMY
+// ============================================================================
+
+export const BUSINESS_CATEGORY_TAXONOMY: readonly BusinessCategory[] = [
+    // Finance
+    { label: 'Report Generation', categories: ['DATA_ACCESS', 'REPORTING'] },
+    { label: 'Data Reconciliation', categories: ['DATA_ACCESS', 'DATA_MODIFICATION', 'DECISION_MAKING'] },
+    { label: 'Fraud Detection', categories: ['DATA_ACCESS', 'ESCALATION'] },
+
+    // Customer
+    { label: 'Inquiry Response', categories: ['DATA_ACCESS', 'DATA_MODIFICATION'] },
+    { label: 'Ticket Triage', categories: ['DATA_MODIFICATION', 'DECISION_MAKING', 'ESCALATION'] },
+    { label: 'Sentiment Analysis', categories: ['DATA_ACCESS', 'REPORTING'] },
+
+    // Operations
+    { label: 'Log Analysis', categories: ['DATA_ACCESS', 'REPORTING'] },
+    { label: 'Resource Scaling', categories: ['DATA_MODIFICATION', 'EXECUTION', 'OPERATIONS'] },
+    { label: 'Alert Management', categories: ['ESCALATION', 'OPERATIONS'] },
+
+    // General
+    { label: 'Approvals', categories: ['DECISION_MAKING'] },
+    { label: 'Record Keeping', categories: ['DATA_ACCESS', 'DATA_MODIFICATION'] },
+
+    // Organization global actions, formerly offered as domain categories
+    { label: 'READ', categories: ['DATA_ACCESS', 'REPORTING'], legacy: true },
+    { label: 'WRITE', categories: ['DATA_MODIFICATION'], legacy: true },
+    { label: 'EXECUTE', categories: ['EXECUTION', 'OPERATIONS'], legacy: true },
+    { label: 'ESCALATE', categories: ['ESCALATION'], legacy: true },
+];
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+export function getBusinessCategory(label: string): BusinessCategory | null {
+    return BUSINESS_CATEGORY_TAXONOMY.find(c => c.label === label) ?? null;
+}
+
+/**
+ * Do action categories a domain permits, and any labels the taxonomy does not know.
+ */
+export function resolveDomainActionCategories(domain: Pick<Domain, 'allowedActionCategories'>): DomainCategoryResolution {
+    const allowed = new Set<DoActionCategory>();
+    const unmapped: string[] = [];
+
+    for (const label of domain.allowedActionCategories ?? []) {
+        const mapped = getBusinessCategory(label);
+        if (!mapped) {
+            unmapped.push(label);
+            continue;
+        }
+        mapped.categories.forEach(category => allowed.add(category));
+    }
+
+    return { allowed: Array.from(allowed), unmapped };
+}
+
+export function isCategoryAllowedInDomain(domain: Pick<Domain, 'allowedActionCategories'>, category: DoActionCategory): boolean {
+    return resolveDomainActionCategories(domain).allowed.includes(category);
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    AuditEntry,
+    GENESIS_HASH,
+    GovernanceEvent,
+    chainAuditEntry,
+    clearAuditLedger,
+    getAuditLedger,
+    verifyAuditLedger,
+} from './auditLedger';
+import { OverrideScope, clearPolicyOverrides, createPolicyOverride, getAllPolicyOverrides } from '../policy/policyOverride';
+import { fixedClock } from '@/utils/clock';
+import { contentHash } from '@/utils/contentHash';
+
+describe('Audit Ledger', () => {
+    const event = (subjectId: string): GovernanceEvent => ({
+        type: 'STAGED_ACTION_APPROVED',
+        actor: 'reviewer',
+        subjectId,
+        summary: `Approved ${subjectId}`,
+        changes: [{ field: 'state', before: 'STAGED', after: 'APPROVED' }],
+    });
+
+    const chain = (count: number): AuditEntry[] => {
+        const ledger: AuditEntry[] = [];
+        for (let i = 0; i < count; i++) {
+            ledger.push(chainAuditEntry(ledger, event(`staged-${i}`), fixedClock('2025-01-15T09:30:00.000Z')));
+        }
+        return ledger;
+    };
+
+    it('links each entry to the hash of the one before it', () => {
+        const ledger = chain(3);
+        expect(ledger[0].previousHash).toBe(GENESIS_HASH);
+        expect(ledger[2].previousHash).toBe(ledger[1].hash);
+        expect(verifyAuditLedger(ledger)).toEqual({ intact: true, entryCount: 3, headHash: ledger[2].hash, issues: [] });
+    });
+
+    it('reports an edited entry where it was edited', () => {
+        const ledger = chain(3);
+        ledger[1] = { ...ledger[1], justification: 'added later' };
+        const verification = verifyAuditLedger(ledger);
+        expect(verification.intact).toBe(false);
+        expect(verification.issues.map(i => [i.sequence, i.kind])).toEqual([[1, 'HASH_MISMATCH']]);
+    });
+
+    it('reports a rehashed edit at the next entry', () => {
+        const ledger = chain(3);
+        const { hash: _hash, ...edited } = { ...ledger[1], actor: 'someone-else' };
+        ledger[1] = { ...edited, hash: contentHash(edited) };
+        const issues = verifyAuditLedger(ledger).issues;
+        expect(issues.map(i => [i.sequence, i.kind])).toEqual([[2, 'BROKEN_LINK']]);
+    });
+
+    it('reports removed entries', () => {
+        const ledger = chain(3);
+        const issues = verifyAuditLedger([ledger[0], ledger[2]]).issues;
+        expect(issues.map(i => i.kind)).toEqual(['SEQUENCE_GAP', 'BROKEN_LINK']);
+    });
+
+    it('records governance decisions as they are made', () => {
+        clearAuditLedger();
+        const override = createPolicyOverride('policy-1', OverrideScope.DOMAIN, 'Quarter-end freeze on ledger writes', 7);
+        const [entry] = getAuditLedger();
+        expect(entry.type).toBe('POLICY_OVERRIDE_CREATED');
+        expect(entry.subjectId).toBe(override.overrideId);
+        expect(entry.justification).toBe('Quarter-end freeze on ledger writes');
+        expect(verifyAuditLedger(getAuditLedger()).intact).toBe(true);
+        expect(getAllPolicyOverrides().map(o => o.overrideId)).toContain(override.overrideId);
+        clearPolicyOverrides();
+    });
+});
@@ -0,0 +1,243 @@
+import { Clock, systemClock } from '@/utils/clock';
+import { contentHash } from '@/utils/contentHash';
+
+/**
+ * Governance Audit Ledger (Phase 9R)
+ *
+ * Hash-chained record of every human governance decision: approval intents,
+ * staged action approvals and rejections, policy proposal confirmations and
+ * dismissals, overrides, renewals and expiries, constitution imports, plus the
+ * review and expiry transitions the lifecycle scheduler makes when their dates pass.
+ *
+ * Each entry stores the hash of the entry before it, and its own hash covers
+ * its content plus that link. Editing, removing or reordering any entry breaks
+ * every hash after it, which verifyAuditLedger reports.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - APPEND-ONLY: There is no API to edit or remove entries
+ * - TAMPER-EVIDENT, NOT TAMPER-PROOF: Anyone able to rewrite the whole chain can
+ *   recompute it; export the head hash to pin a chain in time
+ * - NO SIDE EFFECTS BEYOND THE LEDGER: Recording an event never changes governance state
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GovernanceEventType =
+    | 'APPROVAL_INTENT_CREATED'
+    | 'STAGED_ACTION_APPROVED'
+    | 'STAGED_ACTION_REJECTED'
+    | 'POLICY_PROPOSAL_CONFIRMED'
+    | 'POLICY_PROPOSAL_DISMISSED'
+    | 'POLICY_OVERRIDE_CREATED'
+    | 'POLICY_RENEWED'
+    | 'POLICY_EXPIRED'
+    | 'POLICY_REVIEW_DUE'               // Phase 9Y: Recorded by the lifecycle scheduler
+    | 'POLICY_OVERRIDE_EXPIRED'         // Phase 9Y: Recorded by the lifecycle scheduler
+    | 'CONSTITUTION_IMPORTED';          // Phase 9D: Structure, personas and policies replaced by an import
+
+export const GOVERNANCE_EVENT_TYPES: readonly GovernanceEventType[] = [
+    'APPROVAL_INTENT_CREATED',
+    'STAGED_ACTION_APPROVED',
+    'STAGED_ACTION_REJECTED',
+    'POLICY_PROPOSAL_CONFIRMED',
+    'POLICY_PROPOSAL_DISMISSED',
+    'POLICY_OVERRIDE_CREATED',
+    'POLICY_RENEWED',
+    'POLICY_EXPIRED',
+    'POLICY_REVIEW_DUE',
+    'POLICY_OVERRIDE_EXPIRED',
+    'CONSTITUTION_IMPORTED',
+];
+
+/**
+ * One field a governance event changed.
+ */
+export interface AuditChange {
+    field: string;
+    before: string | null;              // null when the field did not exist
+    after: string | null;
+}
+
+/**
+ * What happened, as reported by the governance function that did it.
+ */
+export interface GovernanceEvent {
+    type: GovernanceEventType;
+    actor: string;                      // Who decided
+    subjectId: string;                  // Staged action, intent, proposal, policy or override ID
+    summary: string;                    // Human-readable one-liner
+    changes: AuditChange[];
+    justification?: string;             // The human's stated reason, when one is given
+}
+
+export interface AuditEntry extends GovernanceEvent {
+    sequence: number;                   // 0-based position in the chain
+    recordedAt: string;
+    previousHash: string;               // GENESIS_HASH for the first entry
+    hash: string;                       // contentHash of every other field
+}
+
+export type AuditIssueKind = 'HASH_MISMATCH' | 'BROKEN_LINK' | 'SEQUENCE_GAP';
+
+/**
+ * What changed in the active ledger: one entry recorded here, or the whole
+ * ledger replaced (organization switch, or the persisted chain loaded).
+ */
+export type AuditLedgerChange =
+    | { kind: 'RECORDED'; entry: AuditEntry }
+    | { kind: 'REPLACED' };
+
+export type AuditLedgerListener = (change: AuditLedgerChange) => void;
+
+export interface AuditIssue {
+    sequence: number;                   // Position in the ledger as given
+    kind: AuditIssueKind;
+    message: string;
+}
+
+export interface AuditVerification {
+    intact: boolean;
+    entryCount: number;
+    headHash: string;                   // Hash of the last entry (GENESIS_HASH when empty)
+    issues: AuditIssue[];
+}
+
+// ============================================================================
+// CHAIN
+// ============================================================================
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+    return contentHash(entry);
+}
+
+/**
+ * Chain an event onto the given ledger. Returns the new entry; the ledger is not modified.
+ */
+export function chainAuditEntry(
+    ledger: ReadonlyArray<AuditEntry>,
+    event: GovernanceEvent,
+    clock: Clock = systemClock
+): AuditEntry {
+    const previous = ledger[ledger.length - 1];
+    const unhashed: Omit<AuditEntry, 'hash'> = {
+        ...event,
+        changes: event.changes.map(change => ({ ...change })),
+        sequence: previous ? previous.sequence + 1 : 0,
+        recordedAt: clock(),
+        previousHash: previous ? previous.hash : GENESIS_HASH,
+    };
+    return { ...unhashed, hash: hashEntry(unhashed) };
+}
+
+/**
+ * Recompute every hash and link. Reports each entry that does not match,
+ * so a single edit shows up at the edited entry and not just at the end.
+ */
+export function verifyAuditLedger(ledger: ReadonlyArray<AuditEntry>): AuditVerification {
+    const issues: AuditIssue[] = [];
+
+    ledger.forEach((entry, index) => {
+        const { hash, ...unhashed } = entry;
+        if (entry.sequence !== index) {
+            issues.push({
+                sequence: index,
+                kind: 'SEQUENCE_GAP',
+                message: `Entry ${index} is numbered ${entry.sequence}; entries were removed or reordered`,
+            });
+        }
+        const expectedPrevious = index === 0 ? GENESIS_HASH : ledger[index - 1].hash;
+        if (entry.previousHash !== expectedPrevious) {
+            issues.push({
+                sequence: index,
+                kind: 'BROKEN_LINK',
+                message: `Entry ${index} does not link to the entry before it`,
+            });
+        }
+        if (hashEntry(unhashed) !== hash) {
+            issues.push({
+                sequence: index,
+                kind: 'HASH_MISMATCH',
+                message: `Entry ${index} was modified after it was recorded`,
+            });
+        }
+    });
+
+    return {
+        intact: issues.length === 0,
+        entryCount: ledger.length,
+        headHash: ledger.length > 0 ? ledger[ledger.length - 1].hash : GENESIS_HASH,
+        issues,
+    };
+}
+
+// ============================================================================
+// LEDGER STORAGE
+// ============================================================================
+
+/**
+ * In-memory ledger for the active organization.
+ *
+ * Held alongside the learned policy and override stores, and switched with
+ * them by the organization registries.
+ */
+const auditLedgerStore: AuditEntry[] = [];
+
+const listeners = new Set<AuditLedgerListener>();
+
+function notify(change: AuditLedgerChange): void {
+    Array.from(listeners).forEach(listener => listener(change));
+}
+
+/**
+ * Be told about every change to the active ledger.
+ * Returns a function that unsubscribes.
+ */
+export function subscribeToAuditLedger(listener: AuditLedgerListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Append an event to the active ledger. Called by the governance functions
+ * themselves, so no caller can change governance state without a record.
+ */
+export function recordGovernanceEvent(event: GovernanceEvent, clock: Clock = systemClock): AuditEntry {
+    const entry = chainAuditEntry(auditLedgerStore, event, clock);
+    auditLedgerStore.push(entry);
+    notify({ kind: 'RECORDED', entry });
+    return entry;
+}
+
+/**
+ * Get the active ledger, oldest first.
+ *
+ * Returns a frozen copy to prevent mutation of the store.
+ */
+export function getAuditLedger(): ReadonlyArray<AuditEntry> {
+    return Object.freeze([...auditLedgerStore]);
+}
+
+/**
+ * Replace the active ledger with a previously recorded one.
+ * Used when switching organizations, when loading the persisted chain,
+ * and by the API routes only.
+ */
+export function replaceAuditLedger(entries: ReadonlyArray<AuditEntry>): void {
+    auditLedgerStore.length = 0;
+    auditLedgerStore.push(...entries);
+    notify({ kind: 'REPLACED' });
+}
+
+/**
+ * Clear the ledger (for testing/reset only).
+ */
+export function clearAuditLedger(): void {
+    auditLedgerStore.length = 0;
+    notify({ kind: 'REPLACED' });
+}
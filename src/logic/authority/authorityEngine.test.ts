@@ -0,0 +1,215 @@
+import { describe, it, expect } from '@jest/globals';
+import { evaluateAuthority } from './authorityEngine';
+import { deriveAgentAuthority, deriveOrganizationAuthority } from './deriveAuthority';
+import { deriveDoActions } from './deriveDoActions';
+import { deriveRuntimeVerdict } from './deriveRuntimeVerdict';
+import { VerdictContext } from './verdictContext';
+import { DEFAULT_ACTION_CATALOG, bindAgentActions } from '../actions/actionCatalog';
+import { Organization, Domain, Agent } from '@/app/data/types';
+
+describe('Authority Engine', () => {
+    const testOrg: Organization = {
+        id: 'org-001',
+        name: 'Test Organization',
+        status: 'LOCKED',
+        authorityCeiling: 4,
+        globalActions: ['READ', 'WRITE', 'EXECUTE', 'ESCALATE'],
+        escalationBaseline: 'ALWAYS_HUMAN',
+        communicationPosture: 'BALANCED',
+    };
+
+    const testDomain: Domain = {
+        id: 'dom-001',
+        organizationId: 'org-001',
+        name: 'Test Domain',
+        mission: 'Test mission',
+        status: 'READY',
+        authorityCeiling: 3,
+        allowedActionCategories: ['Report Generation', 'Data Reconciliation', 'Ticket Triage', 'Resource Scaling'],
+        scope: 'Test scope',
+        escalationPosture: 'ALWAYS_HUMAN',
+        constraints: [],
+    };
+
+    // Every agent configuration at every autonomy level
+    const agents: Agent[] = [];
+    for (const executionSurface of ['READ', 'WRITE', 'EXECUTE'] as const) {
+        for (const executionType of ['ADVISORY', 'DECISION', 'EXECUTION'] as const) {
+            for (let autonomyLevel = 0; autonomyLevel <= 5; autonomyLevel++) {
+                agents.push({
+                    id: `agt-${executionSurface}-${executionType}-${autonomyLevel}`,
+                    domainId: testDomain.id,
+                    name: 'Test Agent',
+                    role: 'Test Role',
+                    executionType,
+                    autonomyLevel,
+                    executionSurface,
+                    escalationBehavior: 'AUTO',
+                });
+            }
+        }
+    }
+
+    const getState = (evaluation: ReturnType<typeof evaluateAuthority>, actionId: string) =>
+        evaluation.actions.find(a => a.entry.id === actionId)?.state;
+
+    // Bind every other entry so unbound actions are covered too
+    const boundIds = DEFAULT_ACTION_CATALOG.entries.filter((_, i) => i % 2 === 0).map(e => e.id);
+
+    it('should never let the Do actions, verdicts and evaluation disagree', () => {
+        for (const agent of agents) {
+            const catalog = bindAgentActions(DEFAULT_ACTION_CATALOG, agent.id, boundIds);
+            const authority = deriveAgentAuthority(testOrg, testDomain, agent);
+            const evaluation = evaluateAuthority(authority, catalog, { agent, domain: testDomain });
+
+            // Do actions are exactly the bound evaluations
+            const doActions = deriveDoActions(agent, authority, testDomain, testOrg, catalog).actions;
+            const bound = evaluation.actions.filter(a => a.bound);
+            expect(doActions.map(a => a.id)).toEqual(bound.map(a => a.entry.id));
+            bound.forEach((a, i) => expect(doActions[i].state).toBe(a.state));
+
+            // Verdicts match the engine, including for unbound actions
+            for (const action of evaluation.actions) {
+                const doAction = doActions.find(d => d.id === action.entry.id)
+                    ?? { ...action.entry, state: 'ALLOWED' as const, reason: '' };
+                const verdict = deriveRuntimeVerdict(agent, doAction, authority, testDomain, testOrg, catalog);
+                expect(verdict.decision.status).toBe(action.verdict);
+                if (!action.bound) expect(verdict.decision.status).toBe('BLOCKED');
+            }
+        }
+    });
+
+    it('should block categories the domain does not map to', () => {
+        const agent = agents[agents.length - 1];
+        const reportingOnly: Domain = { ...testDomain, allowedActionCategories: ['Report Generation', 'Unknown Label'] };
+        const authority = deriveAgentAuthority(testOrg, reportingOnly, agent);
+        const evaluation = evaluateAuthority(authority, DEFAULT_ACTION_CATALOG, { agent, domain: reportingOnly });
+
+        for (const action of evaluation.actions.filter(a => a.bound)) {
+            const permitted = action.entry.category === 'DATA_ACCESS' || action.entry.category === 'REPORTING';
+            if (!permitted) expect(action.state).toBe('BLOCKED');
+        }
+        expect(evaluation.actions.some(a => a.bound && a.entry.category === 'EXECUTION')).toBe(true);
+    });
+
+    it('should require approval under the escalation posture, unless escalation is off', () => {
+        const agent = agents[agents.length - 1];    // EXECUTE / EXECUTION / autonomy 5
+        const deploy = 'ops_deploy_staging';
+        const catalog = bindAgentActions(DEFAULT_ACTION_CATALOG, agent.id, [deploy, 'generic_escalate']);
+        const verdictFor = (org: Organization) => {
+            const authority = deriveAgentAuthority(org, testDomain, agent);
+            const doAction = deriveDoActions(agent, authority, testDomain, org, catalog).actions[0];
+            return deriveRuntimeVerdict(agent, doAction, authority, testDomain, org, catalog);
+        };
+
+        const relaxed: Domain = { ...testDomain, escalationPosture: 'ALWAYS_AUTO' };
+        const autoOrg: Organization = { ...testOrg, escalationBaseline: 'ALWAYS_AUTO' };
+        const authority = deriveAgentAuthority(autoOrg, relaxed, agent);
+        expect(getState(evaluateAuthority(authority, catalog, { agent, domain: relaxed }), deploy)).toBe('ALLOWED');
+
+        const escalated = verdictFor(testOrg);
+        expect(escalated.decision.status).toBe('ESCALATION_REQUIRED');
+        expect(escalated.reasoning.appliedConstraints).toContainEqual(expect.objectContaining({ source: 'ORGANIZATION' }));
+
+        const noEscalation: Organization = { ...testOrg, globalActions: ['READ', 'WRITE', 'EXECUTE'] };
+        expect(verdictFor(noEscalation).decision.status).toBe('BLOCKED');
+        const withoutEscalate = evaluateAuthority(deriveAgentAuthority(noEscalation, testDomain, agent), catalog, { agent, domain: testDomain });
+        expect(getState(withoutEscalate, 'generic_escalate')).toBe('BLOCKED');
+    });
+
+    it('should block actions above the organization surface cap', () => {
+        const agent = agents[agents.length - 1];
+        const noExecute: Organization = { ...testOrg, globalActions: ['READ', 'WRITE', 'ESCALATE'] };
+        const evaluation = evaluateAuthority(
+            deriveAgentAuthority(noExecute, testDomain, agent),
+            DEFAULT_ACTION_CATALOG,
+            { agent, domain: testDomain }
+        );
+
+        for (const action of evaluation.actions.filter(a => a.entry.requiredSurface === 'EXECUTE')) {
+            expect(action.state).toBe('BLOCKED');
+        }
+    });
+
+    it('should apply domain constraints matching the proposed action and cite them in verdicts', () => {
+        const agent = agents[agents.length - 1];
+        const autoOrg: Organization = { ...testOrg, escalationBaseline: 'ALWAYS_AUTO' };
+        const constrained: Domain = {
+            ...testDomain,
+            escalationPosture: 'ALWAYS_AUTO',
+            constraints: [
+                { id: 'constraint-1', when: { categories: ['DATA_MODIFICATION'], amount: { operator: 'GT', value: 500, currency: 'EUR' } }, effect: { kind: 'REQUIRE_APPROVAL' } },
+                { id: 'constraint-2', when: { targets: ['billing/*'] }, effect: { kind: 'BLOCK' } },
+                { id: 'constraint-3', when: { categories: ['EXECUTION', 'OPERATIONS'], timeWindow: { from: '22:00', to: '06:00' } }, effect: { kind: 'CAP_AUTHORITY', level: 1 } },
+            ],
+        };
+        const authority = deriveAgentAuthority(autoOrg, constrained, agent);
+        const modify = 'finance_match_transactions';
+        const deploy = 'ops_deploy_production';
+        const catalog = bindAgentActions(DEFAULT_ACTION_CATALOG, agent.id, [modify, deploy]);
+        const stateFor = (actionId: string, context: VerdictContext) =>
+            getState(evaluateAuthority(authority, catalog, { agent, domain: constrained, context }), actionId);
+
+        expect(stateFor(modify, {})).toBe('ALLOWED');
+        expect(stateFor(modify, { amount: { value: 400, currency: 'EUR' } })).toBe('ALLOWED');
+        expect(stateFor(modify, { amount: { value: 900, currency: 'USD' } })).toBe('ALLOWED');
+        expect(stateFor(modify, { amount: { value: 900, currency: 'EUR' } })).toBe('RESTRICTED');
+        expect(stateFor(modify, { targetResource: 'billing/invoices' })).toBe('BLOCKED');
+
+        // The window wraps past midnight (UTC)
+        expect(stateFor(deploy, { timeOfDay: '12:00' })).toBe('ALLOWED');
+        expect(stateFor(deploy, { timeOfDay: '23:30' })).toBe('BLOCKED');
+        expect(stateFor(deploy, { timeOfDay: '05:59' })).toBe('BLOCKED');
+
+        const doAction = deriveDoActions(agent, authority, constrained, autoOrg, catalog).actions[0];
+        const context: VerdictContext = { amount: { value: 900, currency: 'EUR' }, timeOfDay: '12:00' };
+        const verdict = deriveRuntimeVerdict(agent, doAction, authority, constrained, autoOrg, catalog, context);
+        expect(verdict.decision.status).toBe('ESCALATION_REQUIRED');
+        expect(verdict.reasoning.appliedConstraints).toContainEqual({
+            source: 'DOMAIN',
+            description: 'Domain constraint constraint-1: DATA_MODIFICATION actions with amount > 500 EUR require approval.',
+        });
+        expect(verdict.escalation?.reason).toContain('constraint-1');
+        expect(verdict.context).toEqual(context);
+    });
+
+    it('should branch on counterparty, data classification and attributes', () => {
+        const agent = agents[agents.length - 1];
+        const autoOrg: Organization = { ...testOrg, escalationBaseline: 'ALWAYS_AUTO' };
+        const constrained: Domain = {
+            ...testDomain,
+            escalationPosture: 'ALWAYS_AUTO',
+            constraints: [
+                { id: 'constraint-1', when: { counterparties: ['vendor:*'], minClassification: 'CONFIDENTIAL' }, effect: { kind: 'BLOCK' } },
+                { id: 'constraint-2', when: { attributes: { refund: true } }, effect: { kind: 'REQUIRE_APPROVAL' } },
+            ],
+        };
+        const authority = deriveAgentAuthority(autoOrg, constrained, agent);
+        const catalog = bindAgentActions(DEFAULT_ACTION_CATALOG, agent.id, ['support_reply_inquiry']);
+        const stateFor = (context: VerdictContext) =>
+            getState(evaluateAuthority(authority, catalog, { agent, domain: constrained, context }), 'support_reply_inquiry');
+
+        expect(stateFor({ counterparty: 'vendor:acme', dataClassification: 'INTERNAL' })).toBe('ALLOWED');
+        expect(stateFor({ counterparty: 'vendor:acme', dataClassification: 'RESTRICTED' })).toBe('BLOCKED');
+        expect(stateFor({ counterparty: 'customer:4471', dataClassification: 'RESTRICTED' })).toBe('ALLOWED');
+        expect(stateFor({ attributes: { refund: true } })).toBe('RESTRICTED');
+        expect(stateFor({ attributes: { refund: 'true' } })).toBe('ALLOWED');
+
+        // Without a time of day, the verdict records when it was evaluated
+        const doAction = deriveDoActions(agent, authority, constrained, autoOrg, catalog).actions[0];
+        const verdict = deriveRuntimeVerdict(agent, doAction, authority, constrained, autoOrg, catalog, { counterparty: 'customer:4471' });
+        expect(verdict.context.counterparty).toBe('customer:4471');
+        expect(verdict.context.timeOfDay).toBe(verdict.evaluatedAt.slice(11, 16));
+    });
+
+    it('should only apply the authority check to an unrestricted organization ceiling', () => {
+        const authority = deriveOrganizationAuthority({ ...testOrg, escalationBaseline: 'ALWAYS_AUTO' });
+        const evaluation = evaluateAuthority(authority, DEFAULT_ACTION_CATALOG);
+
+        expect(evaluation.agent).toBeNull();
+        for (const action of evaluation.actions) {
+            expect(action.bound).toBe(true);
+            expect(action.state === 'ALLOWED').toBe(action.entry.requiredAuthority <= authority.effectiveAuthorityLevel);
+        }
+    });
+});
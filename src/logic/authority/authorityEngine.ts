@@ -0,0 +1,436 @@
+import { Agent, Domain } from '@/app/data/types';
+import { AuthorityResult } from './deriveAuthority';
+import type { DoActionCategory, DoActionState } from './deriveDoActions';
+import { ActionCatalog, ActionCatalogEntry, ActionSurface, resolveAgentActions } from '../actions/actionCatalog';
+import { resolveDomainActionCategories } from '../actions/categoryTaxonomy';
+import { DomainConstraint, findMatchingConstraints, formatConstraint } from '../constraints/domainConstraints';
+import { VerdictContext } from './verdictContext';
+import { LearnedPolicy, policyMatchesAction } from '../policy/learnedPolicy';
+import { APPROVAL_POLICY_TYPES, policyCoversSubject } from '../policy/policyApplication';
+import { PersonaIdentity } from '../persona/personaIdentity';
+import { EthicalEvaluationResult, EthicalVerdict, evaluateActionEthics } from '../persona/ethicalEvaluation';
+
+/**
+ * Authority Engine (Phase 9I)
+ *
+ * The one evaluation pipeline for "may this subject attempt this action".
+ * Every catalog entry is evaluated once per subject. The Do action list,
+ * runtime verdicts, staging and the Inspector's Runtime Authority section
+ * are all projections of that evaluation.
+ *
+ * Evaluation order for an agent (first failing check decides):
+ * 1. Catalog binding
+ * 2. Ethical veto (Phase 9T): the agent's persona identity, when it has one,
+ *    must not forbid the action in its context. A veto cannot be approved
+ * 3. Domain action categories (Phase 9J, through the category taxonomy): every
+ *    domain in the chain must allow the category
+ * 4. Execution surface, capped by the organization's action toggles (Phase 9K)
+ * 5. Execution type
+ * 6. Domain constraints (Phase 9L) of every domain in the chain: BLOCK decides here
+ * 7. Effective authority level, lowered by CAP_AUTHORITY constraints and
+ *    REDUCE_AUTHORITY_LEVEL learned policies (one level short = RESTRICTED)
+ * 8. REQUIRE_APPROVAL domain constraints
+ * 9. Approval-requiring learned policies (Phase 9U)
+ * 10. Escalation posture (Phase 9K): sensitive actions become RESTRICTED
+ *
+ * RESTRICTED actions need approval; when the organization turns off ESCALATE
+ * they cannot be approved and are BLOCKED instead.
+ *
+ * Organizations and domains have no execution configuration or persona, so
+ * step 4 only applies the organization's cap to them and steps 2 and 5 are skipped.
+ *
+ * Learned policies only take part when the caller passes them (policyApplication.ts).
+ *
+ * CRITICAL CONSTRAINTS:
+ * - PURE: Same authority, catalog and subject → same evaluation
+ * - CANONICAL: Views project this evaluation and never re-derive permission
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VerdictStatus = 'ALLOWED' | 'BLOCKED' | 'ESCALATION_REQUIRED';
+
+export type VerdictActionCategory = 'READ' | 'WRITE' | 'DECIDE' | 'EXECUTE' | 'ESCALATE';
+
+/**
+ * Why an action needs approval: it is one authority level short, the
+ * escalation posture requires a human for it (Phase 9K), a domain
+ * constraint requires approval (Phase 9L), or a learned policy does (Phase 9U).
+ */
+export type EscalationCause = 'AUTHORITY' | 'POSTURE' | 'CONSTRAINT' | 'POLICY';
+
+export interface ActionEvaluation {
+    entry: ActionCatalogEntry;
+    bound: boolean;             // Bound to the subject in the catalog (always true without an agent)
+    state: DoActionState;
+    verdict: VerdictStatus;     // Projection of state used by every verdict view
+    reason: string;
+    escalation: EscalationCause | null;     // Set when the verdict is ESCALATION_REQUIRED
+    constraints: DomainConstraint[];        // Phase 9L: Domain constraints matching the action
+    policies: LearnedPolicy[];              // Phase 9U: Learned policies matching the action
+    violatedCommitments: string[];          // Phase 9T: Persona commitments the action violates (ethical veto)
+}
+
+/**
+ * What is being evaluated. Omit the agent for an organization or domain ceiling;
+ * omit the domain for an organization.
+ */
+export interface EvaluationSubject {
+    agent?: Agent;
+    domain?: Domain;            // The agent's own domain when an agent is given
+    ancestors?: Domain[];       // Phase 9F: Domains enclosing domain, outermost first (see getDomainAncestors)
+    context?: VerdictContext;   // Phase 9M: The proposed action, matched against domain constraints
+    policies?: ReadonlyArray<LearnedPolicy>;    // Phase 9U: Policies in force (see policiesInForce); omit to apply none
+    persona?: PersonaIdentity | null;           // Phase 9T: The agent's persona identity; omit when it has none
+}
+
+export interface AuthorityEvaluation {
+    authority: AuthorityResult;
+    agent: Agent | null;        // null when evaluating an organization or domain ceiling
+    // Bound entries in binding order, then unbound entries in catalog order
+    actions: ActionEvaluation[];
+}
+
+// ============================================================================
+// TAXONOMY PROJECTION
+// ============================================================================
+
+/**
+ * How each Do action category appears in verdicts.
+ */
+export const CATEGORY_PROJECTION: Record<DoActionCategory, { verdict: VerdictActionCategory }> = {
+    DATA_ACCESS: { verdict: 'READ' },
+    DATA_MODIFICATION: { verdict: 'WRITE' },
+    REPORTING: { verdict: 'WRITE' },        // Reports are a form of data output
+    DECISION_MAKING: { verdict: 'DECIDE' },
+    EXECUTION: { verdict: 'EXECUTE' },
+    OPERATIONS: { verdict: 'EXECUTE' },
+    ESCALATION: { verdict: 'ESCALATE' },
+};
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate every catalog entry for a subject.
+ */
+export function evaluateAuthority(
+    authority: AuthorityResult,
+    catalog: ActionCatalog,
+    subject: EvaluationSubject = {}
+): AuthorityEvaluation {
+    const { agent, domain, context } = subject;
+    // Phase 9F: Enclosing domains limit their sub-domains' agents too
+    const chain = domain ? [...(subject.ancestors ?? []), domain] : [];
+    const categoryLimits = chain.map(d => ({
+        allowed: resolveDomainActionCategories(d).allowed,
+        label: d === domain ? 'This domain' : `Enclosing domain "${d.name}"`,
+    }));
+    const subjectPolicies = (subject.policies ?? []).filter(p => policyCoversSubject(p, agent ?? null, domain ?? null, subject.ancestors));
+    const persona = agent ? subject.persona ?? null : null;
+    const evaluate = (entry: ActionCatalogEntry, bound: boolean) => evaluateEntry(
+        entry,
+        authority,
+        agent ?? null,
+        categoryLimits,
+        chain.flatMap(d => findMatchingConstraints(d, entry.category, context)),
+        subjectPolicies.filter(p => policyMatchesAction(p, entry.id, entry.category, context ?? {})),
+        persona ? evaluateActionEthics(persona, entry, context) : null,
+        bound
+    );
+
+    if (!agent) {
+        return {
+            authority,
+            agent: null,
+            actions: catalog.entries.map(entry => evaluate(entry, true)),
+        };
+    }
+
+    const bound = resolveAgentActions(catalog, agent);
+    const boundIds = new Set(bound.map(entry => entry.id));
+    const unbound = catalog.entries.filter(entry => !boundIds.has(entry.id));
+
+    return {
+        authority,
+        agent,
+        actions: [
+            ...bound.map(entry => evaluate(entry, true)),
+            ...unbound.map(entry => evaluate(entry, false)),
+        ],
+    };
+}
+
+export function getActionEvaluation(evaluation: AuthorityEvaluation, actionId: string): ActionEvaluation | null {
+    return evaluation.actions.find(a => a.entry.id === actionId) ?? null;
+}
+
+/**
+ * Verdict status for an evaluated state. RESTRICTED actions need approval.
+ */
+export function projectVerdictStatus(state: DoActionState): VerdictStatus {
+    if (state === 'ALLOWED') return 'ALLOWED';
+    if (state === 'RESTRICTED') return 'ESCALATION_REQUIRED';
+    return 'BLOCKED';
+}
+
+function evaluateEntry(
+    entry: ActionCatalogEntry,
+    authority: AuthorityResult,
+    agent: Agent | null,
+    categoryLimits: Array<{ allowed: DoActionCategory[]; label: string }>,
+    constraints: DomainConstraint[],
+    policies: LearnedPolicy[],
+    ethics: EthicalEvaluationResult | null,
+    bound: boolean
+): ActionEvaluation {
+    const result = (state: DoActionState, reason: string, escalation: EscalationCause | null = null): ActionEvaluation => ({
+        entry,
+        bound,
+        state,
+        verdict: projectVerdictStatus(state),
+        reason,
+        escalation,
+        constraints,
+        policies,
+        violatedCommitments: ethics?.violatedCommitments ?? [],
+    });
+
+    // Approval is only possible when the organization permits escalation
+    const needsApproval = (reason: string, cause: EscalationCause): ActionEvaluation =>
+        authority.escalationEnabled
+            ? result('RESTRICTED', reason, cause)
+            : result('BLOCKED', `${reason} This organization does not permit escalation, so it cannot be approved.`);
+
+    if (!bound) {
+        return result('BLOCKED', 'This action is not bound to this agent in the action catalog.');
+    }
+
+    // Phase 9T: Ethics before authority; neither approval nor escalation can lift a veto
+    if (ethics?.verdict === EthicalVerdict.ETHICS_BLOCKED) {
+        return result('BLOCKED', ethics.explanation);
+    }
+
+    // Phase 9J: Labels that are not in the taxonomy grant nothing
+    const categoryLimit = categoryLimits.find(limit => !limit.allowed.includes(entry.category));
+    if (categoryLimit) {
+        return result('BLOCKED', `${categoryLimit.label} does not permit ${entry.category} actions.`);
+    }
+
+    // Phase 9K: Escalating is itself an action the organization can turn off
+    if (entry.category === 'ESCALATION' && !authority.escalationEnabled) {
+        return result('BLOCKED', 'This organization does not permit escalation actions.');
+    }
+
+    const surfaceCheck = checkExecutionSurface(
+        entry.requiredSurface,
+        authority.effectiveExecutionSurface,
+        agent?.executionSurface ?? null
+    );
+    if (!surfaceCheck.allowed) return result('BLOCKED', surfaceCheck.reason);
+
+    if (agent) {
+        const typeCheck = checkExecutionType(entry.category, agent.executionType);
+        if (!typeCheck.allowed) return result('BLOCKED', typeCheck.reason);
+    }
+
+    // Phase 9L: Domain constraints matching the proposed action
+    const blocking = constraints.find(c => c.effect.kind === 'BLOCK');
+    if (blocking) {
+        return result('BLOCKED', `Domain constraint: ${formatConstraint(blocking)}.`);
+    }
+
+    const cap = lowestAuthorityCap(constraints);
+    let authorityCheck = cap && cap.level < authority.effectiveAuthorityLevel
+        ? checkAuthorityLevel(entry.requiredAuthority, cap.level, `Domain constraint: ${formatConstraint(cap.constraint)}.`)
+        : checkAuthorityLevel(entry.requiredAuthority, authority.effectiveAuthorityLevel);
+
+    // Phase 9U: A learned policy lowers the (possibly capped) level by one more
+    const reducing = policies.find(p => p.constraint.type === 'REDUCE_AUTHORITY_LEVEL');
+    if (reducing && authorityCheck.allowed) {
+        const level = Math.min(cap?.level ?? authority.effectiveAuthorityLevel, authority.effectiveAuthorityLevel) - 1;
+        authorityCheck = checkAuthorityLevel(
+            entry.requiredAuthority,
+            level,
+            `Learned policy ${reducing.policyId}: ${reducing.constraint.description}.`
+        );
+    }
+    if (!authorityCheck.allowed) {
+        return authorityCheck.restricted
+            ? needsApproval(authorityCheck.reason, 'AUTHORITY')
+            : result('BLOCKED', authorityCheck.reason);
+    }
+
+    const approval = constraints.find(c => c.effect.kind === 'REQUIRE_APPROVAL');
+    if (approval) {
+        return needsApproval(`Domain constraint: ${formatConstraint(approval)}.`, 'CONSTRAINT');
+    }
+
+    const policyApproval = policies.find(p => APPROVAL_POLICY_TYPES.includes(p.constraint.type));
+    if (policyApproval) {
+        return needsApproval(`Learned policy ${policyApproval.policyId}: ${policyApproval.constraint.description}.`, 'POLICY');
+    }
+
+    if (requiresHumanApproval(entry, authority)) {
+        return needsApproval(
+            authority.escalationPosture === 'ALWAYS_HUMAN'
+                ? 'Human approval is required for every action that changes something.'
+                : 'Human approval is required for sensitive actions.',
+            'POSTURE'
+        );
+    }
+
+    return result(
+        'ALLOWED',
+        agent
+            ? 'This agent is permitted to perform this action.'
+            : 'The authority ceiling permits this action.'
+    );
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Check if the effective execution surface supports the required surface.
+ * configured is the agent's own surface, used to tell organization caps apart.
+ */
+function checkExecutionSurface(
+    required: ActionSurface,
+    effective: ActionSurface | null,
+    configured: ActionSurface | null
+): { allowed: boolean; reason: string } {
+    const surfaceHierarchy = { READ: 1, WRITE: 2, EXECUTE: 3 };
+
+    if (effective !== null && surfaceHierarchy[effective] >= surfaceHierarchy[required]) {
+        return { allowed: true, reason: '' };
+    }
+
+    // Phase 9K: The organization's toggles, not the agent, rule this out
+    if (effective === null || configured === null || surfaceHierarchy[configured] >= surfaceHierarchy[required]) {
+        return {
+            allowed: false,
+            reason: `This organization does not permit ${required} actions.`,
+        };
+    }
+
+    if (required === 'WRITE' && configured === 'READ') {
+        return {
+            allowed: false,
+            reason: 'This agent is restricted to reading information.',
+        };
+    }
+
+    if (required === 'EXECUTE' && configured !== 'EXECUTE') {
+        return {
+            allowed: false,
+            reason: 'This agent is not configured to execute actions.',
+        };
+    }
+
+    return {
+        allowed: false,
+        reason: 'This action requires a higher execution surface than this agent has.',
+    };
+}
+
+/**
+ * Check if agent's execution type supports the action category
+ */
+function checkExecutionType(
+    category: DoActionCategory,
+    executionType: Agent['executionType']
+): { allowed: boolean; reason: string } {
+    // ADVISORY agents can only read/report
+    if (executionType === 'ADVISORY') {
+        if (category === 'DATA_ACCESS' || category === 'REPORTING') {
+            return { allowed: true, reason: '' };
+        }
+        return {
+            allowed: false,
+            reason: 'This agent provides recommendations and cannot take direct actions.',
+        };
+    }
+
+    // DECISION agents cannot execute
+    if (executionType === 'DECISION') {
+        if (category === 'EXECUTION' || category === 'OPERATIONS') {
+            return {
+                allowed: false,
+                reason: 'This agent can decide what should happen but cannot execute decisions.',
+            };
+        }
+        return { allowed: true, reason: '' };
+    }
+
+    // EXECUTION agents can do everything
+    return { allowed: true, reason: '' };
+}
+
+/**
+ * Whether the escalation posture requires a human for an otherwise allowed action.
+ * Sensitive actions execute, or modify at the very limit of the subject's authority.
+ * Escalating to a human never needs approval itself.
+ */
+function requiresHumanApproval(entry: ActionCatalogEntry, authority: AuthorityResult): boolean {
+    if (entry.category === 'ESCALATION' || entry.requiredSurface === 'READ') return false;
+
+    switch (authority.escalationPosture) {
+        case 'ALWAYS_HUMAN':
+            return true;
+        case 'HUMAN_SENSITIVE':
+            return entry.requiredSurface === 'EXECUTE' || entry.requiredAuthority >= authority.effectiveAuthorityLevel;
+        default:
+            return false;
+    }
+}
+
+/**
+ * The strictest CAP_AUTHORITY effect among matching constraints.
+ */
+function lowestAuthorityCap(constraints: DomainConstraint[]): { level: number; constraint: DomainConstraint } | null {
+    let lowest: { level: number; constraint: DomainConstraint } | null = null;
+    for (const constraint of constraints) {
+        if (constraint.effect.kind !== 'CAP_AUTHORITY') continue;
+        if (!lowest || constraint.effect.level < lowest.level) {
+            lowest = { level: constraint.effect.level, constraint };
+        }
+    }
+    return lowest;
+}
+
+/**
+ * Check if the effective authority level meets the required level.
+ * cappedBy explains where a lowered effective level came from (Phase 9L).
+ */
+function checkAuthorityLevel(
+    required: number,
+    effective: number,
+    cappedBy?: string
+): { allowed: boolean; restricted: boolean; reason: string } {
+    if (effective >= required) {
+        return { allowed: true, restricted: false, reason: '' };
+    }
+
+    const cause = cappedBy ? ` ${cappedBy}` : '';
+
+    // Close to required - restricted
+    if (effective === required - 1) {
+        return {
+            allowed: false,
+            restricted: true,
+            reason: `This action requires higher authority than is currently available (needs ${required}, has ${effective}).${cause}`,
+        };
+    }
+
+    // Far from required - blocked
+    return {
+        allowed: false,
+        restricted: false,
+        reason: `This action requires authority level ${required}, but effective authority is ${effective}.${cause}`,
+    };
+}
@@ -13,7 +13,8 @@ describe('Authority Derivation Engine', () => {
         name: 'Test Organization',
         status: 'LOCKED',
         authorityCeiling: 3,
-        escalationDefault: 'HUMAN',
+        globalActions: ['READ', 'WRITE', 'EXECUTE', 'ESCALATE'],
+        escalationBaseline: 'ALWAYS_HUMAN',
         communicationPosture: 'BALANCED',
     };
 
@@ -25,6 +26,9 @@ describe('Authority Derivation Engine', () => {
         status: 'READY',
         authorityCeiling: 2,
         allowedActionCategories: ['Test'],
+        scope: 'Test scope',
+        escalationPosture: 'ALWAYS_HUMAN',
+        constraints: [],
     };
 
     const testAgent: Agent = {
@@ -216,4 +220,87 @@ describe('Authority Derivation Engine', () => {
             expect(result.authoritySourcePath[2].name).toBe('Test Agent');
         });
     });
+
+    describe('Nested sub-domains (Phase 9F)', () => {
+        const parentDomain: Domain = {
+            ...testDomain,
+            id: 'dom-parent',
+            name: 'Parent Domain',
+            authorityCeiling: 3,
+        };
+        const childDomain: Domain = {
+            ...testDomain,
+            id: 'dom-child',
+            name: 'Child Domain',
+            authorityCeiling: 2,
+            parentDomainId: 'dom-parent',
+        };
+        const grandchildDomain: Domain = {
+            ...testDomain,
+            id: 'dom-grandchild',
+            name: 'Grandchild Domain',
+            authorityCeiling: 3,
+            parentDomainId: 'dom-child',
+        };
+
+        it('should take the minimum over the whole ancestor chain', () => {
+            const result = deriveDomainAuthority(testOrg, grandchildDomain, [parentDomain, childDomain]);
+
+            // Grandchild asks for 3 but the child caps the chain at 2
+            expect(result.effectiveAuthorityLevel).toBe(2);
+        });
+
+        it('should list every level in the source path and reasoning', () => {
+            const agent: Agent = { ...testAgent, domainId: 'dom-grandchild', autonomyLevel: 3 };
+            const result = deriveAgentAuthority(testOrg, grandchildDomain, agent, [parentDomain, childDomain]);
+
+            expect(result.authoritySourcePath.map(entry => entry.level)).toEqual([
+                'ORGANIZATION', 'DOMAIN', 'SUB_DOMAIN', 'SUB_DOMAIN', 'AGENT',
+            ]);
+            expect(result.reasoning.map(step => step.level)).toEqual([
+                'ORGANIZATION', 'ORGANIZATION', 'ORGANIZATION',   // Ceiling, global actions, escalation baseline
+                'DOMAIN', 'SUB_DOMAIN', 'SUB_DOMAIN',             // Ceilings
+                'DOMAIN', 'SUB_DOMAIN', 'SUB_DOMAIN',             // Escalation postures
+                'AGENT',
+            ]);
+            expect(result.reasoning[4].impact).toBe('RESTRICT');
+            expect(result.effectiveAuthorityLevel).toBe(2);
+        });
+    });
+
+    describe('Organization actions and escalation (Phase 9K)', () => {
+        const executeAgent: Agent = { ...testAgent, executionSurface: 'EXECUTE' };
+
+        it('should cap the execution surface with the organization toggles', () => {
+            const noExecute: Organization = { ...testOrg, globalActions: ['READ', 'WRITE', 'ESCALATE'] };
+            const noWrite: Organization = { ...testOrg, globalActions: ['READ', 'EXECUTE', 'ESCALATE'] };
+
+            expect(deriveAgentAuthority(testOrg, testDomain, executeAgent).effectiveExecutionSurface).toBe('EXECUTE');
+            expect(deriveAgentAuthority(noExecute, testDomain, executeAgent).effectiveExecutionSurface).toBe('WRITE');
+            // Surfaces are cumulative: without WRITE, EXECUTE is unreachable
+            expect(deriveAgentAuthority(noWrite, testDomain, executeAgent).effectiveExecutionSurface).toBe('READ');
+
+            const reasoning = deriveAgentAuthority(noExecute, testDomain, executeAgent).reasoning;
+            expect(reasoning).toContainEqual(expect.objectContaining({
+                level: 'ORGANIZATION',
+                rule: 'Organization global actions = READ, WRITE, ESCALATE',
+                impact: 'RESTRICT',
+            }));
+        });
+
+        it('should take the strictest escalation posture along the chain', () => {
+            const autoOrg: Organization = { ...testOrg, escalationBaseline: 'ALWAYS_AUTO' };
+            const sensitiveDomain: Domain = { ...testDomain, escalationPosture: 'HUMAN_SENSITIVE' };
+            const autoDomain: Domain = { ...testDomain, escalationPosture: 'ALWAYS_AUTO' };
+
+            const stricterDomain = deriveAgentAuthority(autoOrg, sensitiveDomain, testAgent);
+            expect(stricterDomain.escalationPosture).toBe('HUMAN_SENSITIVE');
+            expect(stricterDomain.escalationPostureSource).toBe('DOMAIN');
+
+            // A domain can never escalate less often than the organization
+            const laxerDomain = deriveAgentAuthority(testOrg, autoDomain, testAgent);
+            expect(laxerDomain.escalationPosture).toBe('ALWAYS_HUMAN');
+            expect(laxerDomain.escalationPostureSource).toBe('ORGANIZATION');
+        });
+    });
 });
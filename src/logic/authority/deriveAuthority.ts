@@ -11,90 +11,178 @@ import { Organization, Domain, Agent } from '@/app/data/types';
 // TYPES
 // ============================================================================
 
+// Phase 9F: SUB_DOMAIN covers every domain nested below a top-level domain
+export type AuthorityLevel = 'ORGANIZATION' | 'DOMAIN' | 'SUB_DOMAIN' | 'AGENT';
+
 export interface AuthoritySourcePathEntry {
-    level: 'ORGANIZATION' | 'DOMAIN' | 'AGENT';
+    level: AuthorityLevel;
     name: string;
     ceiling: number;
 }
 
 export interface AuthorityReasonStep {
-    level: 'ORGANIZATION' | 'DOMAIN' | 'AGENT';
+    level: AuthorityLevel;
     rule: string;
     impact: 'ALLOW' | 'RESTRICT';
     detail: string;
 }
 
-export interface DoAction {
-    actionName: string;
-    verdict: 'ALLOWED' | 'BLOCKED' | 'ESCALATION_REQUIRED';
-    reasons: string[];
-}
+export type ExecutionSurface = Agent['executionSurface'];
+
+export type EscalationPosture = Organization['escalationBaseline'];
 
 export interface AuthorityResult {
     effectiveAuthorityLevel: number;
     authoritySourcePath: AuthoritySourcePathEntry[];
     blockedActions: string[];
     reasoning: AuthorityReasonStep[];  // T5: Explanation layer
-    doActions: DoAction[]; // Runtime list of specific actions and verdicts
+    // Phase 9I: Per-action verdicts come from the authority engine (authorityEngine.ts)
+
+    // Phase 9K: Organization action toggles and escalation posture
+    effectiveExecutionSurface: ExecutionSurface | null;    // Highest surface in force (null = none)
+    escalationEnabled: boolean;                             // Organization allows ESCALATE
+    escalationPosture: EscalationPosture;                   // Strictest posture along the chain
+    escalationPostureSource: 'ORGANIZATION' | 'DOMAIN';
 }
 
 // ============================================================================
-// HELPER: CALCULATE DO ACTIONS
+// HELPER: ORGANIZATION ACTIONS AND ESCALATION (PHASE 9K)
 // ============================================================================
 
-function calculateDoActions(effectiveLevel: number, source: 'ORG' | 'DOMAIN' | 'AGENT', blockedReasons: string[] = []): DoAction[] {
-    // Define standard Actions and their required authority thresholds
-    const standardActions = [
-        { name: 'Speak / Reply', minLevel: 0 },
-        { name: 'Search Knowledge', minLevel: 0 },
-        { name: 'Propose Plan', minLevel: 1 },
-        { name: 'Execute Read-Only', minLevel: 1 },
-        { name: 'Execute Transaction', minLevel: 2 },
-        { name: 'Modify System Config', minLevel: 3 }
-    ];
+const SURFACE_ORDER: ExecutionSurface[] = ['READ', 'WRITE', 'EXECUTE'];
 
-    return standardActions.map(action => {
-        let verdict: 'ALLOWED' | 'BLOCKED' | 'ESCALATION_REQUIRED' = 'ALLOWED';
-        const reasons: string[] = [];
+const POSTURE_STRICTNESS: Record<EscalationPosture, number> = {
+    ALWAYS_AUTO: 0,
+    HUMAN_SENSITIVE: 1,
+    ALWAYS_HUMAN: 2,
+};
 
-        // 1. Check Authority Level
-        if (effectiveLevel < action.minLevel) {
-            verdict = 'BLOCKED';
-            reasons.push(`Effective Authority Level (${effectiveLevel}) is below required (${action.minLevel}).`);
-        }
+/**
+ * Highest execution surface the organization's toggles allow.
+ * Surfaces are cumulative, so a missing WRITE also rules out EXECUTE.
+ */
+export function getOrganizationSurfaceCap(org: Organization): ExecutionSurface | null {
+    let cap: ExecutionSurface | null = null;
+    for (const surface of SURFACE_ORDER) {
+        if (!org.globalActions.includes(surface)) break;
+        cap = surface;
+    }
+    return cap;
+}
 
-        // 2. Check Explicit Blocked Reasons (from higher levels)
-        if (blockedReasons.length > 0) {
-            // For simplicity in Phase A, we assume general blocks apply to high-risk actions
-            // or we just list them as context constraints.
-            // If we had specific action-based blocks, we'd check them here.
+/**
+ * Lower of two surfaces (null = no surface).
+ */
+export function capExecutionSurface(surface: ExecutionSurface | null, cap: ExecutionSurface | null): ExecutionSurface | null {
+    if (surface === null || cap === null) return null;
+    return SURFACE_ORDER.indexOf(surface) <= SURFACE_ORDER.indexOf(cap) ? surface : cap;
+}
 
-            // If broadly blocked (e.g. READ-only surface), block WRITE actions
-            const isWriteObject = action.name.includes('Transaction') || action.name.includes('Modify');
-            const readOnlyBlock = blockedReasons.some(r => r.includes('READ-only'));
+export function isStricterPosture(candidate: EscalationPosture, current: EscalationPosture): boolean {
+    return POSTURE_STRICTNESS[candidate] > POSTURE_STRICTNESS[current];
+}
 
-            if (isWriteObject && readOnlyBlock) {
-                verdict = 'BLOCKED';
-                reasons.push('Blocked by READ-only constraint.');
-            }
+/**
+ * Strictest escalation posture over the organization baseline and the domain chain.
+ * Domains may escalate more often than the organization, never less.
+ */
+function resolveEscalationPosture(org: Organization, chain: Domain[]): Pick<AuthorityResult, 'escalationPosture' | 'escalationPostureSource'> {
+    let escalationPosture = org.escalationBaseline;
+    let escalationPostureSource: AuthorityResult['escalationPostureSource'] = 'ORGANIZATION';
+
+    for (const domain of chain) {
+        if (isStricterPosture(domain.escalationPosture, escalationPosture)) {
+            escalationPosture = domain.escalationPosture;
+            escalationPostureSource = 'DOMAIN';
         }
+    }
 
-        // 3. Escalation Logic (Mock for Phase A)
-        // If it's allowed but borderline, or if specific flags exist, require escalation.
-        // For now, let's say Level 2 actions require escalation if we are strictly level 2 (cautious).
-        if (verdict === 'ALLOWED' && action.minLevel === effectiveLevel && action.minLevel >= 2) {
-            verdict = 'ESCALATION_REQUIRED';
-            reasons.push('High-stakes action requires confirmation at this authority level.');
-        }
+    return { escalationPosture, escalationPostureSource };
+}
 
-        return {
-            actionName: action.name,
-            verdict,
-            reasons: reasons.length > 0 ? reasons : ['Allowed by sufficient authority.']
-        };
-    });
+/**
+ * Reasoning steps for the organization's action toggles and escalation baseline.
+ */
+function describeOrganizationPolicy(org: Organization): AuthorityReasonStep[] {
+    const cap = getOrganizationSurfaceCap(org);
+    const disabled = ['READ', 'WRITE', 'EXECUTE', 'ESCALATE'].filter(a => !org.globalActions.includes(a));
+
+    const actionsStep: AuthorityReasonStep = {
+        level: 'ORGANIZATION',
+        rule: `Organization global actions = ${org.globalActions.length > 0 ? org.globalActions.join(', ') : 'none'}`,
+        impact: disabled.length > 0 ? 'RESTRICT' : 'ALLOW',
+        detail: disabled.length === 0
+            ? `This organization permits every kind of action.`
+            : cap === null
+                ? `This organization does not permit any actions.`
+                : `This organization has turned off ${disabled.join(', ')} actions, so no agent can act beyond ${cap}.`,
+    };
+
+    const baselineStep: AuthorityReasonStep = {
+        level: 'ORGANIZATION',
+        rule: `Organization escalation baseline = ${org.escalationBaseline}`,
+        impact: org.escalationBaseline === 'ALWAYS_AUTO' ? 'ALLOW' : 'RESTRICT',
+        detail: describePosture(org.escalationBaseline, 'This organization'),
+    };
+
+    return [actionsStep, baselineStep];
+}
+
+function describePosture(posture: EscalationPosture, subject: string): string {
+    if (posture === 'ALWAYS_HUMAN') return `${subject} requires human approval for every action that changes something.`;
+    if (posture === 'HUMAN_SENSITIVE') return `${subject} requires human approval for sensitive actions.`;
+    return `${subject} allows automatic handling within its limits.`;
+}
+
+function describeOrganizationBlocks(org: Organization): string[] {
+    const blocked: string[] = [];
+    const cap = getOrganizationSurfaceCap(org);
+    if (cap === null) {
+        blocked.push('Blocked: Organization does not permit READ actions');
+    } else if (cap !== 'EXECUTE') {
+        blocked.push(`Blocked: Organization global actions cap execution at ${cap}`);
+    }
+    if (!org.globalActions.includes('ESCALATE')) {
+        blocked.push('Blocked: Organization does not permit escalation (actions needing approval are blocked)');
+    }
+    return blocked;
+}
+
+// ============================================================================
+// HELPER: DOMAIN CHAIN (PHASE 9F)
+// ============================================================================
+
+interface DomainChainLink {
+    domain: Domain;
+    level: 'DOMAIN' | 'SUB_DOMAIN';
+    parentName: string;
+    parentLimit: number;    // Effective authority inherited from everything above this domain
+    restricts: boolean;     // Ceiling is below the inherited limit
 }
 
+/**
+ * Walk the domain chain (outermost first) and record what each level inherits.
+ * The last link's limit after applying its ceiling is the chain's effective authority.
+ */
+function walkDomainChain(org: Organization, chain: Domain[]): { links: DomainChainLink[]; effective: number } {
+    const links: DomainChainLink[] = [];
+    let limit = org.authorityCeiling;
+    let parentName = org.name;
+
+    chain.forEach((domain, i) => {
+        links.push({
+            domain,
+            level: i === 0 ? 'DOMAIN' : 'SUB_DOMAIN',
+            parentName,
+            parentLimit: limit,
+            restricts: domain.authorityCeiling < limit,
+        });
+        limit = Math.min(limit, domain.authorityCeiling);
+        parentName = domain.name;
+    });
+
+    return { links, effective: limit };
+}
 
 // ============================================================================
 // ORGANIZATION AUTHORITY
@@ -127,6 +215,7 @@ export function deriveOrganizationAuthority(org: Organization): AuthorityResult
     if (org.authorityCeiling < 1) {
         blockedActions.push('Blocked: Organization authority ceiling restricts all non-advisory actions');
     }
+    blockedActions.push(...describeOrganizationBlocks(org));
 
     // T5: Build reasoning explanation
     const reasoning: AuthorityReasonStep[] = [
@@ -136,16 +225,17 @@ export function deriveOrganizationAuthority(org: Organization): AuthorityResult
             impact: 'ALLOW',
             detail: `This organization establishes the maximum level of authority available.`,
         },
+        ...describeOrganizationPolicy(org),
     ];
 
-    const doActions = calculateDoActions(effectiveAuthorityLevel, 'ORG', blockedActions);
-
     return {
         effectiveAuthorityLevel,
         authoritySourcePath,
         blockedActions,
         reasoning,
-        doActions
+        effectiveExecutionSurface: getOrganizationSurfaceCap(org),
+        escalationEnabled: org.globalActions.includes('ESCALATE'),
+        ...resolveEscalationPosture(org, []),
     };
 }
 
@@ -156,10 +246,13 @@ export function deriveOrganizationAuthority(org: Organization): AuthorityResult
 /**
  * Derive authority for a domain node.
  * Domain inherits from organization and can only reduce authority, never increase.
+ *
+ * Phase 9F: ancestors lists enclosing domains, outermost first (see getDomainAncestors).
+ * Effective authority is the minimum over the whole chain.
  */
-export function deriveDomainAuthority(org: Organization, domain: Domain): AuthorityResult {
-    // Effective authority is the minimum of org and domain ceilings
-    const effectiveAuthorityLevel = Math.min(org.authorityCeiling, domain.authorityCeiling);
+export function deriveDomainAuthority(org: Organization, domain: Domain, ancestors: Domain[] = []): AuthorityResult {
+    // Effective authority is the minimum of org and every domain ceiling in the chain
+    const { links, effective: effectiveAuthorityLevel } = walkDomainChain(org, [...ancestors, domain]);
 
     const authoritySourcePath: AuthoritySourcePathEntry[] = [
         {
@@ -167,20 +260,27 @@ export function deriveDomainAuthority(org: Organization, domain: Domain): Author
             name: org.name,
             ceiling: org.authorityCeiling,
         },
-        {
-            level: 'DOMAIN',
-            name: domain.name,
-            ceiling: domain.authorityCeiling,
-        },
+        ...links.map(link => ({
+            level: link.level,
+            name: link.domain.name,
+            ceiling: link.domain.authorityCeiling,
+        })),
     ];
 
     const blockedActions: string[] = [];
 
-    // Check if domain ceiling restricts authority below organization
-    if (domain.authorityCeiling < org.authorityCeiling) {
-        blockedActions.push(
-            `Blocked: Domain authority ceiling (${domain.authorityCeiling}) is lower than organization ceiling (${org.authorityCeiling})`
-        );
+    // Check if any domain in the chain restricts authority below what it inherits
+    for (const link of links) {
+        if (!link.restricts) continue;
+        if (link.level === 'DOMAIN') {
+            blockedActions.push(
+                `Blocked: Domain authority ceiling (${link.domain.authorityCeiling}) is lower than organization ceiling (${org.authorityCeiling})`
+            );
+        } else {
+            blockedActions.push(
+                `Blocked: Sub-domain "${link.domain.name}" authority ceiling (${link.domain.authorityCeiling}) is lower than inherited authority (${link.parentLimit})`
+            );
+        }
     }
 
     // Derive blocked actions based on effective authority level
@@ -193,6 +293,7 @@ export function deriveDomainAuthority(org: Organization, domain: Domain): Author
     if (effectiveAuthorityLevel < 1) {
         blockedActions.push(`Blocked: Effective authority level (${effectiveAuthorityLevel}) restricts all non-advisory actions`);
     }
+    blockedActions.push(...describeOrganizationBlocks(org));
 
     // T5: Build reasoning explanation
     const reasoning: AuthorityReasonStep[] = [
@@ -202,35 +303,81 @@ export function deriveDomainAuthority(org: Organization, domain: Domain): Author
             impact: 'ALLOW',
             detail: `This organization allows its domains and agents to operate with full authority.`,
         },
+        ...describeOrganizationPolicy(org),
+        ...links.map(link => describeDomainLink(link, 'domain')),
+        ...describeDomainPostures(org, links),
     ];
 
-    if (domain.authorityCeiling < org.authorityCeiling) {
-        reasoning.push({
-            level: 'DOMAIN',
-            rule: `Domain authority ceiling = ${domain.authorityCeiling}`,
-            impact: 'RESTRICT',
-            detail: `This domain limits how much authority its agents can use.`,
-        });
-    } else {
-        reasoning.push({
-            level: 'DOMAIN',
-            rule: `Domain authority ceiling = ${domain.authorityCeiling}`,
-            impact: 'ALLOW',
-            detail: `This domain maintains the organization's authority level.`,
-        });
-    }
-
-    const doActions = calculateDoActions(effectiveAuthorityLevel, 'DOMAIN', blockedActions);
-
     return {
         effectiveAuthorityLevel,
         authoritySourcePath,
         blockedActions,
         reasoning,
-        doActions
+        effectiveExecutionSurface: getOrganizationSurfaceCap(org),
+        escalationEnabled: org.globalActions.includes('ESCALATE'),
+        ...resolveEscalationPosture(org, [...ancestors, domain]),
+    };
+}
+
+/**
+ * Reasoning step for one domain in the chain.
+ */
+function describeDomainLink(link: DomainChainLink, subject: 'domain' | 'agent'): AuthorityReasonStep {
+    const isTopLevel = link.level === 'DOMAIN';
+    const rule = `${isTopLevel ? 'Domain' : 'Sub-domain'} authority ceiling = ${link.domain.authorityCeiling}`;
+
+    if (link.restricts) {
+        return {
+            level: link.level,
+            rule,
+            impact: 'RESTRICT',
+            detail: isTopLevel
+                ? subject === 'domain'
+                    ? `This domain limits how much authority its agents can use.`
+                    : `This domain restricts the scope of actions its agents can perform.`
+                : `This sub-domain further limits the authority inherited from ${link.parentName}.`,
+        };
+    }
+
+    return {
+        level: link.level,
+        rule,
+        impact: 'ALLOW',
+        detail: isTopLevel
+            ? subject === 'domain'
+                ? `This domain maintains the organization's authority level.`
+                : `This domain maintains the organization's level of authority.`
+            : `This sub-domain maintains the authority inherited from ${link.parentName}.`,
     };
 }
 
+/**
+ * Reasoning steps for each domain's escalation posture (Phase 9K).
+ */
+function describeDomainPostures(org: Organization, links: DomainChainLink[]): AuthorityReasonStep[] {
+    let inherited = org.escalationBaseline;
+
+    return links.map(link => {
+        const posture = link.domain.escalationPosture;
+        const subject = link.level === 'DOMAIN' ? 'domain' : 'sub-domain';
+        const stricter = isStricterPosture(posture, inherited);
+
+        const step: AuthorityReasonStep = {
+            level: link.level,
+            rule: `${link.level === 'DOMAIN' ? 'Domain' : 'Sub-domain'} escalation posture = ${posture}`,
+            impact: stricter ? 'RESTRICT' : 'ALLOW',
+            detail: stricter
+                ? describePosture(posture, `This ${subject}`)
+                : posture === inherited
+                    ? `This ${subject} keeps the escalation posture it inherits.`
+                    : `This ${subject} cannot escalate less often than the inherited ${inherited} posture.`,
+        };
+
+        if (stricter) inherited = posture;
+        return step;
+    });
+}
+
 // ============================================================================
 // AGENT AUTHORITY
 // ============================================================================
@@ -238,18 +385,22 @@ export function deriveDomainAuthority(org: Organization, domain: Domain): Author
 /**
  * Derive authority for an agent node.
  * Agent inherits from organization → domain chain and applies its own configuration.
+ *
+ * Phase 9F: ancestors lists the domains enclosing the agent's domain, outermost first.
  */
 export function deriveAgentAuthority(
     org: Organization,
     domain: Domain,
-    agent: Agent
+    agent: Agent,
+    ancestors: Domain[] = []
 ): AuthorityResult {
+    const { links, effective: domainLimit } = walkDomainChain(org, [...ancestors, domain]);
+
     // Effective authority is the minimum across the full chain
-    const effectiveAuthorityLevel = Math.min(
-        org.authorityCeiling,
-        domain.authorityCeiling,
-        agent.autonomyLevel
-    );
+    const effectiveAuthorityLevel = Math.min(domainLimit, agent.autonomyLevel);
+
+    // Phase 9K: Organization action toggles cap the agent's execution surface
+    const effectiveExecutionSurface = capExecutionSurface(agent.executionSurface, getOrganizationSurfaceCap(org));
 
     const authoritySourcePath: AuthoritySourcePathEntry[] = [
         {
@@ -257,11 +408,11 @@ export function deriveAgentAuthority(
             name: org.name,
             ceiling: org.authorityCeiling,
         },
-        {
-            level: 'DOMAIN',
-            name: domain.name,
-            ceiling: domain.authorityCeiling,
-        },
+        ...links.map(link => ({
+            level: link.level,
+            name: link.domain.name,
+            ceiling: link.domain.authorityCeiling,
+        })),
         {
             level: 'AGENT',
             name: agent.name,
@@ -272,10 +423,17 @@ export function deriveAgentAuthority(
     const blockedActions: string[] = [];
 
     // Check inheritance chain restrictions
-    if (domain.authorityCeiling < org.authorityCeiling) {
-        blockedActions.push(
-            `Blocked: Domain ceiling (${domain.authorityCeiling}) reduces organization ceiling (${org.authorityCeiling})`
-        );
+    for (const link of links) {
+        if (!link.restricts) continue;
+        if (link.level === 'DOMAIN') {
+            blockedActions.push(
+                `Blocked: Domain ceiling (${link.domain.authorityCeiling}) reduces organization ceiling (${org.authorityCeiling})`
+            );
+        } else {
+            blockedActions.push(
+                `Blocked: Sub-domain "${link.domain.name}" ceiling (${link.domain.authorityCeiling}) reduces inherited authority (${link.parentLimit})`
+            );
+        }
     }
 
     if (agent.autonomyLevel < domain.authorityCeiling) {
@@ -290,6 +448,8 @@ export function deriveAgentAuthority(
         );
     }
 
+    blockedActions.push(...describeOrganizationBlocks(org));
+
     // Execution surface restrictions
     if (agent.executionSurface === 'READ') {
         blockedActions.push('Blocked: Agent execution surface is READ-only (no WRITE or EXECUTE)');
@@ -328,38 +488,30 @@ export function deriveAgentAuthority(
             impact: 'ALLOW',
             detail: `This organization allows its domains and agents to operate with full authority.`,
         },
+        ...describeOrganizationPolicy(org),
+        ...links.map(link => describeDomainLink(link, 'agent')),
+        ...describeDomainPostures(org, links),
     ];
 
-    if (domain.authorityCeiling < org.authorityCeiling) {
-        reasoning.push({
-            level: 'DOMAIN',
-            rule: `Domain authority ceiling = ${domain.authorityCeiling}`,
-            impact: 'RESTRICT',
-            detail: `This domain restricts the scope of actions its agents can perform.`,
-        });
-    } else {
-        reasoning.push({
-            level: 'DOMAIN',
-            rule: `Domain authority ceiling = ${domain.authorityCeiling}`,
-            impact: 'ALLOW',
-            detail: `This domain maintains the organization's level of authority.`,
-        });
-    }
-
     // Agent-specific reasoning
     const agentReason: AuthorityReasonStep = {
         level: 'AGENT',
-        rule: `Agent autonomy level = ${agent.autonomyLevel}, execution surface = ${agent.executionSurface}`,
+        rule: effectiveExecutionSurface === agent.executionSurface
+            ? `Agent autonomy level = ${agent.autonomyLevel}, execution surface = ${agent.executionSurface}`
+            : `Agent autonomy level = ${agent.autonomyLevel}, execution surface = ${agent.executionSurface} (capped at ${effectiveExecutionSurface ?? 'none'})`,
         impact: agent.autonomyLevel < effectiveAuthorityLevel ? 'RESTRICT' : 'ALLOW',
         detail: '',
     };
 
-    if (agent.autonomyLevel < Math.min(org.authorityCeiling, domain.authorityCeiling)) {
+    if (agent.autonomyLevel < domainLimit) {
         agentReason.detail = `This agent is configured to operate with limited autonomy.`;
-    } else if (agent.executionSurface === 'READ') {
+    } else if (effectiveExecutionSurface === null) {
+        agentReason.detail = `This agent cannot act because the organization permits no actions.`;
+        agentReason.impact = 'RESTRICT';
+    } else if (effectiveExecutionSurface === 'READ') {
         agentReason.detail = `This agent is restricted to reading information.`;
         agentReason.impact = 'RESTRICT';
-    } else if (agent.executionSurface === 'WRITE') {
+    } else if (effectiveExecutionSurface === 'WRITE') {
         agentReason.detail = `This agent can modify information but cannot take direct actions.`;
         agentReason.impact = 'RESTRICT';
     } else if (agent.executionType === 'ADVISORY') {
@@ -374,13 +526,13 @@ export function deriveAgentAuthority(
 
     reasoning.push(agentReason);
 
-    const doActions = calculateDoActions(effectiveAuthorityLevel, 'AGENT', blockedActions);
-
     return {
         effectiveAuthorityLevel,
         authoritySourcePath,
         blockedActions,
         reasoning,
-        doActions
+        effectiveExecutionSurface,
+        escalationEnabled: org.globalActions.includes('ESCALATE'),
+        ...resolveEscalationPosture(org, [...links.map(link => link.domain)]),
     };
 }
@@ -0,0 +1,81 @@
+import { Phase0Data } from '@/app/data/types';
+import { deriveAgentAuthority } from './deriveAuthority';
+import { getDomainAncestors } from '@/logic/structure/domainHierarchy';
+
+/**
+ * Authority Impact Derivation (Phase 9B)
+ *
+ * Pure comparison of effective agent authority between two structure states.
+ * Used to explain what a structural edit did to the agents it touched.
+ *
+ * NO NEW AUTHORITY LOGIC - delegates entirely to deriveAgentAuthority.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AuthorityImpactChange = 'RAISED' | 'LOWERED' | 'ADDED' | 'REMOVED';
+
+export interface AgentAuthorityImpact {
+    agentId: string;
+    agentName: string;
+    before: number | null;   // null if the agent did not exist (or had no domain) before
+    after: number | null;    // null if the agent no longer exists (or has no domain) after
+    change: AuthorityImpactChange;
+}
+
+// ============================================================================
+// DERIVATION
+// ============================================================================
+
+/**
+ * Derive effective authority for every agent in a structure state.
+ * Agents whose domain cannot be resolved are omitted.
+ */
+export function deriveEffectiveAuthorityMap(data: Phase0Data): Map<string, number> {
+    const levels = new Map<string, number>();
+
+    for (const agent of data.agents) {
+        const domain = data.domains.find(d => d.id === agent.domainId);
+        if (!domain) continue;
+        const ancestors = getDomainAncestors(data.domains, domain.id);
+        levels.set(agent.id, deriveAgentAuthority(data.organization, domain, agent, ancestors).effectiveAuthorityLevel);
+    }
+
+    return levels;
+}
+
+/**
+ * Compare effective agent authority between two structure states.
+ * Returns only agents whose effective authority changed, in `after` agent order
+ * followed by removed agents.
+ */
+export function deriveAuthorityImpact(before: Phase0Data, after: Phase0Data): AgentAuthorityImpact[] {
+    const beforeLevels = deriveEffectiveAuthorityMap(before);
+    const afterLevels = deriveEffectiveAuthorityMap(after);
+    const impacts: AgentAuthorityImpact[] = [];
+
+    for (const agent of after.agents) {
+        const previous = beforeLevels.get(agent.id) ?? null;
+        const next = afterLevels.get(agent.id) ?? null;
+        if (previous === next) continue;
+
+        let change: AuthorityImpactChange;
+        if (previous === null) change = 'ADDED';
+        else if (next === null) change = 'REMOVED';
+        else change = next > previous ? 'RAISED' : 'LOWERED';
+
+        impacts.push({ agentId: agent.id, agentName: agent.name, before: previous, after: next, change });
+    }
+
+    for (const agent of before.agents) {
+        if (after.agents.some(a => a.id === agent.id)) continue;
+        const previous = beforeLevels.get(agent.id) ?? null;
+        if (previous === null) continue;
+
+        impacts.push({ agentId: agent.id, agentName: agent.name, before: previous, after: null, change: 'REMOVED' });
+    }
+
+    return impacts;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { DecisionConfiguration, DecisionError, assessReadiness, decide, stageAction } from '../runtime/decisionService';
+import { DEFAULT_ACTION_CATALOG } from '../actions/actionCatalog';
+import { CapabilityPosture, CommunicationStyle, createPersonaIdentity } from '../persona/personaIdentity';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+
+describe('Execution Readiness persona gate', () => {
+    const configuration: DecisionConfiguration = { structure: PHASE0_DATA, catalog: DEFAULT_ACTION_CATALOG };
+    const request = { agentId: 'agt-fin-recon', actionId: 'finance_post_adjustment' };
+
+    // Identities reach the decision service through its configuration, never the registries
+    const withPersona = (immutableCommitments: string[]): DecisionConfiguration => {
+        const identity = createPersonaIdentity(
+            { roleName: 'Transaction Matcher', purposeStatement: 'Reconciles transactions.' },
+            { domainId: 'dom-fin', domainName: 'Financial Operations' },
+            CapabilityPosture.OPERATIONAL,
+            CommunicationStyle.NEUTRAL,
+            { eappPrinciples: [], constraints: [], immutableCommitments },
+            'test'
+        );
+        return {
+            ...configuration,
+            personas: { identities: [identity], agentMappings: { [request.agentId]: identity.personaId } },
+        };
+    };
+
+    it('passes with a stated reason when the agent has no persona', () => {
+        const { readiness } = assessReadiness(configuration, request);
+        expect(readiness.gates.personaAlignment.passed).toBe(true);
+        expect(readiness.gates.personaAlignment.reason).toContain('No persona identity');
+    });
+
+    it('passes when the action fits the ethical frame', () => {
+        const { readiness } = assessReadiness(withPersona(['Cannot delete historical records']), request);
+        expect(readiness.gates.personaAlignment.passed).toBe(true);
+        expect(readiness.state).toBe('ELIGIBLE_PENDING_APPROVAL');
+    });
+
+    it('vetoes the action with the violated commitment, so it cannot be staged', () => {
+        const vetoing = withPersona(['Never post reconciliation adjustments']);
+        const { readiness } = assessReadiness(vetoing, request);
+        expect(readiness.gates.personaAlignment.passed).toBe(false);
+        expect(readiness.gates.personaAlignment.violatedCommitments).toEqual(['Never post reconciliation adjustments']);
+        expect(readiness.state).toBe('BLOCKED_HARD');
+
+        let code = 'NONE';
+        try {
+            stageAction(vetoing, request);
+        } catch (error) {
+            code = error instanceof DecisionError ? error.code : 'OTHER';
+        }
+        expect(code).toBe('NOT_STAGEABLE');
+    });
+
+    it('blocks the verdict the decision API returns for a vetoed action', () => {
+        const vetoing = withPersona(['Never post reconciliation adjustments']);
+        expect(decide(withPersona(['Cannot delete historical records']), request).decision.status).toBe('ESCALATION_REQUIRED');
+
+        const verdict = decide(vetoing, request);
+        expect(verdict.decision.status).toBe('BLOCKED');
+        expect(verdict.escalation).toBeUndefined();
+        expect(verdict.reasoning.appliedConstraints).toContainEqual({
+            source: 'AGENT',
+            description: 'Persona commitment: Never post reconciliation adjustments.',
+        });
+        expect(verdict.configurationVersion).not.toBe(decide(configuration, request).configurationVersion);
+    });
+});
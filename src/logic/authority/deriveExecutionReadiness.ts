@@ -2,6 +2,9 @@ import { Agent, Domain, Organization } from '@/app/data/types';
 import { AuthorityResult } from './deriveAuthority';
 import { DoAction } from './deriveDoActions';
 import { RuntimeVerdict } from './deriveRuntimeVerdict';
+import { resolveDomainActionCategories } from '../actions/categoryTaxonomy';
+import { PersonaIdentity } from '../persona/personaIdentity';
+import { EthicalVerdict, evaluateActionEthics } from '../persona/ethicalEvaluation';
 
 /**
  * Execution Readiness Derivation Engine (Phase 3C)
@@ -32,6 +35,7 @@ export type ExecutionReadinessState =
 interface GateResult {
     passed: boolean;
     reason: string;
+    violatedCommitments?: string[];     // Persona gate only: set when the ethical veto applies (Phase 9T)
 }
 
 /**
@@ -57,6 +61,9 @@ export interface ExecutionReadiness {
  * 
  * All four gates must pass for execution to be eligible.
  * Same input → same output (deterministic).
+ *
+ * Phase 9T: identity is the persona identity assigned to the agent, or null
+ * when it has none. Callers resolve it; nothing here reads the persona registries.
  */
 export function deriveExecutionReadiness(
     agent: Agent,
@@ -64,14 +71,15 @@ export function deriveExecutionReadiness(
     authority: AuthorityResult,
     verdict: RuntimeVerdict,
     domain: Domain,
-    organization: Organization
+    organization: Organization,
+    identity: PersonaIdentity | null
 ): ExecutionReadiness {
     // Evaluate all four precondition gates
     const gates = {
         authorityAlignment: evaluateAuthorityGate(doAction, authority, domain, organization),
-        actionSurfaceCompatibility: evaluateActionSurfaceGate(doAction, agent),
+        actionSurfaceCompatibility: evaluateActionSurfaceGate(doAction, agent, authority),
         escalationResolution: evaluateEscalationGate(verdict, agent),
-        personaAlignment: evaluatePersonaGate(doAction, agent),
+        personaAlignment: evaluatePersonaGate(doAction, identity, verdict),
     };
 
     // Derive state from gate results
@@ -112,12 +120,14 @@ function evaluateAuthorityGate(
         };
     }
 
-    // Check if domain restricts this action category
-    const isActionCategoryAllowed = domain.allowedActionCategories?.includes(doAction.category) ?? true;
-    if (!isActionCategoryAllowed) {
+    // Check if domain restricts this action category (Phase 9J: through the category taxonomy)
+    const { allowed, unmapped } = resolveDomainActionCategories(domain);
+    if (!allowed.includes(doAction.category)) {
         return {
             passed: false,
-            reason: `This domain does not permit ${doAction.category} actions.`,
+            reason: unmapped.length > 0
+                ? `This domain does not permit ${doAction.category} actions. Configuration error: ${unmapped.map(l => `"${l}"`).join(', ')} not mapped to any action category.`
+                : `This domain does not permit ${doAction.category} actions.`,
         };
     }
 
@@ -137,19 +147,24 @@ function evaluateAuthorityGate(
  * Checks:
  * - Execution surface supports the action
  * - No READ / WRITE / EXECUTE mismatch
+ * - Phase 9K: The surface is capped by the organization's action toggles
  */
 function evaluateActionSurfaceGate(
     doAction: DoAction,
-    agent: Agent
+    agent: Agent,
+    authority: AuthorityResult
 ): GateResult {
     const surfaceHierarchy = { READ: 1, WRITE: 2, EXECUTE: 3 };
-    const agentLevel = surfaceHierarchy[agent.executionSurface];
+    const effectiveSurface = authority.effectiveExecutionSurface;
+    const agentLevel = effectiveSurface ? surfaceHierarchy[effectiveSurface] : 0;
     const requiredLevel = surfaceHierarchy[doAction.requiredSurface];
 
     if (agentLevel < requiredLevel) {
         return {
             passed: false,
-            reason: `This action requires ${doAction.requiredSurface} surface, but agent has ${agent.executionSurface}.`,
+            reason: effectiveSurface === agent.executionSurface
+                ? `This action requires ${doAction.requiredSurface} surface, but agent has ${agent.executionSurface}.`
+                : `This action requires ${doAction.requiredSurface} surface, but the organization caps this agent at ${effectiveSurface ?? 'no surface'}.`,
         };
     }
 
@@ -217,20 +232,51 @@ function evaluateEscalationGate(
  * - Ethical boundaries respected
  * - No persona contradictions
  * 
- * Note: Placeholder for future EAPP integration. Always passes for Phase 3C.
+ * Phase 9T: The action, with the context it was evaluated in, is checked
+ * against the ethical frame of the agent's persona identity. A violation is an
+ * ethical veto: the readiness state becomes BLOCKED_HARD, which nothing can
+ * stage or approve. The authority engine applies the same veto, so the
+ * verdict is BLOCKED as well.
+ *
+ * Agents without a persona identity have no ethical frame to check against;
+ * the gate passes and says so.
  */
 function evaluatePersonaGate(
     doAction: DoAction,
-    agent: Agent
+    identity: PersonaIdentity | null,
+    verdict: RuntimeVerdict
 ): GateResult {
-    // Placeholder: Future EAPP integration
-    // For Phase 3C, this gate always passes
+    if (!identity) {
+        return {
+            passed: true,
+            reason: 'No persona identity is assigned to this agent, so no ethical commitments apply.',
+        };
+    }
+
+    const evaluation = evaluateActionEthics(identity, doAction, verdict.context);
+
+    if (evaluation.verdict === EthicalVerdict.ETHICS_BLOCKED) {
+        return {
+            passed: false,
+            reason: evaluation.explanation,
+            violatedCommitments: evaluation.violatedCommitments,
+        };
+    }
+
     return {
         passed: true,
-        reason: 'Persona alignment check passed (EAPP integration pending).',
+        reason: `Compatible with the ethical frame of ${identity.roleIdentity.roleName}.`,
     };
 }
 
+/**
+ * Whether the persona gate vetoed the action on ethical grounds (Phase 9T).
+ * An ethical veto cannot be overridden by approvals or policy.
+ */
+export function isEthicallyVetoed(readiness: ExecutionReadiness): boolean {
+    return (readiness.gates.personaAlignment.violatedCommitments?.length ?? 0) > 0;
+}
+
 // ============================================================================
 // STATE DERIVATION
 // ============================================================================
@@ -239,6 +285,7 @@ function evaluatePersonaGate(
  * Derive execution readiness state from gate results.
  * 
  * Rules:
+ * - If the persona gate vetoes the action → BLOCKED_HARD (Phase 9T)
  * - If all gates fail critically → BLOCKED_HARD
  * - If gates pass but escalation required → ELIGIBLE_PENDING_APPROVAL
  * - If all gates pass and no escalation → ELIGIBLE_AUTOMATIC
@@ -251,6 +298,11 @@ function deriveReadinessState(
     const allPassed = Object.values(gates).every(gate => gate.passed);
     const anyFailed = Object.values(gates).some(gate => !gate.passed);
 
+    // Phase 9T: Ethics always win
+    if (gates.personaAlignment.violatedCommitments?.length) {
+        return 'BLOCKED_HARD';
+    }
+
     // If all gates fail or critical gates fail
     if (!gates.authorityAlignment.passed && !gates.actionSurfaceCompatibility.passed) {
         return 'BLOCKED_HARD';
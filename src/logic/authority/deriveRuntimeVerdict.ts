@@ -1,6 +1,15 @@
 import { Agent, Domain, Organization } from '@/app/data/types';
 import { AuthorityResult } from './deriveAuthority';
-import { DoAction, DoActionState } from './deriveDoActions';
+import { DoAction, projectDoAction } from './deriveDoActions';
+import { ActionCatalog } from '../actions/actionCatalog';
+import { CATEGORY_PROJECTION, EscalationCause, VerdictStatus, evaluateAuthority, getActionEvaluation } from './authorityEngine';
+import { DomainConstraint, formatConstraint } from '../constraints/domainConstraints';
+import { VerdictContext, resolveVerdictContext } from './verdictContext';
+import { Clock, systemClock } from '@/utils/clock';
+import { contentHash } from '@/utils/contentHash';
+import { LearnedPolicy } from '../policy/learnedPolicy';
+import { APPROVAL_POLICY_TYPES, formatPolicyCitation, policyCoversSubject } from '../policy/policyApplication';
+import { PersonaIdentity } from '../persona/personaIdentity';
 
 /**
  * Runtime Verdict Derivation Engine (Phase 3B)
@@ -39,6 +48,12 @@ export type RuntimeVerdict = {
         actionCategory: 'READ' | 'WRITE' | 'DECIDE' | 'EXECUTE' | 'ESCALATE';
     };
 
+    // Phase 9M: The concrete attempt the verdict was derived for, kept for audit
+    context: VerdictContext;
+
+    // Phase 9P: Content hash of the configuration the verdict was derived from
+    configurationVersion: string;
+
     decision: {
         status: 'ALLOWED' | 'BLOCKED' | 'ESCALATION_REQUIRED';
         confidence: 'HIGH' | 'MEDIUM' | 'LOW';
@@ -81,17 +96,49 @@ export type RuntimeVerdict = {
  * 
  * This is the ONLY function that produces RuntimeVerdicts in the system.
  * Same input → same output (deterministic).
+ *
+ * Phase 9H: The action catalog is authoritative. Actions not bound to the
+ * agent in the catalog are always BLOCKED, whatever state doAction claims.
+ *
+ * Phase 9I: The decision is the authority engine's verdict for the action;
+ * doAction only identifies which action is being attempted.
+ *
+ * Phase 9L: Matching domain constraints are cited in appliedConstraints.
+ *
+ * Phase 9M: context describes the concrete attempt (target, amount,
+ * counterparty, data classification, time of day, attributes). Its time of
+ * day defaults to evaluatedAt, and the resolved context is stored in the verdict.
+ *
+ * Phase 9P: verdictId is a content hash of the agent, action, resolved context
+ * and configuration version, so identical attempts share an ID. evaluatedAt
+ * comes from the clock; with a fixed clock the whole verdict is reproducible.
+ *
+ * Phase 9U: policies are the learned policies in force (opt-in, see
+ * policiesInForce). Matching ones can only tighten the decision; each is cited
+ * in appliedConstraints, and those covering the agent are part of the
+ * configuration version.
+ *
+ * Phase 9F: ancestors lists the domains enclosing domain, outermost first.
+ * Their categories and constraints apply, and they are part of the configuration version.
+ *
+ * Phase 9T: persona is the agent's persona identity, or null when it has none.
+ * The engine applies its ethical veto, each violated commitment is cited in
+ * appliedConstraints, and the identity is part of the configuration version.
  */
 export function deriveRuntimeVerdict(
     agent: Agent,
     doAction: DoAction,
     authority: AuthorityResult,
     domain: Domain,
-    organization: Organization
+    organization: Organization,
+    catalog: ActionCatalog,
+    context: VerdictContext = {},
+    clock: Clock = systemClock,
+    policies: ReadonlyArray<LearnedPolicy> = [],
+    ancestors: Domain[] = [],
+    persona: PersonaIdentity | null = null
 ): RuntimeVerdict {
-    // Generate deterministic verdict ID
-    const verdictId = generateVerdictId(agent.id, doAction.id);
-    const evaluatedAt = new Date().toISOString();
+    const evaluatedAt = clock();
 
     // Build subject information
     const subject = {
@@ -101,23 +148,55 @@ export function deriveRuntimeVerdict(
         organizationId: organization.id,
     };
 
+    // Phase 9I: Evaluate the action through the authority engine
+    const resolvedContext = resolveVerdictContext(context, evaluatedAt);
+
+    // Phase 9P: Identity from content, never from the time of evaluation
+    const configurationVersion = deriveConfigurationVersion(
+        organization,
+        domain,
+        agent,
+        authority,
+        catalog,
+        policies.filter(p => policyCoversSubject(p, agent, domain, ancestors)),
+        ancestors,
+        persona
+    );
+    const verdictId = deriveVerdictId(agent.id, doAction.id, resolvedContext, configurationVersion);
+
+    const evaluation = getActionEvaluation(
+        evaluateAuthority(authority, catalog, { agent, domain, ancestors, context: resolvedContext, policies, persona }),
+        doAction.id
+    );
+    const inCatalog = evaluation?.bound ?? false;
+
+    // Canonical view of the action (uncatalogued actions keep the caller's description)
+    const canonicalAction: DoAction = evaluation
+        ? projectDoAction(evaluation)
+        : { ...doAction, state: 'BLOCKED', reason: 'This action is not in the action catalog.' };
+
     // Build action information (map Do Action categories to verdict categories)
     const action = {
-        actionId: doAction.id,
-        actionName: doAction.verbPhrase,
-        actionCategory: mapActionCategory(doAction.category),
+        actionId: canonicalAction.id,
+        actionName: canonicalAction.verbPhrase,
+        actionCategory: CATEGORY_PROJECTION[canonicalAction.category]?.verdict ?? 'READ',
     };
 
-    // Derive decision based on Do Action state
-    const decision = deriveDecision(doAction);
+    // Decision is the engine's verdict (uncatalogued actions are blocked)
+    const decision = deriveDecision(evaluation?.verdict ?? 'BLOCKED');
 
     // Build reasoning with constraint attribution
     const reasoning = deriveReasoning(
-        doAction,
+        canonicalAction,
         agent,
         authority,
         domain,
-        organization
+        organization,
+        inCatalog,
+        evaluation?.escalation ?? null,
+        evaluation?.constraints ?? [],
+        evaluation?.policies ?? [],
+        evaluation?.violatedCommitments ?? []
     );
 
     // Build execution guarantee (always false in Phase 3B)
@@ -129,7 +208,7 @@ export function deriveRuntimeVerdict(
 
     // Build escalation object if needed
     const escalation = decision.status === 'ESCALATION_REQUIRED'
-        ? deriveEscalation(doAction, agent, domain)
+        ? deriveEscalation(canonicalAction, agent, authority, evaluation?.escalation ?? 'AUTHORITY', evaluation?.constraints ?? [], evaluation?.policies ?? [])
         : undefined;
 
     // Build guarantees (all static in Phase 3B)
@@ -145,6 +224,8 @@ export function deriveRuntimeVerdict(
         evaluatedAt,
         subject,
         action,
+        context: resolvedContext,
+        configurationVersion,
         decision,
         reasoning,
         execution,
@@ -158,35 +239,19 @@ export function deriveRuntimeVerdict(
 // ============================================================================
 
 /**
- * Derive verdict decision based on Do Action state.
+ * Derive verdict decision from the engine's verdict status.
  * 
- * Mapping:
- * - ALLOWED → status: ALLOWED, confidence: HIGH
- * - BLOCKED → status: BLOCKED, confidence: HIGH
- * - RESTRICTED → status: ESCALATION_REQUIRED, confidence: MEDIUM
+ * Confidence:
+ * - ALLOWED, BLOCKED → HIGH
+ * - ESCALATION_REQUIRED (RESTRICTED actions) → MEDIUM
  */
-function deriveDecision(doAction: DoAction): {
+function deriveDecision(status: VerdictStatus): {
     status: 'ALLOWED' | 'BLOCKED' | 'ESCALATION_REQUIRED';
     confidence: 'HIGH' | 'MEDIUM' | 'LOW';
 } {
-    if (doAction.state === 'ALLOWED') {
-        return {
-            status: 'ALLOWED',
-            confidence: 'HIGH',
-        };
-    }
-
-    if (doAction.state === 'BLOCKED') {
-        return {
-            status: 'BLOCKED',
-            confidence: 'HIGH',
-        };
-    }
-
-    // RESTRICTED → requires escalation
     return {
-        status: 'ESCALATION_REQUIRED',
-        confidence: 'MEDIUM',
+        status,
+        confidence: status === 'ESCALATION_REQUIRED' ? 'MEDIUM' : 'HIGH',
     };
 }
 
@@ -209,7 +274,12 @@ function deriveReasoning(
     agent: Agent,
     authority: AuthorityResult,
     domain: Domain,
-    organization: Organization
+    organization: Organization,
+    inCatalog: boolean,
+    escalation: EscalationCause | null,
+    constraints: DomainConstraint[],
+    policies: LearnedPolicy[],
+    violatedCommitments: string[]
 ): {
     summary: string;
     appliedConstraints: Array<{
@@ -230,6 +300,25 @@ function deriveReasoning(
         });
     }
 
+    // Phase 9K: Organization action toggles
+    const disabledActions = ['WRITE', 'EXECUTE', 'ESCALATE'].filter(a => !organization.globalActions.includes(a));
+    if (disabledActions.length > 0) {
+        appliedConstraints.push({
+            source: 'ORGANIZATION',
+            description: `This organization has turned off ${disabledActions.join(', ')} actions for every agent.`,
+        });
+    }
+
+    // Phase 9K: Escalation posture (organization baseline or a stricter domain posture)
+    if (escalation === 'POSTURE') {
+        appliedConstraints.push({
+            source: authority.escalationPostureSource,
+            description: authority.escalationPostureSource === 'ORGANIZATION'
+                ? `This organization's escalation baseline (${authority.escalationPosture}) requires human approval for this action.`
+                : `This domain's escalation posture (${authority.escalationPosture}) requires human approval for this action.`,
+        });
+    }
+
     // Domain constraints
     if (domain.authorityCeiling < organization.authorityCeiling) {
         appliedConstraints.push({
@@ -238,6 +327,19 @@ function deriveReasoning(
         });
     }
 
+    // Phase 9L: Structured domain constraints matching the proposed action
+    for (const constraint of constraints) {
+        appliedConstraints.push({
+            source: 'DOMAIN',
+            description: `Domain constraint ${constraint.id}: ${formatConstraint(constraint)}.`,
+        });
+    }
+
+    // Phase 9U: Learned policies matching the proposed action
+    for (const policy of policies) {
+        appliedConstraints.push(formatPolicyCitation(policy));
+    }
+
     // Agent constraints
     if (agent.autonomyLevel < authority.effectiveAuthorityLevel) {
         appliedConstraints.push({
@@ -274,6 +376,22 @@ function deriveReasoning(
         });
     }
 
+    // Phase 9T: Persona commitments behind an ethical veto
+    for (const commitment of violatedCommitments) {
+        appliedConstraints.push({
+            source: 'AGENT',
+            description: `Persona commitment: ${commitment}.`,
+        });
+    }
+
+    // Phase 9H: Catalog binding
+    if (!inCatalog) {
+        appliedConstraints.push({
+            source: 'RUNTIME',
+            description: `This action is not in ${agent.name}'s action catalog bindings.`,
+        });
+    }
+
     // Runtime constraints (structural safety)
     appliedConstraints.push({
         source: 'RUNTIME',
@@ -281,7 +399,11 @@ function deriveReasoning(
     });
 
     // Generate summary based on decision status
-    const summary = generateSummary(doAction, agent);
+    const summary = !inCatalog
+        ? `${agent.name} cannot ${doAction.verbPhrase.toLowerCase()} because it is not in the agent's action catalog.`
+        : violatedCommitments.length > 0
+            ? `${agent.name} cannot ${doAction.verbPhrase.toLowerCase()} because it would violate its persona's ethical commitments.`
+            : generateSummary(doAction, agent);
 
     return {
         summary,
@@ -316,17 +438,51 @@ function generateSummary(doAction: DoAction, agent: Agent): string {
 function deriveEscalation(
     doAction: DoAction,
     agent: Agent,
-    domain: Domain
+    authority: AuthorityResult,
+    cause: EscalationCause,
+    constraints: DomainConstraint[],
+    policies: LearnedPolicy[]
 ): {
     required: true;
     reason: string;
     expectedApproverRole: string;
 } {
+    // Phase 9K: Posture escalations always go to a human
+    if (cause === 'POSTURE') {
+        return {
+            required: true,
+            reason: authority.escalationPostureSource === 'ORGANIZATION'
+                ? `The organization's ${authority.escalationPosture} escalation baseline requires human approval.`
+                : `The domain's ${authority.escalationPosture} escalation posture requires human approval.`,
+            expectedApproverRole: 'Human Operator',
+        };
+    }
+
     // Determine appropriate approver based on escalation behavior
     const expectedApproverRole = agent.escalationBehavior === 'HUMAN_REQUIRED'
         ? 'Human Operator'
         : 'Domain Administrator';
 
+    // Phase 9L: A domain constraint asks for approval
+    const approval = constraints.find(c => c.effect.kind === 'REQUIRE_APPROVAL');
+    if (cause === 'CONSTRAINT' && approval) {
+        return {
+            required: true,
+            reason: `Domain constraint ${approval.id} requires approval: ${formatConstraint(approval)}.`,
+            expectedApproverRole,
+        };
+    }
+
+    // Phase 9U: A learned policy asks for approval
+    const policy = policies.find(p => APPROVAL_POLICY_TYPES.includes(p.constraint.type));
+    if (cause === 'POLICY' && policy) {
+        return {
+            required: true,
+            reason: `Learned policy ${policy.policyId} requires approval: ${policy.constraint.description}.`,
+            expectedApproverRole,
+        };
+    }
+
     return {
         required: true,
         reason: `This action requires higher authority than ${agent.name} currently has.`,
@@ -339,34 +495,49 @@ function deriveEscalation(
 // ============================================================================
 
 /**
- * Generate deterministic verdict ID from agent and action IDs.
+ * Content hash of everything a verdict depends on besides the attempt itself:
+ * the organization, domain and agent definitions, the derived authority
+ * (which covers ancestor domains) and the action catalog (Phase 9P).
+ *
+ * Phase 9U: Learned policies covering the agent are included when there are
+ * any, so versions without applied policies are unchanged.
+ *
+ * Enclosing domains are included the same way, since their categories and
+ * constraints decide verdicts too, and so is the agent's persona identity
+ * (Phase 9T), whose ethical frame can veto actions.
  */
-function generateVerdictId(agentId: string, actionId: string): string {
-    // Simple but deterministic: combine IDs with separator
-    return `verdict_${agentId}_${actionId}_${Date.now()}`;
+export function deriveConfigurationVersion(
+    organization: Organization,
+    domain: Domain,
+    agent: Agent,
+    authority: AuthorityResult,
+    catalog: ActionCatalog,
+    policies: ReadonlyArray<LearnedPolicy> = [],
+    ancestors: Domain[] = [],
+    persona: PersonaIdentity | null = null
+): string {
+    return contentHash({
+        organization,
+        ancestors: ancestors.length > 0 ? ancestors : undefined,
+        domain,
+        agent,
+        authority,
+        catalog,
+        policies: policies.length > 0 ? policies : undefined,
+        persona: persona ?? undefined,
+    });
 }
 
 /**
- * Map Do Action category to Runtime Verdict action category.
+ * Verdict ID from a content hash of the normalized inputs (Phase 9P).
+ * Recomputable by anyone holding the verdict: its subject, action, context
+ * and configurationVersion are the inputs.
  */
-function mapActionCategory(
-    doActionCategory: string
-): 'READ' | 'WRITE' | 'DECIDE' | 'EXECUTE' | 'ESCALATE' {
-    switch (doActionCategory) {
-        case 'DATA_ACCESS':
-            return 'READ';
-        case 'DATA_MODIFICATION':
-            return 'WRITE';
-        case 'DECISION_MAKING':
-            return 'DECIDE';
-        case 'EXECUTION':
-        case 'OPERATIONS':
-            return 'EXECUTE';
-        case 'ESCALATION':
-            return 'ESCALATE';
-        case 'REPORTING':
-            return 'WRITE'; // Reports are a form of data output
-        default:
-            return 'READ'; // Safe default
-    }
+export function deriveVerdictId(
+    agentId: string,
+    actionId: string,
+    context: VerdictContext,
+    configurationVersion: string
+): string {
+    return `verdict_${contentHash({ agentId, actionId, context, configurationVersion })}`;
 }
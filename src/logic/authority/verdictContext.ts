@@ -0,0 +1,168 @@
+/**
+ * Verdict Context (Phase 9M)
+ *
+ * The typed description of one proposed action: what it touches, how much
+ * money moves, with whom, how sensitive the data is and when it happens.
+ * A Do action is a template ("Reply to customer inquiry"); the context makes
+ * it a concrete attempt (a €50,000 refund to a given customer).
+ *
+ * Domain constraints, learned policies and ethical evaluation branch on the
+ * context, and every RuntimeVerdict stores the context it was derived from.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - PURE: No side effects, validation never throws on malformed input
+ * - Every field is optional; rules on a missing field do not match
+ * - Times of day are UTC
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Sensitivity of the data an action touches, least to most sensitive.
+ */
+export type DataClassification = 'PUBLIC' | 'INTERNAL' | 'CONFIDENTIAL' | 'RESTRICTED';
+
+export type ContextAttributeValue = string | number | boolean;
+
+export interface MonetaryAmount {
+    value: number;
+    currency: string;               // ISO 4217 code, e.g. "EUR"
+}
+
+export interface VerdictContext {
+    targetResource?: string;        // e.g. "billing/invoices/2024-117"
+    amount?: MonetaryAmount;
+    counterparty?: string;          // Who is on the other side, e.g. "customer:4471"
+    dataClassification?: DataClassification;
+    timeOfDay?: string;             // "HH:MM" UTC; verdicts default it to the evaluation time
+    attributes?: Record<string, ContextAttributeValue>;     // Free-form, matched by exact value
+}
+
+export interface VerdictContextIssue {
+    path: string;                   // e.g. "amount.currency"
+    message: string;
+}
+
+// ============================================================================
+// VOCABULARY
+// ============================================================================
+
+export const DATA_CLASSIFICATIONS: readonly DataClassification[] = ['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'RESTRICTED'];
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const CONTEXT_FIELDS = ['targetResource', 'amount', 'counterparty', 'dataClassification', 'timeOfDay', 'attributes'];
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Whether data of this classification is at least as sensitive as the threshold.
+ */
+export function isClassifiedAtLeast(classification: DataClassification, threshold: DataClassification): boolean {
+    return DATA_CLASSIFICATIONS.indexOf(classification) >= DATA_CLASSIFICATIONS.indexOf(threshold);
+}
+
+/**
+ * UTC time of day ("HH:MM") of an ISO timestamp.
+ */
+export function toTimeOfDay(timestamp: string): string {
+    return new Date(timestamp).toISOString().slice(11, 16);
+}
+
+/**
+ * The context a verdict is evaluated against: the caller's context with the
+ * time of day defaulted to the evaluation time.
+ */
+export function resolveVerdictContext(context: VerdictContext, evaluatedAt: string): VerdictContext {
+    return context.timeOfDay !== undefined
+        ? context
+        : { ...context, timeOfDay: toTimeOfDay(evaluatedAt) };
+}
+
+/**
+ * Readable one-line summary, e.g. "billing/refunds · 500 EUR · customer:4471 · CONFIDENTIAL · 14:05 UTC".
+ */
+export function formatVerdictContext(context: VerdictContext): string {
+    const parts: string[] = [];
+    if (context.targetResource) parts.push(context.targetResource);
+    if (context.amount) parts.push(`${context.amount.value} ${context.amount.currency}`);
+    if (context.counterparty) parts.push(context.counterparty);
+    if (context.dataClassification) parts.push(context.dataClassification);
+    if (context.timeOfDay) parts.push(`${context.timeOfDay} UTC`);
+    for (const [key, value] of Object.entries(context.attributes ?? {})) {
+        parts.push(`${key}=${String(value)}`);
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'No context';
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate an untrusted value as a VerdictContext.
+ * Returns an empty list when the context is usable.
+ */
+export function validateVerdictContext(raw: unknown): VerdictContextIssue[] {
+    if (!isObject(raw)) return [{ path: '(context)', message: 'Expected an object' }];
+
+    const issues: VerdictContextIssue[] = [];
+
+    for (const key of Object.keys(raw)) {
+        if (!CONTEXT_FIELDS.includes(key)) issues.push({ path: key, message: 'Unknown field' });
+    }
+
+    for (const key of ['targetResource', 'counterparty']) {
+        const value = raw[key];
+        if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+            issues.push({ path: key, message: 'Must be a non-empty string' });
+        }
+    }
+
+    if (raw.amount !== undefined) {
+        const amount = raw.amount;
+        if (!isObject(amount)) {
+            issues.push({ path: 'amount', message: 'Expected an object' });
+        } else {
+            if (typeof amount.value !== 'number' || !Number.isFinite(amount.value)) {
+                issues.push({ path: 'amount.value', message: 'Expected a number' });
+            }
+            if (typeof amount.currency !== 'string' || amount.currency.trim() === '') {
+                issues.push({ path: 'amount.currency', message: 'Must be a non-empty string' });
+            }
+        }
+    }
+
+    if (raw.dataClassification !== undefined &&
+        !DATA_CLASSIFICATIONS.includes(raw.dataClassification as DataClassification)) {
+        issues.push({ path: 'dataClassification', message: `Expected one of ${DATA_CLASSIFICATIONS.join(', ')}` });
+    }
+
+    if (raw.timeOfDay !== undefined && (typeof raw.timeOfDay !== 'string' || !TIME_OF_DAY_PATTERN.test(raw.timeOfDay))) {
+        issues.push({ path: 'timeOfDay', message: 'Expected a time as HH:MM' });
+    }
+
+    if (raw.attributes !== undefined) {
+        if (!isObject(raw.attributes)) {
+            issues.push({ path: 'attributes', message: 'Expected an object' });
+        } else {
+            for (const [key, value] of Object.entries(raw.attributes)) {
+                if (!['string', 'number', 'boolean'].includes(typeof value)) {
+                    issues.push({ path: `attributes.${key}`, message: 'Expected a string, number or boolean' });
+                }
+            }
+        }
+    }
+
+    return issues;
+}
@@ -0,0 +1,472 @@
+import { Phase0Data, Organization, Domain, Agent } from '@/app/data/types';
+import {
+    PersonaIdentity,
+    CapabilityPosture,
+    CommunicationStyle,
+    getAllPersonaIdentities,
+} from '../persona/personaIdentity';
+import { PersonaAssignments, getAgentPersonaMappings } from '../persona/personaIdentityMapping';
+import { LearnedPolicy, LPSLayer, PolicyStatus } from '../policy/learnedPolicy';
+import { PolicyOverride, OverrideScope, getAllPolicyOverrides } from '../policy/policyOverride';
+import { PolicySet } from '../policy/policyApplication';
+import { getAllLearnedPolicies } from '../staging/stagedActions';
+import { validatePhase0Data } from '../validation/validatePhase0Data';
+import { upgradeLegacyConstraints, validateConstraintCondition } from '../constraints/domainConstraints';
+import { ACTION_CATEGORIES } from '../actions/actionCatalog';
+import { toYaml, parseYaml, YamlParseError } from './yaml';
+
+/**
+ * Constitution Document (Phase 9D)
+ *
+ * Portable, versioned document holding everything that defines an organization:
+ * structure, persona identities, learned policies and overrides.
+ *
+ * Serialized as JSON or YAML so governance definitions can live in git and
+ * move between environments.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - STRICT IMPORT: Unknown fields, wrong types and out-of-range values are rejected
+ * - ALL-OR-NOTHING: A document with any error is not applied
+ * - Errors are reported per field using a dotted path (e.g. "domains[1].authorityCeiling")
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const CONSTITUTION_FORMAT = 'clonehaus.constitution';
+export const CONSTITUTION_VERSION = 1;
+
+export type ConstitutionSerialization = 'JSON' | 'YAML';
+
+export interface ConstitutionDocument {
+    format: typeof CONSTITUTION_FORMAT;
+    version: typeof CONSTITUTION_VERSION;
+    exportedAt: string;                                 // ISO timestamp
+    organization: Organization;
+    domains: Domain[];
+    agents: Agent[];
+    personas: {
+        identities: PersonaIdentity[];
+        agentMappings: Record<string, string>;          // Agent ID → Persona ID
+    };
+    policies: {
+        learned: LearnedPolicy[];
+        overrides: PolicyOverride[];
+    };
+}
+
+/**
+ * Single import problem, located by dotted path.
+ */
+export interface ConstitutionFieldError {
+    path: string;
+    message: string;
+}
+
+export interface ConstitutionImportResult {
+    valid: boolean;
+    document: ConstitutionDocument | null;
+    errors: ConstitutionFieldError[];
+    warnings: ConstitutionFieldError[];   // Non-blocking structure diagnostics
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Assemble a document from the live structure and the in-memory registries.
+ */
+export function buildConstitutionDocument(data: Phase0Data): ConstitutionDocument {
+    return {
+        format: CONSTITUTION_FORMAT,
+        version: CONSTITUTION_VERSION,
+        exportedAt: new Date().toISOString(),
+        organization: data.organization,
+        domains: data.domains,
+        agents: data.agents,
+        personas: {
+            identities: [...getAllPersonaIdentities()],
+            agentMappings: getAgentPersonaMappings(),
+        },
+        policies: {
+            learned: [...getAllLearnedPolicies()],
+            overrides: [...getAllPolicyOverrides()],
+        },
+    };
+}
+
+export function serializeConstitution(
+    document: ConstitutionDocument,
+    serialization: ConstitutionSerialization
+): string {
+    if (serialization === 'YAML') {
+        return `# Clonehaus constitution document (v${document.version})\n${toYaml(document)}`;
+    }
+    return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Detect serialization from content: JSON documents start with "{".
+ */
+export function detectSerialization(text: string): ConstitutionSerialization {
+    return text.trimStart().startsWith('{') ? 'JSON' : 'YAML';
+}
+
+/**
+ * Parse and strictly validate a document.
+ * Never throws; syntax errors are reported at path "(document)".
+ */
+export function parseConstitution(
+    text: string,
+    serialization: ConstitutionSerialization = detectSerialization(text)
+): ConstitutionImportResult {
+    let raw: unknown;
+    try {
+        raw = serialization === 'JSON' ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+        const message = error instanceof YamlParseError || error instanceof SyntaxError
+            ? error.message
+            : String(error);
+        return { valid: false, document: null, errors: [{ path: '(document)', message }], warnings: [] };
+    }
+
+    return validateConstitutionDocument(raw);
+}
+
+/**
+ * The persona and policy registry contents of a document.
+ * The structure store applies them in the same history step as the structure,
+ * so undoing an import restores them too.
+ */
+export function toConstitutionRegistries(document: ConstitutionDocument): { personas: PersonaAssignments; policies: PolicySet } {
+    return {
+        personas: { identities: document.personas.identities, agentMappings: document.personas.agentMappings },
+        policies: { policies: document.policies.learned, overrides: document.policies.overrides },
+    };
+}
+
+/**
+ * Extract the structure part of a document.
+ */
+export function toPhase0Data(document: ConstitutionDocument): Phase0Data {
+    return {
+        organization: document.organization,
+        domains: document.domains,
+        agents: document.agents,
+    };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+type Fields = Record<string, unknown>;
+
+const CONSTRAINT_TYPES = ['ALWAYS_REQUIRE_APPROVAL', 'RESTRICT_TO_DOMAIN', 'NEVER_ALLOW_AUTONOMOUS', 'REDUCE_AUTHORITY_LEVEL'];
+
+/**
+ * Collects errors while walking an untrusted value.
+ */
+class FieldChecker {
+    readonly errors: ConstitutionFieldError[] = [];
+
+    fail(path: string, message: string): void {
+        this.errors.push({ path, message });
+    }
+
+    object(value: unknown, path: string): value is Fields {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            this.fail(path, 'Expected an object');
+            return false;
+        }
+        return true;
+    }
+
+    array(value: unknown, path: string): value is unknown[] {
+        if (!Array.isArray(value)) {
+            this.fail(path, 'Expected a list');
+            return false;
+        }
+        return true;
+    }
+
+    /** Reject fields the format does not define. */
+    knownKeys(obj: Fields, keys: string[], path: string): void {
+        for (const key of Object.keys(obj)) {
+            if (!keys.includes(key)) {
+                this.fail(join(path, key), 'Unknown field');
+            }
+        }
+    }
+
+    string(obj: Fields, key: string, path: string, options: { allowEmpty?: boolean } = {}): void {
+        const value = obj[key];
+        if (typeof value !== 'string') {
+            this.fail(join(path, key), value === undefined ? 'Required' : 'Expected a string');
+        } else if (!options.allowEmpty && value.trim() === '') {
+            this.fail(join(path, key), 'Must not be empty');
+        }
+    }
+
+    timestamp(obj: Fields, key: string, path: string): void {
+        const value = obj[key];
+        if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+            this.fail(join(path, key), value === undefined ? 'Required' : 'Expected an ISO timestamp');
+        }
+    }
+
+    boolean(obj: Fields, key: string, path: string): void {
+        if (typeof obj[key] !== 'boolean') {
+            this.fail(join(path, key), obj[key] === undefined ? 'Required' : 'Expected true or false');
+        }
+    }
+
+    integer(obj: Fields, key: string, path: string, min: number, max: number): void {
+        const value = obj[key];
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+            this.fail(join(path, key), value === undefined ? 'Required' : 'Expected a whole number');
+        } else if (value < min || value > max) {
+            this.fail(join(path, key), `Must be between ${min} and ${max}`);
+        }
+    }
+
+    oneOf(obj: Fields, key: string, allowed: string[], path: string): void {
+        const value = obj[key];
+        if (typeof value !== 'string' || !allowed.includes(value)) {
+            this.fail(join(path, key), value === undefined ? 'Required' : `Expected one of ${allowed.join(', ')}`);
+        }
+    }
+
+    stringList(obj: Fields, key: string, path: string, allowed?: string[]): void {
+        const value = obj[key];
+        if (!this.array(value, join(path, key))) return;
+        value.forEach((item, i) => {
+            if (typeof item !== 'string') {
+                this.fail(`${join(path, key)}[${i}]`, 'Expected a string');
+            } else if (allowed && !allowed.includes(item)) {
+                this.fail(`${join(path, key)}[${i}]`, `Expected one of ${allowed.join(', ')}`);
+            }
+        });
+    }
+
+    /** Validation metadata blocks are checked for shape only. */
+    flag(obj: Fields, key: string, flagKey: string, path: string): void {
+        const value = obj[key];
+        if (this.object(value, join(path, key))) {
+            this.boolean(value, flagKey, join(path, key));
+        }
+    }
+}
+
+function join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+function checkPersonaIdentity(c: FieldChecker, value: unknown, path: string): void {
+    if (!c.object(value, path)) return;
+    c.knownKeys(value, ['personaId', 'createdAt', 'authoredBy', 'roleIdentity', 'domainBelonging', 'capabilityPosture', 'communicationStyle', 'ethicalFrame'], path);
+    c.string(value, 'personaId', path);
+    c.timestamp(value, 'createdAt', path);
+    c.string(value, 'authoredBy', path);
+
+    const role = value.roleIdentity;
+    if (c.object(role, join(path, 'roleIdentity'))) {
+        c.string(role, 'roleName', join(path, 'roleIdentity'));
+        c.string(role, 'purposeStatement', join(path, 'roleIdentity'));
+    }
+
+    const belonging = value.domainBelonging;
+    if (c.object(belonging, join(path, 'domainBelonging'))) {
+        c.string(belonging, 'domainId', join(path, 'domainBelonging'));
+        c.string(belonging, 'domainName', join(path, 'domainBelonging'));
+    }
+
+    c.oneOf(value, 'capabilityPosture', Object.values(CapabilityPosture), path);
+    c.oneOf(value, 'communicationStyle', Object.values(CommunicationStyle), path);
+
+    const frame = value.ethicalFrame;
+    if (c.object(frame, join(path, 'ethicalFrame'))) {
+        c.stringList(frame, 'eappPrinciples', join(path, 'ethicalFrame'));
+        c.stringList(frame, 'constraints', join(path, 'ethicalFrame'));
+        c.stringList(frame, 'immutableCommitments', join(path, 'ethicalFrame'));
+    }
+}
+
+function checkLearnedPolicy(c: FieldChecker, value: unknown, path: string): void {
+    if (!c.object(value, path)) return;
+    c.knownKeys(value, [
+        'policyId', 'learnedAt', 'learnedBy', 'sourceApprovalIntentId', 'sourcePolicyProposalId',
+        'affectedLayers', 'primaryLayer', 'constraint', 'beforeState', 'afterState',
+        'humanJustification', 'systemReasoning', 'eappValidation', 'lpsValidation',
+        'monotonicityValidation', 'explanation', 'lifecycle',
+    ], path);
+    c.string(value, 'policyId', path);
+    c.timestamp(value, 'learnedAt', path);
+    c.string(value, 'learnedBy', path);
+    c.string(value, 'sourceApprovalIntentId', path);
+    c.string(value, 'sourcePolicyProposalId', path);
+    c.stringList(value, 'affectedLayers', path, Object.values(LPSLayer));
+    c.oneOf(value, 'primaryLayer', Object.values(LPSLayer), path);
+
+    const constraint = value.constraint;
+    if (c.object(constraint, join(path, 'constraint'))) {
+        c.oneOf(constraint, 'type', CONSTRAINT_TYPES, join(path, 'constraint'));
+        c.string(constraint, 'description', join(path, 'constraint'));
+        c.string(constraint, 'technicalDetails', join(path, 'constraint'), { allowEmpty: true });
+        c.string(constraint, 'affectedScope', join(path, 'constraint'));
+        // Phase 9V: Typed target
+        const target = constraint.target;
+        const targetPath = join(join(path, 'constraint'), 'target');
+        if (c.object(target, targetPath)) {
+            c.knownKeys(target, ['scope', 'targetId', 'actionId', 'category'], targetPath);
+            c.oneOf(target, 'scope', ['ORGANIZATION', 'DOMAIN', 'AGENT'], targetPath);
+            c.string(target, 'targetId', targetPath);
+            if (target.actionId !== undefined) c.string(target, 'actionId', targetPath);
+            if (target.category !== undefined) c.oneOf(target, 'category', [...ACTION_CATEGORIES], targetPath);
+        }
+        // Phase 9M: Optional context condition, in the domain constraint language
+        if (constraint.when !== undefined) {
+            c.errors.push(...validateConstraintCondition(constraint.when, join(join(path, 'constraint'), 'when')));
+        }
+    }
+
+    for (const stateKey of ['beforeState', 'afterState']) {
+        const state = value[stateKey];
+        if (c.object(state, join(path, stateKey))) {
+            c.string(state, 'description', join(path, stateKey), { allowEmpty: true });
+        }
+    }
+
+    c.string(value, 'humanJustification', path);
+    c.string(value, 'systemReasoning', path, { allowEmpty: true });
+    c.flag(value, 'eappValidation', 'passed', path);
+    c.flag(value, 'lpsValidation', 'valid', path);
+    c.flag(value, 'monotonicityValidation', 'valid', path);
+    c.string(value, 'explanation', path, { allowEmpty: true });
+
+    const lifecycle = value.lifecycle;
+    const lifecyclePath = join(path, 'lifecycle');
+    if (c.object(lifecycle, lifecyclePath)) {
+        c.string(lifecycle, 'policyId', lifecyclePath);
+        if (lifecycle.policyId !== value.policyId) {
+            c.fail(join(lifecyclePath, 'policyId'), 'Must match the policy ID');
+        }
+        c.timestamp(lifecycle, 'createdAt', lifecyclePath);
+        if (lifecycle.lastReviewedAt !== null) c.timestamp(lifecycle, 'lastReviewedAt', lifecyclePath);
+        c.integer(lifecycle, 'reviewIntervalDays', lifecyclePath, 1, 3650);
+        c.timestamp(lifecycle, 'nextReviewDate', lifecyclePath);
+        c.timestamp(lifecycle, 'expiresAt', lifecyclePath);
+        c.oneOf(lifecycle, 'status', Object.values(PolicyStatus), lifecyclePath);
+    }
+}
+
+function checkOverride(c: FieldChecker, value: unknown, path: string): void {
+    if (!c.object(value, path)) return;
+    c.knownKeys(value, ['overrideId', 'targetPolicyId', 'scope', 'reason', 'createdBy', 'createdAt', 'expiresAt', 'isActive'], path);
+    c.string(value, 'overrideId', path);
+    c.string(value, 'targetPolicyId', path);
+    c.oneOf(value, 'scope', Object.values(OverrideScope), path);
+    c.string(value, 'reason', path);
+    c.string(value, 'createdBy', path);
+    c.timestamp(value, 'createdAt', path);
+    c.timestamp(value, 'expiresAt', path);
+    c.boolean(value, 'isActive', path);
+}
+
+function checkList(
+    c: FieldChecker,
+    value: unknown,
+    path: string,
+    checkItem: (c: FieldChecker, item: unknown, path: string) => void
+): void {
+    if (!c.array(value, path)) return;
+    value.forEach((item, i) => checkItem(c, item, `${path}[${i}]`));
+}
+
+/**
+ * Validate an untrusted value as a constitution document.
+ *
+ * Structure fields are checked by validatePhase0Data (Phase 9E); this adds the
+ * persona and policy sections, plus that persona mappings and overrides point
+ * at entities inside the same document.
+ *
+ * Phase 9L: Prose domain constraints from earlier exports are read as notes.
+ */
+export function validateConstitutionDocument(input: unknown): ConstitutionImportResult {
+    const raw = upgradeLegacyConstraints(input);
+    const c = new FieldChecker();
+
+    if (!c.object(raw, '(document)')) {
+        return { valid: false, document: null, errors: c.errors, warnings: [] };
+    }
+
+    c.knownKeys(raw, ['format', 'version', 'exportedAt', 'organization', 'domains', 'agents', 'personas', 'policies'], '');
+
+    if (raw.format !== CONSTITUTION_FORMAT) {
+        c.fail('format', `Expected "${CONSTITUTION_FORMAT}"`);
+    }
+    if (raw.version !== CONSTITUTION_VERSION) {
+        c.fail('version', `Unsupported version ${String(raw.version)} (this build reads version ${CONSTITUTION_VERSION})`);
+    }
+    c.timestamp(raw, 'exportedAt', '');
+
+    const structure = validatePhase0Data({
+        organization: raw.organization,
+        domains: raw.domains,
+        agents: raw.agents,
+    });
+    const warnings: ConstitutionFieldError[] = [];
+    for (const diagnostic of structure.diagnostics) {
+        const entry = { path: diagnostic.path, message: diagnostic.message };
+        if (diagnostic.severity === 'ERROR') c.errors.push(entry);
+        else warnings.push(entry);
+    }
+
+    const personas = raw.personas;
+    if (c.object(personas, 'personas')) {
+        c.knownKeys(personas, ['identities', 'agentMappings'], 'personas');
+        checkList(c, personas.identities, 'personas.identities', checkPersonaIdentity);
+
+        const mappings = personas.agentMappings;
+        if (c.object(mappings, 'personas.agentMappings')) {
+            const agentIds = Array.isArray(raw.agents) ? raw.agents.map(a => (a as Fields)?.id) : [];
+            const personaIds = Array.isArray(personas.identities)
+                ? personas.identities.map(p => (p as Fields)?.personaId)
+                : [];
+            for (const [agentId, personaId] of Object.entries(mappings)) {
+                const path = `personas.agentMappings.${agentId}`;
+                if (!agentIds.includes(agentId)) c.fail(path, `Unknown agent "${agentId}"`);
+                if (typeof personaId !== 'string') c.fail(path, 'Expected a persona ID');
+                else if (!personaIds.includes(personaId)) c.fail(path, `Unknown persona "${personaId}"`);
+            }
+        }
+    }
+
+    const policies = raw.policies;
+    if (c.object(policies, 'policies')) {
+        c.knownKeys(policies, ['learned', 'overrides'], 'policies');
+        checkList(c, policies.learned, 'policies.learned', checkLearnedPolicy);
+        checkList(c, policies.overrides, 'policies.overrides', checkOverride);
+
+        if (Array.isArray(policies.learned) && Array.isArray(policies.overrides)) {
+            const policyIds = policies.learned.map(p => (p as Fields)?.policyId);
+            policies.overrides.forEach((o, i) => {
+                const target = (o as Fields)?.targetPolicyId;
+                if (typeof target === 'string' && !policyIds.includes(target)) {
+                    c.fail(`policies.overrides[${i}].targetPolicyId`, `Unknown policy "${target}"`);
+                }
+            });
+        }
+    }
+
+    if (c.errors.length > 0) {
+        return { valid: false, document: null, errors: c.errors, warnings };
+    }
+    return { valid: true, document: raw as unknown as ConstitutionDocument, errors: [], warnings };
+}
@@ -0,0 +1,273 @@
+/**
+ * Minimal YAML (Phase 9D)
+ *
+ * Serializer and parser for the block-style YAML subset used by
+ * constitution documents. Enough to round-trip plain JSON data and to
+ * read hand-edited files kept in git.
+ *
+ * Supported:
+ * - Block mappings and block sequences (indentation based)
+ * - Plain, single-quoted and double-quoted scalars
+ * - null / ~, true / false, numbers
+ * - Flow collections written as JSON ([], {}, ["a", "b"])
+ * - Full-line comments (# ...)
+ *
+ * NOT supported: anchors, aliases, tags, multi-line scalars, multiple documents.
+ */
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export class YamlParseError extends Error {
+    constructor(message: string, public readonly line: number) {
+        super(`Line ${line}: ${message}`);
+        this.name = 'YamlParseError';
+    }
+}
+
+// ============================================================================
+// SERIALIZE
+// ============================================================================
+
+const RESERVED_PLAIN = /^(true|false|null|~|yes|no|on|off)$/i;
+const PLAIN_SAFE = /^[A-Za-z_][A-Za-z0-9_ .\/()-]*$/;
+
+function formatScalar(value: unknown): string {
+    if (value === null || value === undefined) return 'null';
+    if (typeof value === 'boolean' || typeof value === 'number') return String(value);
+
+    const text = String(value);
+    if (PLAIN_SAFE.test(text) && !RESERVED_PLAIN.test(text) && !text.endsWith(' ')) {
+        return text;
+    }
+    return JSON.stringify(text);
+}
+
+function formatKey(key: string): string {
+    return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function serializeNode(value: unknown, indent: number): string[] {
+    const pad = ' '.repeat(indent);
+
+    if (Array.isArray(value)) {
+        return value.flatMap(item => {
+            if (isPlainObject(item) && Object.keys(item).length > 0) {
+                const [first, ...rest] = serializeNode(item, indent + 2);
+                return [`${pad}- ${first.trimStart()}`, ...rest];
+            }
+            if (Array.isArray(item) && item.length > 0) {
+                return [`${pad}-`, ...serializeNode(item, indent + 2)];
+            }
+            return [`${pad}- ${serializeInline(item)}`];
+        });
+    }
+
+    if (isPlainObject(value)) {
+        return Object.entries(value)
+            .filter(([, child]) => child !== undefined)
+            .flatMap(([key, child]) => {
+                const isBlock =
+                    (Array.isArray(child) && child.length > 0) ||
+                    (isPlainObject(child) && Object.keys(child).length > 0);
+                if (isBlock) {
+                    return [`${pad}${formatKey(key)}:`, ...serializeNode(child, indent + 2)];
+                }
+                return [`${pad}${formatKey(key)}: ${serializeInline(child)}`];
+            });
+    }
+
+    return [`${pad}${formatScalar(value)}`];
+}
+
+function serializeInline(value: unknown): string {
+    if (Array.isArray(value)) return '[]';
+    if (isPlainObject(value)) return '{}';
+    return formatScalar(value);
+}
+
+/**
+ * Serialize JSON-compatible data as block-style YAML.
+ */
+export function toYaml(value: unknown): string {
+    if (!Array.isArray(value) && !isPlainObject(value)) {
+        return `${formatScalar(value)}\n`;
+    }
+    return `${serializeNode(value, 0).join('\n')}\n`;
+}
+
+// ============================================================================
+// PARSE
+// ============================================================================
+
+interface Line {
+    indent: number;
+    text: string;
+    number: number;   // 1-based, for error messages
+}
+
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#[{-][^:]*?)\s*:(?:\s+(.*))?$/;
+
+function tokenize(source: string): Line[] {
+    return source
+        .split(/\r?\n/)
+        .map((raw, i) => ({ raw, number: i + 1 }))
+        .filter(({ raw }) => raw.trim() !== '' && !raw.trim().startsWith('#') && raw.trim() !== '---')
+        .map(({ raw, number }) => {
+            if (/^\s*\t/.test(raw)) {
+                throw new YamlParseError('Tabs are not allowed for indentation', number);
+            }
+            const indent = raw.length - raw.trimStart().length;
+            return { indent, text: raw.trim(), number };
+        });
+}
+
+function parseScalar(text: string, line: number): unknown {
+    if (text.startsWith('"')) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            throw new YamlParseError(`Invalid double-quoted string: ${text}`, line);
+        }
+    }
+    if (text.startsWith("'")) {
+        if (!text.endsWith("'") || text.length < 2) {
+            throw new YamlParseError(`Unterminated single-quoted string: ${text}`, line);
+        }
+        return text.slice(1, -1).replace(/''/g, "'");
+    }
+    if (text.startsWith('[') || text.startsWith('{')) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            throw new YamlParseError(`Flow collections must be valid JSON: ${text}`, line);
+        }
+    }
+    if (text === 'null' || text === '~') return null;
+    if (text === 'true') return true;
+    if (text === 'false') return false;
+    if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(text)) return Number(text);
+    return text;
+}
+
+function parseKey(raw: string, line: number): string {
+    return raw.startsWith('"') || raw.startsWith("'") ? String(parseScalar(raw, line)) : raw;
+}
+
+class Parser {
+    private index = 0;
+
+    constructor(private readonly lines: Line[]) { }
+
+    parseDocument(): unknown {
+        if (this.lines.length === 0) return null;
+
+        const first = this.lines[0];
+        let value: unknown;
+        if (this.isSequenceItem(first) || KEY_PATTERN.test(first.text)) {
+            value = this.parseBlock(first.indent);
+        } else {
+            value = parseScalar(first.text, first.number);
+            this.index++;
+        }
+
+        if (this.index < this.lines.length) {
+            const extra = this.lines[this.index];
+            throw new YamlParseError(`Unexpected content: ${extra.text}`, extra.number);
+        }
+        return value;
+    }
+
+    private isSequenceItem(line: Line): boolean {
+        return line.text === '-' || line.text.startsWith('- ');
+    }
+
+    private parseBlock(indent: number): unknown {
+        const line = this.lines[this.index];
+        return this.isSequenceItem(line) ? this.parseSequence(indent) : this.parseMapping(indent);
+    }
+
+    private parseSequence(indent: number): unknown[] {
+        const items: unknown[] = [];
+
+        while (this.index < this.lines.length) {
+            const line = this.lines[this.index];
+            if (line.indent < indent) break;
+            if (line.indent > indent) {
+                throw new YamlParseError('Unexpected indentation', line.number);
+            }
+            if (!this.isSequenceItem(line)) break;
+
+            const rest = line.text === '-' ? '' : line.text.slice(2).trim();
+
+            if (rest === '') {
+                this.index++;
+                const next = this.lines[this.index];
+                items.push(next && next.indent > indent ? this.parseBlock(next.indent) : null);
+            } else if (rest === '-' || rest.startsWith('- ') || KEY_PATTERN.test(rest)) {
+                // "- key: value" or "- - item": the item is a nested block starting on this line
+                this.lines[this.index] = { indent: indent + 2, text: rest, number: line.number };
+                items.push(this.parseBlock(indent + 2));
+            } else {
+                items.push(parseScalar(rest, line.number));
+                this.index++;
+            }
+        }
+
+        return items;
+    }
+
+    private parseMapping(indent: number): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+
+        while (this.index < this.lines.length) {
+            const line = this.lines[this.index];
+            if (line.indent < indent) break;
+            if (line.indent > indent) {
+                throw new YamlParseError('Unexpected indentation', line.number);
+            }
+
+            const match = line.text.match(KEY_PATTERN);
+            if (!match) {
+                throw new YamlParseError(`Expected "key: value", got: ${line.text}`, line.number);
+            }
+
+            const key = parseKey(match[1], line.number);
+            if (Object.prototype.hasOwnProperty.call(result, key)) {
+                throw new YamlParseError(`Duplicate key "${key}"`, line.number);
+            }
+
+            const inline = match[2]?.trim();
+            this.index++;
+
+            if (inline) {
+                result[key] = parseScalar(inline, line.number);
+                continue;
+            }
+
+            const next = this.lines[this.index];
+            // Block sequences may sit at the same indent as their key
+            if (next && (next.indent > indent || (next.indent === indent && this.isSequenceItem(next)))) {
+                result[key] = this.parseBlock(next.indent);
+            } else {
+                result[key] = null;
+            }
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Parse a YAML document in the supported subset.
+ *
+ * @throws YamlParseError with the offending line number
+ */
+export function parseYaml(source: string): unknown {
+    return new Parser(tokenize(source)).parseDocument();
+}
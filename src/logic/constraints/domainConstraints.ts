@@ -0,0 +1,428 @@
+import type { Domain } from '@/app/data/types';
+import type { DoActionCategory } from '../authority/deriveDoActions';
+import { ACTION_CATEGORIES } from '../actions/actionCatalog';
+import {
+    ContextAttributeValue,
+    DataClassification,
+    DATA_CLASSIFICATIONS,
+    TIME_OF_DAY_PATTERN,
+    VerdictContext,
+    isClassifiedAtLeast,
+} from '../authority/verdictContext';
+
+/**
+ * Domain Constraints (Phase 9L)
+ *
+ * A small, machine-evaluable constraint language for domains. Each constraint
+ * is a condition on a proposed action and an effect when it matches:
+ *
+ *   when:   action categories, amount, target, time window (all optional, ANDed)
+ *           Phase 9M: counterparty, data classification, attributes
+ *   effect: BLOCK | REQUIRE_APPROVAL | CAP_AUTHORITY
+ *
+ * Conditions are matched against the proposed action's VerdictContext.
+ *
+ * Constraints are stored structured and displayed through formatConstraint.
+ * Prose constraints written before Phase 9L are kept as notes: they are shown,
+ * but never evaluated.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - PURE: Same constraint and context → same match
+ * - A condition on a context field the action does not carry is not met
+ * - Time windows are in UTC and may wrap past midnight
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AmountOperator = 'GT' | 'GTE' | 'LT' | 'LTE';
+
+export interface AmountCondition {
+    operator: AmountOperator;
+    value: number;
+    currency?: string;              // ISO code; absent = any currency
+}
+
+export interface TimeWindow {
+    from: string;                   // "HH:MM" UTC, inclusive
+    to: string;                     // "HH:MM" UTC, exclusive; before from = wraps past midnight
+}
+
+export interface ConstraintCondition {
+    categories?: DoActionCategory[];    // Absent or empty = every category
+    amount?: AmountCondition;
+    targets?: string[];                 // Exact targets, or prefixes ending in "*"
+    timeWindow?: TimeWindow;
+    counterparties?: string[];          // Phase 9M: Same patterns as targets
+    minClassification?: DataClassification;    // Phase 9M: Data at least this sensitive
+    attributes?: Record<string, ContextAttributeValue>;    // Phase 9M: Every attribute must be equal
+}
+
+export type ConstraintEffect =
+    | { kind: 'BLOCK' }
+    | { kind: 'REQUIRE_APPROVAL' }
+    | { kind: 'CAP_AUTHORITY'; level: number };
+
+export type ConstraintEffectKind = ConstraintEffect['kind'];
+
+export interface DomainConstraint {
+    id: string;
+    when: ConstraintCondition;
+    effect: ConstraintEffect;
+}
+
+export interface ConstraintIssue {
+    path: string;                   // Relative to the constraint list, e.g. "[0].when.amount"
+    message: string;
+}
+
+// ============================================================================
+// VOCABULARY
+// ============================================================================
+
+export const AMOUNT_OPERATORS: readonly AmountOperator[] = ['GT', 'GTE', 'LT', 'LTE'];
+
+export const CONSTRAINT_EFFECTS: readonly ConstraintEffectKind[] = ['BLOCK', 'REQUIRE_APPROVAL', 'CAP_AUTHORITY'];
+
+export const CAP_AUTHORITY_RANGE = { min: 1, max: 5 } as const;
+
+const OPERATOR_SYMBOLS: Record<AmountOperator, string> = { GT: '>', GTE: '≥', LT: '<', LTE: '≤' };
+
+// ============================================================================
+// AUTHORING
+// ============================================================================
+
+export function createDomainConstraint(
+    existing: DomainConstraint[],
+    when: ConstraintCondition,
+    effect: ConstraintEffect
+): DomainConstraint {
+    let n = existing.length + 1;
+    while (existing.some(c => c.id === `constraint-${n}`)) n++;
+    return { id: `constraint-${n}`, when, effect };
+}
+
+/**
+ * Readable text for a constraint, e.g.
+ * "DATA_MODIFICATION actions with amount > 500 EUR require approval".
+ */
+export function formatConstraint(constraint: DomainConstraint): string {
+    const { categories, amount, targets, timeWindow, counterparties, minClassification, attributes } = constraint.when;
+    const subject = categories && categories.length > 0
+        ? `${categories.join(' or ')} actions`
+        : 'All actions';
+
+    const qualifiers: string[] = [];
+    if (amount) {
+        qualifiers.push(`with amount ${OPERATOR_SYMBOLS[amount.operator]} ${amount.value}${amount.currency ? ` ${amount.currency}` : ''}`);
+    }
+    if (targets && targets.length > 0) {
+        qualifiers.push(`on ${targets.join(' or ')}`);
+    }
+    if (counterparties && counterparties.length > 0) {
+        qualifiers.push(`with ${counterparties.join(' or ')}`);
+    }
+    if (minClassification) {
+        qualifiers.push(`on ${minClassification}${minClassification === 'RESTRICTED' ? '' : ' or more sensitive'} data`);
+    }
+    const attributeEntries = Object.entries(attributes ?? {});
+    if (attributeEntries.length > 0) {
+        qualifiers.push(`where ${attributeEntries.map(([key, value]) => `${key} = ${String(value)}`).join(' and ')}`);
+    }
+    if (timeWindow) {
+        qualifiers.push(`between ${timeWindow.from} and ${timeWindow.to} UTC`);
+    }
+
+    return [subject, ...qualifiers, describeEffect(constraint.effect)].join(' ');
+}
+
+function describeEffect(effect: ConstraintEffect): string {
+    switch (effect.kind) {
+        case 'BLOCK':
+            return 'are blocked';
+        case 'REQUIRE_APPROVAL':
+            return 'require approval';
+        case 'CAP_AUTHORITY':
+            return `are capped at authority ${effect.level}`;
+    }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Whether a constraint's condition holds for an action of this category.
+ */
+export function matchesConstraint(
+    constraint: DomainConstraint,
+    category: DoActionCategory,
+    context: VerdictContext = {}
+): boolean {
+    const { categories } = constraint.when;
+    if (categories && categories.length > 0 && !categories.includes(category)) return false;
+    return matchesCondition(constraint.when, context);
+}
+
+/**
+ * Whether the context-dependent part of a condition holds. Categories are
+ * checked by the caller, so other rule kinds can reuse the condition (Phase 9M).
+ */
+export function matchesCondition(condition: ConstraintCondition, context: VerdictContext): boolean {
+    const { amount, targets, timeWindow, counterparties, minClassification, attributes } = condition;
+
+    if (amount) {
+        if (context.amount === undefined) return false;
+        if (amount.currency && context.amount.currency.toUpperCase() !== amount.currency.toUpperCase()) return false;
+        if (!compareAmount(context.amount.value, amount.operator, amount.value)) return false;
+    }
+
+    if (targets && targets.length > 0 && !matchesAnyPattern(targets, context.targetResource)) return false;
+
+    if (counterparties && counterparties.length > 0 && !matchesAnyPattern(counterparties, context.counterparty)) return false;
+
+    if (minClassification) {
+        if (context.dataClassification === undefined) return false;
+        if (!isClassifiedAtLeast(context.dataClassification, minClassification)) return false;
+    }
+
+    for (const [key, value] of Object.entries(attributes ?? {})) {
+        if (context.attributes?.[key] !== value) return false;
+    }
+
+    if (timeWindow) {
+        if (context.timeOfDay === undefined || !isWithinWindow(context.timeOfDay, timeWindow)) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Constraints of a domain that apply to an action, in authoring order.
+ */
+export function findMatchingConstraints(
+    domain: Pick<Domain, 'constraints'>,
+    category: DoActionCategory,
+    context: VerdictContext = {}
+): DomainConstraint[] {
+    return (domain.constraints ?? []).filter(c => matchesConstraint(c, category, context));
+}
+
+function compareAmount(actual: number, operator: AmountOperator, value: number): boolean {
+    switch (operator) {
+        case 'GT': return actual > value;
+        case 'GTE': return actual >= value;
+        case 'LT': return actual < value;
+        case 'LTE': return actual <= value;
+    }
+}
+
+function matchesAnyPattern(patterns: string[], value: string | undefined): boolean {
+    if (value === undefined) return false;
+    return patterns.some(pattern => pattern.endsWith('*') ? value.startsWith(pattern.slice(0, -1)) : value === pattern);
+}
+
+function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+function isWithinWindow(timeOfDay: string, window: TimeWindow): boolean {
+    if (!TIME_OF_DAY_PATTERN.test(timeOfDay)) return false;
+
+    const minute = toMinutes(timeOfDay);
+    const from = toMinutes(window.from);
+    const to = toMinutes(window.to);
+
+    return from <= to
+        ? minute >= from && minute < to
+        : minute >= from || minute < to;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Validate an untrusted value as a list of domain constraints.
+ * Returns an empty list when every constraint is well-formed.
+ */
+export function validateDomainConstraints(raw: unknown): ConstraintIssue[] {
+    if (!Array.isArray(raw)) return [{ path: '', message: 'Expected a list' }];
+
+    const issues: ConstraintIssue[] = [];
+    const ids = new Set<string>();
+
+    raw.forEach((value, i) => {
+        const path = `[${i}]`;
+        if (!isObject(value)) {
+            issues.push({ path, message: 'Expected a structured constraint' });
+            return;
+        }
+
+        for (const key of Object.keys(value)) {
+            if (!['id', 'when', 'effect'].includes(key)) issues.push({ path: `${path}.${key}`, message: 'Unknown field' });
+        }
+
+        if (typeof value.id !== 'string' || value.id.trim() === '') {
+            issues.push({ path: `${path}.id`, message: 'Must be a non-empty string' });
+        } else if (ids.has(value.id)) {
+            issues.push({ path: `${path}.id`, message: `Duplicate constraint ID "${value.id}"` });
+        } else {
+            ids.add(value.id);
+        }
+
+        issues.push(...validateConstraintCondition(value.when, `${path}.when`));
+        issues.push(...checkEffect(value.effect, `${path}.effect`));
+    });
+
+    return issues;
+}
+
+/**
+ * Validate an untrusted value as a constraint condition (Phase 9M: also used
+ * for learned policy conditions).
+ */
+export function validateConstraintCondition(when: unknown, path: string): ConstraintIssue[] {
+    if (!isObject(when)) return [{ path, message: 'Expected an object' }];
+
+    const issues: ConstraintIssue[] = [];
+    for (const key of Object.keys(when)) {
+        if (!['categories', 'amount', 'targets', 'timeWindow', 'counterparties', 'minClassification', 'attributes'].includes(key)) {
+            issues.push({ path: `${path}.${key}`, message: 'Unknown field' });
+        }
+    }
+
+    if (when.categories !== undefined) {
+        if (!isStringList(when.categories)) {
+            issues.push({ path: `${path}.categories`, message: 'Expected a list of action categories' });
+        } else {
+            when.categories.forEach((category, j) => {
+                if (!ACTION_CATEGORIES.includes(category as DoActionCategory)) {
+                    issues.push({ path: `${path}.categories[${j}]`, message: `Expected one of ${ACTION_CATEGORIES.join(', ')}` });
+                }
+            });
+        }
+    }
+
+    if (when.amount !== undefined) {
+        const amount = when.amount;
+        if (!isObject(amount)) {
+            issues.push({ path: `${path}.amount`, message: 'Expected an object' });
+        } else {
+            if (!AMOUNT_OPERATORS.includes(amount.operator as AmountOperator)) {
+                issues.push({ path: `${path}.amount.operator`, message: `Expected one of ${AMOUNT_OPERATORS.join(', ')}` });
+            }
+            if (typeof amount.value !== 'number' || !Number.isFinite(amount.value)) {
+                issues.push({ path: `${path}.amount.value`, message: 'Expected a number' });
+            }
+            if (amount.currency !== undefined && (typeof amount.currency !== 'string' || amount.currency.trim() === '')) {
+                issues.push({ path: `${path}.amount.currency`, message: 'Must be a non-empty string' });
+            }
+        }
+    }
+
+    for (const key of ['targets', 'counterparties']) {
+        const patterns = when[key];
+        if (patterns !== undefined && (!isStringList(patterns) || patterns.some(p => p.trim() === ''))) {
+            issues.push({ path: `${path}.${key}`, message: 'Expected a list of non-empty patterns' });
+        }
+    }
+
+    if (when.minClassification !== undefined &&
+        !DATA_CLASSIFICATIONS.includes(when.minClassification as DataClassification)) {
+        issues.push({ path: `${path}.minClassification`, message: `Expected one of ${DATA_CLASSIFICATIONS.join(', ')}` });
+    }
+
+    if (when.attributes !== undefined) {
+        if (!isObject(when.attributes)) {
+            issues.push({ path: `${path}.attributes`, message: 'Expected an object' });
+        } else {
+            for (const [key, value] of Object.entries(when.attributes)) {
+                if (!['string', 'number', 'boolean'].includes(typeof value)) {
+                    issues.push({ path: `${path}.attributes.${key}`, message: 'Expected a string, number or boolean' });
+                }
+            }
+        }
+    }
+
+    if (when.timeWindow !== undefined) {
+        const window = when.timeWindow;
+        if (!isObject(window)) {
+            issues.push({ path: `${path}.timeWindow`, message: 'Expected an object' });
+        } else {
+            for (const key of ['from', 'to']) {
+                const time = window[key];
+                if (typeof time !== 'string' || !TIME_OF_DAY_PATTERN.test(time)) {
+                    issues.push({ path: `${path}.timeWindow.${key}`, message: 'Expected a time as HH:MM' });
+                }
+            }
+        }
+    }
+
+    return issues;
+}
+
+function checkEffect(effect: unknown, path: string): ConstraintIssue[] {
+    if (!isObject(effect)) return [{ path, message: 'Expected an object' }];
+
+    if (!CONSTRAINT_EFFECTS.includes(effect.kind as ConstraintEffectKind)) {
+        return [{ path: `${path}.kind`, message: `Expected one of ${CONSTRAINT_EFFECTS.join(', ')}` }];
+    }
+
+    if (effect.kind === 'CAP_AUTHORITY') {
+        const level = effect.level;
+        if (typeof level !== 'number' ||
+            !Number.isInteger(level) ||
+            level < CAP_AUTHORITY_RANGE.min ||
+            level > CAP_AUTHORITY_RANGE.max) {
+            return [{
+                path: `${path}.level`,
+                message: `Must be a whole number between ${CAP_AUTHORITY_RANGE.min} and ${CAP_AUTHORITY_RANGE.max}`,
+            }];
+        }
+    }
+
+    return [];
+}
+
+// ============================================================================
+// LEGACY DOCUMENTS
+// ============================================================================
+
+/**
+ * Move prose constraints (stored before Phase 9L) into constraintNotes.
+ * Applied to anything loaded or imported before it is validated; values that
+ * are not structures pass through untouched.
+ */
+export function upgradeLegacyConstraints<T>(raw: T): T {
+    if (!isObject(raw) || !Array.isArray(raw.domains)) return raw;
+
+    let changed = false;
+    const domains = raw.domains.map(domain => {
+        if (!isObject(domain) || !Array.isArray(domain.constraints)) return domain;
+        const prose = domain.constraints.filter((c): c is string => typeof c === 'string');
+        if (prose.length === 0) return domain;
+
+        changed = true;
+        const existing = isStringList(domain.constraintNotes) ? domain.constraintNotes : [];
+        return {
+            ...domain,
+            constraints: domain.constraints.filter(c => typeof c !== 'string'),
+            constraintNotes: [...existing, ...prose],
+        };
+    });
+
+    return changed ? { ...raw, domains } as T : raw;
+}
@@ -13,6 +13,7 @@
  */
 
 import { PersonaIdentity } from './personaIdentity';
+import { VerdictContext, formatVerdictContext } from '../authority/verdictContext';
 
 // ============================================================================
 // TYPES
@@ -65,6 +66,7 @@ export interface ProposedAction {
     description: string;
     targetResource?: string;
     parameters?: Record<string, any>;
+    context?: VerdictContext;           // Phase 9M: The concrete attempt (counterparty, classification, ...)
 }
 
 // ============================================================================
@@ -123,6 +125,24 @@ export function evaluateEthicalCompatibility(
     };
 }
 
+/**
+ * Ethical veto for a catalog action attempted in a context (Phase 9T).
+ * The authority engine and the readiness persona gate both evaluate actions
+ * this way, so a verdict and its readiness cannot disagree about the veto.
+ */
+export function evaluateActionEthics(
+    personaIdentity: PersonaIdentity,
+    action: { category: string; verbPhrase: string },
+    context: VerdictContext = {}
+): EthicalEvaluationResult {
+    return evaluateEthicalCompatibility(personaIdentity, {
+        actionType: action.category,
+        description: action.verbPhrase,
+        targetResource: context.targetResource,
+        context,
+    });
+}
+
 // ============================================================================
 // VIOLATION DETECTION (PATTERN MATCHING)
 // ============================================================================
@@ -147,6 +167,8 @@ function actionViolatesCommitment(
     const commitmentLower = commitment.toLowerCase();
     const actionDescLower = action.description.toLowerCase();
     const actionTypeLower = action.actionType.toLowerCase();
+    // Phase 9M: "Never share confidential data" also matches a CONFIDENTIAL context
+    const actionContextLower = describeActionContext(action).toLowerCase();
 
     // Example patterns:
     // "Cannot delete user data" → check for "delete" + "user data"
@@ -176,7 +198,7 @@ function actionViolatesCommitment(
 
     // Check if action description or type contains prohibited keywords
     for (const keyword of keywords) {
-        if (actionDescLower.includes(keyword) || actionTypeLower.includes(keyword)) {
+        if (actionDescLower.includes(keyword) || actionTypeLower.includes(keyword) || actionContextLower.includes(keyword)) {
             return true; // Violation detected
         }
     }
@@ -184,6 +206,15 @@ function actionViolatesCommitment(
     return false;
 }
 
+/**
+ * Searchable text for the action's target and context (Phase 9M).
+ */
+function describeActionContext(action: ProposedAction): string {
+    const parts = [action.targetResource ?? ''];
+    if (action.context && Object.keys(action.context).length > 0) parts.push(formatVerdictContext(action.context));
+    return parts.join(' ');
+}
+
 /**
  * Check if action violates an operational constraint.
  * 
@@ -264,6 +264,19 @@ export function getAllPersonaIdentities(): ReadonlyArray<PersonaIdentity> {
     return Object.freeze([...personaIdentityStore]);
 }
 
+/**
+ * Replace all persona identities with previously exported ones (Phase 9D).
+ *
+ * Used by constitution import only. Identities keep their original IDs and
+ * timestamps; nothing is re-authored. Each identity is frozen on the way in.
+ */
+export function replacePersonaIdentities(identities: ReadonlyArray<PersonaIdentity>): void {
+    personaIdentityStore.length = 0;
+    for (const identity of identities) {
+        personaIdentityStore.push(Object.freeze({ ...identity }) as PersonaIdentity);
+    }
+}
+
 /**
  * Clear all persona identities (for testing/reset only).
  */
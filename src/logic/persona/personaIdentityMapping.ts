@@ -13,6 +13,7 @@
 import {
     PersonaIdentity,
     createPersonaIdentity,
+    getAllPersonaIdentities,
     getPersonaIdentityById,
     CapabilityPosture,
     CommunicationStyle,
@@ -231,6 +232,59 @@ export function getPersonaIdentityForAgent(agentId: string): PersonaIdentity | n
     return getPersonaIdentityById(personaId);
 }
 
+/**
+ * Persona identities and the agents they are assigned to, as one document (Phase 9T).
+ * Lets callers outside the UI, such as the decision API, resolve an agent's
+ * identity without the in-memory registries.
+ */
+export interface PersonaAssignments {
+    identities: ReadonlyArray<PersonaIdentity>;
+    agentMappings: Readonly<Record<string, string>>;
+}
+
+/**
+ * Get a copy of the current identities and Agent ID → Persona ID mapping.
+ */
+export function getPersonaAssignments(): PersonaAssignments {
+    return {
+        identities: [...getAllPersonaIdentities()],
+        agentMappings: getAgentPersonaMappings(),
+    };
+}
+
+/**
+ * Persona identity assigned to an agent in the given assignments.
+ *
+ * @returns PersonaIdentity or null if the agent has none (or no assignments were given)
+ */
+export function resolvePersonaIdentity(assignments: PersonaAssignments | undefined, agentId: string): PersonaIdentity | null {
+    const personaId = assignments?.agentMappings[agentId];
+    if (!personaId) {
+        return null;
+    }
+    return assignments.identities.find(identity => identity.personaId === personaId) ?? null;
+}
+
+/**
+ * Get a copy of the current Agent ID → Persona ID mapping.
+ * Used by structure snapshots (Phase 9C).
+ */
+export function getAgentPersonaMappings(): Record<string, string> {
+    return { ...agentToPersonaMap };
+}
+
+/**
+ * Replace the whole Agent ID → Persona ID mapping.
+ * Used by constitution import (Phase 9D) and snapshot rollback (Phase 9C),
+ * after identities are replaced.
+ */
+export function replaceAgentPersonaMappings(mappings: Record<string, string>): void {
+    for (const agentId of Object.keys(agentToPersonaMap)) {
+        delete agentToPersonaMap[agentId];
+    }
+    Object.assign(agentToPersonaMap, mappings);
+}
+
 /**
  * Initialize all mappings (call once on app start).
  */
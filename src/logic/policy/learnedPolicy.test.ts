@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import { AuthorityDirection, AuthorityModel, compareAuthorityModels, deriveLearnedPolicy, validateMonotonicity } from './learnedPolicy';
+import { PolicyChangeProposal } from '../staging/stagedActions';
+
+describe('Learned policy monotonicity', () => {
+    const current: AuthorityModel = {
+        authorityCeiling: 3,
+        executionSurface: 'WRITE',
+        actions: { finance_post_adjustment: 'REQUIRES_APPROVAL' },
+    };
+
+    const proposal = (after: AuthorityModel, afterDescription: string): PolicyChangeProposal => ({
+        proposalId: 'proposal-1',
+        sourceApprovalIntentId: 'intent-1',
+        createdAt: '2025-01-15T09:30:00.000Z',
+        scope: 'AGENT',
+        targetId: 'agt-fin-recon',
+        targetName: 'Reconciler X',
+        actionId: 'finance_post_adjustment',
+        actionCategory: 'DECISION_MAKING',
+        proposedChangeType: 'ACTION_PERMISSION',
+        beforeState: { description: 'Post adjustment requires human approval' },
+        afterState: { description: afterDescription },
+        beforeAuthority: current,
+        afterAuthority: after,
+        humanJustification: 'Quarter-end adjustments are routine for this agent',
+        systemReasoning: 'Derived from a single approval.',
+        status: 'CONFIRMED',
+    });
+
+    it('rejects an expansion whatever its prose says', () => {
+        const reworded = proposal(
+            { ...current, actions: { finance_post_adjustment: 'AUTONOMOUS' } },
+            'Post adjustment still requires approval from the finance lead'
+        );
+        const validation = validateMonotonicity(reworded);
+        expect(validation.valid).toBe(false);
+        expect(validation.direction).toBe(AuthorityDirection.EXPAND);
+        expect(validation.violations).toContain('actions.finance_post_adjustment: REQUIRES_APPROVAL → AUTONOMOUS');
+        expect(deriveLearnedPolicy(reworded)).toBeNull();
+    });
+
+    it('accepts a restriction whatever its prose says', () => {
+        const validation = validateMonotonicity(proposal(
+            { ...current, actions: { finance_post_adjustment: 'NOT_PERMITTED' } },
+            'Reconciler X would have greater autonomy'
+        ));
+        expect(validation.valid).toBe(true);
+        expect(validation.direction).toBe(AuthorityDirection.RESTRICT);
+    });
+
+    it('treats a trade of one restriction for one expansion as an expansion', () => {
+        const { direction, changes } = compareAuthorityModels(current, {
+            authorityCeiling: 2,
+            executionSurface: 'EXECUTE',
+            actions: { finance_post_adjustment: 'REQUIRES_APPROVAL', finance_match_transactions: 'AUTONOMOUS' },
+        });
+        expect(direction).toBe(AuthorityDirection.EXPAND);
+        expect(changes.map(c => [c.field, c.direction])).toEqual([
+            ['authorityCeiling', 'RESTRICT'],
+            ['executionSurface', 'EXPAND'],
+            ['actions.finance_match_transactions', 'EXPAND'],
+        ]);
+    });
+});
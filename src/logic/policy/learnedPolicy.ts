@@ -1,4 +1,11 @@
-import { PolicyChangeProposal } from '../staging/stagedActions';
+import { PolicyChangeProposal, ProposalScope } from '../staging/stagedActions';
+import type { DoActionCategory } from '../authority/deriveDoActions';
+import { VerdictContext } from '../authority/verdictContext';
+import { ConstraintCondition, matchesCondition } from '../constraints/domainConstraints';
+import { recordGovernanceEvent } from '../audit/auditLedger';
+import { Clock, systemClock } from '@/utils/clock';
+import { AuthorityResult, ExecutionSurface } from '../authority/deriveAuthority';
+import { ACTION_SURFACES } from '../actions/actionCatalog';
 
 /**
  * Policy Learning System (Phase 5A)
@@ -6,8 +13,9 @@ import { PolicyChangeProposal } from '../staging/stagedActions';
  * Pure logic for learning policies from human approvals.
  * 
  * CRITICAL CONSTRAINTS:
- * - NO EXECUTION: Policies are inert records, never executed
- * - NO BEHAVIOR ADAPTATION: System cannot modify its own behavior
+ * - NO EXECUTION: Policies are records, never executed
+ * - NO BEHAVIOR ADAPTATION: System cannot modify its own behavior; callers may opt in
+ *   to having in-force policies tighten evaluations (Phase 9U, see policyApplication)
  * - MONOTONIC AUTHORITY: Policies can only restrict, never expand authority
  * - LPS LAYER BOUNDARIES: Only Policy layer can be modified
  * - EAPP COMPLIANCE: All policies must pass Ethics-Aligned Persona Protocol validation
@@ -187,6 +195,33 @@ export enum AuthorityDirection {
     RESTRICT = 'RESTRICT',
 }
 
+/**
+ * How an action may be taken, from most to least authority (Phase 9W).
+ */
+export type ActionPermission = 'AUTONOMOUS' | 'REQUIRES_APPROVAL' | 'NOT_PERMITTED';
+
+export const ACTION_PERMISSIONS: readonly ActionPermission[] = ['AUTONOMOUS', 'REQUIRES_APPROVAL', 'NOT_PERMITTED'];
+
+/**
+ * Machine-readable authority a proposal states before and after (Phase 9W).
+ * Monotonicity is computed by comparing two models; prose states are display only.
+ */
+export interface AuthorityModel {
+    authorityCeiling: number;                   // Effective authority level (0-5)
+    executionSurface: ExecutionSurface | null;  // Highest surface in force (null = none)
+    actions: Record<string, ActionPermission>;  // Catalog action ID → permission (absent = NOT_PERMITTED)
+}
+
+/**
+ * One field that differs between two authority models.
+ */
+export interface AuthorityModelChange {
+    field: string;                              // "authorityCeiling", "executionSurface" or "actions.<id>"
+    before: string;
+    after: string;
+    direction: AuthorityDirection.EXPAND | AuthorityDirection.RESTRICT;
+}
+
 /**
  * Monotonicity validation result
  */
@@ -212,6 +247,19 @@ export type PolicyConstraintType =
     | 'NEVER_ALLOW_AUTONOMOUS'      // Block autonomous execution entirely
     | 'REDUCE_AUTHORITY_LEVEL';     // Lower authority ceiling for action category
 
+/**
+ * What a learned policy governs (Phase 9V)
+ *
+ * Entities are referenced by ID, so renaming a domain or agent never orphans
+ * a policy. The optional action ID and category narrow it to some actions.
+ */
+export interface PolicyTarget {
+    scope: ProposalScope;
+    targetId: string;                 // Organization, domain or agent ID
+    actionId?: string;                // Only this catalog action (absent = every action)
+    category?: DoActionCategory;      // Only actions in this category (absent = every category)
+}
+
 /**
  * Learned policy constraint details
  */
@@ -219,7 +267,9 @@ export interface LearnedPolicyConstraint {
     type: PolicyConstraintType;
     description: string;              // Human-readable constraint
     technicalDetails: string;         // How it would be enforced
-    affectedScope: string;            // What this applies to (agent, domain, org)
+    affectedScope: string;            // Display label as learned, e.g. "AGENT: Reconciler X"; never matched against
+    target: PolicyTarget;             // Phase 9V: What this applies to
+    when?: ConstraintCondition;       // Phase 9M: Only attempts whose context matches (absent = every attempt)
 }
 
 /**
@@ -236,9 +286,10 @@ export interface PolicyState {
  * 
  * Immutable record of a policy learned from human approval.
  * 
- * CRITICAL: INERT RECORD ONLY
- * This is a memory artifact. It does NOT execute, apply, or modify system behavior.
- * Confirming a learned policy does NOT activate it.
+ * CRITICAL: RECORD ONLY
+ * This is a memory artifact. It does NOT execute or modify system behavior.
+ * Confirming a learned policy does NOT activate it; only callers that pass it
+ * to the authority engine (Phase 9U) see it tighten their evaluations.
  */
 export interface LearnedPolicy {
     // Identity
@@ -350,10 +401,9 @@ function checkDeclaredIntent(proposal: PolicyChangeProposal): ValidationCheck {
  * They can only preserve or restrict.
  */
 function checkBoundedAuthority(proposal: PolicyChangeProposal): ValidationCheck {
-    // Authority-increasing changes are categorically invalid
+    // Authority-increasing changes are categorically invalid (Phase 9W: compared structurally)
     const expandsAuthority =
-        proposal.proposedChangeType === 'AUTHORITY_ADJUSTMENT' &&
-        proposal.afterState.description.includes('would have elevated');
+        compareAuthorityModels(proposal.beforeAuthority, proposal.afterAuthority).direction === AuthorityDirection.EXPAND;
 
     if (expandsAuthority) {
         return {
@@ -515,13 +565,17 @@ function determineAffectedLayers(proposal: PolicyChangeProposal): LPSLayer[] {
  * - Safeguards accumulate over time
  */
 export function validateMonotonicity(proposal: PolicyChangeProposal): MonotonicityValidation {
-    const direction = determineAuthorityDirection(proposal);
+    // Phase 9W: Compared structurally; the prose states never decide
+    const { direction, changes } = compareAuthorityModels(proposal.beforeAuthority, proposal.afterAuthority);
     const violations: string[] = [];
 
     // EXPAND is categorically invalid
     if (direction === AuthorityDirection.EXPAND) {
         violations.push('Policy would increase authority. Monotonic constraint violated.');
         violations.push('Learned policies can only restrict or maintain authority, never expand.');
+        changes
+            .filter(change => change.direction === AuthorityDirection.EXPAND)
+            .forEach(change => violations.push(`${change.field}: ${change.before} → ${change.after}`));
     }
 
     const valid = direction !== AuthorityDirection.EXPAND;
@@ -537,43 +591,73 @@ export function validateMonotonicity(proposal: PolicyChangeProposal): Monotonici
 }
 
 /**
- * Determine authority direction from before/after states.
+ * Compare two authority models field by field (Phase 9W).
+ *
+ * Any field that gains authority makes the whole change EXPAND, even when
+ * others lose some: a trade is still an expansion.
  */
-function determineAuthorityDirection(proposal: PolicyChangeProposal): AuthorityDirection {
-    const before = proposal.beforeState.description.toLowerCase();
-    const after = proposal.afterState.description.toLowerCase();
-
-    // Check for authority expansion indicators
-    const expandIndicators = [
-        'elevated authority',
-        'would have elevated',
-        'increased to permit',
-        'permitted autonomously',
-        'not require escalation',
-        'greater autonomy',
-    ];
-
-    const isExpanding = expandIndicators.some(indicator => after.includes(indicator));
-    if (isExpanding) {
-        return AuthorityDirection.EXPAND;
+export function compareAuthorityModels(before: AuthorityModel, after: AuthorityModel): {
+    direction: AuthorityDirection;
+    changes: AuthorityModelChange[];
+} {
+    const changes: AuthorityModelChange[] = [];
+    // Ranks grow with authority
+    const compare = (field: string, beforeValue: string, afterValue: string, beforeRank: number, afterRank: number) => {
+        if (afterRank === beforeRank) return;
+        changes.push({
+            field,
+            before: beforeValue,
+            after: afterValue,
+            direction: afterRank > beforeRank ? AuthorityDirection.EXPAND : AuthorityDirection.RESTRICT,
+        });
+    };
+    const surfaceRank = (surface: ExecutionSurface | null) => surface === null ? -1 : ACTION_SURFACES.indexOf(surface);
+    const permissionRank = (permission: ActionPermission) => -ACTION_PERMISSIONS.indexOf(permission);
+
+    compare(
+        'authorityCeiling',
+        String(before.authorityCeiling), String(after.authorityCeiling),
+        before.authorityCeiling, after.authorityCeiling
+    );
+    compare(
+        'executionSurface',
+        before.executionSurface ?? 'NONE', after.executionSurface ?? 'NONE',
+        surfaceRank(before.executionSurface), surfaceRank(after.executionSurface)
+    );
+
+    const actionIds = Array.from(new Set([...Object.keys(before.actions), ...Object.keys(after.actions)])).sort();
+    for (const actionId of actionIds) {
+        const beforePermission = before.actions[actionId] ?? 'NOT_PERMITTED';
+        const afterPermission = after.actions[actionId] ?? 'NOT_PERMITTED';
+        compare(
+            `actions.${actionId}`,
+            beforePermission, afterPermission,
+            permissionRank(beforePermission), permissionRank(afterPermission)
+        );
     }
 
-    // Check for authority restriction indicators
-    const restrictIndicators = [
-        'requires approval',
-        'limited authority',
-        'requires escalation',
-        'not permitted',
-        'restricted to',
-    ];
-
-    const isRestricting = restrictIndicators.some(indicator => after.includes(indicator));
-    if (isRestricting) {
-        return AuthorityDirection.RESTRICT;
-    }
+    const direction = changes.some(c => c.direction === AuthorityDirection.EXPAND) ? AuthorityDirection.EXPAND
+        : changes.length > 0 ? AuthorityDirection.RESTRICT
+            : AuthorityDirection.MAINTAIN;
+    return { direction, changes };
+}
 
-    // No change detected
-    return AuthorityDirection.MAINTAIN;
+/**
+ * The authority model a subject has for one action (Phase 9W).
+ */
+export function deriveAuthorityModel(
+    authority: AuthorityResult,
+    actionId: string,
+    verdictStatus: 'ALLOWED' | 'BLOCKED' | 'ESCALATION_REQUIRED'
+): AuthorityModel {
+    const permission: ActionPermission =
+        verdictStatus === 'ALLOWED' ? 'AUTONOMOUS' :
+            verdictStatus === 'ESCALATION_REQUIRED' ? 'REQUIRES_APPROVAL' : 'NOT_PERMITTED';
+    return {
+        authorityCeiling: authority.effectiveAuthorityLevel,
+        executionSurface: authority.effectiveExecutionSurface,
+        actions: { [actionId]: permission },
+    };
 }
 
 // ============================================================================
@@ -679,11 +763,17 @@ function deriveConstraint(proposal: PolicyChangeProposal): LearnedPolicyConstrai
             break;
     }
 
+    // Phase 9V: Approval rules name the action; authority and escalation rules its category
+    const target: PolicyTarget = proposal.proposedChangeType === 'ACTION_PERMISSION'
+        ? { scope: proposal.scope, targetId: proposal.targetId, actionId: proposal.actionId }
+        : { scope: proposal.scope, targetId: proposal.targetId, category: proposal.actionCategory };
+
     return {
         type,
         description,
         technicalDetails,
         affectedScope: `${proposal.scope}: ${proposal.targetName}`,
+        target,
     };
 }
 
@@ -779,6 +869,28 @@ export function deriveLearnedPolicy(proposal: PolicyChangeProposal): LearnedPoli
     return policy;
 }
 
+// ============================================================================
+// POLICY CONDITIONS (PHASE 9M)
+// ============================================================================
+
+/**
+ * Whether a policy's target and condition hold for a proposed action.
+ * Policies without either cover every attempt.
+ */
+export function policyMatchesAction(
+    policy: LearnedPolicy,
+    actionId: string,
+    category: DoActionCategory,
+    context: VerdictContext
+): boolean {
+    const { target, when } = policy.constraint;
+    if (target.actionId && target.actionId !== actionId) return false;
+    if (target.category && target.category !== category) return false;
+    if (!when) return true;
+    if (when.categories && when.categories.length > 0 && !when.categories.includes(category)) return false;
+    return matchesCondition(when, context);
+}
+
 // ============================================================================
 // POLICY LIFECYCLE MANAGEMENT (PHASE 5B)
 // ============================================================================
@@ -826,10 +938,11 @@ export function createPolicyLifecycle(
  * Expired policies do NOT contribute to authority derivation.
  * 
  * @param lifecycle - Policy lifecycle
+ * @param clock - Phase 9Y: Time to check against (defaults to the system clock)
  * @returns true if expired
  */
-export function isExpired(lifecycle: PolicyLifecycle): boolean {
-    const now = new Date();
+export function isExpired(lifecycle: PolicyLifecycle, clock: Clock = systemClock): boolean {
+    const now = new Date(clock());
     const expiryDate = new Date(lifecycle.expiresAt);
     return now > expiryDate;
 }
@@ -840,10 +953,11 @@ export function isExpired(lifecycle: PolicyLifecycle): boolean {
  * A policy needs review if current time > nextReviewDate.
  * 
  * @param lifecycle - Policy lifecycle
+ * @param clock - Phase 9Y: Time to check against (defaults to the system clock)
  * @returns true if review needed
  */
-export function needsReview(lifecycle: PolicyLifecycle): boolean {
-    const now = new Date();
+export function needsReview(lifecycle: PolicyLifecycle, clock: Clock = systemClock): boolean {
+    const now = new Date(clock());
     const reviewDate = new Date(lifecycle.nextReviewDate);
     return now > reviewDate;
 }
@@ -853,6 +967,8 @@ export function needsReview(lifecycle: PolicyLifecycle): boolean {
  * 
  * CRITICAL: CANNOT RENEW EXPIRED POLICIES
  * Expired policies require re-approval through the full derivation process.
+ *
+ * Phase 9R: Recorded in the audit ledger.
  * 
  * @param policy - LearnedPolicy to renew
  * @param reviewIntervalDays - New review interval (optional, uses existing if not provided)
@@ -893,6 +1009,18 @@ export function renewPolicy(
         status: PolicyStatus.ACTIVE, // back to active if was under review
     };
 
+    recordGovernanceEvent({
+        type: 'POLICY_RENEWED',
+        actor: 'current-user', // Placeholder
+        subjectId: policy.policyId,
+        summary: `Renewed policy "${policy.constraint.description}" for ${interval} days`,
+        changes: [
+            { field: 'status', before: policy.lifecycle.status, after: updatedLifecycle.status },
+            { field: 'nextReviewDate', before: policy.lifecycle.nextReviewDate, after: updatedLifecycle.nextReviewDate },
+            { field: 'expiresAt', before: policy.lifecycle.expiresAt, after: updatedLifecycle.expiresAt },
+        ],
+    });
+
     return {
         ...policy,
         lifecycle: updatedLifecycle,
@@ -904,6 +1032,8 @@ export function renewPolicy(
  * 
  * This is an explicit human decision to let a policy expire.
  * The policy immediately becomes inactive and does not affect authority.
+ *
+ * Phase 9R: Recorded in the audit ledger.
  * 
  * @param policy - LearnedPolicy to expire
  * @returns Updated LearnedPolicy with EXPIRED status
@@ -914,6 +1044,14 @@ export function letPolicyExpire(policy: LearnedPolicy): LearnedPolicy {
         status: PolicyStatus.EXPIRED,
     };
 
+    recordGovernanceEvent({
+        type: 'POLICY_EXPIRED',
+        actor: 'current-user', // Placeholder
+        subjectId: policy.policyId,
+        summary: `Let policy "${policy.constraint.description}" expire`,
+        changes: [{ field: 'status', before: policy.lifecycle.status, after: updatedLifecycle.status }],
+    });
+
     return {
         ...policy,
         lifecycle: updatedLifecycle,
@@ -927,9 +1065,10 @@ export function letPolicyExpire(policy: LearnedPolicy): LearnedPolicy {
  * and updates status accordingly.
  * 
  * @param policy - LearnedPolicy to check
+ * @param clock - Phase 9Y: Time to check against (defaults to the system clock)
  * @returns Updated LearnedPolicy with current status
  */
-export function updatePolicyStatus(policy: LearnedPolicy): LearnedPolicy {
+export function updatePolicyStatus(policy: LearnedPolicy, clock: Clock = systemClock): LearnedPolicy {
     // Don't change if already expired or overridden
     if (policy.lifecycle.status === PolicyStatus.EXPIRED ||
         policy.lifecycle.status === PolicyStatus.OVERRIDDEN) {
@@ -939,11 +1078,11 @@ export function updatePolicyStatus(policy: LearnedPolicy): LearnedPolicy {
     let newStatus: PolicyStatus = policy.lifecycle.status;
 
     // Check if expired
-    if (isExpired(policy.lifecycle)) {
+    if (isExpired(policy.lifecycle, clock)) {
         newStatus = PolicyStatus.EXPIRED;
     }
     // Check if needs review
-    else if (needsReview(policy.lifecycle)) {
+    else if (needsReview(policy.lifecycle, clock)) {
         newStatus = PolicyStatus.UNDER_REVIEW;
     }
 
@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import { DecisionConfiguration, decide } from '../runtime/decisionService';
+import { DEFAULT_ACTION_CATALOG } from '../actions/actionCatalog';
+import { PolicyConstraintType, PolicyTarget } from './learnedPolicy';
+import { OverrideScope, PolicyOverride } from './policyOverride';
+import { policiesInForce } from './policyApplication';
+import { learnedPolicyFixture, nestedReconciliationFixture, policyOverrideFixture } from './policyFixtures';
+import { fixedClock } from '@/utils/clock';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+
+describe('Policy Application', () => {
+    const clock = fixedClock('2025-01-15T09:30:00.000Z');
+    const base: DecisionConfiguration = { structure: PHASE0_DATA, catalog: DEFAULT_ACTION_CATALOG, clock };
+    const request = { agentId: 'agt-fin-recon', actionId: 'finance_match_transactions' };
+
+    const reconciler: PolicyTarget = { scope: 'AGENT', targetId: 'agt-fin-recon', category: 'DATA_MODIFICATION' };
+
+    const policy = (policyId: string, type: PolicyConstraintType, target: PolicyTarget, expiresAt?: string) =>
+        learnedPolicyFixture(policyId, { type, target, expiresAt });
+    const override = (targetPolicyId: string, scope: OverrideScope) =>
+        policyOverrideFixture(`override-${targetPolicyId}-${scope}`, targetPolicyId, { scope });
+
+    const severity = { ALLOWED: 0, ESCALATION_REQUIRED: 1, BLOCKED: 2 };
+
+    it('requires approval for an allowed action and cites the policy', () => {
+        expect(decide(base, request).decision.status).toBe('ALLOWED');
+
+        const applied = policy('policy-approve', 'ALWAYS_REQUIRE_APPROVAL', reconciler);
+        const verdict = decide({ ...base, policies: { policies: [applied], overrides: [] } }, request);
+        expect(verdict.decision.status).toBe('ESCALATION_REQUIRED');
+        expect(verdict.escalation?.required).toBe(true);
+        expect(verdict.reasoning.appliedConstraints).toContainEqual({
+            source: 'AGENT',
+            description: 'Learned policy policy-approve: ALWAYS_REQUIRE_APPROVAL for AGENT agt-fin-recon.',
+        });
+    });
+
+    it('ignores expired and out-of-scope policies', () => {
+        const policies = [
+            policy('policy-expired', 'ALWAYS_REQUIRE_APPROVAL', reconciler, '2025-01-01T00:00:00.000Z'),
+            policy('policy-elsewhere', 'ALWAYS_REQUIRE_APPROVAL', { ...reconciler, scope: 'DOMAIN', targetId: 'dom-cust' }),
+            policy('policy-other-action', 'ALWAYS_REQUIRE_APPROVAL', { scope: 'AGENT', targetId: 'agt-fin-recon', actionId: 'finance_review_ledger' }),
+        ];
+        expect(policiesInForce({ policies, overrides: [] }, clock()).map(p => p.policyId)).toEqual(['policy-elsewhere', 'policy-other-action']);
+
+        const verdict = decide({ ...base, policies: { policies, overrides: [] } }, request);
+        expect(verdict.decision.status).toBe('ALLOWED');
+    });
+
+    it('applies a domain\'s policies to agents in its sub-domains', () => {
+        const finance = policy('policy-finance', 'ALWAYS_REQUIRE_APPROVAL', { scope: 'DOMAIN', targetId: 'dom-fin', category: 'DATA_MODIFICATION' });
+        const nested: DecisionConfiguration = { ...base, structure: nestedReconciliationFixture() };
+        expect(decide(nested, request).decision.status).toBe('ALLOWED');
+
+        const verdict = decide({ ...nested, policies: { policies: [finance], overrides: [] } }, request);
+        expect(verdict.decision.status).toBe('ESCALATION_REQUIRED');
+        expect(verdict.reasoning.appliedConstraints).toContainEqual({
+            source: 'DOMAIN',
+            description: 'Learned policy policy-finance: ALWAYS_REQUIRE_APPROVAL for DOMAIN dom-fin.',
+        });
+    });
+
+    it('lets an active override shadow a policy only within its own scope', () => {
+        const policies = [
+            policy('policy-agent', 'ALWAYS_REQUIRE_APPROVAL', reconciler),
+            policy('policy-org', 'ALWAYS_REQUIRE_APPROVAL', { scope: 'ORGANIZATION', targetId: PHASE0_DATA.organization.id }),
+        ];
+        const inForce = (...overrides: PolicyOverride[]) => policiesInForce({ policies, overrides }, clock()).map(p => p.policyId);
+
+        expect(inForce(override('policy-agent', OverrideScope.INSTANCE_ONLY), override('policy-org', OverrideScope.INSTANCE_ONLY)))
+            .toEqual(['policy-agent', 'policy-org']);
+        expect(inForce(override('policy-agent', OverrideScope.DOMAIN), override('policy-org', OverrideScope.DOMAIN)))
+            .toEqual(['policy-org']);
+        expect(inForce(override('policy-agent', OverrideScope.ORGANIZATION), override('policy-org', OverrideScope.ORGANIZATION)))
+            .toEqual([]);
+        expect(inForce(policyOverrideFixture('override-withdrawn', 'policy-org', { isActive: false }))).toEqual(['policy-agent', 'policy-org']);
+
+        const instanceOnly = { policies, overrides: [override('policy-agent', OverrideScope.INSTANCE_ONLY)] };
+        expect(decide({ ...base, policies: instanceOnly }, request).decision.status).toBe('ESCALATION_REQUIRED');
+    });
+
+    it('never makes a verdict less strict', () => {
+        const policies = (['ALWAYS_REQUIRE_APPROVAL', 'REDUCE_AUTHORITY_LEVEL', 'RESTRICT_TO_DOMAIN'] as PolicyConstraintType[])
+            .map(type => policy(`policy-${type}`, type, { scope: 'ORGANIZATION', targetId: PHASE0_DATA.organization.id }));
+        const tightened: DecisionConfiguration = { ...base, policies: { policies, overrides: [] } };
+
+        PHASE0_DATA.agents.forEach(agent => {
+            DEFAULT_ACTION_CATALOG.entries.forEach(action => {
+                const attempt = { agentId: agent.id, actionId: action.id };
+                const before = decide(base, attempt).decision.status;
+                const after = decide(tightened, attempt).decision.status;
+                expect(severity[after] >= severity[before]).toBe(true);
+            });
+        });
+    });
+});
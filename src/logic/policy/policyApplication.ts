@@ -0,0 +1,112 @@
+import { Agent, Domain } from '@/app/data/types';
+import { LearnedPolicy, PolicyConstraintType, PolicyStatus } from './learnedPolicy';
+import { OverrideScope, PolicyOverride } from './policyOverride';
+import { ProposalScope } from '../staging/stagedActions';
+
+/**
+ * Policy Application (Phase 9U)
+ *
+ * Opt-in layer that lets learned policies tighten authority evaluation.
+ * Callers that pass no policies get exactly the evaluation they always had.
+ *
+ * A policy applies to an attempt when it is in force (ACTIVE or UNDER_REVIEW, not expired,
+ * not shadowed by an active override whose scope reaches as far as the policy),
+ * its target covers the subject and
+ * the action, and its condition matches the attempt. Effects, evaluated by the authority engine:
+ * - ALWAYS_REQUIRE_APPROVAL, NEVER_ALLOW_AUTONOMOUS: allowed actions need approval
+ * - REDUCE_AUTHORITY_LEVEL: effective authority is one level lower for the action
+ * - RESTRICT_TO_DOMAIN: names no action to restrict, so it is cited but has no effect
+ *
+ * CRITICAL CONSTRAINTS:
+ * - MONOTONIC: Policies only ever tighten; no policy can allow what the structure blocks
+ * - CITED: Every applied policy appears in the verdict's applied constraints
+ * - PURE: Callers choose the policies; nothing here reads the policy store
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PolicySet {
+    policies: ReadonlyArray<LearnedPolicy>;
+    overrides: ReadonlyArray<PolicyOverride>;
+}
+
+/**
+ * Constraint types that require approval for otherwise allowed actions.
+ */
+export const APPROVAL_POLICY_TYPES: ReadonlyArray<PolicyConstraintType> = ['ALWAYS_REQUIRE_APPROVAL', 'NEVER_ALLOW_AUTONOMOUS'];
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+/**
+ * Policies that may affect evaluations at the given instant.
+ */
+export function policiesInForce(set: PolicySet | undefined, at: string): LearnedPolicy[] {
+    if (!set) return [];
+    const now = Date.parse(at);
+
+    return set.policies.filter(policy => {
+        // Phase 9Y: A policy due for review keeps applying until it is renewed or expires
+        if (policy.lifecycle.status !== PolicyStatus.ACTIVE && policy.lifecycle.status !== PolicyStatus.UNDER_REVIEW) return false;
+        if (Date.parse(policy.lifecycle.expiresAt) <= now) return false;
+        return !set.overrides.some(override =>
+            override.targetPolicyId === policy.policyId
+            && override.isActive
+            && Date.parse(override.expiresAt) > now
+            && overrideReachesPolicy(override, policy)
+        );
+    });
+}
+
+/**
+ * Whether an override's scope covers everything its policy targets, so the
+ * policy is shadowed wherever it would apply.
+ * - ORGANIZATION: every policy
+ * - DOMAIN: policies confined to one domain (DOMAIN or AGENT targets); an
+ *   organization-wide policy keeps applying outside the domain
+ * - INSTANCE_ONLY: a single attempt, never evaluations in general
+ */
+function overrideReachesPolicy(override: PolicyOverride, policy: LearnedPolicy): boolean {
+    switch (override.scope) {
+        case OverrideScope.ORGANIZATION:
+            return true;
+        case OverrideScope.DOMAIN:
+            return policy.constraint.target.scope !== 'ORGANIZATION';
+        case OverrideScope.INSTANCE_ONLY:
+            return false;
+    }
+}
+
+/**
+ * Whether a policy's target covers the subject (see policyMatchesAction for the action).
+ * Organization-scoped policies cover every subject: the policy store only
+ * ever holds the active organization's policies.
+ *
+ * Phase 9F: A domain's policies also cover its sub-domains, so ancestors
+ * (the subject domain's enclosing domains) are matched too.
+ */
+export function policyCoversSubject(policy: LearnedPolicy, agent: Agent | null, domain: Domain | null, ancestors: Domain[] = []): boolean {
+    const { scope, targetId } = policy.constraint.target;
+
+    switch (scope) {
+        case 'ORGANIZATION':
+            return true;
+        case 'DOMAIN':
+            return domain?.id === targetId || ancestors.some(a => a.id === targetId);
+        case 'AGENT':
+            return agent?.id === targetId;
+    }
+}
+
+/**
+ * Citation for an applied policy, attributed to the level it targets.
+ */
+export function formatPolicyCitation(policy: LearnedPolicy): { source: ProposalScope; description: string } {
+    return {
+        source: policy.constraint.target.scope,
+        description: `Learned policy ${policy.policyId}: ${policy.constraint.description}.`,
+    };
+}
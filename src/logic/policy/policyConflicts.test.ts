@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_ACTION_CATALOG } from '../actions/actionCatalog';
+import { LearnedPolicy, PolicyConstraintType, PolicyTarget } from './learnedPolicy';
+import { PolicyOverride } from './policyOverride';
+import { analyzePolicies } from './policyConflicts';
+import { learnedPolicyFixture, nestedReconciliationFixture, policyOverrideFixture } from './policyFixtures';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+
+describe('Policy Conflict Analysis', () => {
+    const at = '2025-01-15T09:30:00.000Z';
+    const organization: PolicyTarget = { scope: 'ORGANIZATION', targetId: PHASE0_DATA.organization.id, category: 'DATA_MODIFICATION' };
+    const reconciler: PolicyTarget = { scope: 'AGENT', targetId: 'agt-fin-recon', category: 'DATA_MODIFICATION' };
+
+    const policy = (policyId: string, type: PolicyConstraintType, target: PolicyTarget) =>
+        learnedPolicyFixture(policyId, { type, target });
+    const override = (overrideId: string, targetPolicyId: string, createdAt: string) =>
+        policyOverrideFixture(overrideId, targetPolicyId, { createdAt });
+
+    const analyze = (policies: LearnedPolicy[], overrides: PolicyOverride[] = []) =>
+        analyzePolicies({ policies, overrides }, PHASE0_DATA, DEFAULT_ACTION_CATALOG, at);
+
+    it('reports duplicates and policies an organization-wide one subsumes', () => {
+        const findings = analyze([
+            policy('policy-org', 'ALWAYS_REQUIRE_APPROVAL', organization),
+            policy('policy-agent', 'NEVER_ALLOW_AUTONOMOUS', reconciler),
+            policy('policy-agent-again', 'NEVER_ALLOW_AUTONOMOUS', reconciler),
+        ]);
+        expect(findings.map(f => [f.kind, f.policyIds[0], f.suggestion.action])).toEqual([
+            ['DUPLICATE', 'policy-agent-again', 'LET_EXPIRE'],
+            ['SUBSUMED', 'policy-agent', 'LET_EXPIRE'],
+        ]);
+    });
+
+    it('treats a domain\'s policy as covering its sub-domains', () => {
+        const findings = analyzePolicies(
+            {
+                policies: [
+                    policy('policy-finance', 'ALWAYS_REQUIRE_APPROVAL', { scope: 'DOMAIN', targetId: 'dom-fin', category: 'DATA_MODIFICATION' }),
+                    policy('policy-reconciliation', 'NEVER_ALLOW_AUTONOMOUS', { scope: 'DOMAIN', targetId: 'dom-fin-recon', category: 'DATA_MODIFICATION' }),
+                    policy('policy-agent', 'NEVER_ALLOW_AUTONOMOUS', reconciler),
+                ],
+                overrides: [],
+            },
+            nestedReconciliationFixture(),
+            DEFAULT_ACTION_CATALOG,
+            at
+        );
+        expect(findings.map(f => [f.kind, f.policyIds[0]])).toEqual([
+            ['SUBSUMED', 'policy-reconciliation'],
+            ['SUBSUMED', 'policy-agent'],
+        ]);
+    });
+
+    it('reports different effects on the same attempts for review', () => {
+        const findings = analyze([
+            policy('policy-reduce', 'REDUCE_AUTHORITY_LEVEL', { scope: 'DOMAIN', targetId: 'dom-fin', category: 'DATA_MODIFICATION' }),
+            policy('policy-approve', 'ALWAYS_REQUIRE_APPROVAL', { scope: 'AGENT', targetId: 'agt-fin-recon', actionId: 'finance_match_transactions' }),
+            policy('policy-elsewhere', 'ALWAYS_REQUIRE_APPROVAL', { scope: 'AGENT', targetId: 'agt-cust-triage' }),
+        ]);
+        expect(findings.map(f => [f.kind, f.policyIds, f.suggestion.action])).toEqual([
+            ['CONFLICTING_EFFECTS', ['policy-approve', 'policy-reduce'], 'REVIEW'],
+        ]);
+    });
+
+    it('reports orphaned targets and shadowed overrides', () => {
+        const findings = analyze(
+            [
+                policy('policy-gone', 'ALWAYS_REQUIRE_APPROVAL', { scope: 'AGENT', targetId: 'agt-retired' }),
+                policy('policy-org', 'ALWAYS_REQUIRE_APPROVAL', organization),
+            ],
+            [
+                override('override-first', 'policy-org', '2025-01-10T00:00:00.000Z'),
+                override('override-second', 'policy-org', '2025-01-12T00:00:00.000Z'),
+            ]
+        );
+        expect(findings.map(f => [f.kind, ...f.policyIds, ...f.overrideIds])).toEqual([
+            ['ORPHANED_TARGET', 'policy-gone'],
+            ['SHADOWED_OVERRIDE', 'policy-org', 'override-first', 'override-second'],
+        ]);
+    });
+});
@@ -0,0 +1,292 @@
+import { Phase0Data } from '@/app/data/types';
+import { ActionCatalog } from '../actions/actionCatalog';
+import { contentHash } from '@/utils/contentHash';
+import { getDomainAncestors } from '../structure/domainHierarchy';
+import { LearnedPolicy, PolicyConstraintType, PolicyStatus, PolicyTarget } from './learnedPolicy';
+import { PolicySet, policiesInForce } from './policyApplication';
+
+/**
+ * Policy Conflict Analysis (Phase 9X)
+ *
+ * Reviews every learned policy and override together and reports what has
+ * accumulated: duplicates, policies another one already covers, policies
+ * with different effects on the same attempts, overrides shadowed by later
+ * ones, and policies or overrides whose target no longer exists.
+ *
+ * Pairwise findings consider only policies in force (see policiesInForce):
+ * expired and overridden policies have no effect to duplicate or contradict.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - READ-ONLY: Findings suggest a clean-up; nothing here expires or edits anything
+ * - PURE: Same policies, structure, catalog and instant give the same findings
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PolicyFindingKind =
+    | 'DUPLICATE'               // Same effect, target and condition as another policy
+    | 'SUBSUMED'                // Another policy with the same effect covers every attempt this one does
+    | 'CONFLICTING_EFFECTS'     // Different effects on some of the same attempts
+    | 'SHADOWED_OVERRIDE'       // A later override of the same policy replaces it
+    | 'ORPHANED_TARGET';        // Targets an entity, action or policy that no longer exists
+
+export type PolicyCleanupAction =
+    | 'LET_EXPIRE'              // Let the named policy expire now
+    | 'REVIEW'                  // A human has to decide which policy reflects intent
+    | 'NONE';                   // Resolves itself (e.g. the override expires)
+
+export interface PolicyCleanup {
+    action: PolicyCleanupAction;
+    subjectId: string | null;   // Policy or override the action applies to
+    description: string;
+}
+
+export interface PolicyFinding {
+    kind: PolicyFindingKind;
+    policyIds: string[];        // Policy the finding is about first, then the others involved
+    overrideIds: string[];
+    message: string;
+    suggestion: PolicyCleanup;
+}
+
+/**
+ * How a constraint type changes evaluations (see authorityEngine).
+ * Types with the same effect are interchangeable for redundancy.
+ */
+type PolicyEffect = 'REQUIRE_APPROVAL' | 'REDUCE_AUTHORITY' | 'CITED_ONLY';
+
+const POLICY_EFFECTS: Record<PolicyConstraintType, PolicyEffect> = {
+    ALWAYS_REQUIRE_APPROVAL: 'REQUIRE_APPROVAL',
+    NEVER_ALLOW_AUTONOMOUS: 'REQUIRE_APPROVAL',
+    REDUCE_AUTHORITY_LEVEL: 'REDUCE_AUTHORITY',
+    RESTRICT_TO_DOMAIN: 'CITED_ONLY',
+};
+
+const FINDING_ORDER: PolicyFindingKind[] = ['ORPHANED_TARGET', 'DUPLICATE', 'SUBSUMED', 'CONFLICTING_EFFECTS', 'SHADOWED_OVERRIDE'];
+
+// ============================================================================
+// COVERAGE
+// ============================================================================
+
+/**
+ * Whether every subject target b covers is also covered by target a.
+ * Organizations contain domains, domains contain their sub-domains (Phase 9F)
+ * and the agents of both.
+ */
+function subjectContains(a: PolicyTarget, b: PolicyTarget, structure: Phase0Data): boolean {
+    const withinDomain = (domainId: string | undefined) => domainId !== undefined && (
+        domainId === a.targetId || getDomainAncestors(structure.domains, domainId).some(d => d.id === a.targetId)
+    );
+
+    switch (a.scope) {
+        case 'ORGANIZATION':
+            return true;
+        case 'DOMAIN':
+            if (b.scope === 'DOMAIN') return withinDomain(b.targetId);
+            if (b.scope === 'AGENT') return withinDomain(structure.agents.find(agent => agent.id === b.targetId)?.domainId);
+            return false;
+        case 'AGENT':
+            return b.scope === 'AGENT' && b.targetId === a.targetId;
+    }
+}
+
+/**
+ * Whether every action target b covers is also covered by target a.
+ */
+function actionsContain(a: PolicyTarget, b: PolicyTarget, catalog: ActionCatalog): boolean {
+    if (a.actionId) return b.actionId === a.actionId;
+    if (a.category) {
+        if (b.actionId) return catalog.entries.find(e => e.id === b.actionId)?.category === a.category;
+        return b.category === a.category;
+    }
+    return true;
+}
+
+/**
+ * Whether a's condition holds for every attempt b's does. Unequal conditions
+ * are not compared, so this only answers yes when it can be sure.
+ */
+function conditionContains(a: LearnedPolicy, b: LearnedPolicy): boolean {
+    if (!a.constraint.when) return true;
+    return !!b.constraint.when && contentHash(a.constraint.when) === contentHash(b.constraint.when);
+}
+
+function covers(a: LearnedPolicy, b: LearnedPolicy, structure: Phase0Data, catalog: ActionCatalog): boolean {
+    return subjectContains(a.constraint.target, b.constraint.target, structure)
+        && actionsContain(a.constraint.target, b.constraint.target, catalog)
+        && conditionContains(a, b);
+}
+
+/**
+ * Targets form a tree (organization, domain, agent; any action, category, action),
+ * so two of them overlap exactly when one contains the other.
+ */
+function overlaps(a: LearnedPolicy, b: LearnedPolicy, structure: Phase0Data, catalog: ActionCatalog): boolean {
+    const ta = a.constraint.target;
+    const tb = b.constraint.target;
+    return (subjectContains(ta, tb, structure) || subjectContains(tb, ta, structure))
+        && (actionsContain(ta, tb, catalog) || actionsContain(tb, ta, catalog))
+        && (conditionContains(a, b) || conditionContains(b, a));
+}
+
+/**
+ * Why a target no longer resolves, or null when it does.
+ */
+function describeOrphanedTarget(target: PolicyTarget, structure: Phase0Data, catalog: ActionCatalog): string | null {
+    if (target.scope === 'ORGANIZATION' && target.targetId !== structure.organization.id) {
+        return `organization ${target.targetId} is not this organization`;
+    }
+    if (target.scope === 'DOMAIN' && !structure.domains.some(d => d.id === target.targetId)) {
+        return `domain ${target.targetId} no longer exists`;
+    }
+    if (target.scope === 'AGENT' && !structure.agents.some(a => a.id === target.targetId)) {
+        return `agent ${target.targetId} no longer exists`;
+    }
+    if (target.actionId && !catalog.entries.some(e => e.id === target.actionId)) {
+        return `action ${target.actionId} is not in the action catalog`;
+    }
+    return null;
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Analyze all learned policies and overrides at the given instant.
+ * Findings are ordered by kind, then by the order the policies were learned.
+ */
+export function analyzePolicies(
+    set: PolicySet,
+    structure: Phase0Data,
+    catalog: ActionCatalog,
+    at: string
+): PolicyFinding[] {
+    const findings: PolicyFinding[] = [];
+    const now = Date.parse(at);
+
+    // Orphaned targets, for every policy that has not expired
+    const orphaned = new Set<string>();
+    for (const policy of set.policies) {
+        if (policy.lifecycle.status === PolicyStatus.EXPIRED || Date.parse(policy.lifecycle.expiresAt) <= now) continue;
+        const reason = describeOrphanedTarget(policy.constraint.target, structure, catalog);
+        if (!reason) continue;
+        orphaned.add(policy.policyId);
+        findings.push({
+            kind: 'ORPHANED_TARGET',
+            policyIds: [policy.policyId],
+            overrideIds: [],
+            message: `${policy.policyId} can never apply: ${reason}.`,
+            suggestion: {
+                action: 'LET_EXPIRE',
+                subjectId: policy.policyId,
+                description: `Let ${policy.policyId} expire.`,
+            },
+        });
+    }
+
+    // Pairs of policies in force, each pair once, older policy first
+    const inForce = policiesInForce(set, at).filter(p => !orphaned.has(p.policyId));
+    const pairs = inForce.flatMap((older, i) => inForce.slice(i + 1).map(newer => ({ older, newer })));
+    const sameEffect = (a: LearnedPolicy, b: LearnedPolicy) => POLICY_EFFECTS[a.constraint.type] === POLICY_EFFECTS[b.constraint.type];
+    const redundant = new Set<string>();
+
+    // Duplicates first, so a duplicate is not also reported as subsumed
+    for (const { older, newer } of pairs) {
+        if (redundant.has(newer.policyId) || !sameEffect(older, newer)) continue;
+        if (!covers(older, newer, structure, catalog) || !covers(newer, older, structure, catalog)) continue;
+        redundant.add(newer.policyId);
+        findings.push({
+            kind: 'DUPLICATE',
+            policyIds: [newer.policyId, older.policyId],
+            overrideIds: [],
+            message: `${newer.policyId} has the same effect, target and condition as ${older.policyId}.`,
+            suggestion: {
+                action: 'LET_EXPIRE',
+                subjectId: newer.policyId,
+                description: `Let ${newer.policyId} expire; ${older.policyId} stays in force.`,
+            },
+        });
+    }
+
+    for (const { older, newer } of pairs) {
+        if (redundant.has(older.policyId) || redundant.has(newer.policyId)) continue;
+
+        if (sameEffect(older, newer)) {
+            const olderCoversNewer = covers(older, newer, structure, catalog);
+            if (!olderCoversNewer && !covers(newer, older, structure, catalog)) continue;
+            const [broad, narrow] = olderCoversNewer ? [older, newer] : [newer, older];
+            redundant.add(narrow.policyId);
+            findings.push({
+                kind: 'SUBSUMED',
+                policyIds: [narrow.policyId, broad.policyId],
+                overrideIds: [],
+                message: `${broad.policyId} (${broad.constraint.affectedScope}) already covers every attempt ${narrow.policyId} (${narrow.constraint.affectedScope}) does.`,
+                suggestion: {
+                    action: 'LET_EXPIRE',
+                    subjectId: narrow.policyId,
+                    description: `Let ${narrow.policyId} expire; ${broad.policyId} keeps the same constraint in force.`,
+                },
+            });
+        } else if (
+            POLICY_EFFECTS[older.constraint.type] !== 'CITED_ONLY'
+            && POLICY_EFFECTS[newer.constraint.type] !== 'CITED_ONLY'
+            && overlaps(older, newer, structure, catalog)
+        ) {
+            findings.push({
+                kind: 'CONFLICTING_EFFECTS',
+                policyIds: [newer.policyId, older.policyId],
+                overrideIds: [],
+                message: `${newer.policyId} (${newer.constraint.type}) and ${older.policyId} (${older.constraint.type}) apply to some of the same attempts; whether those end up needing approval or blocked depends on the authority level, not on either policy alone.`,
+                suggestion: {
+                    action: 'REVIEW',
+                    subjectId: null,
+                    description: `Decide which of ${newer.policyId} and ${older.policyId} states the intended outcome and let the other expire.`,
+                },
+            });
+        }
+    }
+
+    // Overrides: orphaned, or shadowed by a later override of the same policy
+    const policyIds = new Set(set.policies.map(p => p.policyId));
+    const activeOverrides = set.overrides
+        .filter(o => Date.parse(o.expiresAt) > now)
+        .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+    activeOverrides.forEach((override, i) => {
+        if (!policyIds.has(override.targetPolicyId)) {
+            findings.push({
+                kind: 'ORPHANED_TARGET',
+                policyIds: [],
+                overrideIds: [override.overrideId],
+                message: `${override.overrideId} overrides ${override.targetPolicyId}, which no longer exists.`,
+                suggestion: {
+                    action: 'NONE',
+                    subjectId: override.overrideId,
+                    description: `Nothing to do: ${override.overrideId} has no effect and expires ${override.expiresAt}.`,
+                },
+            });
+            return;
+        }
+        const later = activeOverrides.slice(i + 1).find(o => o.targetPolicyId === override.targetPolicyId);
+        if (later) {
+            findings.push({
+                kind: 'SHADOWED_OVERRIDE',
+                policyIds: [override.targetPolicyId],
+                overrideIds: [override.overrideId, later.overrideId],
+                message: `${later.overrideId} overrides ${override.targetPolicyId} again, so ${override.overrideId} no longer decides anything.`,
+                suggestion: {
+                    action: 'NONE',
+                    subjectId: override.overrideId,
+                    description: `Nothing to do: ${override.overrideId} expires ${override.expiresAt}; check ${later.overrideId}'s reason still holds.`,
+                },
+            });
+        }
+    });
+
+    return findings
+        .map((finding, index) => ({ finding, index }))
+        .sort((a, b) => FINDING_ORDER.indexOf(a.finding.kind) - FINDING_ORDER.indexOf(b.finding.kind) || a.index - b.index)
+        .map(({ finding }) => finding);
+}
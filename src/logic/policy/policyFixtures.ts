@@ -0,0 +1,134 @@
+import { AuthorityDirection, LPSLayer, LearnedPolicy, PolicyConstraintType, PolicyStatus, PolicyTarget } from './learnedPolicy';
+import { OverrideScope, PolicyOverride } from './policyOverride';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+import { Phase0Data } from '@/app/data/types';
+
+/**
+ * Policy Fixtures (Phase 9U)
+ *
+ * Complete learned policies and overrides for tests, so each test states only
+ * what it is about (target, effect, dates) instead of pasting whole records,
+ * and a nested structure for policies reaching into sub-domains (Phase 9F).
+ *
+ * CRITICAL: Tests only. Nothing here is registered in the policy or override stores.
+ */
+
+// ============================================================================
+// LEARNED POLICIES
+// ============================================================================
+
+export interface PolicyFixtureOptions {
+    type?: PolicyConstraintType;            // Default: ALWAYS_REQUIRE_APPROVAL
+    target?: PolicyTarget;                  // Default: every action of the seed organization
+    createdAt?: string;
+    nextReviewDate?: string;
+    expiresAt?: string;
+    status?: PolicyStatus;                  // Default: ACTIVE
+}
+
+/**
+ * A learned policy as policy learning would record it.
+ */
+export function learnedPolicyFixture(policyId: string, options: PolicyFixtureOptions = {}): LearnedPolicy {
+    const {
+        type = 'ALWAYS_REQUIRE_APPROVAL',
+        target = { scope: 'ORGANIZATION', targetId: PHASE0_DATA.organization.id },
+        createdAt = '2025-01-01T00:00:00.000Z',
+        nextReviewDate = '2025-04-01T00:00:00.000Z',
+        expiresAt = '2025-06-01T00:00:00.000Z',
+        status = PolicyStatus.ACTIVE,
+    } = options;
+    const passed = { passed: true, reason: 'Fixture' };
+
+    return {
+        policyId,
+        learnedAt: createdAt,
+        learnedBy: 'test',
+        sourceApprovalIntentId: `intent-${policyId}`,
+        sourcePolicyProposalId: `proposal-${policyId}`,
+        affectedLayers: [LPSLayer.POLICY],
+        primaryLayer: LPSLayer.POLICY,
+        constraint: {
+            type,
+            description: `${type} for ${target.scope} ${target.targetId}`,
+            technicalDetails: '',
+            affectedScope: `${target.scope}: ${target.targetId}`,
+            target,
+        },
+        beforeState: { description: 'Allowed without approval' },
+        afterState: { description: type },
+        humanJustification: 'Fixture policy',
+        systemReasoning: 'Fixture policy',
+        eappValidation: {
+            passed: true,
+            checks: { declaredIntent: passed, boundedAuthority: passed, explainability: passed, driftPrevention: passed },
+            violations: [],
+        },
+        lpsValidation: { valid: true, reason: 'Fixture' },
+        monotonicityValidation: { valid: true, direction: AuthorityDirection.RESTRICT, reason: 'Fixture', violations: [] },
+        explanation: 'Fixture policy',
+        lifecycle: {
+            policyId,
+            createdAt,
+            lastReviewedAt: null,
+            reviewIntervalDays: 90,
+            nextReviewDate,
+            expiresAt,
+            status,
+        },
+    };
+}
+
+// ============================================================================
+// OVERRIDES
+// ============================================================================
+
+export interface OverrideFixtureOptions {
+    scope?: OverrideScope;                  // Default: ORGANIZATION
+    createdAt?: string;
+    expiresAt?: string;
+    isActive?: boolean;                     // Default: true
+}
+
+/**
+ * An override as createPolicyOverride would record it.
+ */
+export function policyOverrideFixture(overrideId: string, targetPolicyId: string, options: OverrideFixtureOptions = {}): PolicyOverride {
+    const {
+        scope = OverrideScope.ORGANIZATION,
+        createdAt = '2025-01-10T00:00:00.000Z',
+        expiresAt = '2025-02-01T00:00:00.000Z',
+        isActive = true,
+    } = options;
+
+    return {
+        overrideId,
+        targetPolicyId,
+        scope,
+        reason: 'Quarter-end close needs the previous behaviour',
+        createdBy: 'test',
+        createdAt,
+        expiresAt,
+        isActive,
+    };
+}
+
+// ============================================================================
+// STRUCTURE
+// ============================================================================
+
+/**
+ * The seed structure with agt-fin-recon moved into dom-fin-recon, a
+ * sub-domain of dom-fin without constraints of its own.
+ */
+export function nestedReconciliationFixture(): Phase0Data {
+    const finance = PHASE0_DATA.domains.find(d => d.id === 'dom-fin')!;
+    return {
+        ...PHASE0_DATA,
+        domains: [
+            ...PHASE0_DATA.domains,
+            { ...finance, id: 'dom-fin-recon', name: 'Reconciliation', constraints: [], parentDomainId: finance.id },
+        ],
+        agents: PHASE0_DATA.agents.map(a => a.id === 'agt-fin-recon' ? { ...a, domainId: 'dom-fin-recon' } : a),
+    };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import { DecisionConfiguration, stageAction } from '../runtime/decisionService';
+import { DEFAULT_ACTION_CATALOG } from '../actions/actionCatalog';
+import {
+    clearLearnedPolicies,
+    confirmPolicyProposal,
+    createApprovalIntent,
+    derivePolicyChangeProposal,
+    getAllLearnedPolicies,
+} from '../staging/stagedActions';
+import { learnedPolicyFixture, nestedReconciliationFixture } from './policyFixtures';
+import { getDomainAncestors } from '../structure/domainHierarchy';
+import { buildPolicyIndex, formatPolicyTarget, policiesForAction, policiesForEntity, policiesGoverning } from './policyIndex';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+
+describe('Policy Index', () => {
+    const configuration: DecisionConfiguration = { structure: PHASE0_DATA, catalog: DEFAULT_ACTION_CATALOG };
+
+    const learnFromApproval = (agentId: string, actionId: string) => {
+        const staged = stageAction(configuration, { agentId, actionId });
+        const intent = createApprovalIntent(staged, 'POLICY_CHANGE', 'Matching rules are being revised this quarter');
+        const proposal = derivePolicyChangeProposal(intent);
+        if (!proposal) throw new Error('No proposal derived');
+        confirmPolicyProposal(proposal);
+    };
+
+    it('targets learned policies by ID and looks them up by entity and action', () => {
+        clearLearnedPolicies();
+        learnFromApproval('agt-fin-recon', 'finance_match_transactions');
+        const [policy] = getAllLearnedPolicies();
+        expect(policy.constraint.target.scope).toBe('AGENT');
+        expect(policy.constraint.target.targetId).toBe('agt-fin-recon');
+
+        const index = buildPolicyIndex(getAllLearnedPolicies());
+        expect(policiesForEntity(index, 'AGENT', 'agt-fin-recon')).toEqual([policy]);
+        expect(policiesForEntity(index, 'AGENT', 'agt-fin-audit')).toEqual([]);
+        expect(policy.constraint.target.category).toBe('DATA_MODIFICATION');
+        expect(policiesForAction(index, 'finance_match_transactions', 'DATA_MODIFICATION')).toEqual([policy]);
+        expect(policiesForAction(index, 'finance_review_ledger', 'DATA_ACCESS')).toEqual([]);
+        clearLearnedPolicies();
+    });
+
+    it('keeps governing a renamed agent', () => {
+        clearLearnedPolicies();
+        learnFromApproval('agt-fin-recon', 'finance_match_transactions');
+        const index = buildPolicyIndex(getAllLearnedPolicies());
+
+        const renamed = {
+            ...PHASE0_DATA,
+            agents: PHASE0_DATA.agents.map(a => a.id === 'agt-fin-recon' ? { ...a, name: 'Ledger Matcher' } : a),
+        };
+        const agent = renamed.agents.find(a => a.id === 'agt-fin-recon');
+        const domain = renamed.domains.find(d => d.id === agent?.domainId);
+        const governing = policiesGoverning(index, { agent, domain });
+        expect(governing).toHaveLength(1);
+        expect(formatPolicyTarget(governing[0].constraint.target, renamed)).toContain('Agent Ledger Matcher');
+        expect(policiesGoverning(index, { domain })).toEqual([]);
+        clearLearnedPolicies();
+    });
+
+    it('includes enclosing domains\' policies for nodes in sub-domains', () => {
+        const structure = nestedReconciliationFixture();
+        const index = buildPolicyIndex([
+            learnedPolicyFixture('policy-finance', { target: { scope: 'DOMAIN', targetId: 'dom-fin' } }),
+            learnedPolicyFixture('policy-customer', { target: { scope: 'DOMAIN', targetId: 'dom-cust' } }),
+        ]);
+        const agent = structure.agents.find(a => a.id === 'agt-fin-recon');
+        const domain = structure.domains.find(d => d.id === 'dom-fin-recon')!;
+        const ancestors = getDomainAncestors(structure.domains, domain.id);
+
+        expect(policiesGoverning(index, { agent, domain, ancestors }).map(p => p.policyId)).toEqual(['policy-finance']);
+        expect(policiesGoverning(index, { domain, ancestors }).map(p => p.policyId)).toEqual(['policy-finance']);
+    });
+});
@@ -0,0 +1,150 @@
+import { Agent, Domain, Phase0Data } from '@/app/data/types';
+import type { DoActionCategory } from '../authority/deriveDoActions';
+import { LearnedPolicy, PolicyTarget } from './learnedPolicy';
+import { ProposalScope } from '../staging/stagedActions';
+
+/**
+ * Policy Index (Phase 9V)
+ *
+ * Looks up learned policies by the entity and the action they target, so
+ * surfaces can answer "which policies touch agent X?" or "which policies
+ * govern this node?" without scanning or parsing display strings.
+ *
+ * Governing lookups follow the same coverage rules the authority engine
+ * applies (see policyCoversSubject and policyMatchesAction).
+ *
+ * CRITICAL CONSTRAINTS:
+ * - PURE: Built from the policies given; nothing here reads the policy store
+ * - STATUS-BLIND: Indexes every policy given; filter with policiesInForce first
+ *   to see only the ones that apply
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PolicyIndex {
+    all: ReadonlyArray<LearnedPolicy>;
+    organization: LearnedPolicy[];                      // Organization-scoped
+    byDomain: Map<string, LearnedPolicy[]>;             // Domain ID → domain-scoped
+    byAgent: Map<string, LearnedPolicy[]>;              // Agent ID → agent-scoped
+    byAction: Map<string, LearnedPolicy[]>;             // Action ID → policies naming that action
+    byCategory: Map<DoActionCategory, LearnedPolicy[]>; // Category → policies naming that category
+    anyAction: LearnedPolicy[];                         // Policies naming neither
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+function add<K>(map: Map<K, LearnedPolicy[]>, key: K, policy: LearnedPolicy): void {
+    const existing = map.get(key);
+    if (existing) existing.push(policy);
+    else map.set(key, [policy]);
+}
+
+export function buildPolicyIndex(policies: ReadonlyArray<LearnedPolicy>): PolicyIndex {
+    const index: PolicyIndex = {
+        all: policies,
+        organization: [],
+        byDomain: new Map(),
+        byAgent: new Map(),
+        byAction: new Map(),
+        byCategory: new Map(),
+        anyAction: [],
+    };
+
+    for (const policy of policies) {
+        const { scope, targetId, actionId, category } = policy.constraint.target;
+
+        if (scope === 'ORGANIZATION') index.organization.push(policy);
+        else if (scope === 'DOMAIN') add(index.byDomain, targetId, policy);
+        else add(index.byAgent, targetId, policy);
+
+        if (actionId) add(index.byAction, actionId, policy);
+        else if (category) add(index.byCategory, category, policy);
+        else index.anyAction.push(policy);
+    }
+
+    return index;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Keep index order, so lookups list policies in the order they were learned.
+ */
+function inIndexOrder(index: PolicyIndex, found: LearnedPolicy[]): LearnedPolicy[] {
+    const set = new Set(found);
+    return index.all.filter(policy => set.has(policy));
+}
+
+/**
+ * Policies that target exactly this entity.
+ */
+export function policiesForEntity(index: PolicyIndex, scope: ProposalScope, targetId: string): LearnedPolicy[] {
+    switch (scope) {
+        case 'ORGANIZATION':
+            return [...index.organization];
+        case 'DOMAIN':
+            return [...(index.byDomain.get(targetId) ?? [])];
+        case 'AGENT':
+            return [...(index.byAgent.get(targetId) ?? [])];
+    }
+}
+
+/**
+ * Policies that cover a node: the organization's, the domain's and its
+ * enclosing domains' (Phase 9F) and, for an agent, the agent's own.
+ * Pass neither for the organization node.
+ */
+export function policiesGoverning(
+    index: PolicyIndex,
+    subject: { domain?: Domain | null; ancestors?: Domain[]; agent?: Agent | null }
+): LearnedPolicy[] {
+    const { domain, agent } = subject;
+    const chain = domain ? [...(subject.ancestors ?? []), domain] : [];
+    return inIndexOrder(index, [
+        ...index.organization,
+        ...chain.flatMap(d => index.byDomain.get(d.id) ?? []),
+        ...(agent ? index.byAgent.get(agent.id) ?? [] : []),
+    ]);
+}
+
+/**
+ * Policies whose target covers an action: those naming it, those naming its
+ * category and those naming neither.
+ */
+export function policiesForAction(index: PolicyIndex, actionId: string, category: DoActionCategory): LearnedPolicy[] {
+    return inIndexOrder(index, [
+        ...(index.byAction.get(actionId) ?? []),
+        ...(index.byCategory.get(category) ?? []),
+        ...index.anyAction,
+    ]);
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * A target in current names, e.g. "Agent Reconciler X · finance_post_adjustment".
+ * Entities no longer in the structure show their ID and "(removed)".
+ */
+export function formatPolicyTarget(target: PolicyTarget, data: Phase0Data): string {
+    let entity: string;
+    if (target.scope === 'ORGANIZATION') {
+        entity = `Organization ${data.organization.name}`;
+    } else {
+        const found = target.scope === 'DOMAIN'
+            ? data.domains.find(d => d.id === target.targetId)
+            : data.agents.find(a => a.id === target.targetId);
+        entity = `${target.scope === 'DOMAIN' ? 'Domain' : 'Agent'} ${found ? found.name : `${target.targetId} (removed)`}`;
+    }
+
+    if (target.actionId) return `${entity} · ${target.actionId}`;
+    if (target.category) return `${entity} · ${target.category} actions`;
+    return `${entity} · every action`;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import { fixedClock } from '@/utils/clock';
+import { getAuditLedger } from '../audit/auditLedger';
+import {
+    clearLearnedPolicies,
+    getAllLearnedPolicies,
+    replaceLearnedPolicies,
+    subscribeToLearnedPolicyChanges,
+} from '../staging/stagedActions';
+import { PolicyStatus } from './learnedPolicy';
+import {
+    clearPolicyOverrides,
+    getAllPolicyOverrides,
+    replacePolicyOverrides,
+    subscribeToPolicyOverrideChanges,
+} from './policyOverride';
+import { learnedPolicyFixture, policyOverrideFixture } from './policyFixtures';
+import { LifecycleTransition, deriveDueSoonDigest, runLifecycleSweep, subscribeToLifecycleTransitions } from './policyLifecycle';
+
+describe('Policy Lifecycle Scheduler', () => {
+    const at = '2025-03-15T09:30:00.000Z';
+
+    const policy = (policyId: string, nextReviewDate: string, expiresAt: string, status = PolicyStatus.ACTIVE) =>
+        learnedPolicyFixture(policyId, { nextReviewDate, expiresAt, status });
+    const override = (overrideId: string, expiresAt: string) =>
+        policyOverrideFixture(overrideId, 'policy-current', { createdAt: '2025-03-01T00:00:00.000Z', expiresAt });
+
+    it('moves policies and overrides past their dates and records each transition', () => {
+        replaceLearnedPolicies([
+            policy('policy-current', '2025-04-01T00:00:00.000Z', '2025-06-01T00:00:00.000Z'),
+            policy('policy-review', '2025-03-01T00:00:00.000Z', '2025-06-01T00:00:00.000Z'),
+            policy('policy-expired', '2025-02-01T00:00:00.000Z', '2025-03-10T00:00:00.000Z', PolicyStatus.UNDER_REVIEW),
+        ]);
+        replacePolicyOverrides([override('override-lapsed', '2025-03-14T00:00:00.000Z')]);
+        const ledgerBefore = getAuditLedger().length;
+        const received: LifecycleTransition[] = [];
+        const unsubscribe = subscribeToLifecycleTransitions(transitions => received.push(...transitions));
+
+        const transitions = runLifecycleSweep(fixedClock(at));
+        unsubscribe();
+
+        expect(transitions.map(t => [t.subjectId, t.from, t.to])).toEqual([
+            ['policy-review', PolicyStatus.ACTIVE, PolicyStatus.UNDER_REVIEW],
+            ['policy-expired', PolicyStatus.UNDER_REVIEW, PolicyStatus.EXPIRED],
+            ['override-lapsed', PolicyStatus.ACTIVE, PolicyStatus.EXPIRED],
+        ]);
+        expect(received).toEqual(transitions);
+        expect(getAllLearnedPolicies().map(p => p.lifecycle.status)).toEqual([
+            PolicyStatus.ACTIVE, PolicyStatus.UNDER_REVIEW, PolicyStatus.EXPIRED,
+        ]);
+        expect(getAllPolicyOverrides()[0].isActive).toBe(false);
+        expect(getAuditLedger().slice(ledgerBefore).map(e => [e.type, e.actor])).toEqual([
+            ['POLICY_REVIEW_DUE', 'lifecycle-scheduler'],
+            ['POLICY_EXPIRED', 'lifecycle-scheduler'],
+            ['POLICY_OVERRIDE_EXPIRED', 'lifecycle-scheduler'],
+        ]);
+
+        // A second sweep at the same instant has nothing left to do
+        expect(runLifecycleSweep(fixedClock(at))).toEqual([]);
+        expect(getAuditLedger()).toHaveLength(ledgerBefore + 3);
+        clearLearnedPolicies();
+        clearPolicyOverrides();
+    });
+
+    it('tells store subscribers when a sweep writes policies and overrides back', () => {
+        replaceLearnedPolicies([policy('policy-review', '2025-03-01T00:00:00.000Z', '2025-06-01T00:00:00.000Z')]);
+        replacePolicyOverrides([override('override-current', '2025-04-01T00:00:00.000Z')]);
+        const changed: string[] = [];
+        const unsubscribePolicies = subscribeToLearnedPolicyChanges(() => changed.push('policies'));
+        const unsubscribeOverrides = subscribeToPolicyOverrideChanges(() => changed.push('overrides'));
+
+        runLifecycleSweep(fixedClock(at));
+        runLifecycleSweep(fixedClock(at));
+        unsubscribePolicies();
+        unsubscribeOverrides();
+
+        // Only the sweep that changed something writes the stores back
+        expect(changed).toEqual(['policies', 'overrides']);
+        clearLearnedPolicies();
+        clearPolicyOverrides();
+    });
+
+    it('lists reviews and expiries due within the window, soonest first', () => {
+        const digest = deriveDueSoonDigest([
+            policy('policy-later', '2025-03-25T09:30:00.000Z', '2025-03-20T09:30:00.000Z'),
+            policy('policy-soon', '2025-03-16T00:00:00.000Z', '2025-09-01T00:00:00.000Z'),
+            policy('policy-under-review', '2025-03-01T00:00:00.000Z', '2025-03-18T00:00:00.000Z', PolicyStatus.UNDER_REVIEW),
+            policy('policy-gone', '2025-03-16T00:00:00.000Z', '2025-03-17T00:00:00.000Z', PolicyStatus.EXPIRED),
+        ], at, 7);
+
+        expect(digest.map(d => [d.policyId, d.milestone, d.daysRemaining])).toEqual([
+            ['policy-soon', 'REVIEW', 1],
+            ['policy-under-review', 'EXPIRY', 3],
+            ['policy-later', 'EXPIRY', 5],
+        ]);
+    });
+});
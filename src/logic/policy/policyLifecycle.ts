@@ -0,0 +1,215 @@
+import { Clock, systemClock } from '@/utils/clock';
+import { GovernanceEventType, recordGovernanceEvent } from '../audit/auditLedger';
+import { getAllLearnedPolicies, replaceLearnedPolicies } from '../staging/stagedActions';
+import { LearnedPolicy, PolicyStatus, updatePolicyStatus } from './learnedPolicy';
+import { PolicyOverride, getAllPolicyOverrides, replacePolicyOverrides, updateOverrideStatus } from './policyOverride';
+
+/**
+ * Policy Lifecycle Scheduler (Phase 9Y)
+ *
+ * Re-evaluates every learned policy and override when the workspace loads and
+ * on a timer, so a policy past its review date shows UNDER_REVIEW and one past
+ * its expiry shows EXPIRED without anyone opening it first.
+ *
+ * Each transition is recorded in the audit ledger (actor "lifecycle-scheduler")
+ * and passed to subscribers, which re-render what they show.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - DATES ONLY: Transitions follow nextReviewDate and expiresAt; nothing is renewed or created
+ * - NEVER LOOSENS: A policy under review stays in force until it expires (see policiesInForce)
+ * - WRITES ONLY ON CHANGE: Stores are replaced only when a sweep made a transition
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LifecycleTransition {
+    subjectKind: 'POLICY' | 'OVERRIDE';
+    subjectId: string;
+    from: PolicyStatus;                 // Overrides go from ACTIVE to EXPIRED
+    to: PolicyStatus;
+    at: string;
+}
+
+export interface LifecycleEvaluation {
+    policies: LearnedPolicy[];
+    overrides: PolicyOverride[];
+    transitions: LifecycleTransition[];
+}
+
+export type LifecycleMilestone = 'REVIEW' | 'EXPIRY';
+
+export interface DueSoonItem {
+    policyId: string;
+    description: string;
+    milestone: LifecycleMilestone;
+    dueAt: string;
+    daysRemaining: number;              // Whole days, rounded up
+}
+
+export type LifecycleListener = (transitions: ReadonlyArray<LifecycleTransition>) => void;
+
+const SCHEDULER_ACTOR = 'lifecycle-scheduler';
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Bring every policy and override up to date at the given instant.
+ * Pure: returns updated copies and the transitions made, in store order.
+ */
+export function evaluateLifecycles(
+    policies: ReadonlyArray<LearnedPolicy>,
+    overrides: ReadonlyArray<PolicyOverride>,
+    clock: Clock = systemClock
+): LifecycleEvaluation {
+    const at = clock();
+    const transitions: LifecycleTransition[] = [];
+
+    const updatedPolicies = policies.map(policy => {
+        const updated = updatePolicyStatus(policy, clock);
+        if (updated.lifecycle.status !== policy.lifecycle.status) {
+            transitions.push({
+                subjectKind: 'POLICY',
+                subjectId: policy.policyId,
+                from: policy.lifecycle.status,
+                to: updated.lifecycle.status,
+                at,
+            });
+        }
+        return updated;
+    });
+
+    const updatedOverrides = overrides.map(override => {
+        const updated = updateOverrideStatus(override, clock);
+        if (override.isActive && !updated.isActive) {
+            transitions.push({
+                subjectKind: 'OVERRIDE',
+                subjectId: override.overrideId,
+                from: PolicyStatus.ACTIVE,
+                to: PolicyStatus.EXPIRED,
+                at,
+            });
+        }
+        return updated;
+    });
+
+    return { policies: updatedPolicies, overrides: updatedOverrides, transitions };
+}
+
+function transitionEventType(transition: LifecycleTransition): GovernanceEventType {
+    if (transition.subjectKind === 'OVERRIDE') return 'POLICY_OVERRIDE_EXPIRED';
+    return transition.to === PolicyStatus.EXPIRED ? 'POLICY_EXPIRED' : 'POLICY_REVIEW_DUE';
+}
+
+function describeTransition(transition: LifecycleTransition): string {
+    switch (transitionEventType(transition)) {
+        case 'POLICY_OVERRIDE_EXPIRED':
+            return `Override ${transition.subjectId} reached its expiry`;
+        case 'POLICY_EXPIRED':
+            return `Policy ${transition.subjectId} reached its expiry`;
+        default:
+            return `Policy ${transition.subjectId} is due for review`;
+    }
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+const listeners = new Set<LifecycleListener>();
+
+/**
+ * Be told about the transitions of every sweep that made any.
+ * Returns a function that unsubscribes.
+ */
+export function subscribeToLifecycleTransitions(listener: LifecycleListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Evaluate the policy and override stores once, write back what changed,
+ * record each transition in the audit ledger and notify subscribers.
+ */
+export function runLifecycleSweep(clock: Clock = systemClock): LifecycleTransition[] {
+    const { policies, overrides, transitions } = evaluateLifecycles(
+        getAllLearnedPolicies(),
+        getAllPolicyOverrides(),
+        clock
+    );
+    if (transitions.length === 0) return transitions;
+
+    replaceLearnedPolicies(policies);
+    replacePolicyOverrides(overrides);
+
+    for (const transition of transitions) {
+        recordGovernanceEvent({
+            type: transitionEventType(transition),
+            actor: SCHEDULER_ACTOR,
+            subjectId: transition.subjectId,
+            summary: describeTransition(transition),
+            changes: [{ field: 'status', before: transition.from, after: transition.to }],
+        }, clock);
+    }
+
+    Array.from(listeners).forEach(listener => listener(transitions));
+    return transitions;
+}
+
+/**
+ * Sweep now and then every intervalMs until the returned function is called.
+ */
+export function startLifecycleScheduler(
+    intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS,
+    clock: Clock = systemClock
+): () => void {
+    runLifecycleSweep(clock);
+    const timer = setInterval(() => runLifecycleSweep(clock), intervalMs);
+    return () => clearInterval(timer);
+}
+
+// ============================================================================
+// DUE SOON
+// ============================================================================
+
+/**
+ * Policies whose review or expiry falls within the next `days` days, soonest first.
+ * A policy already under review only appears for its expiry.
+ */
+export function deriveDueSoonDigest(
+    policies: ReadonlyArray<LearnedPolicy>,
+    at: string,
+    days: number
+): DueSoonItem[] {
+    const now = Date.parse(at);
+    const horizon = now + days * DAY_MS;
+    const items: DueSoonItem[] = [];
+
+    const addIfDue = (policy: LearnedPolicy, milestone: LifecycleMilestone, dueAt: string) => {
+        const due = Date.parse(dueAt);
+        if (due <= now || due > horizon) return;
+        items.push({
+            policyId: policy.policyId,
+            description: policy.constraint.description,
+            milestone,
+            dueAt,
+            daysRemaining: Math.ceil((due - now) / DAY_MS),
+        });
+    };
+
+    for (const policy of policies) {
+        const { status, nextReviewDate, expiresAt } = policy.lifecycle;
+        if (status === PolicyStatus.EXPIRED || status === PolicyStatus.OVERRIDDEN) continue;
+        if (status === PolicyStatus.ACTIVE) addIfDue(policy, 'REVIEW', nextReviewDate);
+        addIfDue(policy, 'EXPIRY', expiresAt);
+    }
+
+    return items.sort((a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt));
+}
@@ -1,4 +1,6 @@
 import { PolicyStatus } from './learnedPolicy';
+import { recordGovernanceEvent } from '../audit/auditLedger';
+import { Clock, systemClock } from '@/utils/clock';
 
 /**
  * Policy Override System (Phase 5B)
@@ -89,6 +91,10 @@ function generateOverrideId(): string {
  * 
  * CRITICAL: NON-MUTATING
  * This function creates a shadow rule only. It does NOT modify the original policy.
+ *
+ * Phase 9R: Recorded in the audit ledger.
+ * Stored in the override store, so exports, policy analysis and the
+ * lifecycle scheduler see it.
  * 
  * @param targetPolicyId - ID of policy to override
  * @param scope - Override scope
@@ -120,7 +126,7 @@ export function createPolicyOverride(
     const now = new Date();
     const expiresAt = new Date(now.getTime() + expiryDays * 24 * 60 * 60 * 1000);
 
-    return {
+    const override: PolicyOverride = {
         overrideId: generateOverrideId(),
         targetPolicyId,
         scope,
@@ -130,6 +136,21 @@ export function createPolicyOverride(
         expiresAt: expiresAt.toISOString(),
         isActive: true, // Active when created
     };
+
+    recordGovernanceEvent({
+        type: 'POLICY_OVERRIDE_CREATED',
+        actor: override.createdBy,
+        subjectId: override.overrideId,
+        summary: `Overrode policy ${targetPolicyId} (${scope}) for ${expiryDays} days`,
+        changes: [
+            { field: 'targetPolicyId', before: null, after: targetPolicyId },
+            { field: 'expiresAt', before: null, after: override.expiresAt },
+        ],
+        justification: override.reason,
+    });
+    registerPolicyOverride(override);
+
+    return override;
 }
 
 // ============================================================================
@@ -142,10 +163,11 @@ export function createPolicyOverride(
  * An override is active if current time < expiresAt.
  * 
  * @param override - PolicyOverride to check
+ * @param clock - Phase 9Y: Time to check against (defaults to the system clock)
  * @returns true if active
  */
-export function isOverrideActive(override: PolicyOverride): boolean {
-    const now = new Date();
+export function isOverrideActive(override: PolicyOverride, clock: Clock = systemClock): boolean {
+    const now = new Date(clock());
     const expiryDate = new Date(override.expiresAt);
     return now < expiryDate;
 }
@@ -154,10 +176,11 @@ export function isOverrideActive(override: PolicyOverride): boolean {
  * Update override active status based on current time.
  * 
  * @param override - PolicyOverride to update
+ * @param clock - Phase 9Y: Time to check against (defaults to the system clock)
  * @returns Updated PolicyOverride with current isActive status
  */
-export function updateOverrideStatus(override: PolicyOverride): PolicyOverride {
-    const active = isOverrideActive(override);
+export function updateOverrideStatus(override: PolicyOverride, clock: Clock = systemClock): PolicyOverride {
+    const active = isOverrideActive(override, clock);
 
     if (active !== override.isActive) {
         return {
@@ -227,3 +250,67 @@ export function getExpiredOverrides(allOverrides: PolicyOverride[]): PolicyOverr
         .filter(o => !isOverrideActive(o))
         .map(o => updateOverrideStatus(o));
 }
+
+// ============================================================================
+// OVERRIDE STORAGE (PHASE 9D)
+// ============================================================================
+
+/**
+ * In-memory storage for policy overrides.
+ *
+ * Mirrors the learned policy store so overrides can travel with
+ * exported constitution documents.
+ */
+const policyOverridesStore: PolicyOverride[] = [];
+
+const overrideListeners = new Set<() => void>();
+
+function notifyPolicyOverrideChange(): void {
+    Array.from(overrideListeners).forEach(listener => listener());
+}
+
+/**
+ * Be told whenever the override store changes (Phase 9U), so it can be saved.
+ * Returns a function that unsubscribes.
+ */
+export function subscribeToPolicyOverrideChanges(listener: () => void): () => void {
+    overrideListeners.add(listener);
+    return () => {
+        overrideListeners.delete(listener);
+    };
+}
+
+/**
+ * Record a created override. Only createPolicyOverride adds overrides.
+ */
+function registerPolicyOverride(override: PolicyOverride): void {
+    policyOverridesStore.push(override);
+    notifyPolicyOverrideChange();
+}
+
+/**
+ * Get all overrides from the in-memory store.
+ *
+ * Returns a frozen copy to prevent mutation of the store.
+ */
+export function getAllPolicyOverrides(): ReadonlyArray<PolicyOverride> {
+    return Object.freeze([...policyOverridesStore]);
+}
+
+/**
+ * Replace all overrides with previously exported ones.
+ * Used by constitution import only.
+ */
+export function replacePolicyOverrides(overrides: ReadonlyArray<PolicyOverride>): void {
+    policyOverridesStore.length = 0;
+    policyOverridesStore.push(...overrides);
+    notifyPolicyOverrideChange();
+}
+
+/**
+ * Clear all overrides (for testing/reset only).
+ */
+export function clearPolicyOverrides(): void {
+    policyOverridesStore.length = 0;
+    notifyPolicyOverrideChange();
+}
@@ -0,0 +1,569 @@
+import { DATA_CLASSIFICATIONS, TIME_OF_DAY_PATTERN } from '../authority/verdictContext';
+import { DECISION_ERROR_STATUS, MAX_DECISION_BATCH_SIZE } from './decisionService';
+import { DEFAULT_VERDICT_LOG_LIMIT, MAX_VERDICT_LOG_LIMIT } from './verdictLog';
+import { GOVERNANCE_EVENT_TYPES } from '../audit/auditLedger';
+
+/**
+ * Decision API Contract (Phase 9N)
+ *
+ * OpenAPI 3.0 description of the versioned decision API, served at
+ * GET /api/v1/openapi. Enumerations are taken from the modules that
+ * validate them, so the document cannot drift from the implementation.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - Breaking changes require a new version path (/api/v2); v1 only grows optional fields
+ */
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const constraintSource = { type: 'string', enum: ['ORGANIZATION', 'DOMAIN', 'AGENT', 'EAPP', 'RUNTIME'] };
+
+const gateResult = {
+    type: 'object',
+    required: ['passed', 'reason'],
+    properties: {
+        passed: { type: 'boolean' },
+        reason: { type: 'string' },
+    },
+};
+
+const schemas = {
+    VerdictContext: {
+        type: 'object',
+        additionalProperties: false,
+        description: 'The concrete attempt. Every field is optional; rules on a missing field do not match.',
+        properties: {
+            targetResource: { type: 'string', minLength: 1, example: 'billing/refunds/2024-117' },
+            amount: {
+                type: 'object',
+                required: ['value', 'currency'],
+                properties: {
+                    value: { type: 'number' },
+                    currency: { type: 'string', minLength: 1, description: 'ISO 4217 code', example: 'EUR' },
+                },
+            },
+            counterparty: { type: 'string', minLength: 1, example: 'customer:4471' },
+            dataClassification: { type: 'string', enum: [...DATA_CLASSIFICATIONS] },
+            timeOfDay: {
+                type: 'string',
+                pattern: TIME_OF_DAY_PATTERN.source,
+                description: 'HH:MM in UTC. Defaults to the evaluation time.',
+            },
+            attributes: {
+                type: 'object',
+                additionalProperties: { oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }] },
+            },
+        },
+    },
+
+    DecisionRequest: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['agentId', 'actionId'],
+        properties: {
+            organizationId: {
+                type: 'string',
+                description: "Defaults to the workspace's active organization.",
+            },
+            agentId: { type: 'string', minLength: 1 },
+            actionId: { type: 'string', minLength: 1, description: "An action in the organization's catalog." },
+            context: ref('VerdictContext'),
+        },
+    },
+
+    BatchDecisionRequest: {
+        type: 'object',
+        required: ['requests'],
+        properties: {
+            organizationId: { type: 'string' },
+            requests: {
+                type: 'array',
+                minItems: 1,
+                maxItems: MAX_DECISION_BATCH_SIZE,
+                items: {
+                    type: 'object',
+                    additionalProperties: false,
+                    required: ['agentId', 'actionId'],
+                    properties: {
+                        agentId: { type: 'string', minLength: 1 },
+                        actionId: { type: 'string', minLength: 1 },
+                        context: ref('VerdictContext'),
+                    },
+                },
+            },
+        },
+    },
+
+    RuntimeVerdict: {
+        type: 'object',
+        required: ['verdictId', 'evaluatedAt', 'subject', 'action', 'context', 'configurationVersion', 'decision', 'reasoning', 'execution', 'guarantees'],
+        properties: {
+            verdictId: {
+                type: 'string',
+                description: 'verdict_ + SHA-256 of the canonical JSON of { agentId, actionId, context, configurationVersion }. Identical attempts share an ID.',
+            },
+            evaluatedAt: { type: 'string', format: 'date-time' },
+            subject: {
+                type: 'object',
+                required: ['agentId', 'agentName', 'domainId', 'organizationId'],
+                properties: {
+                    agentId: { type: 'string' },
+                    agentName: { type: 'string' },
+                    domainId: { type: 'string' },
+                    organizationId: { type: 'string' },
+                },
+            },
+            action: {
+                type: 'object',
+                required: ['actionId', 'actionName', 'actionCategory'],
+                properties: {
+                    actionId: { type: 'string' },
+                    actionName: { type: 'string' },
+                    actionCategory: { type: 'string', enum: ['READ', 'WRITE', 'DECIDE', 'EXECUTE', 'ESCALATE'] },
+                },
+            },
+            context: ref('VerdictContext'),
+            configurationVersion: {
+                type: 'string',
+                description: 'SHA-256 of the organization, domain, agent, derived authority and action catalog.',
+            },
+            decision: {
+                type: 'object',
+                required: ['status', 'confidence'],
+                properties: {
+                    status: { type: 'string', enum: ['ALLOWED', 'BLOCKED', 'ESCALATION_REQUIRED'] },
+                    confidence: { type: 'string', enum: ['HIGH', 'MEDIUM', 'LOW'] },
+                },
+            },
+            reasoning: {
+                type: 'object',
+                required: ['summary', 'appliedConstraints'],
+                properties: {
+                    summary: { type: 'string' },
+                    appliedConstraints: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['source', 'description'],
+                            properties: { source: constraintSource, description: { type: 'string' } },
+                        },
+                    },
+                },
+            },
+            execution: {
+                type: 'object',
+                required: ['attempted', 'executed', 'executionPath'],
+                properties: {
+                    attempted: { type: 'boolean', enum: [true] },
+                    executed: { type: 'boolean', enum: [false] },
+                    executionPath: { nullable: true, enum: [null] },
+                },
+            },
+            escalation: {
+                type: 'object',
+                required: ['required', 'reason', 'expectedApproverRole'],
+                properties: {
+                    required: { type: 'boolean', enum: [true] },
+                    reason: { type: 'string' },
+                    expectedApproverRole: { type: 'string' },
+                },
+            },
+            guarantees: {
+                type: 'object',
+                required: ['deterministic', 'reversible', 'persisted', 'executable'],
+                properties: {
+                    deterministic: { type: 'boolean', enum: [true] },
+                    reversible: { type: 'boolean', enum: [true] },
+                    persisted: { type: 'boolean', enum: [false] },
+                    executable: { type: 'boolean', enum: [false] },
+                },
+            },
+        },
+    },
+
+    ExecutionReadiness: {
+        type: 'object',
+        required: ['state', 'gates', 'summary'],
+        properties: {
+            state: {
+                type: 'string',
+                enum: ['NOT_ELIGIBLE', 'ELIGIBLE_PENDING_APPROVAL', 'ELIGIBLE_AUTOMATIC', 'BLOCKED_HARD'],
+            },
+            gates: {
+                type: 'object',
+                required: ['authorityAlignment', 'actionSurfaceCompatibility', 'escalationResolution', 'personaAlignment'],
+                properties: {
+                    authorityAlignment: gateResult,
+                    actionSurfaceCompatibility: gateResult,
+                    escalationResolution: gateResult,
+                    personaAlignment: gateResult,
+                },
+            },
+            summary: { type: 'string' },
+        },
+    },
+
+    ReadinessDecision: {
+        type: 'object',
+        required: ['verdict', 'readiness'],
+        properties: {
+            verdict: ref('RuntimeVerdict'),
+            readiness: ref('ExecutionReadiness'),
+        },
+    },
+
+    Error: {
+        type: 'object',
+        required: ['error', 'code'],
+        properties: {
+            error: { type: 'string' },
+            code: {
+                type: 'string',
+                enum: Object.keys(DECISION_ERROR_STATUS),
+            },
+            issues: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    required: ['path', 'message'],
+                    properties: { path: { type: 'string' }, message: { type: 'string' } },
+                },
+            },
+        },
+    },
+
+    DoAction: {
+        type: 'object',
+        required: ['id', 'verbPhrase', 'category', 'requiredAuthority', 'requiredSurface', 'tags', 'state', 'reason'],
+        properties: {
+            id: { type: 'string' },
+            verbPhrase: { type: 'string' },
+            category: { type: 'string' },
+            requiredAuthority: { type: 'integer' },
+            requiredSurface: { type: 'string', enum: ['READ', 'WRITE', 'EXECUTE'] },
+            tags: { type: 'array', items: { type: 'string' } },
+            state: { type: 'string' },
+            reason: { type: 'string' },
+        },
+    },
+
+    StagedAction: {
+        type: 'object',
+        description: 'An attempt frozen for human review. Only the fields integrations rely on are listed.',
+        required: ['id', 'stagedAt', 'agentId', 'actionId', 'runtimeVerdict', 'executionReadiness', 'state'],
+        properties: {
+            id: { type: 'string' },
+            stagedAt: { type: 'string', format: 'date-time' },
+            agentId: { type: 'string' },
+            actionId: { type: 'string' },
+            runtimeVerdict: ref('RuntimeVerdict'),
+            executionReadiness: ref('ExecutionReadiness'),
+            state: { type: 'string', enum: ['STAGED', 'APPROVED', 'REJECTED'] },
+            stateChangedAt: { type: 'string', format: 'date-time' },
+            rejectionReason: { type: 'string' },
+        },
+    },
+
+    ApprovalDecision: {
+        type: 'object',
+        required: ['decision'],
+        properties: {
+            organizationId: { type: 'string' },
+            decision: { type: 'string', enum: ['APPROVE', 'REJECT'] },
+            reason: { type: 'string', description: 'Required to reject.' },
+        },
+    },
+
+    VerdictLogEntry: {
+        type: 'object',
+        required: ['entryId', 'recordedAt', 'organizationId', 'source', 'requestedContext', 'configurationVersion', 'verdict'],
+        properties: {
+            entryId: { type: 'string' },
+            recordedAt: { type: 'string', format: 'date-time' },
+            organizationId: { type: 'string' },
+            source: { type: 'string', enum: ['VERDICT', 'BATCH', 'READINESS', 'STAGING'] },
+            requestedContext: ref('VerdictContext'),
+            configurationVersion: { type: 'string' },
+            verdict: ref('RuntimeVerdict'),
+        },
+    },
+
+    GovernanceEvents: {
+        type: 'object',
+        required: ['events'],
+        properties: {
+            organizationId: { type: 'string' },
+            events: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                    type: 'object',
+                    required: ['type', 'actor', 'subjectId', 'summary', 'changes'],
+                    properties: {
+                        type: { type: 'string', enum: [...GOVERNANCE_EVENT_TYPES] },
+                        actor: { type: 'string' },
+                        subjectId: { type: 'string' },
+                        summary: { type: 'string' },
+                        changes: { type: 'array', items: ref('AuditChange') },
+                        justification: { type: 'string' },
+                    },
+                },
+            },
+        },
+    },
+
+    AuditChange: {
+        type: 'object',
+        required: ['field', 'before', 'after'],
+        properties: {
+            field: { type: 'string' },
+            before: { type: 'string', nullable: true },
+            after: { type: 'string', nullable: true },
+        },
+    },
+
+    AuditEntry: {
+        type: 'object',
+        required: ['sequence', 'recordedAt', 'type', 'actor', 'subjectId', 'summary', 'changes', 'previousHash', 'hash'],
+        properties: {
+            sequence: { type: 'integer', minimum: 0 },
+            recordedAt: { type: 'string', format: 'date-time' },
+            type: { type: 'string', enum: [...GOVERNANCE_EVENT_TYPES] },
+            actor: { type: 'string' },
+            subjectId: { type: 'string' },
+            summary: { type: 'string' },
+            changes: { type: 'array', items: ref('AuditChange') },
+            justification: { type: 'string' },
+            previousHash: { type: 'string', description: 'Hash of the previous entry; 64 zeros for the first.' },
+            hash: { type: 'string', description: 'SHA-256 of the canonical JSON of every other field.' },
+        },
+    },
+
+    AuditVerification: {
+        type: 'object',
+        required: ['intact', 'entryCount', 'headHash', 'issues'],
+        properties: {
+            intact: { type: 'boolean' },
+            entryCount: { type: 'integer' },
+            headHash: { type: 'string' },
+            issues: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    required: ['sequence', 'kind', 'message'],
+                    properties: {
+                        sequence: { type: 'integer' },
+                        kind: { type: 'string', enum: ['HASH_MISMATCH', 'BROKEN_LINK', 'SEQUENCE_GAP'] },
+                        message: { type: 'string' },
+                    },
+                },
+            },
+        },
+    },
+
+    BatchDecisionResponse: {
+        type: 'object',
+        required: ['results'],
+        properties: {
+            results: {
+                type: 'array',
+                description: 'One entry per request, in request order.',
+                items: {
+                    oneOf: [
+                        { type: 'object', required: ['verdict'], properties: { verdict: ref('RuntimeVerdict') } },
+                        { type: 'object', required: ['error'], properties: { error: ref('Error') } },
+                    ],
+                },
+            },
+        },
+    },
+};
+
+// ============================================================================
+// PATHS
+// ============================================================================
+
+const json = (schema: object) => ({ content: { 'application/json': { schema } } });
+
+const organizationQuery = {
+    name: 'organizationId',
+    in: 'query',
+    required: false,
+    schema: { type: 'string' },
+    description: "Defaults to the workspace's active organization.",
+};
+
+const pathParameter = (name: string) => ({ name, in: 'path', required: true, schema: { type: 'string' } });
+
+const errorResponses = {
+    '400': { description: 'Malformed request', ...json(ref('Error')) },
+    '404': { description: 'Unknown organization, agent, action or staged action', ...json(ref('Error')) },
+    '409': { description: 'Invalid stored configuration, or the action cannot be staged or decided', ...json(ref('Error')) },
+    '500': { description: 'Unexpected failure', ...json(ref('Error')) },
+};
+
+const auditLedgerBody = {
+    type: 'object',
+    required: ['entries', 'verification'],
+    properties: {
+        entries: { type: 'array', items: ref('AuditEntry') },
+        verification: ref('AuditVerification'),
+    },
+};
+
+export const DECISION_API_SPEC = {
+    openapi: '3.0.3',
+    info: {
+        title: 'Clonehaus Decision API',
+        version: '1.0.0',
+        description: 'Runtime verdicts for agent actions. Verdicts explain what would happen; nothing is executed.',
+    },
+    servers: [{ url: '/api/v1' }],
+    paths: {
+        '/verdicts': {
+            post: {
+                operationId: 'createVerdict',
+                summary: 'Derive the runtime verdict for one action attempt',
+                requestBody: { required: true, ...json(ref('DecisionRequest')) },
+                responses: {
+                    '200': { description: 'The verdict', ...json(ref('RuntimeVerdict')) },
+                    ...errorResponses,
+                },
+            },
+        },
+        '/verdicts/batch': {
+            post: {
+                operationId: 'createVerdicts',
+                summary: `Derive verdicts for up to ${MAX_DECISION_BATCH_SIZE} attempts against one configuration`,
+                description: 'A request that fails gets an error entry; the batch itself only fails when the envelope or configuration is invalid.',
+                requestBody: { required: true, ...json(ref('BatchDecisionRequest')) },
+                responses: {
+                    '200': { description: 'One result per request', ...json(ref('BatchDecisionResponse')) },
+                    ...errorResponses,
+                },
+            },
+        },
+        '/readiness': {
+            post: {
+                operationId: 'assessReadiness',
+                summary: 'Derive the verdict and execution readiness for one action attempt',
+                requestBody: { required: true, ...json(ref('DecisionRequest')) },
+                responses: {
+                    '200': { description: 'The verdict and readiness', ...json(ref('ReadinessDecision')) },
+                    ...errorResponses,
+                },
+            },
+        },
+        '/agents/{agentId}/actions': {
+            get: {
+                operationId: 'listActions',
+                summary: 'The Do actions bound to an agent, with their current states',
+                parameters: [pathParameter('agentId'), organizationQuery],
+                responses: {
+                    '200': {
+                        description: 'The actions',
+                        ...json({ type: 'object', required: ['actions'], properties: { actions: { type: 'array', items: ref('DoAction') } } }),
+                    },
+                    ...errorResponses,
+                },
+            },
+        },
+        '/staged-actions': {
+            post: {
+                operationId: 'stageAction',
+                summary: 'Stage one action attempt for human review',
+                description: 'Not idempotent: every call stages a new action.',
+                requestBody: { required: true, ...json(ref('DecisionRequest')) },
+                responses: {
+                    '201': { description: 'The staged action', ...json(ref('StagedAction')) },
+                    ...errorResponses,
+                },
+            },
+        },
+        '/staged-actions/{id}': {
+            get: {
+                operationId: 'getStagedAction',
+                summary: 'A staged action and its approval state',
+                parameters: [pathParameter('id'), organizationQuery],
+                responses: {
+                    '200': { description: 'The staged action', ...json(ref('StagedAction')) },
+                    ...errorResponses,
+                },
+            },
+        },
+        '/staged-actions/{id}/approval': {
+            post: {
+                operationId: 'decideStagedAction',
+                summary: 'Approve or reject a staged action (once)',
+                description: 'The decision is recorded in the audit ledger before it is saved.',
+                parameters: [pathParameter('id')],
+                requestBody: { required: true, ...json(ref('ApprovalDecision')) },
+                responses: {
+                    '200': { description: 'The decided staged action', ...json(ref('StagedAction')) },
+                    ...errorResponses,
+                },
+            },
+        },
+        '/verdict-log': {
+            get: {
+                operationId: 'queryVerdictLog',
+                summary: 'Recorded verdicts, newest first',
+                description: 'Every verdict the API returned is recorded. The log is append-only.',
+                parameters: [
+                    organizationQuery,
+                    { name: 'agentId', in: 'query', required: false, schema: { type: 'string' } },
+                    { name: 'actionId', in: 'query', required: false, schema: { type: 'string' } },
+                    { name: 'status', in: 'query', required: false, schema: { type: 'string', enum: ['ALLOWED', 'BLOCKED', 'ESCALATION_REQUIRED'] } },
+                    { name: 'from', in: 'query', required: false, schema: { type: 'string', format: 'date-time' }, description: 'evaluatedAt, inclusive' },
+                    { name: 'to', in: 'query', required: false, schema: { type: 'string', format: 'date-time' }, description: 'evaluatedAt, exclusive' },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        required: false,
+                        schema: { type: 'integer', minimum: 1, maximum: MAX_VERDICT_LOG_LIMIT, default: DEFAULT_VERDICT_LOG_LIMIT },
+                    },
+                ],
+                responses: {
+                    '200': {
+                        description: 'Matching entries',
+                        ...json({ type: 'object', required: ['entries'], properties: { entries: { type: 'array', items: ref('VerdictLogEntry') } } }),
+                    },
+                    ...errorResponses,
+                },
+            },
+        },
+        '/audit-ledger': {
+            get: {
+                operationId: 'getAuditLedger',
+                summary: 'Hash-chained governance decisions, oldest first, with their verification',
+                parameters: [organizationQuery],
+                responses: {
+                    '200': { description: 'The ledger and whether its chain is intact', ...json(auditLedgerBody) },
+                    ...errorResponses,
+                },
+            },
+            post: {
+                operationId: 'recordGovernanceEvents',
+                summary: 'Chain governance decisions made elsewhere (such as the UI) onto the ledger',
+                description: 'The server assigns sequence, time and hashes. Not idempotent: every call appends.',
+                requestBody: { required: true, ...json(ref('GovernanceEvents')) },
+                responses: {
+                    '201': { description: 'The whole ledger, including the new entries', ...json(auditLedgerBody) },
+                    ...errorResponses,
+                },
+            },
+        },
+        '/openapi': {
+            get: {
+                operationId: 'getOpenApiSpec',
+                summary: 'This document',
+                responses: { '200': { description: 'OpenAPI 3.0 document', ...json({ type: 'object' }) } },
+            },
+        },
+    },
+    components: { schemas },
+} as const;
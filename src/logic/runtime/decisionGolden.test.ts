@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { DecisionConfiguration, DecisionRequest, decide } from './decisionService';
+import { DEFAULT_ACTION_CATALOG } from '../actions/actionCatalog';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+import { fixedClock } from '@/utils/clock';
+import golden from './__golden__/verdicts.json';
+
+/**
+ * Golden verdicts (Phase 9P): the seed organization, evaluated at a fixed
+ * instant, must reproduce __golden__/verdicts.json byte for byte. When a
+ * change to derivation is intended, regenerate the file from decide() and
+ * review the diff like any other change.
+ */
+
+describe('Golden Verdicts', () => {
+    const configuration: DecisionConfiguration = {
+        structure: PHASE0_DATA,
+        catalog: DEFAULT_ACTION_CATALOG,
+        clock: fixedClock(golden.evaluatedAt),
+    };
+
+    for (const { name, request, verdict } of golden.cases) {
+        it(`reproduces ${name}`, () => {
+            expect(JSON.stringify(decide(configuration, request as DecisionRequest), null, 2))
+                .toBe(JSON.stringify(verdict, null, 2));
+        });
+    }
+
+    it('gives identical attempts the same ID whenever they are evaluated', () => {
+        const request: DecisionRequest = { agentId: 'agt-fin-recon', actionId: 'finance_review_ledger', context: { timeOfDay: '09:30' } };
+        const morning = decide({ ...configuration, clock: fixedClock('2025-01-15T09:30:05Z') }, request);
+        const later = decide({ ...configuration, clock: fixedClock('2025-03-02T17:00:00Z') }, request);
+        expect(later.verdictId).toBe(morning.verdictId);
+        expect(later.evaluatedAt).not.toBe(morning.evaluatedAt);
+    });
+
+    it('changes the ID when the context or configuration changes', () => {
+        const request: DecisionRequest = { agentId: 'agt-fin-recon', actionId: 'finance_review_ledger' };
+        const base = decide(configuration, request);
+        const otherContext = decide(configuration, { ...request, context: { counterparty: 'bank:7' } });
+        const otherCatalog = decide({ ...configuration, catalog: { ...DEFAULT_ACTION_CATALOG, defaultActionIds: [] } }, request);
+
+        expect(otherContext.verdictId).not.toBe(base.verdictId);
+        expect(otherCatalog.configurationVersion).not.toBe(base.configurationVersion);
+        expect(otherCatalog.verdictId).not.toBe(base.verdictId);
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    DecisionConfiguration,
+    DecisionError,
+    assessReadiness,
+    decide,
+    listActions,
+    parseDecisionRequest,
+    parseGovernanceEvents,
+    validateDecisionRequest,
+} from './decisionService';
+import { DEFAULT_ACTION_CATALOG } from '../actions/actionCatalog';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+import { Domain } from '@/app/data/types';
+
+describe('Decision Service', () => {
+    const configuration: DecisionConfiguration = { structure: PHASE0_DATA, catalog: DEFAULT_ACTION_CATALOG };
+
+    const errorCode = (attempt: () => unknown) => {
+        try {
+            attempt();
+        } catch (error) {
+            return error instanceof DecisionError ? error.code : 'OTHER';
+        }
+        return 'NONE';
+    };
+
+    it('returns the verdict for a bound action with the request context', () => {
+        const verdict = decide(configuration, {
+            agentId: 'agt-fin-recon',
+            actionId: 'finance_review_ledger',
+            context: { targetResource: 'ledger/2024', timeOfDay: '09:30' },
+        });
+        expect(verdict.subject.agentId).toBe('agt-fin-recon');
+        expect(verdict.action.actionId).toBe('finance_review_ledger');
+        expect(verdict.context).toEqual({ targetResource: 'ledger/2024', timeOfDay: '09:30' });
+    });
+
+    it('blocks catalog actions not bound to the agent', () => {
+        const verdict = decide(configuration, { agentId: 'agt-fin-recon', actionId: 'ops_deploy_production' });
+        expect(verdict.decision.status).toBe('BLOCKED');
+    });
+
+    it('rejects unknown agents and actions with distinct codes', () => {
+        expect(errorCode(() => decide(configuration, { agentId: 'agt-missing', actionId: 'finance_review_ledger' })))
+            .toBe('UNKNOWN_AGENT');
+        expect(errorCode(() => decide(configuration, { agentId: 'agt-fin-recon', actionId: 'missing_action' })))
+            .toBe('UNKNOWN_ACTION');
+    });
+
+    it('derives readiness from the returned verdict', () => {
+        const { verdict, readiness } = assessReadiness(configuration, { agentId: 'agt-fin-recon', actionId: 'ops_deploy_production' });
+        expect(verdict.decision.status).toBe('BLOCKED');
+        expect(readiness.state).toBe('BLOCKED_HARD');
+    });
+
+    it('applies enclosing domains\' constraints and categories to agents in sub-domains', () => {
+        const nested = (parent: Partial<Domain>): DecisionConfiguration => {
+            const finance = PHASE0_DATA.domains.find(d => d.id === 'dom-fin')!;
+            const child: Domain = { ...finance, id: 'dom-fin-recon', name: 'Reconciliation', constraints: [], parentDomainId: 'dom-fin' };
+            return {
+                ...configuration,
+                structure: {
+                    ...PHASE0_DATA,
+                    domains: [...PHASE0_DATA.domains.map(d => d.id === 'dom-fin' ? { ...d, ...parent } : d), child],
+                    agents: PHASE0_DATA.agents.map(a => a.id === 'agt-fin-recon' ? { ...a, domainId: child.id } : a),
+                },
+            };
+        };
+        const request = { agentId: 'agt-fin-recon', actionId: 'finance_review_ledger' };
+
+        expect(decide(nested({}), request).decision.status).toBe('ALLOWED');
+        expect(decide(nested({ constraints: [{ id: 'freeze', when: {}, effect: { kind: 'BLOCK' } }] }), request).decision.status)
+            .toBe('BLOCKED');
+        const withoutCategories = nested({ allowedActionCategories: [] });
+        expect(decide(withoutCategories, request).decision.status).toBe('BLOCKED');
+        expect(listActions(withoutCategories, 'agt-fin-recon').find(a => a.id === request.actionId)?.reason)
+            .toBe('Enclosing domain "Financial Operations" does not permit DATA_ACCESS actions.');
+    });
+
+    it('reports every malformed field with its path', () => {
+        const issues = validateDecisionRequest({ agentId: '', context: { amount: { value: 'x' } }, extra: 1 }, 'requests[2]');
+        expect(issues.map(i => i.path)).toEqual([
+            'requests[2].extra',
+            'requests[2].agentId',
+            'requests[2].actionId',
+            'requests[2].context.amount.value',
+            'requests[2].context.amount.currency',
+        ]);
+        expect(errorCode(() => parseDecisionRequest(null))).toBe('INVALID_REQUEST');
+    });
+
+    it('keeps only the fields of posted governance events and reports malformed ones', () => {
+        const event = {
+            type: 'POLICY_PROPOSAL_CONFIRMED',
+            actor: 'reviewer',
+            subjectId: 'proposal-1',
+            summary: 'Confirmed proposal-1',
+            changes: [{ field: 'status', before: null, after: 'ACTIVE' }],
+            hash: 'forged',
+        };
+        const { hash: _hash, ...recorded } = event;
+        expect(parseGovernanceEvents({ events: [event] })).toEqual([recorded]);
+
+        let issues: string[] = [];
+        try {
+            parseGovernanceEvents({ events: [{ ...event, type: 'POLICY_DELETED', actor: '', changes: [{ field: 'status' }] }] });
+        } catch (error) {
+            issues = error instanceof DecisionError ? error.issues.map(i => i.path) : [];
+        }
+        expect(issues).toEqual(['events[0].type', 'events[0].actor', 'events[0].changes[0]']);
+        expect(errorCode(() => parseGovernanceEvents({ events: [] }))).toBe('INVALID_REQUEST');
+    });
+});
@@ -0,0 +1,405 @@
+import { Agent, Domain, Phase0Data } from '@/app/data/types';
+import { AuthorityResult, deriveAgentAuthority } from '../authority/deriveAuthority';
+import { DoAction, deriveDoActions } from '../authority/deriveDoActions';
+import { RuntimeVerdict, deriveRuntimeVerdict } from '../authority/deriveRuntimeVerdict';
+import { ExecutionReadiness, deriveExecutionReadiness } from '../authority/deriveExecutionReadiness';
+import { VerdictContext, VerdictContextIssue, validateVerdictContext } from '../authority/verdictContext';
+import { ActionCatalog, getCatalogEntry } from '../actions/actionCatalog';
+import { getDomainAncestors } from '../structure/domainHierarchy';
+import { Clock, systemClock } from '@/utils/clock';
+import { StagedAction, approveStagedAction, canStageAction, createStagedAction, rejectStagedAction } from '../staging/stagedActions';
+import { LearnedPolicy } from '../policy/learnedPolicy';
+import { PolicySet, policiesInForce } from '../policy/policyApplication';
+import { PersonaAssignments, resolvePersonaIdentity } from '../persona/personaIdentityMapping';
+import { PersonaIdentity } from '../persona/personaIdentity';
+import { GOVERNANCE_EVENT_TYPES, GovernanceEvent } from '../audit/auditLedger';
+
+/**
+ * Decision Service (Phase 9N)
+ *
+ * Answers "may this agent do this?" for callers outside the UI, such as the
+ * HTTP decision API. A request names an agent, a catalog action and the
+ * action's context; the answer is the canonical RuntimeVerdict, optionally
+ * with the ExecutionReadiness derived from it. Attempts that need a human
+ * can be staged and later approved or rejected.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - PURE: The caller supplies the configuration; nothing is read or stored here
+ * - Same derivation chain as the UI: deriveDoActions → deriveRuntimeVerdict → deriveExecutionReadiness
+ * - NO EXECUTION: Verdicts explain what would happen; approval records intent only
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DecisionRequest {
+    agentId: string;
+    actionId: string;
+    context?: VerdictContext;
+}
+
+/**
+ * Everything a decision is derived from: one organization's structure and action catalog.
+ */
+export interface DecisionConfiguration {
+    structure: Phase0Data;
+    catalog: ActionCatalog;
+    clock?: Clock;              // Phase 9P: Fixed in tests and replays; defaults to the system clock
+    policies?: PolicySet;       // Phase 9U: Learned policies and overrides to apply; omit to apply none
+    personas?: PersonaAssignments;  // Phase 9T: Persona identities for the ethical veto; omit for agents without personas
+}
+
+export interface ReadinessDecision {
+    verdict: RuntimeVerdict;
+    readiness: ExecutionReadiness;
+}
+
+export interface DecisionRequestIssue {
+    path: string;               // e.g. "context.amount.value"
+    message: string;
+}
+
+export type DecisionErrorCode =
+    | 'INVALID_REQUEST'             // Malformed request body
+    | 'UNKNOWN_ORGANIZATION'        // Organization not in the workspace
+    | 'UNKNOWN_AGENT'
+    | 'UNKNOWN_ACTION'              // Action not in the organization's catalog
+    | 'UNKNOWN_STAGED_ACTION'
+    | 'NOT_STAGEABLE'               // Readiness is BLOCKED_HARD
+    | 'INVALID_TRANSITION'          // Staged action was already approved or rejected
+    | 'INVALID_CONFIGURATION';      // Stored structure or catalog fails validation
+
+/**
+ * Error payload of every decision API response that is not 2xx.
+ */
+export interface DecisionErrorBody {
+    error: string;
+    code: DecisionErrorCode | 'INTERNAL';
+    issues?: DecisionRequestIssue[];
+}
+
+/**
+ * A human's answer to a staged action.
+ */
+export interface ApprovalDecision {
+    decision: 'APPROVE' | 'REJECT';
+    reason?: string;                // Required to reject
+}
+
+/**
+ * Most requests a single batch call may decide.
+ */
+export const MAX_DECISION_BATCH_SIZE = 100;
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export class DecisionError extends Error {
+    constructor(
+        message: string,
+        public readonly code: DecisionErrorCode,
+        public readonly issues: DecisionRequestIssue[] = []
+    ) {
+        super(message);
+        this.name = 'DecisionError';
+    }
+}
+
+// ============================================================================
+// WIRE FORMAT
+// ============================================================================
+
+/**
+ * HTTP status of each error code, shared by the API routes and test servers.
+ */
+export const DECISION_ERROR_STATUS: Record<DecisionErrorBody['code'], number> = {
+    INVALID_REQUEST: 400,
+    UNKNOWN_ORGANIZATION: 404,
+    UNKNOWN_AGENT: 404,
+    UNKNOWN_ACTION: 404,
+    UNKNOWN_STAGED_ACTION: 404,
+    NOT_STAGEABLE: 409,
+    INVALID_TRANSITION: 409,
+    INVALID_CONFIGURATION: 409,
+    INTERNAL: 500,
+};
+
+/**
+ * Error payload for any thrown value. Only DecisionError details are exposed.
+ */
+export function toDecisionErrorBody(error: unknown): DecisionErrorBody {
+    if (error instanceof DecisionError) {
+        return {
+            error: error.message,
+            code: error.code,
+            ...(error.issues.length > 0 ? { issues: error.issues } : {}),
+        };
+    }
+    return { error: 'Failed to derive the decision', code: 'INTERNAL' };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate an untrusted value as a DecisionRequest.
+ * Returns an empty list when the request is usable.
+ */
+export function validateDecisionRequest(raw: unknown, path: string = ''): DecisionRequestIssue[] {
+    const at = (key: string) => (path ? `${path}.${key}` : key);
+    if (!isObject(raw)) return [{ path: path || '(request)', message: 'Expected an object' }];
+
+    const issues: DecisionRequestIssue[] = [];
+    for (const key of Object.keys(raw)) {
+        if (!['agentId', 'actionId', 'context'].includes(key)) issues.push({ path: at(key), message: 'Unknown field' });
+    }
+    for (const key of ['agentId', 'actionId']) {
+        const value = raw[key];
+        if (typeof value !== 'string' || value.trim() === '') {
+            issues.push({ path: at(key), message: 'Must be a non-empty string' });
+        }
+    }
+    if (raw.context !== undefined) {
+        issues.push(...validateVerdictContext(raw.context).map((issue: VerdictContextIssue) => ({
+            path: issue.path === '(context)' ? at('context') : at(`context.${issue.path}`),
+            message: issue.message,
+        })));
+    }
+    return issues;
+}
+
+/**
+ * Narrow an untrusted value to a DecisionRequest.
+ * @throws DecisionError (INVALID_REQUEST) listing every issue
+ */
+export function parseDecisionRequest(raw: unknown, path: string = ''): DecisionRequest {
+    const issues = validateDecisionRequest(raw, path);
+    if (issues.length > 0) {
+        throw new DecisionError('The decision request is invalid', 'INVALID_REQUEST', issues);
+    }
+    return raw as DecisionRequest;
+}
+
+/**
+ * Narrow an untrusted value to an ApprovalDecision.
+ * @throws DecisionError (INVALID_REQUEST) listing every issue
+ */
+export function parseApprovalDecision(raw: unknown): ApprovalDecision {
+    const issues: DecisionRequestIssue[] = [];
+    if (!isObject(raw)) {
+        issues.push({ path: '(request)', message: 'Expected an object' });
+    } else {
+        if (raw.decision !== 'APPROVE' && raw.decision !== 'REJECT') {
+            issues.push({ path: 'decision', message: 'Expected one of APPROVE, REJECT' });
+        }
+        if (raw.reason !== undefined && typeof raw.reason !== 'string') {
+            issues.push({ path: 'reason', message: 'Expected a string' });
+        } else if (raw.decision === 'REJECT' && (typeof raw.reason !== 'string' || raw.reason.trim() === '')) {
+            issues.push({ path: 'reason', message: 'A reason is required to reject' });
+        }
+    }
+    if (issues.length > 0) {
+        throw new DecisionError('The approval decision is invalid', 'INVALID_REQUEST', issues);
+    }
+    return raw as unknown as ApprovalDecision;
+}
+
+/**
+ * Narrow an untrusted value to the governance events of { events: GovernanceEvent[] }
+ * (Phase 9R), as recorded by the UI for the organization's audit ledger.
+ * @throws DecisionError (INVALID_REQUEST) listing every issue
+ */
+export function parseGovernanceEvents(raw: unknown): GovernanceEvent[] {
+    const issues: DecisionRequestIssue[] = [];
+    if (!isObject(raw)) {
+        issues.push({ path: '(request)', message: 'Expected an object' });
+    } else if (!Array.isArray(raw.events) || raw.events.length === 0) {
+        issues.push({ path: 'events', message: 'Expected a non-empty array' });
+    } else {
+        raw.events.forEach((event: unknown, index: number) => {
+            const at = (key: string) => `events[${index}].${key}`;
+            if (!isObject(event)) {
+                issues.push({ path: `events[${index}]`, message: 'Expected an object' });
+                return;
+            }
+            if (!GOVERNANCE_EVENT_TYPES.includes(event.type as GovernanceEvent['type'])) {
+                issues.push({ path: at('type'), message: `Expected one of ${GOVERNANCE_EVENT_TYPES.join(', ')}` });
+            }
+            for (const key of ['actor', 'subjectId', 'summary']) {
+                const value = event[key];
+                if (typeof value !== 'string' || value.trim() === '') {
+                    issues.push({ path: at(key), message: 'Must be a non-empty string' });
+                }
+            }
+            if (event.justification !== undefined && typeof event.justification !== 'string') {
+                issues.push({ path: at('justification'), message: 'Expected a string' });
+            }
+            if (!Array.isArray(event.changes)) {
+                issues.push({ path: at('changes'), message: 'Expected an array' });
+            } else {
+                event.changes.forEach((change: unknown, changeIndex: number) => {
+                    const valid = isObject(change) && typeof change.field === 'string' &&
+                        [change.before, change.after].every(value => value === null || typeof value === 'string');
+                    if (!valid) {
+                        issues.push({ path: at(`changes[${changeIndex}]`), message: 'Expected { field, before, after } with string or null values' });
+                    }
+                });
+            }
+        });
+    }
+    if (issues.length > 0) {
+        throw new DecisionError('The governance events are invalid', 'INVALID_REQUEST', issues);
+    }
+    // Only the event's own fields; the chain fields are the server's to assign
+    return (raw as { events: GovernanceEvent[] }).events.map(event => ({
+        type: event.type,
+        actor: event.actor,
+        subjectId: event.subjectId,
+        summary: event.summary,
+        changes: event.changes.map(({ field, before, after }) => ({ field, before, after })),
+        ...(event.justification !== undefined ? { justification: event.justification } : {}),
+    }));
+}
+
+// ============================================================================
+// DECISIONS
+// ============================================================================
+
+interface ResolvedRequest {
+    agent: Agent;
+    domain: Domain;
+    ancestors: Domain[];                // Phase 9F: Enclosing domains, outermost first
+    authority: AuthorityResult;
+    doAction: DoAction;
+    policies: LearnedPolicy[];          // Phase 9U: In force at evaluation time
+    persona: PersonaIdentity | null;    // Phase 9T: The agent's persona identity, for the ethical veto
+}
+
+/**
+ * Phase 9U: The configured learned policies that are in force now.
+ */
+function resolvePolicies(configuration: DecisionConfiguration): LearnedPolicy[] {
+    return policiesInForce(configuration.policies, (configuration.clock ?? systemClock)());
+}
+
+/**
+ * Resolve the agent, its domain chain and the Do action being attempted.
+ * Actions in the catalog but not bound to the agent still get a (BLOCKED) verdict.
+ *
+ * @throws DecisionError when the agent or action does not exist
+ */
+function resolveRequest(configuration: DecisionConfiguration, request: DecisionRequest): ResolvedRequest {
+    const { structure, catalog } = configuration;
+
+    const agent = structure.agents.find(a => a.id === request.agentId);
+    const domain = agent && structure.domains.find(d => d.id === agent.domainId);
+    if (!agent || !domain) {
+        throw new DecisionError(`Unknown agent "${request.agentId}"`, 'UNKNOWN_AGENT');
+    }
+
+    const entry = getCatalogEntry(catalog, request.actionId);
+    if (!entry) {
+        throw new DecisionError(`Unknown action "${request.actionId}"`, 'UNKNOWN_ACTION');
+    }
+
+    const ancestors = getDomainAncestors(structure.domains, domain.id);
+    const authority = deriveAgentAuthority(structure.organization, domain, agent, ancestors);
+    const policies = resolvePolicies(configuration);
+    const persona = resolvePersonaIdentity(configuration.personas, agent.id);
+    const doAction = deriveDoActions(agent, authority, domain, structure.organization, catalog, policies, ancestors, persona)
+        .actions.find(a => a.id === entry.id)
+        ?? { ...entry, state: 'BLOCKED', reason: 'This action is not bound to this agent in the action catalog.' };
+
+    return { agent, domain, ancestors, authority, doAction, policies, persona };
+}
+
+/**
+ * The RuntimeVerdict for one request.
+ * @throws DecisionError when the agent or action does not exist
+ */
+export function decide(configuration: DecisionConfiguration, request: DecisionRequest): RuntimeVerdict {
+    const { agent, domain, ancestors, authority, doAction, policies, persona } = resolveRequest(configuration, request);
+    return deriveRuntimeVerdict(
+        agent,
+        doAction,
+        authority,
+        domain,
+        configuration.structure.organization,
+        configuration.catalog,
+        request.context ?? {},
+        configuration.clock,
+        policies,
+        ancestors,
+        persona
+    );
+}
+
+/**
+ * The RuntimeVerdict for one request and the execution readiness derived from it.
+ * @throws DecisionError when the agent or action does not exist
+ */
+export function assessReadiness(configuration: DecisionConfiguration, request: DecisionRequest): ReadinessDecision {
+    const { agent, domain, ancestors, authority, doAction, policies, persona } = resolveRequest(configuration, request);
+    const { organization } = configuration.structure;
+    const verdict = deriveRuntimeVerdict(agent, doAction, authority, domain, organization, configuration.catalog, request.context ?? {}, configuration.clock, policies, ancestors, persona);
+    const readiness = deriveExecutionReadiness(agent, doAction, authority, verdict, domain, organization, persona);
+    return { verdict, readiness };
+}
+
+/**
+ * The Do actions bound to an agent, with their current states.
+ * @throws DecisionError when the agent does not exist
+ */
+export function listActions(configuration: DecisionConfiguration, agentId: string): DoAction[] {
+    const { structure, catalog } = configuration;
+    const agent = structure.agents.find(a => a.id === agentId);
+    const domain = agent && structure.domains.find(d => d.id === agent.domainId);
+    if (!agent || !domain) {
+        throw new DecisionError(`Unknown agent "${agentId}"`, 'UNKNOWN_AGENT');
+    }
+    const ancestors = getDomainAncestors(structure.domains, domain.id);
+    const authority = deriveAgentAuthority(structure.organization, domain, agent, ancestors);
+    const persona = resolvePersonaIdentity(configuration.personas, agent.id);
+    return deriveDoActions(agent, authority, domain, structure.organization, catalog, resolvePolicies(configuration), ancestors, persona).actions;
+}
+
+// ============================================================================
+// STAGING
+// ============================================================================
+
+/**
+ * Stage one request for human review, freezing its verdict and readiness.
+ * @throws DecisionError when the agent or action does not exist, or the action is BLOCKED_HARD
+ */
+export function stageAction(configuration: DecisionConfiguration, request: DecisionRequest): StagedAction {
+    const { agent, domain, ancestors, authority, doAction, policies, persona } = resolveRequest(configuration, request);
+    const { organization } = configuration.structure;
+    const verdict = deriveRuntimeVerdict(agent, doAction, authority, domain, organization, configuration.catalog, request.context ?? {}, configuration.clock, policies, ancestors, persona);
+    const readiness = deriveExecutionReadiness(agent, doAction, authority, verdict, domain, organization, persona);
+    if (!canStageAction(doAction, readiness)) {
+        throw new DecisionError(`"${doAction.id}" cannot be staged for ${agent.name}: ${readiness.summary}`, 'NOT_STAGEABLE');
+    }
+    return createStagedAction(agent, doAction, verdict, readiness, authority, configuration.catalog, domain, policies, ancestors);
+}
+
+/**
+ * Record a human's approval or rejection of a staged action.
+ * @throws DecisionError (INVALID_TRANSITION) when it is no longer STAGED
+ */
+export function applyApprovalDecision(action: StagedAction, approval: ApprovalDecision): StagedAction {
+    if (action.state !== 'STAGED') {
+        throw new DecisionError(`Staged action "${action.id}" is already ${action.state}`, 'INVALID_TRANSITION');
+    }
+    return approval.decision === 'APPROVE'
+        ? approveStagedAction(action)
+        : rejectStagedAction(action, approval.reason!.trim());
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { createVerdictLogEntry, parseVerdictLogQuery, queryVerdictLog } from './verdictLog';
+import { DecisionConfiguration, decide } from './decisionService';
+import { DEFAULT_ACTION_CATALOG } from '../actions/actionCatalog';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+import { fixedClock } from '@/utils/clock';
+
+describe('Verdict Log', () => {
+    const at = (timestamp: string): DecisionConfiguration =>
+        ({ structure: PHASE0_DATA, catalog: DEFAULT_ACTION_CATALOG, clock: fixedClock(timestamp) });
+
+    const entries = [
+        { time: '2025-01-13T09:00:00.000Z', actionId: 'finance_review_ledger' },
+        { time: '2025-01-14T09:00:00.000Z', actionId: 'ops_deploy_production' },
+        { time: '2025-01-15T09:00:00.000Z', actionId: 'finance_review_ledger' },
+    ].map(({ time, actionId }) => {
+        const verdict = decide(at(time), { agentId: 'agt-fin-recon', actionId });
+        return createVerdictLogEntry(PHASE0_DATA.organization.id, 'VERDICT', undefined, verdict, fixedClock(time));
+    });
+
+    it('returns matching entries newest first', () => {
+        const result = queryVerdictLog(entries, { actionId: 'finance_review_ledger' });
+        expect(result.map(e => e.verdict.evaluatedAt)).toEqual(['2025-01-15T09:00:00.000Z', '2025-01-13T09:00:00.000Z']);
+        expect(queryVerdictLog(entries, { status: 'BLOCKED' }).map(e => e.verdict.action.actionId))
+            .toEqual(['ops_deploy_production']);
+    });
+
+    it('treats from as inclusive and to as exclusive', () => {
+        const result = queryVerdictLog(entries, { from: '2025-01-14T09:00:00.000Z', to: '2025-01-15T09:00:00.000Z' });
+        expect(result.map(e => e.verdict.evaluatedAt)).toEqual(['2025-01-14T09:00:00.000Z']);
+    });
+
+    it('reports malformed query parameters by name', () => {
+        const { query, issues } = parseVerdictLogQuery({ agentId: 'agt-fin-recon', status: 'MAYBE', from: 'yesterday', limit: '0' });
+        expect(query).toEqual({ agentId: 'agt-fin-recon' });
+        expect(issues.map(i => i.path)).toEqual(['status', 'from', 'limit']);
+    });
+});
@@ -0,0 +1,161 @@
+import { RuntimeVerdict } from '../authority/deriveRuntimeVerdict';
+import { VerdictContext } from '../authority/verdictContext';
+import { Clock, systemClock } from '@/utils/clock';
+
+/**
+ * Verdict Log (Phase 9Q)
+ *
+ * Append-only record of every verdict the decision API returned: what was
+ * asked (agent, action, context as sent) and what the agent was told (the
+ * full RuntimeVerdict, including its configuration version).
+ *
+ * Answers questions like "what did agent X try last week and what was it told?".
+ *
+ * CRITICAL CONSTRAINTS:
+ * - APPEND-ONLY: Entries are never edited or removed; there is no API to do so
+ * - Derivation stays pure: the verdict's persisted: false describes the derivation;
+ *   the API records the verdict after deriving it
+ * - PURE: Storage is the caller's concern; this module shapes and queries entries
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Which API call returned the verdict.
+ */
+export type VerdictLogSource = 'VERDICT' | 'BATCH' | 'READINESS' | 'STAGING';
+
+export interface VerdictLogEntry {
+    entryId: string;
+    recordedAt: string;
+    organizationId: string;
+    source: VerdictLogSource;
+    requestedContext: VerdictContext;   // As the caller sent it; verdict.context is after defaults
+    configurationVersion: string;       // Copied from the verdict for querying
+    verdict: RuntimeVerdict;
+}
+
+export interface VerdictLogQuery {
+    agentId?: string;
+    actionId?: string;
+    status?: RuntimeVerdict['decision']['status'];
+    from?: string;                      // ISO timestamp, inclusive (verdict evaluatedAt)
+    to?: string;                        // ISO timestamp, exclusive
+    limit?: number;                     // Newest entries first; default 100
+}
+
+export interface VerdictLogQueryIssue {
+    path: string;                       // Query parameter name
+    message: string;
+}
+
+// ============================================================================
+// VOCABULARY
+// ============================================================================
+
+export const DEFAULT_VERDICT_LOG_LIMIT = 100;
+export const MAX_VERDICT_LOG_LIMIT = 1000;
+
+const VERDICT_STATUSES: ReadonlyArray<RuntimeVerdict['decision']['status']> = ['ALLOWED', 'BLOCKED', 'ESCALATION_REQUIRED'];
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+/**
+ * Generate unique log entry ID.
+ * Format: log-{timestamp}-{random}
+ */
+function generateLogEntryId(): string {
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substring(2, 9);
+    return `log-${timestamp}-${random}`;
+}
+
+export function createVerdictLogEntry(
+    organizationId: string,
+    source: VerdictLogSource,
+    requestedContext: VerdictContext | undefined,
+    verdict: RuntimeVerdict,
+    clock: Clock = systemClock
+): VerdictLogEntry {
+    return {
+        entryId: generateLogEntryId(),
+        recordedAt: clock(),
+        organizationId,
+        source,
+        requestedContext: requestedContext ?? {},
+        configurationVersion: verdict.configurationVersion,
+        verdict,
+    };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Entries matching every given filter, newest first, at most `limit`.
+ */
+export function queryVerdictLog(entries: ReadonlyArray<VerdictLogEntry>, query: VerdictLogQuery = {}): VerdictLogEntry[] {
+    const from = query.from ? Date.parse(query.from) : -Infinity;
+    const to = query.to ? Date.parse(query.to) : Infinity;
+
+    return entries
+        .filter(entry => {
+            const { verdict } = entry;
+            const evaluatedAt = Date.parse(verdict.evaluatedAt);
+            return (!query.agentId || verdict.subject.agentId === query.agentId)
+                && (!query.actionId || verdict.action.actionId === query.actionId)
+                && (!query.status || verdict.decision.status === query.status)
+                && evaluatedAt >= from
+                && evaluatedAt < to;
+        })
+        .reverse()
+        .slice(0, query.limit ?? DEFAULT_VERDICT_LOG_LIMIT);
+}
+
+/**
+ * Read a query from string parameters (e.g. a URL's search params).
+ * Unknown parameters are ignored.
+ */
+export function parseVerdictLogQuery(
+    params: Record<string, string | undefined>
+): { query: VerdictLogQuery; issues: VerdictLogQueryIssue[] } {
+    const query: VerdictLogQuery = {};
+    const issues: VerdictLogQueryIssue[] = [];
+
+    if (params.agentId) query.agentId = params.agentId;
+    if (params.actionId) query.actionId = params.actionId;
+
+    if (params.status) {
+        if ((VERDICT_STATUSES as ReadonlyArray<string>).includes(params.status)) {
+            query.status = params.status as VerdictLogQuery['status'];
+        } else {
+            issues.push({ path: 'status', message: `Expected one of ${VERDICT_STATUSES.join(', ')}` });
+        }
+    }
+
+    for (const key of ['from', 'to'] as const) {
+        const value = params[key];
+        if (!value) continue;
+        if (Number.isNaN(Date.parse(value))) {
+            issues.push({ path: key, message: 'Expected an ISO timestamp' });
+        } else {
+            query[key] = value;
+        }
+    }
+
+    if (params.limit) {
+        const limit = Number(params.limit);
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_VERDICT_LOG_LIMIT) {
+            issues.push({ path: 'limit', message: `Expected a whole number from 1 to ${MAX_VERDICT_LOG_LIMIT}` });
+        } else {
+            query.limit = limit;
+        }
+    }
+
+    return { query, issues };
+}
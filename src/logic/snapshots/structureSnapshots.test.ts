@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { createStructureSnapshot, rollbackPersonaAssignments } from './structureSnapshots';
+import {
+    CapabilityPosture,
+    CommunicationStyle,
+    PersonaIdentity,
+    clearPersonaIdentities,
+    createPersonaIdentity,
+} from '../persona/personaIdentity';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+
+describe('Structure Snapshots', () => {
+    const identity = (roleName: string): PersonaIdentity => createPersonaIdentity(
+        { roleName, purposeStatement: `${roleName} for snapshot tests.` },
+        { domainId: 'dom-fin', domainName: 'Financial Operations' },
+        CapabilityPosture.OPERATIONAL,
+        CommunicationStyle.NEUTRAL,
+        { eappPrinciples: ['Accuracy'], constraints: [], immutableCommitments: [] },
+        'test'
+    );
+
+    it('rolls back to the snapshot\'s personas instead of merging them into the current ones', () => {
+        const matcher = identity('Transaction Matcher');
+        const auditor = identity('Compliance Auditor');
+        const snapshot = createStructureSnapshot('Before reorg', {
+            data: PHASE0_DATA,
+            personaMappings: { 'agt-fin-recon': matcher.personaId },
+            personaIdentities: [matcher],
+        });
+
+        // Reloaded since: the snapshot's identity is gone, and another agent gained a persona
+        const current = { identities: [auditor], agentMappings: { 'agt-fin-recon': auditor.personaId, 'agt-fin-audit': auditor.personaId } };
+        const restored = rollbackPersonaAssignments(current, snapshot);
+
+        expect(restored.agentMappings).toEqual({ 'agt-fin-recon': matcher.personaId });
+        expect(restored.identities.map(i => i.personaId)).toEqual([auditor.personaId, matcher.personaId]);
+        clearPersonaIdentities();
+    });
+
+    it('keeps the current persona where an older snapshot names one that no longer exists', () => {
+        const auditor = identity('Compliance Auditor');
+        const snapshot = createStructureSnapshot('Before identities were stored', {
+            data: PHASE0_DATA,
+            personaMappings: { 'agt-fin-audit': 'persona-regenerated' },
+        });
+
+        const restored = rollbackPersonaAssignments(
+            { identities: [auditor], agentMappings: { 'agt-fin-audit': auditor.personaId } },
+            snapshot
+        );
+
+        expect(restored.agentMappings).toEqual({ 'agt-fin-audit': auditor.personaId });
+        clearPersonaIdentities();
+    });
+});
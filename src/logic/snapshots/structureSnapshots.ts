@@ -0,0 +1,413 @@
+import { Phase0Data, Organization, Domain, Agent } from '@/app/data/types';
+import { AgentAuthorityImpact, deriveAuthorityImpact } from '../authority/deriveAuthorityImpact';
+import { formatConstraint } from '../constraints/domainConstraints';
+import { PersonaIdentity } from '../persona/personaIdentity';
+import { PersonaAssignments } from '../persona/personaIdentityMapping';
+
+/**
+ * Structure Snapshots (Phase 9C)
+ *
+ * Named, immutable versions of the organization constitution, plus a
+ * structural diff between any two versions.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - IMMUTABLE: Snapshots are deep copied and frozen at creation
+ * - PURE: Diffing has no side effects and never touches live state
+ * - Rollback is performed by the structure store, not here
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Everything a snapshot captures.
+ */
+export interface SnapshotContent {
+    data: Phase0Data;
+    personaMappings: Record<string, string>;   // Agent ID → Persona ID
+    personaIdentities?: PersonaIdentity[];      // The identities the mapping names; absent in older snapshots
+}
+
+/**
+ * Named, immutable version of the constitution.
+ */
+export interface StructureSnapshot extends SnapshotContent {
+    readonly snapshotId: string;
+    readonly name: string;
+    readonly note?: string;
+    readonly createdAt: string;                 // ISO timestamp
+    readonly createdBy: string;                 // User identifier (placeholder)
+}
+
+/**
+ * Kind of structural change between two versions.
+ */
+export type StructureChangeKind =
+    | 'ORGANIZATION_CEILING'
+    | 'ORGANIZATION_SETTING'
+    | 'DOMAIN_ADDED'
+    | 'DOMAIN_REMOVED'
+    | 'DOMAIN_CEILING'
+    | 'DOMAIN_ACTION_CATEGORIES'
+    | 'DOMAIN_CONSTRAINTS'
+    | 'DOMAIN_SETTING'
+    | 'DOMAIN_MOVED'            // Phase 9F: parent domain changed
+    | 'AGENT_ADDED'
+    | 'AGENT_REMOVED'
+    | 'AGENT_MOVED'
+    | 'AGENT_SETTING'
+    | 'PERSONA_REASSIGNED';
+
+export interface StructureChange {
+    kind: StructureChangeKind;
+    entityId: string;
+    entityName: string;
+    description: string;        // Human-readable, e.g. "Authority ceiling 3 → 2"
+    added?: string[];           // For list fields (categories, constraints)
+    removed?: string[];
+}
+
+/**
+ * Structural diff between two versions.
+ */
+export interface StructureDiff {
+    changes: StructureChange[];
+    authorityImpact: AgentAuthorityImpact[];
+    isEmpty: boolean;
+}
+
+// ============================================================================
+// SNAPSHOT CREATION
+// ============================================================================
+
+/**
+ * Generate unique snapshot ID.
+ * Format: snapshot-{timestamp}-{random}
+ */
+function generateSnapshotId(): string {
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substring(2, 9);
+    return `snapshot-${timestamp}-${random}`;
+}
+
+function deepFreeze<T>(value: T): T {
+    if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+        Object.freeze(value);
+        for (const child of Object.values(value as Record<string, unknown>)) {
+            deepFreeze(child);
+        }
+    }
+    return value;
+}
+
+/**
+ * Create a named, immutable snapshot.
+ *
+ * @throws Error if name is empty
+ */
+export function createStructureSnapshot(
+    name: string,
+    content: SnapshotContent,
+    note?: string
+): StructureSnapshot {
+    if (!name || name.trim() === '') {
+        throw new Error('Snapshot name is required.');
+    }
+
+    const snapshot: StructureSnapshot = {
+        snapshotId: generateSnapshotId(),
+        name: name.trim(),
+        note: note?.trim() || undefined,
+        createdAt: new Date().toISOString(),
+        createdBy: 'current-user', // Placeholder
+        data: JSON.parse(JSON.stringify(content.data)),
+        personaMappings: { ...content.personaMappings },
+        ...(content.personaIdentities
+            ? { personaIdentities: JSON.parse(JSON.stringify(content.personaIdentities)) }
+            : {}),
+    };
+
+    return deepFreeze(snapshot);
+}
+
+/**
+ * Freeze snapshots loaded from storage so they behave like freshly created ones.
+ */
+export function restoreSnapshots(stored: StructureSnapshot[]): StructureSnapshot[] {
+    return stored.map(snapshot => deepFreeze(snapshot));
+}
+
+/**
+ * Persona assignments after rolling back to a snapshot.
+ *
+ * The mapping is the snapshot's, not merged with the current one: agents the
+ * snapshot did not map have no persona afterwards. The snapshot's identities
+ * are added to the current ones (identities are immutable, so an identity
+ * with the same ID is the same identity). Older snapshots stored no
+ * identities; where one of their personas no longer exists, the agent keeps
+ * its current persona rather than pointing at nothing.
+ */
+export function rollbackPersonaAssignments(
+    current: PersonaAssignments,
+    snapshot: SnapshotContent
+): PersonaAssignments {
+    const identities = [...current.identities];
+    for (const identity of snapshot.personaIdentities ?? []) {
+        if (!identities.some(i => i.personaId === identity.personaId)) {
+            identities.push(identity);
+        }
+    }
+
+    const agentMappings: Record<string, string> = {};
+    for (const [agentId, personaId] of Object.entries(snapshot.personaMappings)) {
+        const known = identities.some(i => i.personaId === personaId);
+        const fallback = current.agentMappings[agentId];
+        if (known) {
+            agentMappings[agentId] = personaId;
+        } else if (fallback) {
+            agentMappings[agentId] = fallback;
+        }
+    }
+
+    return { identities, agentMappings };
+}
+
+// ============================================================================
+// STRUCTURAL DIFF
+// ============================================================================
+
+const ORGANIZATION_SETTINGS: Array<keyof Organization> = [
+    'name', 'status', 'escalationBaseline', 'communicationPosture',
+];
+
+const DOMAIN_SETTINGS: Array<keyof Domain> = [
+    'name', 'mission', 'status', 'scope', 'escalationPosture',
+];
+
+const AGENT_SETTINGS: Array<keyof Agent> = [
+    'name', 'role', 'executionType', 'autonomyLevel', 'executionSurface', 'escalationBehavior',
+];
+
+function listDelta(before: string[] = [], after: string[] = []): { added: string[]; removed: string[] } {
+    return {
+        added: after.filter(item => !before.includes(item)),
+        removed: before.filter(item => !after.includes(item)),
+    };
+}
+
+function describeConstraints(domain: Domain): string[] {
+    return [...(domain.constraints ?? []).map(formatConstraint), ...(domain.constraintNotes ?? [])];
+}
+
+function describeListDelta(label: string, added: string[], removed: string[]): string {
+    const parts: string[] = [];
+    if (added.length > 0) parts.push(`added ${added.join(', ')}`);
+    if (removed.length > 0) parts.push(`removed ${removed.join(', ')}`);
+    return `${label}: ${parts.join('; ')}`;
+}
+
+function settingChanges<T extends { id: string; name: string }>(
+    kind: StructureChangeKind,
+    before: T,
+    after: T,
+    keys: Array<keyof T>
+): StructureChange[] {
+    return keys
+        .filter(key => before[key] !== after[key])
+        .map(key => ({
+            kind,
+            entityId: after.id,
+            entityName: after.name,
+            description: `${String(key)}: ${String(before[key])} → ${String(after[key])}`,
+        }));
+}
+
+function diffOrganization(before: Organization, after: Organization): StructureChange[] {
+    const changes: StructureChange[] = [];
+
+    if (before.authorityCeiling !== after.authorityCeiling) {
+        changes.push({
+            kind: 'ORGANIZATION_CEILING',
+            entityId: after.id,
+            entityName: after.name,
+            description: `Authority ceiling ${before.authorityCeiling} → ${after.authorityCeiling}`,
+        });
+    }
+
+    const actions = listDelta(before.globalActions, after.globalActions);
+    if (actions.added.length > 0 || actions.removed.length > 0) {
+        changes.push({
+            kind: 'ORGANIZATION_SETTING',
+            entityId: after.id,
+            entityName: after.name,
+            description: describeListDelta('Global actions', actions.added, actions.removed),
+            ...actions,
+        });
+    }
+
+    changes.push(...settingChanges('ORGANIZATION_SETTING', before, after, ORGANIZATION_SETTINGS));
+    return changes;
+}
+
+function diffDomains(before: Domain[], after: Domain[]): StructureChange[] {
+    const changes: StructureChange[] = [];
+
+    for (const domain of after) {
+        const previous = before.find(d => d.id === domain.id);
+        if (!previous) {
+            changes.push({
+                kind: 'DOMAIN_ADDED',
+                entityId: domain.id,
+                entityName: domain.name,
+                description: `Domain added with authority ceiling ${domain.authorityCeiling}`,
+            });
+            continue;
+        }
+
+        if (previous.authorityCeiling !== domain.authorityCeiling) {
+            changes.push({
+                kind: 'DOMAIN_CEILING',
+                entityId: domain.id,
+                entityName: domain.name,
+                description: `Authority ceiling ${previous.authorityCeiling} → ${domain.authorityCeiling}`,
+            });
+        }
+
+        const categories = listDelta(previous.allowedActionCategories, domain.allowedActionCategories);
+        if (categories.added.length > 0 || categories.removed.length > 0) {
+            changes.push({
+                kind: 'DOMAIN_ACTION_CATEGORIES',
+                entityId: domain.id,
+                entityName: domain.name,
+                description: describeListDelta('Action categories', categories.added, categories.removed),
+                ...categories,
+            });
+        }
+
+        // Phase 9L: Structured constraints are compared by their readable text
+        const constraints = listDelta(describeConstraints(previous), describeConstraints(domain));
+        if (constraints.added.length > 0 || constraints.removed.length > 0) {
+            changes.push({
+                kind: 'DOMAIN_CONSTRAINTS',
+                entityId: domain.id,
+                entityName: domain.name,
+                description: describeListDelta('Constraints', constraints.added, constraints.removed),
+                ...constraints,
+            });
+        }
+
+        if ((previous.parentDomainId ?? null) !== (domain.parentDomainId ?? null)) {
+            const parentName = (domains: Domain[], id?: string) =>
+                (id && domains.find(d => d.id === id)?.name) || 'top level';
+            changes.push({
+                kind: 'DOMAIN_MOVED',
+                entityId: domain.id,
+                entityName: domain.name,
+                description: `Moved ${parentName(before, previous.parentDomainId)} → ${parentName(after, domain.parentDomainId)}`,
+            });
+        }
+
+        changes.push(...settingChanges('DOMAIN_SETTING', previous, domain, DOMAIN_SETTINGS));
+    }
+
+    for (const domain of before) {
+        if (!after.some(d => d.id === domain.id)) {
+            changes.push({
+                kind: 'DOMAIN_REMOVED',
+                entityId: domain.id,
+                entityName: domain.name,
+                description: 'Domain removed',
+            });
+        }
+    }
+
+    return changes;
+}
+
+function diffAgents(before: Phase0Data, after: Phase0Data): StructureChange[] {
+    const changes: StructureChange[] = [];
+    const domainName = (data: Phase0Data, id: string) =>
+        data.domains.find(d => d.id === id)?.name ?? id;
+
+    for (const agent of after.agents) {
+        const previous = before.agents.find(a => a.id === agent.id);
+        if (!previous) {
+            changes.push({
+                kind: 'AGENT_ADDED',
+                entityId: agent.id,
+                entityName: agent.name,
+                description: `Agent added to ${domainName(after, agent.domainId)}`,
+            });
+            continue;
+        }
+
+        if (previous.domainId !== agent.domainId) {
+            changes.push({
+                kind: 'AGENT_MOVED',
+                entityId: agent.id,
+                entityName: agent.name,
+                description: `Moved ${domainName(before, previous.domainId)} → ${domainName(after, agent.domainId)}`,
+            });
+        }
+
+        changes.push(...settingChanges('AGENT_SETTING', previous, agent, AGENT_SETTINGS));
+    }
+
+    for (const agent of before.agents) {
+        if (!after.agents.some(a => a.id === agent.id)) {
+            changes.push({
+                kind: 'AGENT_REMOVED',
+                entityId: agent.id,
+                entityName: agent.name,
+                description: `Agent removed from ${domainName(before, agent.domainId)}`,
+            });
+        }
+    }
+
+    return changes;
+}
+
+function diffPersonaMappings(before: SnapshotContent, after: SnapshotContent): StructureChange[] {
+    const agentIds = new Set([...Object.keys(before.personaMappings), ...Object.keys(after.personaMappings)]);
+    const changes: StructureChange[] = [];
+
+    agentIds.forEach(agentId => {
+        const previous = before.personaMappings[agentId] ?? null;
+        const next = after.personaMappings[agentId] ?? null;
+        if (previous === next) return;
+
+        const agent = after.data.agents.find(a => a.id === agentId) ?? before.data.agents.find(a => a.id === agentId);
+        changes.push({
+            kind: 'PERSONA_REASSIGNED',
+            entityId: agentId,
+            entityName: agent?.name ?? agentId,
+            description: `Persona ${previous ?? 'none'} → ${next ?? 'none'}`,
+        });
+    });
+
+    return changes;
+}
+
+/**
+ * Compute the structural diff from one version to another.
+ *
+ * Changes are listed organization first, then domains, agents and personas.
+ * authorityImpact lists every agent whose effective authority differs.
+ */
+export function diffStructures(before: SnapshotContent, after: SnapshotContent): StructureDiff {
+    const changes: StructureChange[] = [
+        ...diffOrganization(before.data.organization, after.data.organization),
+        ...diffDomains(before.data.domains, after.data.domains),
+        ...diffAgents(before.data, after.data),
+        ...diffPersonaMappings(before, after),
+    ];
+
+    const authorityImpact = deriveAuthorityImpact(before.data, after.data);
+
+    return {
+        changes,
+        authorityImpact,
+        isEmpty: changes.length === 0 && authorityImpact.length === 0,
+    };
+}
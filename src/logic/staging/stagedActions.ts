@@ -1,9 +1,12 @@
-import { Agent } from '@/app/data/types';
+import { Agent, Domain } from '@/app/data/types';
 import { AuthorityResult } from '../authority/deriveAuthority';
-import { DoAction } from '../authority/deriveDoActions';
+import { DoAction, DoActionCategory } from '../authority/deriveDoActions';
 import { RuntimeVerdict } from '../authority/deriveRuntimeVerdict';
-import { ExecutionReadiness } from '../authority/deriveExecutionReadiness';
-import { LearnedPolicy, deriveLearnedPolicy } from '../policy/learnedPolicy';
+import { ExecutionReadiness, isEthicallyVetoed } from '../authority/deriveExecutionReadiness';
+import { AuthorityModel, LearnedPolicy, deriveAuthorityModel, deriveLearnedPolicy } from '../policy/learnedPolicy';
+import { ActionCatalog, ActionCatalogEntry, getCatalogEntry } from '../actions/actionCatalog';
+import { evaluateAuthority, getActionEvaluation } from '../authority/authorityEngine';
+import { recordGovernanceEvent } from '../audit/auditLedger';
 
 /**
  * Execution Staging System (Phase 4A)
@@ -56,6 +59,7 @@ export interface StagedAction {
     actionName: string;
 
     // Immutable Snapshots (frozen at staging time)
+    actionCatalogEntry: ActionCatalogEntry; // Phase 9H: Catalog definition the action was staged under
     runtimeVerdict: RuntimeVerdict;
     executionReadiness: ExecutionReadiness;
     authorityResult: AuthorityResult;
@@ -106,6 +110,9 @@ export interface ApprovalIntent {
     // Context snapshot (for audit)
     agentName: string;
     actionName: string;
+    actionCategory: DoActionCategory;   // Phase 9V: Lets a derived policy target the category
+    requiredAuthority: number;          // Phase 9W: Authority level the action requires
+    authorityModelSnapshot: AuthorityModel; // Phase 9W: Structural authority at staging time
     runtimeVerdictSnapshot: RuntimeVerdict;
     executionReadinessSnapshot: ExecutionReadiness;
 }
@@ -164,11 +171,15 @@ export interface PolicyChangeProposal {
     scope: ProposalScope;
     targetId: string;            // Org/Domain/Agent ID
     targetName: string;
+    actionId: string;            // Phase 9V: Catalog action the approval was given for
+    actionCategory: DoActionCategory;
 
     // Change Details
     proposedChangeType: ProposedChangeType;
-    beforeState: PolicyState;    // Current state snapshot
-    afterState: PolicyState;     // Proposed state (NOT applied)
+    beforeState: PolicyState;    // Current state snapshot (display only)
+    afterState: PolicyState;     // Proposed state (NOT applied, display only)
+    beforeAuthority: AuthorityModel;    // Phase 9W: What monotonicity is computed from
+    afterAuthority: AuthorityModel;
 
     // Reasoning
     humanJustification: string;  // From ApprovalIntent
@@ -228,14 +239,37 @@ function generateStagedActionId(): string {
  * 
  * This function deep copies all input data to ensure the staged action
  * is completely frozen and independent of future changes.
+ *
+ * @throws Error if the action is not bound to the agent in the action catalog (Phase 9H)
+ * @throws Error if the verdict disagrees with the authority engine (Phase 9I)
+ *
+ * Phase 9M: The action is re-evaluated against the context stored in the verdict.
+ * Phase 9U: policies must be the learned policies the verdict was derived with.
+ * Phase 9F: ancestors are the domains enclosing domain, outermost first.
  */
 export function createStagedAction(
     agent: Agent,
     doAction: DoAction,
     verdict: RuntimeVerdict,
     readiness: ExecutionReadiness,
-    authority: AuthorityResult
+    authority: AuthorityResult,
+    catalog: ActionCatalog,
+    domain: Domain,
+    policies: ReadonlyArray<LearnedPolicy> = [],
+    ancestors: Domain[] = []
 ): StagedAction {
+    const evaluation = getActionEvaluation(
+        evaluateAuthority(authority, catalog, { agent, domain, ancestors, context: verdict.context, policies }),
+        doAction.id
+    );
+    if (!evaluation || !evaluation.bound) {
+        throw new Error(`Action "${doAction.id}" is not in the action catalog for ${agent.name}`);
+    }
+    if (verdict.decision.status !== evaluation.verdict) {
+        throw new Error(`Verdict for "${doAction.id}" is ${verdict.decision.status}, but current authority gives ${evaluation.verdict}`);
+    }
+    const catalogEntry = evaluation.entry;
+
     return {
         // Identity
         id: generateStagedActionId(),
@@ -245,10 +279,11 @@ export function createStagedAction(
         // Subject & Action
         agentId: agent.id,
         agentName: agent.name,
-        actionId: doAction.id,
-        actionName: doAction.verbPhrase,
+        actionId: catalogEntry.id,
+        actionName: catalogEntry.verbPhrase,
 
         // Deep copy snapshots to ensure immutability
+        actionCatalogEntry: JSON.parse(JSON.stringify(catalogEntry)),
         runtimeVerdict: JSON.parse(JSON.stringify(verdict)),
         executionReadiness: JSON.parse(JSON.stringify(readiness)),
         authorityResult: JSON.parse(JSON.stringify(authority)),
@@ -272,18 +307,34 @@ export function createStagedAction(
  * 
  * Can only approve actions in STAGED state.
  * This is a permanent transition.
+ *
+ * Phase 9R: Recorded in the audit ledger.
+ * Phase 9T: Actions under an ethical veto can never be approved.
  */
 export function approveStagedAction(action: StagedAction): StagedAction {
     if (action.state !== 'STAGED') {
         throw new Error('Can only approve STAGED actions');
     }
+    if (isEthicallyVetoed(action.executionReadiness)) {
+        throw new Error('Cannot approve an action blocked by an ethical commitment');
+    }
 
-    return {
+    const approved: StagedAction = {
         ...action,
         state: 'APPROVED',
         stateChangedAt: new Date().toISOString(),
         stateChangedBy: 'current-user', // Placeholder
     };
+
+    recordGovernanceEvent({
+        type: 'STAGED_ACTION_APPROVED',
+        actor: approved.stateChangedBy!,
+        subjectId: action.id,
+        summary: `Approved "${action.actionName}" for ${action.agentName}`,
+        changes: [{ field: 'state', before: action.state, after: approved.state }],
+    });
+
+    return approved;
 }
 
 /**
@@ -291,6 +342,8 @@ export function approveStagedAction(action: StagedAction): StagedAction {
  * 
  * Can only reject actions in STAGED state.
  * This is a permanent transition.
+ *
+ * Phase 9R: Recorded in the audit ledger.
  */
 export function rejectStagedAction(
     action: StagedAction,
@@ -300,13 +353,24 @@ export function rejectStagedAction(
         throw new Error('Can only reject STAGED actions');
     }
 
-    return {
+    const rejected: StagedAction = {
         ...action,
         state: 'REJECTED',
         stateChangedAt: new Date().toISOString(),
         stateChangedBy: 'current-user', // Placeholder
         rejectionReason: reason,
     };
+
+    recordGovernanceEvent({
+        type: 'STAGED_ACTION_REJECTED',
+        actor: rejected.stateChangedBy!,
+        subjectId: action.id,
+        summary: `Rejected "${action.actionName}" for ${action.agentName}`,
+        changes: [{ field: 'state', before: action.state, after: rejected.state }],
+        justification: reason,
+    });
+
+    return rejected;
 }
 
 // ============================================================================
@@ -319,14 +383,27 @@ export function rejectStagedAction(
  * 
  * For Phase 4A, this is a placeholder. Future phases will implement
  * proper comparison logic.
+ *
+ * Phase 9H: When the current catalog is given, an edited or removed
+ * catalog entry also makes the staged action out of date.
  */
 export function checkStagedActionFreshness(
     stagedAction: StagedAction,
-    currentAuthority: AuthorityResult
+    currentAuthority: AuthorityResult,
+    currentCatalog?: ActionCatalog
 ): boolean {
     // Placeholder: Compare authority result
     // Future: Deep comparison of all snapshot fields
-    return stagedAction.authorityResult.effectiveAuthorityLevel !== currentAuthority.effectiveAuthorityLevel;
+    if (stagedAction.authorityResult.effectiveAuthorityLevel !== currentAuthority.effectiveAuthorityLevel) {
+        return true;
+    }
+
+    if (currentCatalog) {
+        const entry = getCatalogEntry(currentCatalog, stagedAction.actionId);
+        return !entry || JSON.stringify(entry) !== JSON.stringify(stagedAction.actionCatalogEntry);
+    }
+
+    return false;
 }
 
 // ============================================================================
@@ -348,6 +425,8 @@ function generateApprovalIntentId(): string {
  * 
  * CRITICAL: NO EXECUTION
  * This function creates an intent record only. It does NOT trigger execution.
+ *
+ * Phase 9R: Recorded in the audit ledger.
  * 
  * @throws Error if justification is empty
  */
@@ -362,7 +441,7 @@ export function createApprovalIntent(
         throw new Error('Justification is required for approval');
     }
 
-    return {
+    const intent: ApprovalIntent = {
         // Identity
         id: generateApprovalIntentId(),
         createdAt: new Date().toISOString(),
@@ -379,9 +458,31 @@ export function createApprovalIntent(
         // Context snapshot
         agentName: stagedAction.agentName,
         actionName: stagedAction.actionName,
+        actionCategory: stagedAction.actionCatalogEntry.category,
+        requiredAuthority: stagedAction.actionCatalogEntry.requiredAuthority,
+        authorityModelSnapshot: deriveAuthorityModel(
+            stagedAction.authorityResult,
+            stagedAction.actionId,
+            stagedAction.runtimeVerdict.decision.status
+        ),
         runtimeVerdictSnapshot: stagedAction.runtimeVerdict,
         executionReadinessSnapshot: stagedAction.executionReadiness,
     };
+
+    recordGovernanceEvent({
+        type: 'APPROVAL_INTENT_CREATED',
+        actor: intent.createdBy,
+        subjectId: intent.id,
+        summary: `Approval intent (${scope}) for "${intent.actionName}" by ${intent.agentName}`,
+        changes: [
+            { field: 'stagedActionId', before: null, after: stagedAction.id },
+            { field: 'scope', before: null, after: scope },
+            ...(intent.conditions ? [{ field: 'conditions', before: null, after: intent.conditions }] : []),
+        ],
+        justification: intent.justification,
+    });
+
+    return intent;
 }
 
 // ============================================================================
@@ -467,6 +568,39 @@ function generateSystemReasoning(
     }
 }
 
+/**
+ * Generate the before/after authority models for a change (Phase 9W).
+ * Mirrors generatePolicyStates for the action the intent approved.
+ */
+function generateAuthorityModels(
+    changeType: ProposedChangeType,
+    approvalIntent: ApprovalIntent
+): { before: AuthorityModel; after: AuthorityModel } {
+    const before = approvalIntent.authorityModelSnapshot;
+    const actionId = approvalIntent.runtimeVerdictSnapshot.action.actionId;
+    const autonomous = { ...before.actions, [actionId]: 'AUTONOMOUS' as const };
+
+    switch (changeType) {
+        case 'AUTHORITY_ADJUSTMENT':
+            return {
+                before,
+                after: {
+                    ...before,
+                    authorityCeiling: Math.max(before.authorityCeiling, approvalIntent.requiredAuthority),
+                    actions: autonomous,
+                },
+            };
+
+        case 'ACTION_PERMISSION':
+        case 'ESCALATION_RULE':
+            return { before, after: { ...before, actions: autonomous } };
+
+        case 'NONE':
+        default:
+            return { before, after: before };
+    }
+}
+
 /**
  * Generate before/after policy state descriptions.
  */
@@ -569,6 +703,9 @@ export function derivePolicyChangeProposal(
         approvalIntent.actionName
     );
 
+    // Phase 9W: Machine-readable counterpart of the states above
+    const authorityModels = generateAuthorityModels(changeType, approvalIntent);
+
     // Generate system reasoning
     const systemReasoning = generateSystemReasoning(
         changeType,
@@ -582,12 +719,16 @@ export function derivePolicyChangeProposal(
         createdAt: new Date().toISOString(),
 
         scope: 'AGENT', // Simplified for Phase 4C - always agent-level
-        targetId: approvalIntent.agentName, // Using name as ID placeholder
+        targetId: approvalIntent.runtimeVerdictSnapshot.subject.agentId,
         targetName: approvalIntent.agentName,
+        actionId: approvalIntent.runtimeVerdictSnapshot.action.actionId,
+        actionCategory: approvalIntent.actionCategory,
 
         proposedChangeType: changeType,
         beforeState: before,
         afterState: after,
+        beforeAuthority: authorityModels.before,
+        afterAuthority: authorityModels.after,
 
         humanJustification: approvalIntent.justification,
         systemReasoning,
@@ -603,6 +744,7 @@ export function derivePolicyChangeProposal(
  * This only marks the proposal as CONFIRMED. It does NOT apply changes.
  * 
  * Phase 5A: Triggers policy learning derivation.
+ * Phase 9R: Recorded in the audit ledger, with the learned policy if one was derived.
  */
 export function confirmPolicyProposal(proposal: PolicyChangeProposal): PolicyChangeProposal {
     if (proposal.status !== 'PROPOSED') {
@@ -621,8 +763,21 @@ export function confirmPolicyProposal(proposal: PolicyChangeProposal): PolicyCha
         confirmed.learnedPolicyId = learnedPolicy.policyId;
         // Store in memory (Phase 5A - in-memory storage)
         learnedPoliciesStore.push(learnedPolicy);
+        notifyLearnedPolicyChange();
     }
 
+    recordGovernanceEvent({
+        type: 'POLICY_PROPOSAL_CONFIRMED',
+        actor: 'current-user', // Placeholder
+        subjectId: proposal.proposalId,
+        summary: `Confirmed ${proposal.proposedChangeType} proposal for ${proposal.targetName}`,
+        changes: [
+            { field: 'status', before: proposal.status, after: confirmed.status },
+            ...(confirmed.learnedPolicyId ? [{ field: 'learnedPolicyId', before: null, after: confirmed.learnedPolicyId }] : []),
+        ],
+        justification: proposal.humanJustification,
+    });
+
     return confirmed;
 }
 
@@ -630,17 +785,29 @@ export function confirmPolicyProposal(proposal: PolicyChangeProposal): PolicyCha
  * Dismiss a policy proposal.
  * 
  * Marks the proposal as DISMISSED. System state remains unchanged.
+ *
+ * Phase 9R: Recorded in the audit ledger.
  */
 export function dismissPolicyProposal(proposal: PolicyChangeProposal): PolicyChangeProposal {
     if (proposal.status !== 'PROPOSED') {
         throw new Error('Can only dismiss PROPOSED proposals');
     }
 
-    return {
+    const dismissed: PolicyChangeProposal = {
         ...proposal,
         status: 'DISMISSED',
         dismissedAt: new Date().toISOString(),
     };
+
+    recordGovernanceEvent({
+        type: 'POLICY_PROPOSAL_DISMISSED',
+        actor: 'current-user', // Placeholder
+        subjectId: proposal.proposalId,
+        summary: `Dismissed ${proposal.proposedChangeType} proposal for ${proposal.targetName}`,
+        changes: [{ field: 'status', before: proposal.status, after: dismissed.status }],
+    });
+
+    return dismissed;
 }
 
 // ============================================================================
@@ -655,6 +822,23 @@ export function dismissPolicyProposal(proposal: PolicyChangeProposal): PolicyCha
  */
 const learnedPoliciesStore: LearnedPolicy[] = [];
 
+const learnedPolicyListeners = new Set<() => void>();
+
+function notifyLearnedPolicyChange(): void {
+    Array.from(learnedPolicyListeners).forEach(listener => listener());
+}
+
+/**
+ * Be told whenever the learned policy store changes (Phase 9U), so it can be saved.
+ * Returns a function that unsubscribes.
+ */
+export function subscribeToLearnedPolicyChanges(listener: () => void): () => void {
+    learnedPolicyListeners.add(listener);
+    return () => {
+        learnedPolicyListeners.delete(listener);
+    };
+}
+
 /**
  * Try to derive a learned policy from a confirmed proposal.
  * 
@@ -689,9 +873,20 @@ export function getLearnedPolicyById(id: string): LearnedPolicy | null {
     return learnedPoliciesStore.find(p => p.policyId === id) ?? null;
 }
 
+/**
+ * Replace all learned policies with previously exported ones (Phase 9D).
+ * Used by constitution import only.
+ */
+export function replaceLearnedPolicies(policies: ReadonlyArray<LearnedPolicy>): void {
+    learnedPoliciesStore.length = 0;
+    learnedPoliciesStore.push(...policies);
+    notifyLearnedPolicyChange();
+}
+
 /**
  * Clear all learned policies (for testing/reset only).
  */
 export function clearLearnedPolicies(): void {
     learnedPoliciesStore.length = 0;
+    notifyLearnedPolicyChange();
 }
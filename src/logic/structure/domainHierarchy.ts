@@ -0,0 +1,117 @@
+import { Domain } from '@/app/data/types';
+
+/**
+ * Domain Hierarchy (Phase 9F)
+ *
+ * Pure helpers for nested sub-domains.
+ * A domain without parentDomainId sits directly under the organization.
+ *
+ * CRITICAL: Every walk is cycle-safe. Malformed data (cycles, dangling parents)
+ * ends the walk instead of looping; validatePhase0Data reports those problems.
+ */
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Ancestors of a domain, outermost first, excluding the domain itself.
+ * Stops at a missing parent or at the first repeated domain.
+ */
+export function getDomainAncestors(domains: Domain[], domainId: string): Domain[] {
+    const byId = new Map(domains.map(d => [d.id, d]));
+    const ancestors: Domain[] = [];
+    const visited = new Set<string>([domainId]);
+
+    let parentId = byId.get(domainId)?.parentDomainId;
+    while (parentId && !visited.has(parentId)) {
+        const parent = byId.get(parentId);
+        if (!parent) break;
+        ancestors.unshift(parent);
+        visited.add(parentId);
+        parentId = parent.parentDomainId;
+    }
+
+    return ancestors;
+}
+
+/**
+ * Direct children of a domain, or top-level domains when parentId is null.
+ * Domains whose parent does not exist are treated as top-level.
+ */
+export function getChildDomains(domains: Domain[], parentId: string | null): Domain[] {
+    if (parentId === null) {
+        const ids = new Set(domains.map(d => d.id));
+        return domains.filter(d => !d.parentDomainId || !ids.has(d.parentDomainId));
+    }
+    return domains.filter(d => d.parentDomainId === parentId);
+}
+
+/**
+ * IDs of every domain nested under the given one (any depth).
+ */
+export function getDescendantDomainIds(domains: Domain[], domainId: string): string[] {
+    const descendants: string[] = [];
+    const queue = [domainId];
+    const visited = new Set<string>([domainId]);
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const child of domains) {
+            if (child.parentDomainId === current && !visited.has(child.id)) {
+                visited.add(child.id);
+                descendants.push(child.id);
+                queue.push(child.id);
+            }
+        }
+    }
+
+    return descendants;
+}
+
+/**
+ * Nesting depth: 0 for top-level domains.
+ */
+export function getDomainDepth(domains: Domain[], domainId: string): number {
+    return getDomainAncestors(domains, domainId).length;
+}
+
+// ============================================================================
+// INTEGRITY
+// ============================================================================
+
+/**
+ * Whether a domain may be moved under a new parent (null = top-level).
+ * A domain cannot become its own parent or a child of one of its descendants.
+ */
+export function canReparentDomain(domains: Domain[], domainId: string, newParentId: string | null): boolean {
+    if (newParentId === null) return true;
+    if (newParentId === domainId) return false;
+    if (!domains.some(d => d.id === newParentId)) return false;
+    return !getDescendantDomainIds(domains, domainId).includes(newParentId);
+}
+
+type DomainLink = Pick<Domain, 'id' | 'parentDomainId'>;
+
+/**
+ * IDs of domains that are part of a parent cycle.
+ * Only needs id/parentDomainId so it can run on unvalidated input.
+ */
+export function findDomainCycles(domains: DomainLink[]): string[] {
+    const byId = new Map(domains.map(d => [d.id, d]));
+    const inCycle = new Set<string>();
+
+    for (const domain of domains) {
+        const path: string[] = [];
+        let current: DomainLink | undefined = domain;
+        while (current && !path.includes(current.id)) {
+            path.push(current.id);
+            current = current.parentDomainId ? byId.get(current.parentDomainId) : undefined;
+        }
+        if (current) {
+            path.slice(path.indexOf(current.id)).forEach(id => inCycle.add(id));
+        }
+    }
+
+    return domains.filter(d => inCycle.has(d.id)).map(d => d.id);
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from '@jest/globals';
+import { validatePhase0Data } from './validatePhase0Data';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+import { Phase0Data } from '@/app/data/types';
+import { upgradeLegacyConstraints } from '@/logic/constraints/domainConstraints';
+
+describe('Structure Validation', () => {
+    const clone = (): Phase0Data => JSON.parse(JSON.stringify(PHASE0_DATA));
+
+    it('should accept the Phase 0 seed data', () => {
+        const result = validatePhase0Data(PHASE0_DATA);
+
+        expect(result.valid).toBe(true);
+        expect(result.diagnostics).toHaveLength(0);
+    });
+
+    it('should reject enum values outside the schema', () => {
+        const data = clone();
+        (data.domains[0] as unknown as Record<string, unknown>).status = 'ACTIVE';
+
+        const result = validatePhase0Data(data);
+
+        expect(result.valid).toBe(false);
+        expect(result.diagnostics).toContainEqual(expect.objectContaining({
+            code: 'INVALID_ENUM',
+            path: 'domains[0].status',
+        }));
+    });
+
+    it('should reject ceilings outside 1-5', () => {
+        const data = clone();
+        data.organization.authorityCeiling = 7;
+
+        const result = validatePhase0Data(data);
+
+        expect(result.diagnostics).toContainEqual(expect.objectContaining({
+            code: 'OUT_OF_RANGE',
+            path: 'organization.authorityCeiling',
+        }));
+    });
+
+    it('should reject missing and unknown fields', () => {
+        const data = clone() as unknown as { domains: Record<string, unknown>[] };
+        delete data.domains[0].scope;
+        data.domains[0].escalationDefault = 'HUMAN';
+
+        const result = validatePhase0Data(data);
+
+        expect(result.diagnostics.map(d => d.code)).toEqual(
+            expect.arrayContaining(['MISSING_FIELD', 'UNKNOWN_FIELD'])
+        );
+    });
+
+    it('should report dangling domain references', () => {
+        const data = clone();
+        data.agents[0].domainId = 'dom-missing';
+
+        const result = validatePhase0Data(data);
+
+        expect(result.valid).toBe(false);
+        expect(result.diagnostics).toContainEqual(expect.objectContaining({
+            code: 'DANGLING_REFERENCE',
+            path: 'agents[0].domainId',
+            entityId: data.agents[0].id,
+        }));
+    });
+
+    it('should report duplicate IDs', () => {
+        const data = clone();
+        data.agents.push({ ...data.agents[0] });
+
+        const result = validatePhase0Data(data);
+
+        expect(result.diagnostics).toContainEqual(expect.objectContaining({
+            code: 'DUPLICATE_ID',
+            path: `agents[${data.agents.length - 1}].id`,
+        }));
+    });
+
+    it('should warn, not fail, when a domain ceiling exceeds the org ceiling', () => {
+        const data = clone();
+        data.domains[0].authorityCeiling = data.organization.authorityCeiling + 1;
+
+        const result = validatePhase0Data(data);
+
+        expect(result.valid).toBe(true);
+        expect(result.diagnostics).toEqual([
+            expect.objectContaining({ severity: 'WARNING', code: 'CEILING_EXCEEDS_PARENT' }),
+        ]);
+    });
+
+    it('should reject sub-domain cycles and missing parents', () => {
+        const data = clone();
+        data.domains[0].parentDomainId = data.domains[1].id;
+        data.domains[1].parentDomainId = data.domains[0].id;
+        data.domains[2].parentDomainId = 'missing';
+
+        const result = validatePhase0Data(data);
+
+        expect(result.valid).toBe(false);
+        expect(result.diagnostics).toContainEqual(expect.objectContaining({ code: 'CYCLE', path: 'domains[0].parentDomainId' }));
+        expect(result.diagnostics).toContainEqual(expect.objectContaining({ code: 'CYCLE', path: 'domains[1].parentDomainId' }));
+        expect(result.diagnostics).toContainEqual(expect.objectContaining({
+            code: 'DANGLING_REFERENCE',
+            path: 'domains[2].parentDomainId',
+        }));
+    });
+
+    it('should reject a structure belonging to another organization', () => {
+        const result = validatePhase0Data(PHASE0_DATA, { organizationId: 'org-other' });
+
+        expect(result.valid).toBe(false);
+        expect(result.diagnostics).toContainEqual(expect.objectContaining({
+            code: 'FOREIGN_ORGANIZATION',
+            path: 'organization.id',
+        }));
+        expect(validatePhase0Data(PHASE0_DATA, { organizationId: PHASE0_DATA.organization.id }).valid).toBe(true);
+    });
+
+    it('should reject domain categories missing from the taxonomy', () => {
+        const data = clone();
+        data.domains[0].allowedActionCategories = ['Report Generation', 'Vibes'];
+
+        const result = validatePhase0Data(data);
+
+        expect(result.valid).toBe(false);
+        expect(result.diagnostics).toContainEqual(expect.objectContaining({
+            code: 'UNMAPPED_CATEGORY',
+            path: 'domains[0].allowedActionCategories[1]',
+        }));
+    });
+
+    it('should reject malformed domain constraints and prose constraints', () => {
+        const data = clone() as unknown as { domains: Record<string, unknown>[] };
+        data.domains[0].constraints = [
+            { id: 'c1', when: { amount: { operator: 'ABOUT', value: 5 } }, effect: { kind: 'BLOCK' } },
+            { id: 'c2', when: { timeWindow: { from: '25:00', to: '06:00' } }, effect: { kind: 'CAP_AUTHORITY', level: 9 } },
+            'No access to billing data',
+        ];
+
+        const result = validatePhase0Data(data);
+
+        expect(result.valid).toBe(false);
+        expect(result.diagnostics.filter(d => d.code === 'INVALID_CONSTRAINT').map(d => d.path)).toEqual([
+            'domains[0].constraints[0].when.amount.operator',
+            'domains[0].constraints[1].when.timeWindow.from',
+            'domains[0].constraints[1].effect.level',
+            'domains[0].constraints[2]',
+        ]);
+    });
+
+    it('should accept prose constraints once upgraded to notes', () => {
+        const data = clone() as unknown as { domains: Record<string, unknown>[] };
+        data.domains[1].constraints = ['No access to billing data'];
+
+        const upgraded = upgradeLegacyConstraints(data) as unknown as Phase0Data;
+
+        expect(validatePhase0Data(upgraded).valid).toBe(true);
+        expect(upgraded.domains[1].constraints).toEqual([]);
+        expect(upgraded.domains[1].constraintNotes).toEqual(['No access to billing data']);
+    });
+
+    it('should not throw on malformed input', () => {
+        expect(validatePhase0Data(null).valid).toBe(false);
+        expect(validatePhase0Data({ organization: 'x', domains: {}, agents: [null] }).valid).toBe(false);
+    });
+});
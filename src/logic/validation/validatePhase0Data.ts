@@ -0,0 +1,373 @@
+import { Phase0Data } from '@/app/data/types';
+import { findDomainCycles } from '@/logic/structure/domainHierarchy';
+import { getBusinessCategory } from '@/logic/actions/categoryTaxonomy';
+import { validateDomainConstraints } from '@/logic/constraints/domainConstraints';
+
+/**
+ * Structure Validation (Phase 9E)
+ *
+ * Runtime schema and referential-integrity checks for Phase0Data.
+ * TypeScript types vanish at runtime; anything loaded from storage, imported
+ * from a file or received from another tab is checked here before use.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - PURE: No side effects, never throws on malformed input
+ * - ERROR diagnostics block acceptance; WARNING diagnostics are informational
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DiagnosticSeverity = 'ERROR' | 'WARNING';
+
+export type DiagnosticCode =
+    | 'MISSING_FIELD'           // Required field absent
+    | 'INVALID_TYPE'            // Wrong JSON type
+    | 'EMPTY_VALUE'             // Required string is blank
+    | 'INVALID_ENUM'            // Value outside the allowed set
+    | 'OUT_OF_RANGE'            // Number outside its allowed range
+    | 'UNKNOWN_FIELD'           // Field not defined by the schema
+    | 'DUPLICATE_ID'            // Two entities share an ID
+    | 'DANGLING_REFERENCE'      // Reference to an entity that does not exist
+    | 'CEILING_EXCEEDS_PARENT'  // Child ceiling above its parent's (clamped at derivation time)
+    | 'CYCLE'                   // Domain nested (transitively) under itself
+    | 'FOREIGN_ORGANIZATION'    // Structure belongs to a different workspace organization
+    | 'UNMAPPED_CATEGORY'       // Domain category label missing from the action category taxonomy
+    | 'INVALID_CONSTRAINT';     // Malformed structured domain constraint
+
+export interface StructureDiagnostic {
+    severity: DiagnosticSeverity;
+    code: DiagnosticCode;
+    path: string;               // Dotted path, e.g. "domains[1].authorityCeiling"
+    message: string;
+    entityId?: string;
+}
+
+export interface StructureValidationOptions {
+    organizationId?: string;    // Phase 9G: Expected organization; anything else is rejected
+}
+
+export interface StructureValidation {
+    valid: boolean;             // true when there are no ERROR diagnostics
+    diagnostics: StructureDiagnostic[];
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+export const AUTHORITY_RANGE = { min: 1, max: 5 } as const;
+
+export const STRUCTURE_ENUMS = {
+    organizationStatus: ['DRAFT', 'LOCKED'],
+    domainStatus: ['DRAFT', 'READY'],
+    escalationPosture: ['ALWAYS_AUTO', 'HUMAN_SENSITIVE', 'ALWAYS_HUMAN'],
+    communicationPosture: ['FORMAL', 'BALANCED', 'FRIENDLY'],
+    globalAction: ['READ', 'WRITE', 'EXECUTE', 'ESCALATE'],
+    executionType: ['ADVISORY', 'DECISION', 'EXECUTION'],
+    executionSurface: ['READ', 'WRITE', 'EXECUTE'],
+    escalationBehavior: ['AUTO', 'HUMAN_REQUIRED'],
+} as const;
+
+type FieldRule =
+    | { kind: 'string'; allowEmpty?: boolean; optional?: boolean }
+    | { kind: 'enum'; values: readonly string[] }
+    | { kind: 'level' }
+    | { kind: 'stringList'; values?: readonly string[]; optional?: boolean }
+    | { kind: 'constraintList' };
+
+const ORGANIZATION_SCHEMA: Record<string, FieldRule> = {
+    id: { kind: 'string' },
+    name: { kind: 'string' },
+    status: { kind: 'enum', values: STRUCTURE_ENUMS.organizationStatus },
+    authorityCeiling: { kind: 'level' },
+    globalActions: { kind: 'stringList', values: STRUCTURE_ENUMS.globalAction },
+    escalationBaseline: { kind: 'enum', values: STRUCTURE_ENUMS.escalationPosture },
+    communicationPosture: { kind: 'enum', values: STRUCTURE_ENUMS.communicationPosture },
+};
+
+const DOMAIN_SCHEMA: Record<string, FieldRule> = {
+    id: { kind: 'string' },
+    organizationId: { kind: 'string' },
+    name: { kind: 'string' },
+    mission: { kind: 'string', allowEmpty: true },
+    status: { kind: 'enum', values: STRUCTURE_ENUMS.domainStatus },
+    authorityCeiling: { kind: 'level' },
+    allowedActionCategories: { kind: 'stringList' },
+    scope: { kind: 'string', allowEmpty: true },
+    escalationPosture: { kind: 'enum', values: STRUCTURE_ENUMS.escalationPosture },
+    constraints: { kind: 'constraintList' },
+    constraintNotes: { kind: 'stringList', optional: true },
+    parentDomainId: { kind: 'string', optional: true },
+};
+
+const AGENT_SCHEMA: Record<string, FieldRule> = {
+    id: { kind: 'string' },
+    domainId: { kind: 'string' },
+    name: { kind: 'string' },
+    role: { kind: 'string' },
+    executionType: { kind: 'enum', values: STRUCTURE_ENUMS.executionType },
+    autonomyLevel: { kind: 'level' },
+    executionSurface: { kind: 'enum', values: STRUCTURE_ENUMS.executionSurface },
+    escalationBehavior: { kind: 'enum', values: STRUCTURE_ENUMS.escalationBehavior },
+};
+
+// ============================================================================
+// FIELD CHECKS
+// ============================================================================
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function error(code: DiagnosticCode, path: string, message: string, entityId?: string): StructureDiagnostic {
+    return { severity: 'ERROR', code, path, message, entityId };
+}
+
+function checkField(value: unknown, rule: FieldRule, path: string, entityId?: string): StructureDiagnostic[] {
+    if (value === undefined) {
+        if ((rule.kind === 'string' || rule.kind === 'stringList') && rule.optional) return [];
+        return [error('MISSING_FIELD', path, 'Required', entityId)];
+    }
+
+    switch (rule.kind) {
+        case 'string':
+            if (typeof value !== 'string') return [error('INVALID_TYPE', path, 'Expected a string', entityId)];
+            if (!rule.allowEmpty && value.trim() === '') return [error('EMPTY_VALUE', path, 'Must not be empty', entityId)];
+            return [];
+
+        case 'enum':
+            if (typeof value !== 'string' || !rule.values.includes(value)) {
+                return [error('INVALID_ENUM', path, `Expected one of ${rule.values.join(', ')}`, entityId)];
+            }
+            return [];
+
+        case 'level':
+            if (typeof value !== 'number' || !Number.isInteger(value)) {
+                return [error('INVALID_TYPE', path, 'Expected a whole number', entityId)];
+            }
+            if (value < AUTHORITY_RANGE.min || value > AUTHORITY_RANGE.max) {
+                return [error('OUT_OF_RANGE', path, `Must be between ${AUTHORITY_RANGE.min} and ${AUTHORITY_RANGE.max}`, entityId)];
+            }
+            return [];
+
+        case 'stringList': {
+            if (!Array.isArray(value)) return [error('INVALID_TYPE', path, 'Expected a list', entityId)];
+            const diagnostics: StructureDiagnostic[] = [];
+            value.forEach((item, i) => {
+                if (typeof item !== 'string') {
+                    diagnostics.push(error('INVALID_TYPE', `${path}[${i}]`, 'Expected a string', entityId));
+                } else if (rule.values && !rule.values.includes(item)) {
+                    diagnostics.push(error('INVALID_ENUM', `${path}[${i}]`, `Expected one of ${rule.values.join(', ')}`, entityId));
+                }
+            });
+            return diagnostics;
+        }
+
+        // Phase 9L: Structured domain constraints
+        case 'constraintList':
+            return validateDomainConstraints(value).map(issue =>
+                error(issue.path === '' ? 'INVALID_TYPE' : 'INVALID_CONSTRAINT', `${path}${issue.path}`, issue.message, entityId));
+    }
+}
+
+function checkEntity(value: unknown, schema: Record<string, FieldRule>, path: string): StructureDiagnostic[] {
+    if (!isObject(value)) {
+        return [error('INVALID_TYPE', path, 'Expected an object')];
+    }
+
+    const entityId = typeof value.id === 'string' ? value.id : undefined;
+    const diagnostics = Object.entries(schema).flatMap(([key, rule]) =>
+        checkField(value[key], rule, `${path}.${key}`, entityId)
+    );
+
+    for (const key of Object.keys(value)) {
+        if (!(key in schema)) {
+            diagnostics.push(error('UNKNOWN_FIELD', `${path}.${key}`, 'Unknown field', entityId));
+        }
+    }
+
+    return diagnostics;
+}
+
+function checkDuplicateIds(items: Fields[], path: string): StructureDiagnostic[] {
+    const seen = new Map<string, number>();
+    const diagnostics: StructureDiagnostic[] = [];
+
+    items.forEach((item, i) => {
+        if (typeof item.id !== 'string') return;
+        const first = seen.get(item.id);
+        if (first !== undefined) {
+            diagnostics.push(error('DUPLICATE_ID', `${path}[${i}].id`, `Duplicate ID "${item.id}" (first used at ${path}[${first}])`, item.id));
+        } else {
+            seen.set(item.id, i);
+        }
+    });
+
+    return diagnostics;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate an untrusted value as Phase0Data.
+ *
+ * Checks:
+ * - Field presence, types, enum values and authority ranges (1-5)
+ * - Unknown fields
+ * - Duplicate organization/domain/agent IDs
+ * - Domains pointing at another organization, agents pointing at missing domains
+ * - Domain ceilings above the organization ceiling (WARNING: clamped at derivation)
+ * - Sub-domains pointing at missing parents or nested in a cycle (Phase 9F)
+ * - Sub-domain ceilings above the parent domain's ceiling (WARNING)
+ * - Domain constraints in the structured constraint language (Phase 9L)
+ * - Structures belonging to another organization, when options.organizationId is set (Phase 9G)
+ */
+export function validatePhase0Data(raw: unknown, options: StructureValidationOptions = {}): StructureValidation {
+    if (!isObject(raw)) {
+        return { valid: false, diagnostics: [error('INVALID_TYPE', '(structure)', 'Expected an object')] };
+    }
+
+    const diagnostics: StructureDiagnostic[] = [];
+
+    for (const key of Object.keys(raw)) {
+        if (!['organization', 'domains', 'agents'].includes(key)) {
+            diagnostics.push(error('UNKNOWN_FIELD', key, 'Unknown field'));
+        }
+    }
+
+    diagnostics.push(...checkEntity(raw.organization, ORGANIZATION_SCHEMA, 'organization'));
+
+    if (options.organizationId !== undefined &&
+        isObject(raw.organization) &&
+        typeof raw.organization.id === 'string' &&
+        raw.organization.id !== options.organizationId) {
+        diagnostics.push(error('FOREIGN_ORGANIZATION', 'organization.id',
+            `Belongs to organization "${raw.organization.id}", not the active organization "${options.organizationId}"`,
+            raw.organization.id));
+    }
+
+    const domains = Array.isArray(raw.domains) ? raw.domains : [];
+    const agents = Array.isArray(raw.agents) ? raw.agents : [];
+    if (!Array.isArray(raw.domains)) diagnostics.push(error('INVALID_TYPE', 'domains', 'Expected a list'));
+    if (!Array.isArray(raw.agents)) diagnostics.push(error('INVALID_TYPE', 'agents', 'Expected a list'));
+
+    domains.forEach((domain, i) => diagnostics.push(...checkEntity(domain, DOMAIN_SCHEMA, `domains[${i}]`)));
+    agents.forEach((agent, i) => diagnostics.push(...checkEntity(agent, AGENT_SCHEMA, `agents[${i}]`)));
+
+    // Referential integrity only considers well-formed entities
+    const organization = isObject(raw.organization) ? raw.organization : null;
+    const domainObjects = domains.filter(isObject);
+    const agentObjects = agents.filter(isObject);
+
+    diagnostics.push(...checkDuplicateIds(domainObjects, 'domains'));
+    diagnostics.push(...checkDuplicateIds(agentObjects, 'agents'));
+
+    const domainIds = new Set(domainObjects.map(d => d.id));
+
+    domains.forEach((domain, i) => {
+        if (!isObject(domain) || !organization) return;
+        const domainId = typeof domain.id === 'string' ? domain.id : undefined;
+
+        if (typeof domain.organizationId === 'string' && domain.organizationId !== organization.id) {
+            diagnostics.push(error('DANGLING_REFERENCE', `domains[${i}].organizationId`,
+                `Unknown organization "${domain.organizationId}"`, domainId));
+        }
+
+        if (typeof domain.authorityCeiling === 'number' &&
+            typeof organization.authorityCeiling === 'number' &&
+            domain.authorityCeiling > organization.authorityCeiling) {
+            diagnostics.push({
+                severity: 'WARNING',
+                code: 'CEILING_EXCEEDS_PARENT',
+                path: `domains[${i}].authorityCeiling`,
+                message: `Ceiling ${domain.authorityCeiling} exceeds the organization ceiling ${organization.authorityCeiling}; effective authority is capped at ${organization.authorityCeiling}`,
+                entityId: domainId,
+            });
+        }
+
+        // Phase 9J: Every category label must map to Do action categories
+        if (Array.isArray(domain.allowedActionCategories)) {
+            domain.allowedActionCategories.forEach((label, j) => {
+                if (typeof label !== 'string' || getBusinessCategory(label)) return;
+                diagnostics.push(error('UNMAPPED_CATEGORY', `domains[${i}].allowedActionCategories[${j}]`,
+                    `"${label}" is not mapped to any action category`, domainId));
+            });
+        }
+    });
+
+    // Phase 9F: Nesting integrity
+    const domainsById = new Map(domainObjects.map(d => [d.id, d]));
+
+    domains.forEach((domain, i) => {
+        if (!isObject(domain) || typeof domain.parentDomainId !== 'string') return;
+        const domainId = typeof domain.id === 'string' ? domain.id : undefined;
+        const parent = domainsById.get(domain.parentDomainId);
+
+        if (!parent) {
+            diagnostics.push(error('DANGLING_REFERENCE', `domains[${i}].parentDomainId`,
+                `Unknown parent domain "${domain.parentDomainId}"`, domainId));
+            return;
+        }
+
+        if (typeof domain.authorityCeiling === 'number' &&
+            typeof parent.authorityCeiling === 'number' &&
+            domain.authorityCeiling > parent.authorityCeiling) {
+            diagnostics.push({
+                severity: 'WARNING',
+                code: 'CEILING_EXCEEDS_PARENT',
+                path: `domains[${i}].authorityCeiling`,
+                message: `Ceiling ${domain.authorityCeiling} exceeds the parent domain ceiling ${parent.authorityCeiling}; effective authority is capped at ${parent.authorityCeiling}`,
+                entityId: domainId,
+            });
+        }
+    });
+
+    const cyclic = new Set(findDomainCycles(domainObjects
+        .filter(d => typeof d.id === 'string')
+        .map(d => ({
+            id: d.id as string,
+            parentDomainId: typeof d.parentDomainId === 'string' ? d.parentDomainId : undefined,
+        }))));
+    domains.forEach((domain, i) => {
+        if (!isObject(domain) || typeof domain.id !== 'string' || !cyclic.has(domain.id)) return;
+        diagnostics.push(error('CYCLE', `domains[${i}].parentDomainId`,
+            `Domain "${domain.id}" is nested under itself`, domain.id));
+    });
+
+    agents.forEach((agent, i) => {
+        if (!isObject(agent)) return;
+        if (typeof agent.domainId === 'string' && !domainIds.has(agent.domainId)) {
+            diagnostics.push(error('DANGLING_REFERENCE', `agents[${i}].domainId`,
+                `Unknown domain "${agent.domainId}"`, typeof agent.id === 'string' ? agent.id : undefined));
+        }
+    });
+
+    return {
+        valid: !diagnostics.some(d => d.severity === 'ERROR'),
+        diagnostics,
+    };
+}
+
+/**
+ * Narrowing helper for callers that only need a yes/no answer.
+ */
+export function isValidPhase0Data(raw: unknown): raw is Phase0Data {
+    return validatePhase0Data(raw).valid;
+}
+
+/**
+ * One-line summary of the first error, for status messages.
+ */
+export function summarizeValidation(validation: StructureValidation): string {
+    const errors = validation.diagnostics.filter(d => d.severity === 'ERROR');
+    if (errors.length === 0) return 'Valid';
+    const [first] = errors;
+    const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : '';
+    return `${first.path}: ${first.message}${more}`;
+}
@@ -0,0 +1,93 @@
+import { PersonaIdentity, getAllPersonaIdentities, replacePersonaIdentities } from '../persona/personaIdentity';
+import { getAgentPersonaMappings, replaceAgentPersonaMappings } from '../persona/personaIdentityMapping';
+import { LearnedPolicy } from '../policy/learnedPolicy';
+import { PolicyOverride, getAllPolicyOverrides, replacePolicyOverrides } from '../policy/policyOverride';
+import { getAllLearnedPolicies, replaceLearnedPolicies } from '../staging/stagedActions';
+import { AuditEntry, getAuditLedger, replaceAuditLedger } from '../audit/auditLedger';
+
+/**
+ * Organization Registries (Phase 9G)
+ *
+ * Persona identities, persona mappings, learned policies, overrides and the
+ * audit ledger (Phase 9R) are held in module-level registries. In a
+ * multi-organization workspace those registries must only ever contain the
+ * active organization's entries.
+ *
+ * Switching organizations parks the current contents under the outgoing
+ * organization and loads the incoming organization's (or an empty set).
+ *
+ * CRITICAL: Call activateOrganizationRegistries before rendering anything for
+ * the incoming organization.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OrganizationRegistries {
+    identities: PersonaIdentity[];
+    agentMappings: Record<string, string>;
+    learnedPolicies: LearnedPolicy[];
+    overrides: PolicyOverride[];
+    auditLedger: AuditEntry[];
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const parkedRegistries = new Map<string, OrganizationRegistries>();
+let activeOrganizationId: string | null = null;
+
+function captureRegistries(): OrganizationRegistries {
+    return {
+        identities: [...getAllPersonaIdentities()],
+        agentMappings: getAgentPersonaMappings(),
+        learnedPolicies: [...getAllLearnedPolicies()],
+        overrides: [...getAllPolicyOverrides()],
+        auditLedger: [...getAuditLedger()],
+    };
+}
+
+function applyRegistries(registries: OrganizationRegistries): void {
+    replacePersonaIdentities(registries.identities);
+    replaceAgentPersonaMappings(registries.agentMappings);
+    replaceLearnedPolicies(registries.learnedPolicies);
+    replacePolicyOverrides(registries.overrides);
+    replaceAuditLedger(registries.auditLedger);
+}
+
+// ============================================================================
+// ACTIVATION
+// ============================================================================
+
+/**
+ * Make the registries hold the given organization's entries.
+ * An organization activated for the first time starts with empty registries;
+ * its stored documents are loaded by its structure store.
+ */
+export function activateOrganizationRegistries(organizationId: string): void {
+    if (activeOrganizationId === organizationId) return;
+
+    if (activeOrganizationId !== null) {
+        parkedRegistries.set(activeOrganizationId, captureRegistries());
+    }
+
+    // Switched first, so registry listeners see the incoming organization while its entries load
+    activeOrganizationId = organizationId;
+
+    const parked = parkedRegistries.get(organizationId);
+    if (parked) {
+        applyRegistries(parked);
+        parkedRegistries.delete(organizationId);
+    } else {
+        applyRegistries({ identities: [], agentMappings: {}, learnedPolicies: [], overrides: [], auditLedger: [] });
+    }
+}
+
+/**
+ * Organization whose entries the registries currently hold.
+ */
+export function getRegistryOrganizationId(): string | null {
+    return activeOrganizationId;
+}
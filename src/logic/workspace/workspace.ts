@@ -0,0 +1,128 @@
+import { Phase0Data, Organization } from '@/app/data/types';
+
+/**
+ * Organization Workspace (Phase 9G)
+ *
+ * A workspace lists every organization managed from this installation and
+ * remembers which one is active. Each organization's structure, snapshots,
+ * personas and policies live in their own documents and registries; the
+ * workspace itself only holds the directory.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - PURE: Every operation returns a new workspace
+ * - ISOLATION: Only the active organization's data is ever handed to derivations
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WorkspaceOrganization {
+    organizationId: string;
+    name: string;               // Display name for the switcher (kept in sync with the structure)
+    createdAt: string;
+}
+
+export interface Workspace {
+    organizations: WorkspaceOrganization[];
+    activeOrganizationId: string;
+}
+
+// ============================================================================
+// CREATION
+// ============================================================================
+
+export function createWorkspace(organization: Organization): Workspace {
+    return {
+        organizations: [{
+            organizationId: organization.id,
+            name: organization.name,
+            createdAt: new Date().toISOString(),
+        }],
+        activeOrganizationId: organization.id,
+    };
+}
+
+/**
+ * Directory entry for a new, empty organization.
+ */
+export function createWorkspaceOrganization(name: string): WorkspaceOrganization {
+    return {
+        organizationId: `org-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        name,
+        createdAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Starting structure for an organization with no stored document.
+ * Defaults are the most restrictive settings: lowest ceiling, read-only, human escalation.
+ */
+export function createEmptyOrganizationData(entry: WorkspaceOrganization): Phase0Data {
+    return {
+        organization: {
+            id: entry.organizationId,
+            name: entry.name,
+            status: 'DRAFT',
+            authorityCeiling: 1,
+            globalActions: ['READ'],
+            escalationBaseline: 'ALWAYS_HUMAN',
+            communicationPosture: 'BALANCED',
+        },
+        domains: [],
+        agents: [],
+    };
+}
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+export function addWorkspaceOrganization(workspace: Workspace, entry: WorkspaceOrganization): Workspace {
+    if (workspace.organizations.some(o => o.organizationId === entry.organizationId)) {
+        return workspace;
+    }
+    return { ...workspace, organizations: [...workspace.organizations, entry] };
+}
+
+export function setActiveOrganization(workspace: Workspace, organizationId: string): Workspace {
+    if (workspace.activeOrganizationId === organizationId) return workspace;
+    if (!workspace.organizations.some(o => o.organizationId === organizationId)) return workspace;
+    return { ...workspace, activeOrganizationId: organizationId };
+}
+
+export function renameWorkspaceOrganization(workspace: Workspace, organizationId: string, name: string): Workspace {
+    const entry = workspace.organizations.find(o => o.organizationId === organizationId);
+    if (!entry || entry.name === name) return workspace;
+    return {
+        ...workspace,
+        organizations: workspace.organizations.map(o =>
+            o.organizationId === organizationId ? { ...o, name } : o
+        ),
+    };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Runtime check for a stored workspace document.
+ */
+export function isWorkspace(raw: unknown): raw is Workspace {
+    if (typeof raw !== 'object' || raw === null) return false;
+    const candidate = raw as Record<string, unknown>;
+    if (!Array.isArray(candidate.organizations) || candidate.organizations.length === 0) return false;
+    if (typeof candidate.activeOrganizationId !== 'string') return false;
+
+    const ids = new Set<string>();
+    for (const entry of candidate.organizations) {
+        if (typeof entry !== 'object' || entry === null) return false;
+        const { organizationId, name, createdAt } = entry as Record<string, unknown>;
+        if (typeof organizationId !== 'string' || typeof name !== 'string' || typeof createdAt !== 'string') return false;
+        if (ids.has(organizationId)) return false;
+        ids.add(organizationId);
+    }
+
+    return ids.has(candidate.activeOrganizationId);
+}
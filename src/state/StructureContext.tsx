@@ -1,14 +1,66 @@
 'use client';
 
-import React, { createContext, useContext, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { useStructureStore, StructureStore } from './structureStore';
+import { useWorkspaceStore, WorkspaceStore } from './workspaceStore';
+import { WorkspaceOrganization } from '@/logic/workspace/workspace';
+import { startLifecycleScheduler } from '@/logic/policy/policyLifecycle';
+import { useAuditLedgerSync } from './auditLedgerSync';
 
 // Create standard context
 const StructureContext = createContext<StructureStore | null>(null);
 
+// Phase 9G: Organization directory and switcher state
+const WorkspaceContext = createContext<WorkspaceStore | null>(null);
+
 export function StructureProvider({ children }: { children: ReactNode }) {
-    // Initialize the store hook once at the top level
-    const store = useStructureStore();
+    const workspace = useWorkspaceStore();
+
+    // Wait for the directory so no organization document is seeded before migration
+    if (workspace.status === 'LOADING') {
+        return null;
+    }
+
+    return (
+        <WorkspaceContext.Provider value={workspace}>
+            {/* Keyed by organization: switching remounts the store, so nothing carries over */}
+            <OrganizationStructureProvider
+                key={workspace.activeOrganization.organizationId}
+                organization={workspace.activeOrganization}
+                workspace={workspace}
+            >
+                {children}
+            </OrganizationStructureProvider>
+        </WorkspaceContext.Provider>
+    );
+}
+
+function OrganizationStructureProvider({
+    organization,
+    workspace,
+    children,
+}: {
+    organization: WorkspaceOrganization;
+    workspace: WorkspaceStore;
+    children: ReactNode;
+}) {
+    const [initialData] = useState(() => workspace.getInitialData(organization));
+    const [seedRegistries] = useState(() => workspace.getRegistrySeed(organization));
+    const store = useStructureStore(initialData, undefined, organization.organizationId, seedRegistries);
+
+    // Keep the switcher label in step with renames made in the OS
+    const { syncOrganizationName } = workspace;
+    const name = store.data.organization.name;
+    useEffect(() => {
+        syncOrganizationName(organization.organizationId, name);
+    }, [syncOrganizationName, organization.organizationId, name]);
+
+    // Phase 9Y: Bring policy and override lifecycles up to date once the stored policies load, then on a timer
+    const hydrated = store.persistence.status !== 'LOADING';
+    useEffect(() => (hydrated ? startLifecycleScheduler() : undefined), [hydrated]);
+
+    // Phase 9R: One persisted audit chain, shared with the decision API
+    useAuditLedgerSync(organization.organizationId);
 
     return (
         <StructureContext.Provider value={store}>
@@ -24,3 +76,11 @@ export function useStructure() {
     }
     return context;
 }
+
+export function useWorkspace() {
+    const context = useContext(WorkspaceContext);
+    if (!context) {
+        throw new Error('useWorkspace must be used within a StructureProvider');
+    }
+    return context;
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect } from 'react';
+import { AuditEntry, GovernanceEvent, replaceAuditLedger, subscribeToAuditLedger } from '@/logic/audit/auditLedger';
+import { getRegistryOrganizationId } from '@/logic/workspace/organizationRegistries';
+import { createDecisionClient } from '@/client/decisionClient';
+
+/**
+ * Audit Ledger Sync (Phase 9R)
+ *
+ * Keeps one audit chain per organization: the ledger the decision API
+ * persists. On mount the persisted chain replaces the in-memory ledger.
+ * Every governance event the UI records afterwards is chained onto the
+ * persisted ledger by the server, and the chain it returns replaces the
+ * in-memory ledger again, so decisions made through the API and in the UI
+ * appear together in the Policies timeline.
+ *
+ * CRITICAL CONSTRAINTS:
+ * - ONE CHAIN: The server assigns sequence, time and hashes; the UI's own entries are provisional
+ * - IN ORDER: Events are sent one request at a time, in the order they were recorded
+ * - UNREACHABLE SERVICE: Events stay in memory only, with a warning; nothing is retried
+ */
+
+function toGovernanceEvent(entry: AuditEntry): GovernanceEvent {
+    const { sequence: _sequence, recordedAt: _recordedAt, previousHash: _previousHash, hash: _hash, ...event } = entry;
+    return event;
+}
+
+export function useAuditLedgerSync(organizationId: string): void {
+    useEffect(() => {
+        const client = createDecisionClient({ baseUrl: '/api/v1', organizationId, retries: 1 });
+        let mounted = true;
+
+        // The registries may already hold the next organization's entries while this one unmounts
+        const isCurrent = () => mounted && getRegistryOrganizationId() === organizationId;
+        const adopt = (entries: AuditEntry[]) => {
+            if (isCurrent()) replaceAuditLedger(entries);
+        };
+        const warn = (error: unknown) => {
+            console.warn('Audit ledger unavailable, keeping governance events in this browser only:', error);
+        };
+
+        let pending = client.auditLedger().then(adopt, warn);
+
+        const unsubscribe = subscribeToAuditLedger(change => {
+            if (change.kind !== 'RECORDED' || !isCurrent()) return;
+            const event = toGovernanceEvent(change.entry);
+            pending = pending.then(() => client.recordGovernanceEvents([event]).then(adopt, warn));
+        });
+
+        return () => {
+            mounted = false;
+            unsubscribe();
+        };
+    }, [organizationId]);
+}
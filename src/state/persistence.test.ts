@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { PersistenceAdapter, createFallbackPersistence, createMemoryPersistence, isValidPersistenceKey, scopePersistenceKey } from './persistence';
+
+describe('Structure Persistence', () => {
+    it('scopes keys to an organization with valid key characters', () => {
+        expect(scopePersistenceKey('structure', 'org-001')).toBe('structure-org-00002d001');
+        expect(isValidPersistenceKey(scopePersistenceKey('structure', 'Org_Ünïcode 😀'))).toBe(true);
+    });
+
+    it('never gives distinct organization IDs the same key', () => {
+        // A control character followed by "600" and a single astral character
+        const ids = ['\u001f600', '\u{1f600}', 'org-001', 'org-0-01', 'ORG-001'];
+        const keys = ids.map(id => scopePersistenceKey('structure', id));
+        expect(new Set(keys).size).toBe(ids.length);
+    });
+
+    it('goes back to the primary adapter once it answers again', async () => {
+        let reachable = false;
+        const documents = createMemoryPersistence();
+        const primary: PersistenceAdapter = {
+            kind: 'API',
+            load: (key) => reachable ? documents.load(key) : Promise.reject(new Error('offline')),
+            save: (key, value) => reachable ? documents.save(key, value) : Promise.reject(new Error('offline')),
+        };
+        const fallback = createMemoryPersistence();
+
+        const waiting = createFallbackPersistence(primary, fallback, 60_000);
+        await waiting.save('structure', { version: 1 });
+        reachable = true;
+        await waiting.save('structure', { version: 2 });
+        expect(waiting.kind).toBe('MEMORY');
+        expect(await documents.load('structure')).toBeNull();
+
+        reachable = false;
+        const retrying = createFallbackPersistence(primary, fallback, 0);
+        await retrying.save('structure', { version: 3 });
+        expect(retrying.kind).toBe('MEMORY');
+        reachable = true;
+        await retrying.save('structure', { version: 4 });
+        expect(retrying.kind).toBe('API');
+        expect(await documents.load('structure')).toEqual({ version: 4 });
+    });
+});
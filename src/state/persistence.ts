@@ -0,0 +1,290 @@
+/**
+ * Structure Persistence (Phase 9A)
+ *
+ * Pluggable storage backends for governance documents (structure, snapshots, ...).
+ *
+ * Backends:
+ * - API: Next API route backed by local files on the server (primary)
+ * - IndexedDB: Browser-local storage (fallback when the API is unreachable)
+ * - Memory: Non-durable, used during SSR and in tests
+ *
+ * Every backend stores opaque JSON documents by key. The store decides what
+ * a document contains; this module only moves it in and out of storage.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PersistenceKind = 'API' | 'INDEXED_DB' | 'MEMORY';
+
+/**
+ * Storage backend contract.
+ *
+ * load() resolves to null when the document has never been saved.
+ * Both methods reject when the backend itself is unavailable.
+ */
+export interface PersistenceAdapter {
+    kind: PersistenceKind;
+    load<T>(key: string): Promise<T | null>;
+    save<T>(key: string, value: T): Promise<void>;
+}
+
+/**
+ * Change notification broadcast to other tabs after a save.
+ */
+export interface PersistenceChangeMessage {
+    key: string;
+    originId: string;
+}
+
+// ============================================================================
+// DOCUMENT KEYS
+// ============================================================================
+
+/**
+ * Known document keys. Keys must match /^[a-z0-9-]+$/ (enforced by the API route).
+ */
+export const PERSISTENCE_KEYS = {
+    STRUCTURE: 'structure',
+    SNAPSHOTS: 'snapshots',
+    WORKSPACE: 'workspace',
+    ACTION_CATALOG: 'action-catalog',
+    STAGED_ACTIONS: 'staged-actions',       // Written by the decision API only (Phase 9O)
+    VERDICT_LOG: 'verdict-log',             // Append-only JSON Lines, decision API only (Phase 9Q)
+    AUDIT_LEDGER: 'audit-ledger',           // Hash-chained JSON Lines, decision API only (Phase 9R)
+    PERSONAS: 'personas',                   // Persona identities and agent mappings, read by the decision API (Phase 9T)
+    POLICIES: 'policies',                   // Learned policies and overrides, read by the decision API (Phase 9U)
+} as const;
+
+const KEY_PATTERN = /^[a-z0-9-]+$/;
+
+export function isValidPersistenceKey(key: string): boolean {
+    return KEY_PATTERN.test(key);
+}
+
+/**
+ * Per-organization document key (Phase 9G), e.g. "structure-org-00002d001" for org-001.
+ *
+ * Lowercase letters and digits pass through; every other character is written
+ * as "-" plus its code point in six hex digits (enough for any code point), so
+ * every escape has the same length and distinct organization IDs can never
+ * share a document.
+ */
+export function scopePersistenceKey(key: string, organizationId: string): string {
+    const encoded = Array.from(organizationId)
+        .map(char => /[a-z0-9]/.test(char)
+            ? char
+            : `-${char.codePointAt(0)!.toString(16).padStart(6, '0')}`)
+        .join('');
+    return `${key}-${encoded}`;
+}
+
+// ============================================================================
+// API ADAPTER (LOCAL FILE VIA NEXT ROUTE)
+// ============================================================================
+
+/**
+ * Persist documents through /api/store/[key].
+ * The route writes each document to a JSON file in the server data directory.
+ */
+export function createApiPersistence(baseUrl: string = '/api/store'): PersistenceAdapter {
+    return {
+        kind: 'API',
+
+        async load<T>(key: string): Promise<T | null> {
+            const response = await fetch(`${baseUrl}/${key}`, { cache: 'no-store' });
+            if (response.status === 404) {
+                return null;
+            }
+            if (!response.ok) {
+                throw new Error(`Failed to load "${key}" (HTTP ${response.status})`);
+            }
+            return (await response.json()) as T;
+        },
+
+        async save<T>(key: string, value: T): Promise<void> {
+            const response = await fetch(`${baseUrl}/${key}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(value),
+            });
+            if (!response.ok) {
+                throw new Error(`Failed to save "${key}" (HTTP ${response.status})`);
+            }
+        },
+    };
+}
+
+// ============================================================================
+// INDEXEDDB ADAPTER (BROWSER FALLBACK)
+// ============================================================================
+
+const IDB_DATABASE = 'clonehaus-osr';
+const IDB_STORE = 'documents';
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this environment'));
+            return;
+        }
+
+        const request = indexedDB.open(IDB_DATABASE, 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(IDB_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Persist documents in the browser's IndexedDB.
+ * Data is local to this browser profile but shared across its tabs.
+ */
+export function createIndexedDbPersistence(): PersistenceAdapter {
+    return {
+        kind: 'INDEXED_DB',
+
+        async load<T>(key: string): Promise<T | null> {
+            const db = await openDatabase();
+            return new Promise<T | null>((resolve, reject) => {
+                const request = db.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE).get(key);
+                request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+                request.onerror = () => reject(request.error);
+            }).finally(() => db.close());
+        },
+
+        async save<T>(key: string, value: T): Promise<void> {
+            const db = await openDatabase();
+            return new Promise<void>((resolve, reject) => {
+                const tx = db.transaction(IDB_STORE, 'readwrite');
+                tx.objectStore(IDB_STORE).put(value, key);
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+            }).finally(() => db.close());
+        },
+    };
+}
+
+// ============================================================================
+// MEMORY ADAPTER
+// ============================================================================
+
+/**
+ * Non-durable adapter. Values are deep copied so callers cannot mutate storage.
+ */
+export function createMemoryPersistence(): PersistenceAdapter {
+    const documents = new Map<string, string>();
+
+    return {
+        kind: 'MEMORY',
+
+        async load<T>(key: string): Promise<T | null> {
+            const raw = documents.get(key);
+            return raw === undefined ? null : (JSON.parse(raw) as T);
+        },
+
+        async save<T>(key: string, value: T): Promise<void> {
+            documents.set(key, JSON.stringify(value));
+        },
+    };
+}
+
+// ============================================================================
+// FALLBACK COMPOSITION
+// ============================================================================
+
+/**
+ * How long to stay on the fallback before trying the primary again.
+ */
+export const FALLBACK_RETRY_MS = 30_000;
+
+/**
+ * Use the primary adapter until it fails, then the fallback. The primary is
+ * tried again once retryAfterMs has passed since it failed, and takes over
+ * again as soon as it answers. The reported kind follows the active adapter.
+ *
+ * Documents saved to the fallback meanwhile reach the primary with their next save.
+ */
+export function createFallbackPersistence(
+    primary: PersistenceAdapter,
+    fallback: PersistenceAdapter,
+    retryAfterMs: number = FALLBACK_RETRY_MS
+): PersistenceAdapter {
+    let active = primary;
+    let failedAt = 0;
+
+    const run = async <R>(operation: (adapter: PersistenceAdapter) => Promise<R>): Promise<R> => {
+        if (active === fallback && Date.now() - failedAt >= retryAfterMs) {
+            active = primary;
+        }
+        if (active === primary) {
+            try {
+                return await operation(primary);
+            } catch (error) {
+                console.warn(`${primary.kind} persistence unavailable, falling back to ${fallback.kind}:`, error);
+                active = fallback;
+                failedAt = Date.now();
+            }
+        }
+        return operation(fallback);
+    };
+
+    return {
+        get kind() {
+            return active.kind;
+        },
+        load: <T>(key: string) => run((adapter) => adapter.load<T>(key)),
+        save: <T>(key: string, value: T) => run((adapter) => adapter.save<T>(key, value)),
+    };
+}
+
+/**
+ * Resolve the default persistence stack for the current environment.
+ *
+ * - Browser: API (local file) → IndexedDB
+ * - Server render: memory only (nothing is persisted during SSR)
+ */
+export function resolveDefaultPersistence(): PersistenceAdapter {
+    if (typeof window === 'undefined') {
+        return createMemoryPersistence();
+    }
+    return createFallbackPersistence(createApiPersistence(), createIndexedDbPersistence());
+}
+
+// ============================================================================
+// CROSS-TAB SYNC
+// ============================================================================
+
+const CHANNEL_NAME = 'clonehaus-persistence';
+
+/**
+ * Subscribe to saves made in other tabs.
+ * Returns an unsubscribe function. No-op where BroadcastChannel is unavailable.
+ */
+export function subscribeToPersistenceChanges(
+    onChange: (message: PersistenceChangeMessage) => void
+): () => void {
+    if (typeof BroadcastChannel === 'undefined') {
+        return () => { };
+    }
+
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<PersistenceChangeMessage>) => onChange(event.data);
+    return () => channel.close();
+}
+
+/**
+ * Notify other tabs that a document was saved.
+ */
+export function announcePersistenceChange(message: PersistenceChangeMessage): void {
+    if (typeof BroadcastChannel === 'undefined') {
+        return;
+    }
+
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.postMessage(message);
+    channel.close();
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+import { RegistryContents, createHistory, executeCommand, redo, registriesForStep, undo } from './structureHistory';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+import { Phase0Data } from '@/app/data/types';
+
+describe('Structure History', () => {
+    const clone = (): Phase0Data => JSON.parse(JSON.stringify(PHASE0_DATA));
+
+    it('should restore the registries of a rollback on undo and redo', () => {
+        const before: RegistryContents = { personas: { identities: [], agentMappings: { 'agt-fin-recon': 'persona-current' } } };
+        const after: RegistryContents = {
+            personas: { identities: [], agentMappings: { 'agt-fin-recon': 'persona-snapshot', 'agt-fin-audit': 'persona-snapshot-audit' } },
+        };
+
+        const rolledBack = executeCommand(createHistory(PHASE0_DATA), {
+            label: () => 'Roll back to "Before reorg"',
+            apply: () => clone(),
+            registries: { before, after },
+        });
+        expect(registriesForStep(rolledBack, 'UNDO')).toEqual(before);
+
+        const undone = undo(rolledBack);
+        expect(undone.present).toBe(PHASE0_DATA);
+        expect(registriesForStep(undone, 'REDO')).toEqual(after);
+
+        const redone = redo(undone);
+        expect(registriesForStep(redone, 'UNDO')).toEqual(before);
+    });
+
+    it('should leave the registries alone for ordinary edits', () => {
+        const edited = executeCommand(createHistory(PHASE0_DATA), {
+            label: () => 'Update organization (name)',
+            apply: (prev) => ({ ...prev, organization: { ...prev.organization, name: 'Renamed' } }),
+        });
+
+        expect(registriesForStep(edited, 'UNDO')).toBeNull();
+        expect(registriesForStep(undo(edited), 'REDO')).toBeNull();
+    });
+});
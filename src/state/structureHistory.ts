@@ -0,0 +1,182 @@
+import { Phase0Data } from '@/app/data/types';
+import { AgentAuthorityImpact, deriveAuthorityImpact } from '@/logic/authority/deriveAuthorityImpact';
+import { PersonaAssignments } from '@/logic/persona/personaIdentityMapping';
+import { PolicySet } from '@/logic/policy/policyApplication';
+
+/**
+ * Structure History (Phase 9B)
+ *
+ * Command-based undo/redo for structural edits.
+ *
+ * Every edit is a StructureCommand: a label plus a pure apply(prev) → next.
+ * Executing a command records a HistoryEntry holding the state before and after,
+ * so undo and redo are exact and never re-run command logic.
+ *
+ * Pure functions only - the store owns the React state.
+ *
+ * Phase 9C: A step may also replace registry contents held outside the structure,
+ * such as persona identities and the Agent ID → Persona ID mapping (snapshot
+ * rollback) or learned policies and overrides (constitution import, Phase 9D). The entry records them before and after; the store applies the
+ * after side once the step is accepted, and the side registriesForStep names
+ * whenever it undoes or redoes the step.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A structural edit.
+ *
+ * coalesceKey: consecutive commands with the same key inside COALESCE_WINDOW_MS
+ * merge into one entry (e.g. dragging a slider or typing a mission statement).
+ */
+export interface StructureCommand {
+    label: (prev: Phase0Data) => string;
+    apply: (prev: Phase0Data) => Phase0Data;
+    coalesceKey?: string;
+    registries?: RegistryChange;
+}
+
+/**
+ * Registry contents a step replaces, complete (never merged).
+ */
+export interface RegistryContents {
+    personas: PersonaAssignments;           // Identities and the Agent ID → Persona ID mapping
+    policies?: PolicySet;                   // Phase 9D: Learned policies and overrides, when the step replaces them
+}
+
+/**
+ * Registry contents around a step.
+ */
+export interface RegistryChange {
+    before: RegistryContents;
+    after: RegistryContents;
+}
+
+/**
+ * Recorded, reversible step.
+ */
+export interface HistoryEntry {
+    id: string;
+    label: string;
+    executedAt: string;                     // ISO timestamp
+    coalesceKey?: string;
+    before: Phase0Data;
+    after: Phase0Data;
+    authorityImpact: AgentAuthorityImpact[]; // Effective agent authority changes caused by this step
+    registries?: RegistryChange;            // Only for steps that replaced registry contents
+}
+
+export interface StructureHistoryState {
+    present: Phase0Data;
+    past: HistoryEntry[];     // Oldest first
+    future: HistoryEntry[];   // Next redo first
+}
+
+const MAX_HISTORY = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+/**
+ * Start a fresh history at the given state (used on load and external sync).
+ */
+export function createHistory(present: Phase0Data): StructureHistoryState {
+    return { present, past: [], future: [] };
+}
+
+/**
+ * Execute a command and record it.
+ * No-op commands (apply returns the same reference) are not recorded.
+ * Executing a new command clears the redo stack.
+ */
+export function executeCommand(
+    state: StructureHistoryState,
+    command: StructureCommand,
+    now: Date = new Date()
+): StructureHistoryState {
+    const next = command.apply(state.present);
+    if (next === state.present) {
+        return state;
+    }
+
+    const last = state.past[state.past.length - 1];
+    const canCoalesce =
+        command.coalesceKey !== undefined &&
+        !command.registries &&
+        last?.coalesceKey === command.coalesceKey &&
+        state.future.length === 0 &&
+        now.getTime() - new Date(last.executedAt).getTime() <= COALESCE_WINDOW_MS;
+
+    if (canCoalesce) {
+        const merged: HistoryEntry = {
+            ...last,
+            executedAt: now.toISOString(),
+            after: next,
+            authorityImpact: deriveAuthorityImpact(last.before, next),
+        };
+        return { present: next, past: [...state.past.slice(0, -1), merged], future: [] };
+    }
+
+    const entry: HistoryEntry = {
+        id: `history-${now.getTime()}-${Math.random().toString(36).substring(2, 9)}`,
+        label: command.label(state.present),
+        executedAt: now.toISOString(),
+        coalesceKey: command.coalesceKey,
+        before: state.present,
+        after: next,
+        authorityImpact: deriveAuthorityImpact(state.present, next),
+        ...(command.registries ? { registries: command.registries } : {}),
+    };
+
+    return {
+        present: next,
+        past: [...state.past, entry].slice(-MAX_HISTORY),
+        future: [],
+    };
+}
+
+/**
+ * Step back one entry. No-op if there is nothing to undo.
+ */
+export function undo(state: StructureHistoryState): StructureHistoryState {
+    const entry = state.past[state.past.length - 1];
+    if (!entry) return state;
+
+    return {
+        present: entry.before,
+        past: state.past.slice(0, -1),
+        future: [entry, ...state.future],
+    };
+}
+
+/**
+ * Re-apply the most recently undone entry. No-op if there is nothing to redo.
+ */
+export function redo(state: StructureHistoryState): StructureHistoryState {
+    const [entry, ...rest] = state.future;
+    if (!entry) return state;
+
+    return {
+        present: entry.after,
+        past: [...state.past, entry],
+        future: rest,
+    };
+}
+
+/**
+ * The registry contents undoing or redoing the next step restores,
+ * or null if that step did not replace any.
+ */
+export function registriesForStep(
+    state: StructureHistoryState,
+    step: 'UNDO' | 'REDO'
+): RegistryContents | null {
+    if (step === 'UNDO') {
+        return state.past[state.past.length - 1]?.registries?.before ?? null;
+    }
+    return state.future[0]?.registries?.after ?? null;
+}
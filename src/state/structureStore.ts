@@ -1,87 +1,515 @@
-import { useState, useCallback } from 'react';
-import { Phase0Data, Domain, Agent } from '@/app/data/types';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { Phase0Data, Organization, Domain, Agent } from '@/app/data/types';
 import { PHASE0_DATA } from '@/app/data/phase0.data';
+import {
+    PersistenceAdapter,
+    PersistenceKind,
+    PERSISTENCE_KEYS,
+    scopePersistenceKey,
+    resolveDefaultPersistence,
+    subscribeToPersistenceChanges,
+    announcePersistenceChange,
+} from './persistence';
+import {
+    HistoryEntry,
+    StructureCommand,
+    StructureHistoryState,
+    createHistory,
+    executeCommand,
+    undo as undoHistory,
+    redo as redoHistory,
+    RegistryContents,
+    registriesForStep,
+} from './structureHistory';
+import {
+    StructureSnapshot,
+    createStructureSnapshot,
+    restoreSnapshots,
+    rollbackPersonaAssignments,
+} from '@/logic/snapshots/structureSnapshots';
+import {
+    PersonaAssignments,
+    getAgentPersonaMappings,
+    getPersonaAssignments,
+    replaceAgentPersonaMappings,
+} from '@/logic/persona/personaIdentityMapping';
+import { getAllPersonaIdentities, replacePersonaIdentities } from '@/logic/persona/personaIdentity';
+import {
+    StructureValidation,
+    validatePhase0Data,
+    summarizeValidation,
+} from '@/logic/validation/validatePhase0Data';
+import { canReparentDomain } from '@/logic/structure/domainHierarchy';
+import {
+    ActionCatalog,
+    ActionCatalogIssue,
+    DEFAULT_ACTION_CATALOG,
+    validateActionCatalog,
+} from '@/logic/actions/actionCatalog';
+import { upgradeLegacyConstraints } from '@/logic/constraints/domainConstraints';
+import { PolicySet } from '@/logic/policy/policyApplication';
+import { getAllPolicyOverrides, replacePolicyOverrides, subscribeToPolicyOverrideChanges } from '@/logic/policy/policyOverride';
+import { getAllLearnedPolicies, replaceLearnedPolicies, subscribeToLearnedPolicyChanges } from '@/logic/staging/stagedActions';
+import { getRegistryOrganizationId } from '@/logic/workspace/organizationRegistries';
+import { recordGovernanceEvent } from '@/logic/audit/auditLedger';
+
+// Phase 9A: Persistence state exposed to consumers
+export interface StructurePersistenceState {
+    kind: PersistenceKind;
+    status: 'LOADING' | 'READY' | 'SAVING' | 'ERROR';
+    lastSavedAt: string | null;
+    error: string | null;
+}
+
+// Delay before writing edits, so slider drags don't produce a save per pixel
+const SAVE_DEBOUNCE_MS = 300;
 
 export interface StructureStore {
     data: Phase0Data;
+    persistence: StructurePersistenceState;
     moveDomain: (dragIndex: number, hoverIndex: number) => void;
     moveAgent: (agentId: string, targetDomainId: string) => void;
-    addDomain: (name: string, description?: string) => void;
+    addDomain: (name: string, description?: string, parentDomainId?: string) => void;
     deleteDomain: (domainId: string) => void;
+    // Phase 9F: Nested sub-domains (null = move to top level)
+    moveDomainToParent: (domainId: string, parentDomainId: string | null) => void;
     addAgent: (domainId: string, name: string) => void;
     deleteAgent: (agentId: string) => void;
-    updateOrganization: (updates: Partial<import('@/app/data/types').Organization>) => void;
+    updateOrganization: (updates: Partial<Organization>) => void;
     // Phase 8B: Update Domain
     updateDomain: (domainId: string, updates: Partial<Domain>) => void;
+    // Phase 9B: History
+    history: {
+        past: HistoryEntry[];
+        future: HistoryEntry[];
+        canUndo: boolean;
+        canRedo: boolean;
+    };
+    undo: () => void;
+    redo: () => void;
+    // Phase 9C: Snapshots
+    snapshots: StructureSnapshot[];
+    createSnapshot: (name: string, note?: string) => StructureSnapshot;
+    rollbackToSnapshot: (snapshotId: string) => void;
+    // Phase 9D: Replace the whole structure (constitution import), with the registries when given
+    importStructure: (data: Phase0Data, label?: string, registries?: RegistryContents) => StructureValidation;
+    // Phase 9H: Action catalog (own document, not part of structure history)
+    actionCatalog: ActionCatalog;
+    updateActionCatalog: (catalog: ActionCatalog) => ActionCatalogIssue[];
+    // Phase 9E: Diagnostics for the live structure
+    validation: StructureValidation;
 }
 
-export function useStructureStore(initialData: Phase0Data = PHASE0_DATA): StructureStore {
-    const [data, setData] = useState<Phase0Data>(initialData);
+// Phase 9C: Replace (never merge) the registry contents a history step names
+function applyRegistryContents(contents: RegistryContents): void {
+    replacePersonaIdentities(contents.personas.identities);
+    replaceAgentPersonaMappings({ ...contents.personas.agentMappings });
+    if (contents.policies) {
+        replaceLearnedPolicies(contents.policies.policies);
+        replacePolicyOverrides(contents.policies.overrides);
+    }
+}
+
+/**
+ * Phase 9G: When organizationId is given, the store reads and writes that
+ * organization's own documents and refuses any structure belonging to another
+ * organization. Without it, the unscoped single-organization documents are used.
+ *
+ * Phase 9T/9U: Persona identities, policies and overrides are loaded from
+ * their stored documents into the registries; seedRegistries only runs when
+ * no persona document exists yet.
+ */
+export function useStructureStore(
+    initialData: Phase0Data = PHASE0_DATA,
+    adapter?: PersistenceAdapter,
+    organizationId?: string,
+    seedRegistries?: () => void
+): StructureStore {
+    const keys = useMemo(() => ({
+        structure: organizationId ? scopePersistenceKey(PERSISTENCE_KEYS.STRUCTURE, organizationId) : PERSISTENCE_KEYS.STRUCTURE,
+        snapshots: organizationId ? scopePersistenceKey(PERSISTENCE_KEYS.SNAPSHOTS, organizationId) : PERSISTENCE_KEYS.SNAPSHOTS,
+        actionCatalog: organizationId ? scopePersistenceKey(PERSISTENCE_KEYS.ACTION_CATALOG, organizationId) : PERSISTENCE_KEYS.ACTION_CATALOG,
+        personas: organizationId ? scopePersistenceKey(PERSISTENCE_KEYS.PERSONAS, organizationId) : PERSISTENCE_KEYS.PERSONAS,
+        policies: organizationId ? scopePersistenceKey(PERSISTENCE_KEYS.POLICIES, organizationId) : PERSISTENCE_KEYS.POLICIES,
+    }), [organizationId]);
+
+    // Phase 9G: Every structure entering the store must belong to its organization
+    const validate = useCallback(
+        (candidate: unknown) => validatePhase0Data(candidate, { organizationId }),
+        [organizationId]
+    );
+
+    // Phase 9B: All edits go through the command history; present is the live structure
+    const [history, setHistory] = useState<StructureHistoryState>(() => createHistory(initialData));
+    const data = history.present;
+
+    // Phase 9E: Edits that would leave ERROR diagnostics are refused, like imports
+    // Phase 9C: Registry contents change only with an accepted step (replacing is idempotent)
+    const execute = useCallback((command: StructureCommand) => {
+        setHistory((prev) => {
+            const next = executeCommand(prev, command);
+            if (next === prev) return prev;
+            const result = validate(next.present);
+            if (!result.valid) {
+                console.warn(`Refused edit "${command.label(prev.present)}": ${summarizeValidation(result)}`);
+                return prev;
+            }
+            if (command.registries) applyRegistryContents(command.registries.after);
+            return next;
+        });
+    }, [validate]);
+
+    // Phase 9A: Persistence wiring
+    const adapterRef = useRef<PersistenceAdapter | null>(adapter ?? null);
+    const instanceIdRef = useRef<string>('');
+    const hydratedRef = useRef(false);
+    // Set when data came from storage, so it is not immediately written back
+    const skipNextSaveRef = useRef(false);
+    const [persistence, setPersistence] = useState<StructurePersistenceState>({
+        kind: adapter?.kind ?? 'MEMORY',
+        status: 'LOADING',
+        lastSavedAt: null,
+        error: null,
+    });
+
+    const getAdapter = useCallback((): PersistenceAdapter => {
+        if (!adapterRef.current) {
+            adapterRef.current = resolveDefaultPersistence();
+        }
+        return adapterRef.current;
+    }, []);
+
+    // Phase 9C: Named snapshots (newest last), stored as their own document
+    const [snapshots, setSnapshots] = useState<StructureSnapshot[]>([]);
+
+    const loadSnapshots = useCallback(async () => {
+        try {
+            const stored = await getAdapter().load<StructureSnapshot[]>(keys.snapshots);
+            // Phase 9E: Drop snapshots whose structure no longer validates
+            const usable = (stored ?? [])
+                .map(snapshot => ({ ...snapshot, data: upgradeLegacyConstraints(snapshot.data) }))
+                .filter(snapshot => validate(snapshot.data).valid);
+            if (stored && usable.length < stored.length) {
+                console.warn(`Ignored ${stored.length - usable.length} invalid snapshot(s)`);
+            }
+            setSnapshots(restoreSnapshots(usable));
+        } catch (error) {
+            console.warn('Failed to load snapshots:', error);
+        }
+    }, [getAdapter, keys, validate]);
+
+    // Phase 9H: Action catalog, stored as its own document
+    const [actionCatalog, setActionCatalog] = useState<ActionCatalog>(DEFAULT_ACTION_CATALOG);
+
+    const loadActionCatalog = useCallback(async () => {
+        try {
+            const stored = await getAdapter().load<ActionCatalog>(keys.actionCatalog);
+            if (!stored) return;
+            const issues = validateActionCatalog(stored);
+            if (issues.length > 0) {
+                console.warn(`Ignored invalid action catalog: ${issues[0].path}: ${issues[0].message}`);
+                return;
+            }
+            setActionCatalog(stored);
+        } catch (error) {
+            console.warn('Failed to load action catalog:', error);
+        }
+    }, [getAdapter, keys]);
+
+    // Phase 9T/9U: The registries belong to this store only while its organization is active
+    const ownsRegistries = useCallback(
+        () => !organizationId || getRegistryOrganizationId() === organizationId,
+        [organizationId]
+    );
+
+    // Phase 9T/9U: The decision API reads persona identities and policies from storage
+    const saveRegistryDocuments = useCallback(async (store: PersistenceAdapter) => {
+        if (!ownsRegistries()) return;
+        const policies: PolicySet = { policies: getAllLearnedPolicies(), overrides: getAllPolicyOverrides() };
+        await store.save(keys.personas, getPersonaAssignments());
+        await store.save(keys.policies, policies);
+        announcePersistenceChange({ key: keys.personas, originId: instanceIdRef.current });
+        announcePersistenceChange({ key: keys.policies, originId: instanceIdRef.current });
+    }, [keys, ownsRegistries]);
+
+    // Set while stored documents are applied, so applying them does not save them again
+    const applyingRegistriesRef = useRef(false);
+
+    // Stored documents replace the registries; missing ones are written from them
+    const loadRegistryDocuments = useCallback(async (store: PersistenceAdapter) => {
+        const personas = await store.load<PersonaAssignments>(keys.personas);
+        const policies = await store.load<PolicySet>(keys.policies);
+        if (!ownsRegistries()) return;
+
+        applyingRegistriesRef.current = true;
+        try {
+
+            if (personas && Array.isArray(personas.identities) && typeof personas.agentMappings === 'object') {
+                replacePersonaIdentities(personas.identities);
+                replaceAgentPersonaMappings({ ...personas.agentMappings });
+            } else if (personas) {
+                console.warn('Ignored invalid persona identities document');
+            } else if (getAllPersonaIdentities().length === 0) {
+                seedRegistries?.();
+            }
+
+            if (policies && Array.isArray(policies.policies) && Array.isArray(policies.overrides)) {
+                replaceLearnedPolicies(policies.policies);
+                replacePolicyOverrides(policies.overrides);
+            } else if (policies) {
+                console.warn('Ignored invalid policies document');
+            }
+        } finally {
+            applyingRegistriesRef.current = false;
+        }
+
+        if (!personas || !policies) {
+            await saveRegistryDocuments(store);
+        }
+    }, [keys, ownsRegistries, seedRegistries, saveRegistryDocuments]);
+
+    const loadFromStorage = useCallback(async () => {
+        const store = getAdapter();
+        try {
+            // Phase 9L: Prose constraints from earlier versions become notes
+            const stored = upgradeLegacyConstraints(await store.load<Phase0Data>(keys.structure));
+            // Phase 9E: Never adopt a stored document that fails validation
+            const storedValidation = stored ? validate(stored) : null;
+            if (stored && storedValidation && !storedValidation.valid) {
+                throw new Error(`Stored structure is invalid: ${summarizeValidation(storedValidation)}`);
+            }
+            if (stored) {
+                // Externally loaded state starts a fresh history
+                skipNextSaveRef.current = true;
+                setHistory(createHistory(stored));
+            } else {
+                // First run: seed storage with the initial structure
+                await store.save(keys.structure, initialData);
+            }
+            await loadRegistryDocuments(store);
+            setPersistence((prev) => ({ ...prev, kind: store.kind, status: 'READY', error: null }));
+        } catch (error) {
+            setPersistence((prev) => ({
+                ...prev,
+                kind: store.kind,
+                status: 'ERROR',
+                error: error instanceof Error ? error.message : String(error),
+            }));
+        } finally {
+            hydratedRef.current = true;
+        }
+    }, [getAdapter, initialData, keys, validate, loadRegistryDocuments]);
+
+    // Hydrate once on mount, then follow saves made in other tabs
+    useEffect(() => {
+        instanceIdRef.current = crypto.randomUUID();
+        loadFromStorage();
+        loadSnapshots();
+        loadActionCatalog();
+
+        return subscribeToPersistenceChanges((message) => {
+            if (message.originId === instanceIdRef.current) return;
+            if (message.key === keys.structure) {
+                loadFromStorage();
+            } else if (message.key === keys.snapshots) {
+                loadSnapshots();
+            } else if (message.key === keys.actionCatalog) {
+                loadActionCatalog();
+            } else if (message.key === keys.personas || message.key === keys.policies) {
+                loadRegistryDocuments(getAdapter())
+                    .catch((error) => console.warn('Failed to load persona identities and policies:', error));
+            }
+        });
+    }, [loadFromStorage, loadSnapshots, loadActionCatalog, loadRegistryDocuments, getAdapter, keys]);
+
+    // Write every local edit back to storage (debounced)
+    useEffect(() => {
+        if (!hydratedRef.current) return;
+        if (skipNextSaveRef.current) {
+            skipNextSaveRef.current = false;
+            return;
+        }
+
+        const timer = setTimeout(async () => {
+            const store = getAdapter();
+            setPersistence((prev) => ({ ...prev, status: 'SAVING' }));
+            try {
+                await store.save(keys.structure, data);
+                // Rollbacks, undo, redo and imports change the registries with the structure
+                await saveRegistryDocuments(store);
+                announcePersistenceChange({ key: keys.structure, originId: instanceIdRef.current });
+                setPersistence({
+                    kind: store.kind,
+                    status: 'READY',
+                    lastSavedAt: new Date().toISOString(),
+                    error: null,
+                });
+            } catch (error) {
+                setPersistence((prev) => ({
+                    ...prev,
+                    kind: store.kind,
+                    status: 'ERROR',
+                    error: error instanceof Error ? error.message : String(error),
+                }));
+            }
+        }, SAVE_DEBOUNCE_MS);
+
+        return () => clearTimeout(timer);
+    }, [data, getAdapter, keys, saveRegistryDocuments]);
+
+    // Phase 9U: Confirmed policies, new overrides and lifecycle sweeps change the
+    // registries without touching the structure. Changes made together are saved once.
+    useEffect(() => {
+        let saveQueued = false;
+        const queueSave = () => {
+            if (!hydratedRef.current || applyingRegistriesRef.current || saveQueued) return;
+            saveQueued = true;
+            queueMicrotask(() => {
+                saveQueued = false;
+                saveRegistryDocuments(getAdapter())
+                    .catch((error) => console.warn('Failed to save policies:', error));
+            });
+        };
+        const unsubscribePolicies = subscribeToLearnedPolicyChanges(queueSave);
+        const unsubscribeOverrides = subscribeToPolicyOverrideChanges(queueSave);
+        return () => {
+            unsubscribePolicies();
+            unsubscribeOverrides();
+        };
+    }, [getAdapter, saveRegistryDocuments]);
 
     // Reorder domains within the organization
     const moveDomain = useCallback((dragIndex: number, hoverIndex: number) => {
-        setData((prev) => {
-            const newDomains = [...prev.domains];
-            const [draggedDomain] = newDomains.splice(dragIndex, 1);
-            newDomains.splice(hoverIndex, 0, draggedDomain);
-            return { ...prev, domains: newDomains };
+        execute({
+            label: (prev) => `Reorder domain ${prev.domains[dragIndex]?.name ?? ''}`.trim(),
+            apply: (prev) => {
+                if (dragIndex === hoverIndex || !prev.domains[dragIndex]) return prev;
+                const newDomains = [...prev.domains];
+                const [draggedDomain] = newDomains.splice(dragIndex, 1);
+                newDomains.splice(hoverIndex, 0, draggedDomain);
+                return { ...prev, domains: newDomains };
+            },
         });
-    }, []);
+    }, [execute]);
 
     // Move an agent to a different domain
     const moveAgent = useCallback((agentId: string, targetDomainId: string) => {
-        setData((prev) => {
-            // Find the agent
-            const agentIndex = prev.agents.findIndex(a => a.id === agentId);
-            if (agentIndex === -1) return prev;
+        execute({
+            label: (prev) => {
+                const agent = prev.agents.find(a => a.id === agentId);
+                const target = prev.domains.find(d => d.id === targetDomainId);
+                return `Move ${agent?.name ?? 'agent'} to ${target?.name ?? 'domain'}`;
+            },
+            apply: (prev) => {
+                // Find the agent
+                const agentIndex = prev.agents.findIndex(a => a.id === agentId);
+                if (agentIndex === -1) return prev;
 
-            const agent = prev.agents[agentIndex];
+                const agent = prev.agents[agentIndex];
 
-            // If already in target domain, do nothing
-            if (agent.domainId === targetDomainId) return prev;
+                // If already in target domain, do nothing
+                if (agent.domainId === targetDomainId) return prev;
 
-            // Update agent's domainId
-            const newAgents = [...prev.agents];
-            newAgents[agentIndex] = { ...agent, domainId: targetDomainId };
+                // Update agent's domainId
+                const newAgents = [...prev.agents];
+                newAgents[agentIndex] = { ...agent, domainId: targetDomainId };
 
-            return { ...prev, agents: newAgents };
+                return { ...prev, agents: newAgents };
+            },
         });
-    }, []);
+    }, [execute]);
 
     // Add a new Domain
-    const addDomain = useCallback((name: string, description: string = '') => {
-        const newDomain: Domain = {
-            id: crypto.randomUUID(),
-            name,
-            mission: description,
-            status: 'ACTIVE',
-            authorityCeiling: 1, // Default to low authority for safety
-        };
+    const addDomain = useCallback((name: string, description: string = '', parentDomainId?: string) => {
+        const domainId = crypto.randomUUID();
 
-        setData((prev) => ({
-            ...prev,
-            domains: [...prev.domains, newDomain]
-        }));
-    }, []);
+        execute({
+            label: () => parentDomainId ? `Add sub-domain ${name}` : `Add domain ${name}`,
+            apply: (prev) => {
+                if (parentDomainId && !prev.domains.some(d => d.id === parentDomainId)) return prev;
+
+                const newDomain: Domain = {
+                    id: domainId,
+                    organizationId: prev.organization.id,
+                    name,
+                    mission: description,
+                    status: 'DRAFT',
+                    authorityCeiling: 1, // Default to low authority for safety
+                    allowedActionCategories: [],
+                    scope: '',
+                    escalationPosture: prev.organization.escalationBaseline, // Inherit org posture
+                    constraints: [],
+                    ...(parentDomainId ? { parentDomainId } : {}),
+                };
+                return {
+                    ...prev,
+                    domains: [...prev.domains, newDomain]
+                };
+            },
+        });
+    }, [execute]);
 
     // Delete a Domain (only if empty)
     const deleteDomain = useCallback((domainId: string) => {
-        setData((prev) => {
-            // Check if domain has agents
-            const hasAgents = prev.agents.some(a => a.domainId === domainId);
-            if (hasAgents) {
-                // In a real app we might return an error, but for this simpler store 
-                // we'll just log and ignore (UI should strictly prevent this anyway via UX)
-                console.warn('Cannot delete non-empty domain');
-                return prev;
-            }
+        execute({
+            label: (prev) => `Delete domain ${prev.domains.find(d => d.id === domainId)?.name ?? ''}`.trim(),
+            apply: (prev) => {
+                // Check if domain has agents
+                const hasAgents = prev.agents.some(a => a.domainId === domainId);
+                if (hasAgents) {
+                    // In a real app we might return an error, but for this simpler store 
+                    // we'll just log and ignore (UI should strictly prevent this anyway via UX)
+                    console.warn('Cannot delete non-empty domain');
+                    return prev;
+                }
 
-            return {
-                ...prev,
-                domains: prev.domains.filter(d => d.id !== domainId)
-            };
+                // Phase 9F: Sub-domains must be moved or deleted first
+                if (prev.domains.some(d => d.parentDomainId === domainId)) {
+                    console.warn('Cannot delete domain with sub-domains');
+                    return prev;
+                }
+
+                if (!prev.domains.some(d => d.id === domainId)) return prev;
+
+                return {
+                    ...prev,
+                    domains: prev.domains.filter(d => d.id !== domainId)
+                };
+            },
         });
-    }, []);
+    }, [execute]);
+
+    // Phase 9F: Move a domain under another domain, or back to the top level
+    const moveDomainToParent = useCallback((domainId: string, parentDomainId: string | null) => {
+        execute({
+            label: (prev) => {
+                const domain = prev.domains.find(d => d.id === domainId);
+                const parent = parentDomainId ? prev.domains.find(d => d.id === parentDomainId) : null;
+                return `Move ${domain?.name ?? 'domain'} to ${parent?.name ?? prev.organization.name}`;
+            },
+            apply: (prev) => {
+                const index = prev.domains.findIndex(d => d.id === domainId);
+                if (index === -1) return prev;
+
+                const domain = prev.domains[index];
+                if ((domain.parentDomainId ?? null) === parentDomainId) return prev;
+
+                // Refuse cycles: a domain cannot move under itself or its descendants
+                if (!canReparentDomain(prev.domains, domainId, parentDomainId)) {
+                    console.warn('Cannot move domain under itself or one of its sub-domains');
+                    return prev;
+                }
+
+                const moved: Domain = { ...domain, parentDomainId: parentDomainId ?? undefined };
+                if (!parentDomainId) delete moved.parentDomainId;
+
+                const newDomains = [...prev.domains];
+                newDomains[index] = moved;
+
+                return { ...prev, domains: newDomains };
+            },
+        });
+    }, [execute]);
 
     // Add a new Agent
     const addAgent = useCallback((domainId: string, name: string) => {
@@ -96,47 +524,213 @@ export function useStructureStore(initialData: Phase0Data = PHASE0_DATA): Struct
             escalationBehavior: 'HUMAN_REQUIRED' // Safest default
         };
 
-        setData((prev) => ({
-            ...prev,
-            agents: [...prev.agents, newAgent]
-        }));
-    }, []);
+        execute({
+            label: (prev) => `Add agent ${name} to ${prev.domains.find(d => d.id === domainId)?.name ?? 'domain'}`,
+            apply: (prev) => ({
+                ...prev,
+                agents: [...prev.agents, newAgent]
+            }),
+        });
+    }, [execute]);
 
     // Delete an Agent
     const deleteAgent = useCallback((agentId: string) => {
-        setData((prev) => ({
-            ...prev,
-            agents: prev.agents.filter(a => a.id !== agentId)
-        }));
-    }, []);
+        execute({
+            label: (prev) => `Delete agent ${prev.agents.find(a => a.id === agentId)?.name ?? ''}`.trim(),
+            apply: (prev) => {
+                if (!prev.agents.some(a => a.id === agentId)) return prev;
+                return {
+                    ...prev,
+                    agents: prev.agents.filter(a => a.id !== agentId)
+                };
+            },
+        });
+    }, [execute]);
 
     // Phase 8A: Update Organization
     const updateOrganization = useCallback((updates: Partial<Organization>) => {
-        setData((prev) => ({
-            ...prev,
-            organization: { ...prev.organization, ...updates }
-        }));
-    }, []);
+        const fields = Object.keys(updates).sort().join(',');
+        execute({
+            label: () => `Update organization (${fields})`,
+            apply: (prev) => ({
+                ...prev,
+                organization: { ...prev.organization, ...updates }
+            }),
+            coalesceKey: `organization:${fields}`,
+        });
+    }, [execute]);
 
     // Phase 8B: Update Domain
     const updateDomain = useCallback((domainId: string, updates: Partial<Domain>) => {
-        setData((prev) => ({
-            ...prev,
-            domains: prev.domains.map(d =>
-                d.id === domainId ? { ...d, ...updates } : d
-            )
-        }));
+        const fields = Object.keys(updates).sort().join(',');
+        execute({
+            label: (prev) => `Update ${prev.domains.find(d => d.id === domainId)?.name ?? 'domain'} (${fields})`,
+            apply: (prev) => ({
+                ...prev,
+                domains: prev.domains.map(d =>
+                    d.id === domainId ? { ...d, ...updates } : d
+                )
+            }),
+            coalesceKey: `domain:${domainId}:${fields}`,
+        });
+    }, [execute]);
+
+    // Phase 9B: Undo / Redo
+    // Phase 9C: Steps that replaced registry contents put them back too (replacing is idempotent)
+    const undo = useCallback(() => {
+        setHistory((prev) => {
+            const registries = registriesForStep(prev, 'UNDO');
+            if (registries) applyRegistryContents(registries);
+            return undoHistory(prev);
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory((prev) => {
+            const registries = registriesForStep(prev, 'REDO');
+            if (registries) applyRegistryContents(registries);
+            return redoHistory(prev);
+        });
     }, []);
 
+    // Phase 9C: Capture the current structure as a named, immutable snapshot
+    const createSnapshot = useCallback((name: string, note?: string): StructureSnapshot => {
+        // The identities travel with the snapshot, so rollback never depends on the live registry
+        const personaMappings = getAgentPersonaMappings();
+        const mapped = new Set(Object.values(personaMappings));
+        const snapshot = createStructureSnapshot(
+            name,
+            {
+                data,
+                personaMappings,
+                personaIdentities: getAllPersonaIdentities().filter(identity => mapped.has(identity.personaId)),
+            },
+            note
+        );
+
+        const next = [...snapshots, snapshot];
+        setSnapshots(next);
+        getAdapter()
+            .save(keys.snapshots, next)
+            .then(() => announcePersistenceChange({ key: keys.snapshots, originId: instanceIdRef.current }))
+            .catch((error) => console.warn('Failed to save snapshots:', error));
+
+        return snapshot;
+    }, [data, snapshots, getAdapter, keys]);
+
+    // Phase 9C: Rollback is a regular history step, so it can itself be undone
+    const rollbackToSnapshot = useCallback((snapshotId: string) => {
+        const snapshot = snapshots.find(s => s.snapshotId === snapshotId);
+        if (!snapshot) {
+            console.warn(`Snapshot ${snapshotId} not found`);
+            return;
+        }
+        if (!validate(snapshot.data).valid) {
+            console.warn(`Snapshot ${snapshotId} is invalid and cannot be restored`);
+            return;
+        }
+
+        // The persona assignments are part of the step, so undo and redo restore them with the structure
+        const before = getPersonaAssignments();
+        execute({
+            label: () => `Roll back to "${snapshot.name}"`,
+            // Snapshots are frozen; the live structure gets a mutable copy
+            apply: () => JSON.parse(JSON.stringify(snapshot.data)) as Phase0Data,
+            registries: {
+                before: { personas: before },
+                after: { personas: rollbackPersonaAssignments(before, snapshot) },
+            },
+        });
+    }, [snapshots, execute, validate]);
+
+    // Phase 9D: Replace the whole structure; undoable like any other edit.
+    // Imported registries are part of the same step, so undo restores them too.
+    const importStructure = useCallback((
+        incoming: Phase0Data,
+        label: string = 'Import constitution',
+        registries?: RegistryContents
+    ): StructureValidation => {
+        const imported = upgradeLegacyConstraints(incoming);
+        // Phase 9E: Refuse structures with ERROR diagnostics
+        const result = validate(imported);
+        if (!result.valid) {
+            return result;
+        }
+
+        const before: RegistryContents = {
+            personas: getPersonaAssignments(),
+            policies: { policies: getAllLearnedPolicies(), overrides: getAllPolicyOverrides() },
+        };
+        execute({
+            label: () => label,
+            apply: () => imported,
+            ...(registries ? { registries: { before, after: registries } } : {}),
+        });
+
+        // Phase 9R: Imports replace governance state wholesale, so they are audited like any decision
+        const count = (value: { length: number } | undefined) => (value ? String(value.length) : null);
+        recordGovernanceEvent({
+            type: 'CONSTITUTION_IMPORTED',
+            actor: 'current-user', // Placeholder
+            subjectId: imported.organization.id,
+            summary: label,
+            changes: [
+                { field: 'domains', before: count(data.domains), after: count(imported.domains) },
+                { field: 'agents', before: count(data.agents), after: count(imported.agents) },
+                ...(registries ? [
+                    { field: 'personaIdentities', before: count(before.personas.identities), after: count(registries.personas.identities) },
+                    { field: 'learnedPolicies', before: count(before.policies?.policies), after: count(registries.policies?.policies) },
+                    { field: 'overrides', before: count(before.policies?.overrides), after: count(registries.policies?.overrides) },
+                ] : []),
+            ],
+        });
+        return result;
+    }, [data, execute, validate]);
+
+    // Phase 9H: Replace the action catalog; invalid catalogs are refused
+    const updateActionCatalog = useCallback((next: ActionCatalog): ActionCatalogIssue[] => {
+        const issues = validateActionCatalog(next);
+        if (issues.length > 0) {
+            return issues;
+        }
+
+        setActionCatalog(next);
+        getAdapter()
+            .save(keys.actionCatalog, next)
+            .then(() => announcePersistenceChange({ key: keys.actionCatalog, originId: instanceIdRef.current }))
+            .catch((error) => console.warn('Failed to save action catalog:', error));
+        return issues;
+    }, [getAdapter, keys]);
+
+    // Phase 9E: Live diagnostics (warnings such as ceilings above the org ceiling)
+    const validation = useMemo(() => validate(data), [data, validate]);
+
     return {
         data,
+        persistence,
         moveDomain,
         moveAgent,
         addDomain,
         deleteDomain,
+        moveDomainToParent,
         addAgent,
         deleteAgent,
         updateOrganization,
-        updateDomain
+        updateDomain,
+        history: {
+            past: history.past,
+            future: history.future,
+            canUndo: history.past.length > 0,
+            canRedo: history.future.length > 0,
+        },
+        undo,
+        redo,
+        snapshots,
+        createSnapshot,
+        rollbackToSnapshot,
+        importStructure,
+        actionCatalog,
+        updateActionCatalog,
+        validation
     };
 }
@@ -0,0 +1,202 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Phase0Data } from '@/app/data/types';
+import { PHASE0_DATA } from '@/app/data/phase0.data';
+import {
+    PersistenceAdapter,
+    PERSISTENCE_KEYS,
+    scopePersistenceKey,
+    resolveDefaultPersistence,
+    subscribeToPersistenceChanges,
+    announcePersistenceChange,
+} from './persistence';
+import {
+    Workspace,
+    WorkspaceOrganization,
+    createWorkspace,
+    createWorkspaceOrganization,
+    createEmptyOrganizationData,
+    addWorkspaceOrganization,
+    setActiveOrganization,
+    renameWorkspaceOrganization,
+    isWorkspace,
+} from '@/logic/workspace/workspace';
+import { activateOrganizationRegistries } from '@/logic/workspace/organizationRegistries';
+import { initializePersonaIdentityMappings } from '@/logic/persona/personaIdentityMapping';
+import { validatePhase0Data } from '@/logic/validation/validatePhase0Data';
+import { upgradeLegacyConstraints } from '@/logic/constraints/domainConstraints';
+
+/**
+ * Workspace Store (Phase 9G)
+ *
+ * Holds the organization directory and the active organization.
+ * The structure store is mounted per organization (see StructureProvider),
+ * so history, snapshots and persisted documents never mix between organizations.
+ */
+
+export interface WorkspaceStore {
+    workspace: Workspace;
+    activeOrganization: WorkspaceOrganization;
+    status: 'LOADING' | 'READY' | 'ERROR';
+    error: string | null;
+    // Structure to show for an organization until its stored document loads
+    getInitialData: (entry: WorkspaceOrganization) => Phase0Data;
+    // Phase 9T: Fills empty registries for an organization without stored persona identities
+    getRegistrySeed: (entry: WorkspaceOrganization) => (() => void) | undefined;
+    switchOrganization: (organizationId: string) => void;
+    createOrganization: (name: string) => WorkspaceOrganization;
+    syncOrganizationName: (organizationId: string, name: string) => void;
+}
+
+export function useWorkspaceStore(
+    seedData: Phase0Data = PHASE0_DATA,
+    adapter?: PersistenceAdapter
+): WorkspaceStore {
+    const seedOrganizationId = seedData.organization.id;
+
+    // Registries must hold the active organization's entries before anything renders
+    const activate = useCallback((organizationId: string) => {
+        activateOrganizationRegistries(organizationId);
+    }, []);
+
+    const [workspace, setWorkspace] = useState<Workspace>(() => {
+        const initial = createWorkspace(seedData.organization);
+        activate(initial.activeOrganizationId);
+        return initial;
+    });
+    const workspaceRef = useRef(workspace);
+    workspaceRef.current = workspace;
+    const [status, setStatus] = useState<WorkspaceStore['status']>('LOADING');
+    const [error, setError] = useState<string | null>(null);
+
+    const adapterRef = useRef<PersistenceAdapter | null>(adapter ?? null);
+    const instanceIdRef = useRef<string>('');
+    const hydratedRef = useRef(false);
+    const skipNextSaveRef = useRef(false);
+
+    const getAdapter = useCallback((): PersistenceAdapter => {
+        if (!adapterRef.current) {
+            adapterRef.current = resolveDefaultPersistence();
+        }
+        return adapterRef.current;
+    }, []);
+
+    /**
+     * First run after upgrading from a single-organization install: move the
+     * unscoped structure and snapshot documents under their organization.
+     */
+    const migrateLegacyDocuments = useCallback(async (): Promise<Workspace> => {
+        const store = getAdapter();
+        const legacy = upgradeLegacyConstraints(await store.load<Phase0Data>(PERSISTENCE_KEYS.STRUCTURE));
+        const organization = legacy && validatePhase0Data(legacy).valid ? legacy.organization : seedData.organization;
+
+        if (legacy && organization === legacy.organization) {
+            const structureKey = scopePersistenceKey(PERSISTENCE_KEYS.STRUCTURE, organization.id);
+            if (!(await store.load(structureKey))) {
+                await store.save(structureKey, legacy);
+                const snapshots = await store.load(PERSISTENCE_KEYS.SNAPSHOTS);
+                if (snapshots) {
+                    await store.save(scopePersistenceKey(PERSISTENCE_KEYS.SNAPSHOTS, organization.id), snapshots);
+                }
+            }
+        }
+
+        return createWorkspace(organization);
+    }, [getAdapter, seedData]);
+
+    // Registries are switched before the new workspace is rendered
+    const applyWorkspace = useCallback((next: Workspace) => {
+        activate(next.activeOrganizationId);
+        setWorkspace(next);
+    }, [activate]);
+
+    const loadFromStorage = useCallback(async (keepActive: boolean) => {
+        try {
+            const store = getAdapter();
+            const stored = await store.load<unknown>(PERSISTENCE_KEYS.WORKSPACE);
+            if (stored !== null && !isWorkspace(stored)) {
+                throw new Error('Stored workspace is invalid');
+            }
+
+            const loaded = stored ?? await migrateLegacyDocuments();
+            skipNextSaveRef.current = stored !== null;
+
+            // Other tabs may add organizations; this tab keeps its own selection
+            applyWorkspace(keepActive ? setActiveOrganization(loaded, workspaceRef.current.activeOrganizationId) : loaded);
+            setStatus('READY');
+            setError(null);
+            hydratedRef.current = true;
+        } catch (loadError) {
+            // Keep the in-memory workspace and never overwrite the stored one
+            setStatus('ERROR');
+            setError(loadError instanceof Error ? loadError.message : String(loadError));
+        }
+    }, [getAdapter, migrateLegacyDocuments, applyWorkspace]);
+
+    useEffect(() => {
+        instanceIdRef.current = crypto.randomUUID();
+        loadFromStorage(false);
+
+        return subscribeToPersistenceChanges((message) => {
+            if (message.originId === instanceIdRef.current) return;
+            if (message.key === PERSISTENCE_KEYS.WORKSPACE) {
+                loadFromStorage(true);
+            }
+        });
+    }, [loadFromStorage]);
+
+    // Persist directory changes (not the selection made by loading)
+    useEffect(() => {
+        if (!hydratedRef.current) return;
+        if (skipNextSaveRef.current) {
+            skipNextSaveRef.current = false;
+            return;
+        }
+
+        getAdapter()
+            .save(PERSISTENCE_KEYS.WORKSPACE, workspace)
+            .then(() => announcePersistenceChange({ key: PERSISTENCE_KEYS.WORKSPACE, originId: instanceIdRef.current }))
+            .catch((saveError) => console.warn('Failed to save workspace:', saveError));
+    }, [workspace, getAdapter]);
+
+    const switchOrganization = useCallback((organizationId: string) => {
+        applyWorkspace(setActiveOrganization(workspaceRef.current, organizationId));
+    }, [applyWorkspace]);
+
+    const createOrganization = useCallback((name: string): WorkspaceOrganization => {
+        const entry = createWorkspaceOrganization(name);
+        applyWorkspace(setActiveOrganization(addWorkspaceOrganization(workspaceRef.current, entry), entry.organizationId));
+        return entry;
+    }, [applyWorkspace]);
+
+    const syncOrganizationName = useCallback((organizationId: string, name: string) => {
+        setWorkspace((prev) => renameWorkspaceOrganization(prev, organizationId, name));
+    }, []);
+
+    const activeOrganization = workspace.organizations.find(
+        o => o.organizationId === workspace.activeOrganizationId
+    ) ?? workspace.organizations[0];
+
+    const getInitialData = useCallback(
+        (entry: WorkspaceOrganization) =>
+            entry.organizationId === seedOrganizationId ? seedData : createEmptyOrganizationData(entry),
+        [seedOrganizationId, seedData]
+    );
+
+    const getRegistrySeed = useCallback(
+        (entry: WorkspaceOrganization) =>
+            entry.organizationId === seedOrganizationId ? initializePersonaIdentityMappings : undefined,
+        [seedOrganizationId]
+    );
+
+    return {
+        workspace,
+        activeOrganization,
+        status,
+        error,
+        getInitialData,
+        getRegistrySeed,
+        switchOrganization,
+        createOrganization,
+        syncOrganizationName,
+    };
+}
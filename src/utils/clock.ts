@@ -0,0 +1,21 @@
+/**
+ * Clocks (Phase 9P)
+ *
+ * Derivations that record a time take a Clock instead of calling new Date(),
+ * so tests, golden files and auditors can replay them at a fixed instant.
+ */
+
+/**
+ * Returns the current time as an ISO 8601 timestamp.
+ */
+export type Clock = () => string;
+
+export const systemClock: Clock = () => new Date().toISOString();
+
+/**
+ * A clock that is always at the given instant.
+ */
+export function fixedClock(timestamp: string): Clock {
+    const iso = new Date(timestamp).toISOString();
+    return () => iso;
+}
@@ -11,6 +11,7 @@ import {
     deriveDomainAuthority,
     deriveAgentAuthority,
 } from './logic/authority/deriveAuthority';
+import { getDomainAncestors } from './logic/structure/domainHierarchy';
 
 console.log('='.repeat(80));
 console.log('AUTHORITY DERIVATION ENGINE - VERIFICATION');
@@ -51,7 +52,11 @@ console.log('2. DOMAIN AUTHORITY');
 console.log('-'.repeat(80));
 
 PHASE0_DATA.domains.forEach((domain, domainIndex) => {
-    const domainAuthority = deriveDomainAuthority(PHASE0_DATA.organization, domain);
+    const domainAuthority = deriveDomainAuthority(
+        PHASE0_DATA.organization,
+        domain,
+        getDomainAncestors(PHASE0_DATA.domains, domain.id)
+    );
 
     console.log(`\nDomain ${domainIndex + 1}: ${domain.name}`);
     console.log(`Effective Authority Level: ${domainAuthority.effectiveAuthorityLevel}`);
@@ -86,7 +91,12 @@ console.log('-'.repeat(80));
 
 PHASE0_DATA.agents.slice(0, 3).forEach((agent, agentIndex) => {
     const domain = PHASE0_DATA.domains.find((d) => d.id === agent.domainId)!;
-    const agentAuthority = deriveAgentAuthority(PHASE0_DATA.organization, domain, agent);
+    const agentAuthority = deriveAgentAuthority(
+        PHASE0_DATA.organization,
+        domain,
+        agent,
+        getDomainAncestors(PHASE0_DATA.domains, domain.id)
+    );
 
     console.log(`\nAgent ${agentIndex + 1}: ${agent.name}`);
     console.log(`Role: ${agent.role}`);